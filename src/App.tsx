@@ -4,6 +4,8 @@ import LayerPanel from './components/LayerPanel/LayerPanel';
 import PropertyPanel from './components/PropertyPanel/PropertyPanel';
 import Toolbar from './components/Toolbar/Toolbar';
 import DebugHistoryModal from './components/DebugMenu/DebugHistoryModal';
+import HistoryPanel from './components/HistoryPanel/HistoryPanel';
+import Timeline from './components/Timeline/Timeline';
 import TextLayerModal from './components/Modals/TextLayerModal';
 import ShapeModal from './components/Modals/ShapeModal';
 import useCompositorStore from './store/compositorStore';
@@ -15,6 +17,7 @@ import { useAutoResetZoom } from './hooks/useAutoResetZoom';
 import { useInitializePreferences } from './hooks/useLocalStorage';
 import { usePortraitMode } from './hooks/usePortraitMode';
 import { Layer } from './types/compositor.types';
+import { decodeGIF } from './utils/gifDecoder';
 import TutorialOverlay, { useTutorialFirstVisit } from './components/Tutorial/TutorialOverlay';
 
 /**
@@ -24,6 +27,9 @@ import TutorialOverlay, { useTutorialFirstVisit } from './components/Tutorial/Tu
 function App() {
   const project = useCompositorStore((state) => state.project);
   const isDirty = useCompositorStore((state) => state.isDirty);
+  const showHistoryPanel = useCompositorStore((state) => state.ui.showHistoryPanel);
+  const toggleHistoryPanel = useCompositorStore((state) => state.toggleHistoryPanel);
+  const showTimeline = useCompositorStore((state) => state.ui.showTimeline);
   
   // Text layer modal state
   const [isTextModalOpen, setIsTextModalOpen] = useState(false);
@@ -107,6 +113,14 @@ function App() {
     for (const file of Array.from(files)) {
       if (!file.type.startsWith('image/')) continue;
       try {
+        // Animated GIFs can come in as one layer per frame; anything the decoder can't read loads as a still
+        const gif = file.type === 'image/gif' ? await file.arrayBuffer().then(decodeGIF).catch(() => null) : null;
+        if (gif && gif.frames.length > 1 && window.confirm(
+          `'${file.name}' has ${gif.frames.length} frames. Import every frame as a layer and animation frame?\n\nCancel imports only the first frame.`
+        )) {
+          useCompositorStore.getState().importAnimationLayers(file.name, gif.frames, gif.loopCount);
+          continue;
+        }
         const dataUrl = await new Promise<string>((resolve, reject) => {
           const reader = new FileReader();
           reader.onload = (e) => resolve(e.target?.result as string);
@@ -270,17 +284,20 @@ function App() {
         {isPortrait ? (
           <>
             {/* Portrait: Canvas fills full width, panels are overlay drawers */}
-            <div ref={canvasDropRef} className="flex-1 overflow-hidden relative">
-              <Canvas />
-              {isDroppingFile && (
-                <div className="absolute inset-0 z-[300] bg-black/60 flex items-center justify-center pointer-events-none rounded">
-                  <div className="border-4 border-dashed border-blue-400 rounded-2xl px-12 py-10 bg-gray-900/80 text-center">
-                    <div className="text-5xl mb-3">📂</div>
-                    <div className="text-xl font-semibold text-blue-300">Drop image(s) here</div>
-                    <div className="text-sm text-gray-400 mt-1">PNG, JPG, GIF, WebP, SVG</div>
+            <div className="flex-1 flex flex-col overflow-hidden">
+              <div ref={canvasDropRef} className="flex-1 overflow-hidden relative">
+                <Canvas />
+                {isDroppingFile && (
+                  <div className="absolute inset-0 z-[300] bg-black/60 flex items-center justify-center pointer-events-none rounded">
+                    <div className="border-4 border-dashed border-blue-400 rounded-2xl px-12 py-10 bg-gray-900/80 text-center">
+                      <div className="text-5xl mb-3">📂</div>
+                      <div className="text-xl font-semibold text-blue-300">Drop image(s) here</div>
+                      <div className="text-sm text-gray-400 mt-1">PNG, JPG, GIF, WebP, SVG</div>
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
+              </div>
+              {showTimeline && <Timeline />}
             </div>
 
             {/* Hamburger buttons - bottom corners */}
@@ -321,6 +338,16 @@ function App() {
               </>
             )}
 
+            {/* History Drawer Overlay */}
+            {showHistoryPanel && (
+              <>
+                <div className="fixed inset-0 bg-black/50 z-[150]" onClick={toggleHistoryPanel} />
+                <div id="mobile-history-drawer" className="fixed top-16 right-0 bottom-0 w-72 bg-panel-bg border-l border-border z-[160] overflow-hidden flex flex-col animate-slide-in-right shadow-2xl">
+                  <HistoryPanel />
+                </div>
+              </>
+            )}
+
             {/* Properties Drawer Overlay */}
             {showPropertiesDrawer && (
               <>
@@ -343,21 +370,29 @@ function App() {
             <div className="w-64 border-r border-border overflow-hidden flex flex-col">
               <LayerPanel />
             </div>
-            <div ref={canvasDropRef} className="flex-1 overflow-hidden relative">
-              <Canvas />
-              {isDroppingFile && (
-                <div className="absolute inset-0 z-[300] bg-black/60 flex items-center justify-center pointer-events-none rounded">
-                  <div className="border-4 border-dashed border-blue-400 rounded-2xl px-12 py-10 bg-gray-900/80 text-center">
-                    <div className="text-5xl mb-3">📂</div>
-                    <div className="text-xl font-semibold text-blue-300">Drop image(s) here</div>
-                    <div className="text-sm text-gray-400 mt-1">PNG, JPG, GIF, WebP, SVG</div>
+            <div className="flex-1 flex flex-col overflow-hidden">
+              <div ref={canvasDropRef} className="flex-1 overflow-hidden relative">
+                <Canvas />
+                {isDroppingFile && (
+                  <div className="absolute inset-0 z-[300] bg-black/60 flex items-center justify-center pointer-events-none rounded">
+                    <div className="border-4 border-dashed border-blue-400 rounded-2xl px-12 py-10 bg-gray-900/80 text-center">
+                      <div className="text-5xl mb-3">📂</div>
+                      <div className="text-xl font-semibold text-blue-300">Drop image(s) here</div>
+                      <div className="text-sm text-gray-400 mt-1">PNG, JPG, GIF, WebP, SVG</div>
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
+              </div>
+              {showTimeline && <Timeline />}
             </div>
             <div className="w-64 border-l border-border overflow-hidden flex flex-col">
               <PropertyPanel />
             </div>
+            {showHistoryPanel && (
+              <div className="w-64 border-l border-border overflow-hidden flex flex-col">
+                <HistoryPanel />
+              </div>
+            )}
           </>
         )}
       </div>
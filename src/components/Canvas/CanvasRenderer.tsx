@@ -1,8 +1,104 @@
 /* eslint-disable react-hooks/exhaustive-deps */
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import useCompositorStore from '../../store/compositorStore';
 import GridOverlay from './GridOverlay';
+import Rulers from './Rulers';
 import DragInfoTooltip from './DragInfoTooltip';
+import { resolveLayerGroups } from '../../utils/layerGroups';
+import { getCompositeOperation, getLayersAtPoint, hasBlendedLayers } from '../../utils/canvasRenderer';
+import {
+  PIXEL_TOOL_LABELS,
+  PixelPoint,
+  RGBA,
+  TRANSPARENT,
+  floodFill,
+  hexToRgba,
+  isPixelTool,
+  isStrokeCorner,
+  linePixels,
+  readPixel,
+  rgbToHex,
+  sampleImagePixel,
+  stampBrush,
+  writePixel,
+} from '../../utils/pixelTools';
+import {
+  SELECTION_TOOL_LABELS,
+  combineSelections,
+  createEllipseSelection,
+  createPolygonSelection,
+  createRectSelection,
+  createWandSelection,
+  clearSelectedPixels,
+  extractSelectedPixels,
+  getSelectionMode,
+  getSelectionOutlinePath,
+  isPixelSelected,
+  isSelectionTool,
+  translateSelection,
+} from '../../utils/pixelSelection';
+import { RULER_SIZE } from '../../utils/guides';
+import { canvasToWorld, formatTileCoordinates } from '../../utils/worldOrigin';
+import { getFrameLayers } from '../../utils/animation';
+import { Guide, Layer, PixelSelection, PixelTool, SelectionMode, SelectionTool } from '../../types/compositor.types';
+
+// Pencil/eraser stroke, fill or pixel move in progress, painted into an offscreen copy of the layer
+interface PaintStroke {
+  layerId: string;
+  tool: PixelTool | 'move-pixels';
+  originX: number; // Layer position the stroke started at (world pixels)
+  originY: number;
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  pixels: ImageData;
+  original: ImageData; // Untouched pixels, restored under removed pixel-perfect corners
+  color: RGBA;
+  size: number;
+  pixelPerfect: boolean;
+  points: PixelPoint[]; // Last painted pixels (layer-local)
+  committedSrc: string | null; // Set on mouse up; the preview stays until the layer shows these pixels
+}
+
+// Marquee/lasso being drawn, or the selection outline being moved
+interface SelectionDrag {
+  tool: SelectionTool | 'move';
+  mode: SelectionMode;
+  start: PixelPoint; // Canvas pixel where the drag started
+  points: PixelPoint[]; // Lasso path in canvas coordinates; for the others only the current pixel
+  original: PixelSelection | null; // Selection before the drag
+  lifted?: LiftedPixels; // Ctrl+drag moves the selected pixels along with the outline
+}
+
+// Selected pixels picked up for a move; the layer below them is already cleared
+interface LiftedPixels {
+  stroke: PaintStroke; // Preview of the layer, committed on mouse up like a paint stroke
+  base: ImageData; // Layer pixels with the selection cleared
+  canvas: HTMLCanvasElement; // The lifted pixels
+  x: number; // Canvas position of the lifted pixels before the drag
+  y: number;
+}
+
+// Guide being dragged out of a ruler (id null) or moved
+interface GuideDrag {
+  id: string | null;
+  axis: Guide['axis'];
+  position: number; // Canvas pixels
+}
+
+// Opacity of the previous animation frame under the current one
+const ONION_SKIN_OPACITY = 0.3;
+
+// Opacity of the progress overlay over the layers
+const PROGRESS_OVERLAY_OPACITY = 0.5;
+
+// Guide lines extend this far past the canvas (canvas pixels)
+const GUIDE_EXTENT = 100000;
+
+function getGuideLine(axis: Guide['axis'], position: number) {
+  return axis === 'x'
+    ? { x1: position, x2: position, y1: -GUIDE_EXTENT, y2: GUIDE_EXTENT }
+    : { x1: -GUIDE_EXTENT, x2: GUIDE_EXTENT, y1: position, y2: position };
+}
 
 /**
  * Canvas renderer component
@@ -21,6 +117,10 @@ function CanvasRenderer() {
   const dragLayerId = useCompositorStore((state) => state.ui.dragLayerId);
   const dragOffsetX = useCompositorStore((state) => state.ui.dragOffsetX);
   const dragOffsetY = useCompositorStore((state) => state.ui.dragOffsetY);
+  const dragSnap = useCompositorStore((state) => state.ui.dragSnap);
+  const onionSkin = useCompositorStore((state) => state.ui.onionSkin);
+  const progress = useCompositorStore((state) => state.ui.progress);
+  const showProgressOverlay = useCompositorStore((state) => state.ui.showProgressOverlay);
   const selectLayer = useCompositorStore((state) => state.selectLayer);
   const deselectAllLayers = useCompositorStore((state) => state.deselectAllLayers);
   const startDraggingLayer = useCompositorStore((state) => state.startDraggingLayer);
@@ -31,15 +131,46 @@ function CanvasRenderer() {
   const updateLayer = useCompositorStore((state) => state.updateLayer);
   const leftClickPan = useCompositorStore((state) => state.ui.leftClickPan);
   const spaceHeld = useCompositorStore((state) => state.ui.spaceHeld);
+  const pickAlphaThreshold = useCompositorStore((state) => state.ui.pickAlphaThreshold);
+  const activeTool = useCompositorStore((state) => state.ui.activeTool);
+  const paintLayer = useCompositorStore((state) => state.paintLayer);
+  const flattenLayerEffects = useCompositorStore((state) => state.flattenLayerEffects);
+  const setToolColor = useCompositorStore((state) => state.setToolColor);
+  const pixelSelection = useCompositorStore((state) => state.ui.pixelSelection);
+  const setPixelSelection = useCompositorStore((state) => state.setPixelSelection);
+  const copyPixelSelection = useCompositorStore((state) => state.copyPixelSelection);
+  const cutPixelSelection = useCompositorStore((state) => state.cutPixelSelection);
+  const deletePixelSelection = useCompositorStore((state) => state.deletePixelSelection);
+  const extractPixelSelection = useCompositorStore((state) => state.extractPixelSelection);
+  const addGuide = useCompositorStore((state) => state.addGuide);
+  const updateGuide = useCompositorStore((state) => state.updateGuide);
+  const removeGuide = useCompositorStore((state) => state.removeGuide);
+  const clearGuides = useCompositorStore((state) => state.clearGuides);
+
+  // Pixel and selection tools always use the left button; only Space switches to panning
+  const pixelToolActive = isPixelTool(activeTool);
+  const selectionToolActive = isSelectionTool(activeTool);
 
   // Effective pan mode: XOR of toggle and space key (space temporarily inverts)
-  const effectivePanMode = leftClickPan !== spaceHeld;
+  const effectivePanMode = pixelToolActive || selectionToolActive ? spaceHeld : leftClickPan !== spaceHeld;
 
   const [loadedImages, setLoadedImages] = useState<Map<string, HTMLImageElement>>(new Map());
+  const [progressImage, setProgressImage] = useState<HTMLImageElement | null>(null);
   const [isPanning, setIsPanning] = useState(false);
   const [panStart, setPanStart] = useState({ x: 0, y: 0 });
   const [hoverCoords, setHoverCoords] = useState<{ x: number; y: number } | null>(null);
+  const worldOrigin = project.canvas.worldOrigin;
+  const hoverWorld = hoverCoords && worldOrigin ? canvasToWorld(worldOrigin, hoverCoords.x, hoverCoords.y) : null;
   const [mousePos, setMousePos] = useState({ x: 0, y: 0 });
+  const paintStrokeRef = useRef<PaintStroke | null>(null);
+  const [paintVersion, setPaintVersion] = useState(0);
+  const [selectionDrag, setSelectionDrag] = useState<SelectionDrag | null>(null);
+  const [guideDrag, setGuideDrag] = useState<GuideDrag | null>(null);
+
+  const selectionOutline = useMemo(
+    () => (pixelSelection ? getSelectionOutlinePath(pixelSelection) : null),
+    [pixelSelection]
+  );
 
   /**
    * Decode base64 image data and cache it
@@ -73,6 +204,21 @@ function CanvasRenderer() {
     loadImages();
   }, [project.layers]);
 
+  /**
+   * Decode the progress overlay when a new comparison is made
+   */
+  useEffect(() => {
+    if (!progress) {
+      setProgressImage(null);
+      return;
+    }
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => { if (!cancelled) setProgressImage(img); };
+    img.src = progress.overlay;
+    return () => { cancelled = true; };
+  }, [progress]);
+
   /**
    * Initialize viewport to show canvas centered and fit on screen
    */
@@ -183,13 +329,49 @@ function CanvasRenderer() {
       // console.log(`[DEBUG] Canvas border drawn: ${borderWidth}px ${project.canvas.borderColor}`);
     }
 
-    // Sort layers by z-index for rendering
-    const sortedLayers = [...project.layers]
+    // Onion skin: the previous frame, faint, under everything of the current one
+    const animation = project.animation;
+    const frameIndex = animation?.frames.findIndex((f) => f.id === animation.activeFrameId) ?? -1;
+    if (onionSkin && animation && frameIndex > 0) {
+      const previousLayers = resolveLayerGroups(
+        getFrameLayers(project.layers, animation, animation.frames[frameIndex - 1].id),
+        project.groups
+      )
+        .filter((layer) => layer.visible)
+        .sort((a, b) => a.zIndex - b.zIndex);
+      for (const layer of previousLayers) {
+        const img = loadedImages.get(layer.id);
+        if (!img) continue;
+        ctx.globalAlpha = (layer.opacity ?? 1) * ONION_SKIN_OPACITY;
+        ctx.drawImage(img, Math.floor(layer.x), Math.floor(layer.y));
+      }
+      ctx.globalAlpha = 1;
+    }
+
+    // Sort layers by z-index for rendering (group visibility/opacity applied)
+    const sortedLayers = [...resolveLayerGroups(project.layers, project.groups)]
       .filter((layer) => layer.visible)
       .sort((a, b) => a.zIndex - b.zIndex);
 
     // console.log(`[DEBUG] Rendering ${sortedLayers.length} visible layers`);
 
+    // With a transparent background, blended layers must mix with each other only -
+    // not with the checkerboard or border - to match the exported PNG
+    let layerCtx = ctx;
+    let blendCanvas: HTMLCanvasElement | null = null;
+    if (!project.canvas.backgroundColor && hasBlendedLayers(sortedLayers)) {
+      blendCanvas = document.createElement('canvas');
+      blendCanvas.width = canvas.width;
+      blendCanvas.height = canvas.height;
+      const blendCtx = blendCanvas.getContext('2d');
+      if (blendCtx) {
+        blendCtx.imageSmoothingEnabled = false;
+        layerCtx = blendCtx;
+      } else {
+        blendCanvas = null;
+      }
+    }
+
     // Render each layer
     for (const layer of sortedLayers) {
       const img = loadedImages.get(layer.id);
@@ -214,18 +396,42 @@ function CanvasRenderer() {
         y += state.ui.dragOffsetY;
       }
 
-      // Apply opacity
-      const prevAlpha = ctx.globalAlpha;
-      ctx.globalAlpha = layer.opacity !== undefined ? layer.opacity : 1.0;
+      // Apply opacity and blend mode
+      const prevAlpha = layerCtx.globalAlpha;
+      layerCtx.globalAlpha = layer.opacity !== undefined ? layer.opacity : 1.0;
+      layerCtx.globalCompositeOperation = getCompositeOperation(layer.blendMode);
+
+      // Show an in-progress stroke instead of the layer's stored pixels
+      let source: CanvasImageSource = img;
+      const stroke = paintStrokeRef.current;
+      if (stroke && stroke.layerId === layer.id) {
+        if (stroke.committedSrc && (img.src === stroke.committedSrc || layer.imageData !== stroke.committedSrc)) {
+          paintStrokeRef.current = null;
+        } else {
+          source = stroke.canvas;
+        }
+      }
 
-      ctx.drawImage(img, x, y);
+      layerCtx.drawImage(source, x, y);
       
-      // Restore opacity
-      ctx.globalAlpha = prevAlpha;
+      // Restore opacity and blend mode
+      layerCtx.globalAlpha = prevAlpha;
+      layerCtx.globalCompositeOperation = 'source-over';
       
       // console.log(`[DEBUG] Layer rendered: ${layer.name} at (${x}, ${y}) with opacity ${ctx.globalAlpha}`);
     }
 
+    if (blendCanvas) {
+      ctx.drawImage(blendCanvas, 0, 0);
+    }
+
+    // Progress overlay: which design pixels the live canvas snapshot already matches
+    if (showProgressOverlay && progressImage) {
+      ctx.globalAlpha = PROGRESS_OVERLAY_OPACITY;
+      ctx.drawImage(progressImage, 0, 0);
+      ctx.globalAlpha = 1;
+    }
+
     // Draw export border preview on top of all layers
     if (project.canvas.exportBorderEnabled) {
       const bw = project.canvas.exportBorderWidth ?? 1;
@@ -235,7 +441,7 @@ function CanvasRenderer() {
       const half = bw / 2;
       ctx.strokeRect(half, half, canvas.width - bw, canvas.height - bw);
     }
-  }, [project, loadedImages, isDraggingLayer, dragLayerId, dragOffsetX, dragOffsetY]);
+  }, [project, loadedImages, isDraggingLayer, dragLayerId, dragOffsetX, dragOffsetY, paintVersion, onionSkin, showProgressOverlay, progressImage]);
 
   /**
    * Calculate world coordinates from mouse position
@@ -275,6 +481,391 @@ function CanvasRenderer() {
     return { x: worldX, y: worldY };
   };
 
+  /**
+   * Color of the topmost visible layer pixel under a world position
+   */
+  const sampleCanvasColor = (worldX: number, worldY: number): string | null => {
+    const sortedLayers = [...resolveLayerGroups(project.layers, project.groups)]
+      .filter((layer) => layer.visible)
+      .sort((a, b) => b.zIndex - a.zIndex);
+
+    for (const layer of sortedLayers) {
+      const img = loadedImages.get(layer.id);
+      if (!img) continue;
+      const pixel = sampleImagePixel(img, Math.floor(worldX) - Math.floor(layer.x), Math.floor(worldY) - Math.floor(layer.y));
+      if (pixel && pixel[3] > 0) return rgbToHex(pixel[0], pixel[1], pixel[2]);
+    }
+    return null;
+  };
+
+  /**
+   * Layer the pixel tools edit: the single selected layer, otherwise the
+   * topmost layer under the cursor (which then becomes selected)
+   */
+  const getPaintTarget = (worldX: number, worldY: number) => {
+    const visibleLayers = resolveLayerGroups(project.layers, project.groups).filter((layer) => layer.visible);
+    const selected = selectedLayerIds.length === 1
+      ? visibleLayers.find((layer) => layer.id === selectedLayerIds[0])
+      : undefined;
+    if (selected) return selected;
+
+    const hit = getLayersAtPoint(worldX, worldY, visibleLayers, loadedImages, pickAlphaThreshold)[0];
+    if (hit) selectLayer(hit.id, false);
+    return hit;
+  };
+
+  /**
+   * Paint the stroke up to a layer-local pixel, connecting it to the last one
+   */
+  const extendPaintStroke = (x: number, y: number) => {
+    const stroke = paintStrokeRef.current;
+    if (!stroke) return;
+
+    const last = stroke.points[stroke.points.length - 1];
+    const line = last ? linePixels(last.x, last.y, x, y).slice(1) : [{ x, y }];
+    if (line.length === 0) return;
+
+    for (const point of line) {
+      stroke.points.push(point);
+      stampBrush(stroke.pixels, point.x, point.y, stroke.size, stroke.color);
+
+      // Pixel-perfect: drop the inner corner of an L and restore what was under it
+      if (stroke.pixelPerfect && isStrokeCorner(stroke.points)) {
+        const [corner] = stroke.points.splice(stroke.points.length - 2, 1);
+        const original = readPixel(stroke.original, corner.x, corner.y);
+        if (original) writePixel(stroke.pixels, corner.x, corner.y, original);
+      }
+      if (stroke.points.length > 3) stroke.points.shift();
+    }
+
+    // Only upload the part of the layer the segment touched
+    const pad = stroke.size;
+    const xs = [line[0].x, line[line.length - 1].x, last?.x ?? x];
+    const ys = [line[0].y, line[line.length - 1].y, last?.y ?? y];
+    const minX = Math.min(...xs) - pad;
+    const minY = Math.min(...ys) - pad;
+    stroke.ctx.putImageData(
+      stroke.pixels, 0, 0,
+      minX, minY,
+      Math.max(...xs) + pad - minX + 1,
+      Math.max(...ys) + pad - minY + 1
+    );
+    setPaintVersion((v) => v + 1);
+  };
+
+  /**
+   * Write the painted pixels to the layer as one history entry
+   */
+  const commitPaintStroke = () => {
+    const stroke = paintStrokeRef.current;
+    if (!stroke || stroke.committedSrc) return;
+
+    const layer = project.layers.find((l) => l.id === stroke.layerId);
+    if (!layer) {
+      paintStrokeRef.current = null;
+      return;
+    }
+    stroke.committedSrc = stroke.canvas.toDataURL();
+    const label = stroke.tool === 'move-pixels'
+      ? 'Move selected pixels'
+      : stroke.tool === 'fill' ? 'Bucket fill' : `${PIXEL_TOOL_LABELS[stroke.tool]} stroke`;
+    paintLayer(layer.id, stroke.committedSrc, `${label} on '${layer.name}'`);
+  };
+
+  /**
+   * Paint can't go through an effect stack: offer to flatten it first
+   * @returns true when the layer has effects, so the edit must not start
+   */
+  const askToFlattenEffects = (layer: Layer): boolean => {
+    if (!layer.effects?.length) return false;
+    const count = layer.effects.length;
+    if (window.confirm(
+      `'${layer.name}' has ${count} effect${count !== 1 ? 's' : ''}. Painting needs ${count !== 1 ? 'them' : 'it'} flattened into the layer's pixels (undo brings ${count !== 1 ? 'them' : 'it'} back). Flatten now?`
+    )) {
+      flattenLayerEffects(layer.id);
+    }
+    return true;
+  };
+
+  /**
+   * Start a pixel tool action: left button uses the primary color, right button the secondary
+   */
+  const handlePixelToolDown = (tool: PixelTool, worldX: number, worldY: number, useSecondary: boolean) => {
+    const ui = useCompositorStore.getState().ui;
+
+    if (tool === 'eyedropper') {
+      const color = sampleCanvasColor(worldX, worldY);
+      if (color) setToolColor(useSecondary ? 'secondary' : 'primary', color);
+      return;
+    }
+
+    const target = getPaintTarget(worldX, worldY);
+    const img = target && loadedImages.get(target.id);
+    if (!target || !img || target.locked) return;
+
+    if (askToFlattenEffects(target)) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(img, 0, 0);
+
+    const originX = Math.floor(target.x);
+    const originY = Math.floor(target.y);
+    const localX = Math.floor(worldX) - originX;
+    const localY = Math.floor(worldY) - originY;
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const color = tool === 'eraser' ? TRANSPARENT : hexToRgba(useSecondary ? ui.secondaryColor : ui.primaryColor);
+
+    const stroke: PaintStroke = {
+      layerId: target.id,
+      tool,
+      originX,
+      originY,
+      canvas,
+      ctx,
+      pixels,
+      original: ctx.getImageData(0, 0, canvas.width, canvas.height),
+      color,
+      size: ui.brushSize,
+      pixelPerfect: ui.pixelPerfect && ui.brushSize === 1,
+      points: [],
+      committedSrc: null,
+    };
+
+    if (tool === 'fill') {
+      if (!floodFill(pixels, localX, localY, color, ui.fillTolerance, ui.fillContiguous)) return;
+      ctx.putImageData(pixels, 0, 0);
+      paintStrokeRef.current = stroke;
+      commitPaintStroke();
+      setPaintVersion((v) => v + 1);
+      return;
+    }
+
+    paintStrokeRef.current = stroke;
+    extendPaintStroke(localX, localY);
+  };
+
+  /**
+   * Pick up the selected pixels of the paint target for a Ctrl+drag move
+   * @returns null when there is nothing to move
+   */
+  const liftSelectedPixels = (worldX: number, worldY: number, selection: PixelSelection): LiftedPixels | null => {
+    const target = getPaintTarget(worldX, worldY);
+    const img = target && loadedImages.get(target.id);
+    if (!target || !img || target.locked || askToFlattenEffects(target)) return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(img, 0, 0);
+
+    const originX = Math.floor(target.x);
+    const originY = Math.floor(target.y);
+    const base = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const extracted = extractSelectedPixels(base, originX, originY, selection);
+    if (!extracted) return null;
+    clearSelectedPixels(base, originX, originY, selection);
+
+    const liftedCanvas = document.createElement('canvas');
+    liftedCanvas.width = extracted.pixels.width;
+    liftedCanvas.height = extracted.pixels.height;
+    liftedCanvas.getContext('2d')?.putImageData(extracted.pixels, 0, 0);
+
+    return {
+      stroke: {
+        layerId: target.id,
+        tool: 'move-pixels',
+        originX,
+        originY,
+        canvas,
+        ctx,
+        pixels: base,
+        original: base,
+        color: TRANSPARENT,
+        size: 1,
+        pixelPerfect: false,
+        points: [],
+        committedSrc: null,
+      },
+      base,
+      canvas: liftedCanvas,
+      x: extracted.x,
+      y: extracted.y,
+    };
+  };
+
+  /**
+   * Draw lifted pixels at an offset over the cleared layer; pixels moved off the layer are dropped
+   */
+  const placeLiftedPixels = (lifted: LiftedPixels, dx: number, dy: number) => {
+    const { stroke } = lifted;
+    stroke.ctx.putImageData(lifted.base, 0, 0);
+    stroke.ctx.drawImage(lifted.canvas, lifted.x + dx - stroke.originX, lifted.y + dy - stroke.originY);
+    // The preview (and the commit on mouse up) starts with the first pixel of movement
+    if (dx !== 0 || dy !== 0) paintStrokeRef.current = stroke;
+    setPaintVersion((v) => v + 1);
+  };
+
+  /**
+   * Start a selection: magic wand selects immediately, marquee/lasso start a drag.
+   * Pressing inside the selection without modifiers moves its outline instead,
+   * with Ctrl it moves the selected pixels too.
+   */
+  const handleSelectionToolDown = (
+    tool: SelectionTool,
+    worldX: number,
+    worldY: number,
+    shiftKey: boolean,
+    altKey: boolean,
+    ctrlKey: boolean
+  ) => {
+    const ui = useCompositorStore.getState().ui;
+    const point = { x: Math.floor(worldX), y: Math.floor(worldY) };
+    const mode = getSelectionMode(shiftKey, altKey, ui.selectionMode);
+
+    if (ctrlKey && ui.pixelSelection && isPixelSelected(ui.pixelSelection, point.x, point.y)) {
+      const lifted = liftSelectedPixels(worldX, worldY, ui.pixelSelection);
+      if (lifted) {
+        setSelectionDrag({ tool: 'move', mode, start: point, points: [point], original: ui.pixelSelection, lifted });
+      }
+      return;
+    }
+
+    if (tool === 'magic-wand') {
+      const target = getPaintTarget(worldX, worldY);
+      const img = target && loadedImages.get(target.id);
+      if (!target || !img) return;
+
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.drawImage(img, 0, 0);
+
+      const originX = Math.floor(target.x);
+      const originY = Math.floor(target.y);
+      const selection = createWandSelection(
+        ctx.getImageData(0, 0, canvas.width, canvas.height),
+        originX,
+        originY,
+        point.x - originX,
+        point.y - originY,
+        ui.wandTolerance,
+        ui.wandContiguous
+      );
+      setPixelSelection(combineSelections(ui.pixelSelection, selection, mode));
+      return;
+    }
+
+    if (mode === 'replace' && ui.pixelSelection && isPixelSelected(ui.pixelSelection, point.x, point.y)) {
+      setSelectionDrag({ tool: 'move', mode, start: point, points: [point], original: ui.pixelSelection });
+      return;
+    }
+
+    setSelectionDrag({
+      tool,
+      mode,
+      start: point,
+      points: [tool === 'lasso' ? { x: worldX, y: worldY } : point],
+      original: ui.pixelSelection,
+    });
+  };
+
+  const updateSelectionDrag = (worldX: number, worldY: number) => {
+    if (!selectionDrag) return;
+    const point = { x: Math.floor(worldX), y: Math.floor(worldY) };
+
+    if (selectionDrag.tool === 'move') {
+      const dx = point.x - selectionDrag.start.x;
+      const dy = point.y - selectionDrag.start.y;
+      if (selectionDrag.original) {
+        setPixelSelection(translateSelection(selectionDrag.original, dx, dy));
+      }
+      if (selectionDrag.lifted) placeLiftedPixels(selectionDrag.lifted, dx, dy);
+      return;
+    }
+
+    setSelectionDrag({
+      ...selectionDrag,
+      points: selectionDrag.tool === 'lasso' ? [...selectionDrag.points, { x: worldX, y: worldY }] : [point],
+    });
+  };
+
+  /**
+   * Turn the finished marquee/lasso into a selection and combine it with the previous one
+   * A click without dragging clears the selection in replace mode
+   */
+  const finishSelectionDrag = () => {
+    if (!selectionDrag) return;
+    setSelectionDrag(null);
+    const { tool, mode, start, points, original } = selectionDrag;
+    if (tool === 'move') return;
+
+    const end = points[points.length - 1];
+    let selection: PixelSelection | null;
+    if (tool === 'lasso') {
+      selection = createPolygonSelection(points);
+    } else if (end.x === start.x && end.y === start.y) {
+      selection = null;
+    } else {
+      selection = tool === 'marquee-ellipse' ? createEllipseSelection(start, end) : createRectSelection(start, end);
+    }
+    setPixelSelection(combineSelections(original, selection, mode));
+  };
+
+  /**
+   * Start dragging a new guide out of a ruler
+   */
+  const handleStartGuide = (axis: Guide['axis'], e: React.MouseEvent) => {
+    const world = getWorldCoordinates(e.clientX, e.clientY);
+    setGuideDrag({ id: null, axis, position: Math.round(axis === 'x' ? world.x : world.y) });
+  };
+
+  /**
+   * Start moving an existing guide (locked guides stay put)
+   */
+  const handleGuideMouseDown = (guide: Guide, e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    if (guide.locked) return;
+    setGuideDrag({ id: guide.id, axis: guide.axis, position: guide.position });
+  };
+
+  /**
+   * Drop the dragged guide; dropping it back on a ruler removes it
+   * @param clientX - Drop position, or null to cancel the drag
+   */
+  const finishGuideDrag = (clientX: number | null, clientY: number | null) => {
+    if (!guideDrag) return;
+    setGuideDrag(null);
+    const container = containerRef.current;
+    if (clientX === null || clientY === null || !container) return;
+
+    const rect = container.getBoundingClientRect();
+    const overRuler = guideDrag.axis === 'x'
+      ? clientX - rect.left < RULER_SIZE
+      : clientY - rect.top < RULER_SIZE;
+
+    if (guideDrag.id === null) {
+      if (!overRuler) addGuide(guideDrag.axis, guideDrag.position);
+    } else if (overRuler) {
+      removeGuide(guideDrag.id);
+    } else {
+      const guide = project.rulers.guides.find((g) => g.id === guideDrag.id);
+      if (guide && guide.position !== guideDrag.position) {
+        updateGuide(guideDrag.id, { position: guideDrag.position });
+      }
+    }
+  };
+
   /**
    * Handle canvas mouse events for layer dragging and panning
    * When leftClickPan is ON:  left-click pans, middle-click drags layers
@@ -304,6 +895,22 @@ function CanvasRenderer() {
       return;
     }
 
+    // Pixel tools: left = primary color, right = secondary color
+    if (pixelToolActive && (e.button === 0 || e.button === 2)) {
+      e.preventDefault();
+      const { x: worldX, y: worldY } = getWorldCoordinates(e.clientX, e.clientY);
+      handlePixelToolDown(activeTool, worldX, worldY, e.button === 2);
+      return;
+    }
+
+    // Selection tools: Shift adds, Alt subtracts, Shift+Alt intersects
+    if (selectionToolActive && e.button === 0) {
+      e.preventDefault();
+      const { x: worldX, y: worldY } = getWorldCoordinates(e.clientX, e.clientY);
+      handleSelectionToolDown(activeTool, worldX, worldY, e.shiftKey, e.altKey, e.ctrlKey || e.metaKey);
+      return;
+    }
+
     // Drag button (left-click normally, middle-click in pan mode)
     if (!isDragButton) {
       return;
@@ -316,35 +923,40 @@ function CanvasRenderer() {
 
     const { x: worldX, y: worldY } = getWorldCoordinates(e.clientX, e.clientY);
 
-    // Find layer at this position (check in reverse order - top layer first)
-    const sortedLayers = [...project.layers]
-      .filter((layer) => layer.visible)
-      .sort((a, b) => b.zIndex - a.zIndex);
-
-    for (const layer of sortedLayers) {
-      if (
-        worldX >= layer.x &&
-        worldX < layer.x + layer.width &&
-        worldY >= layer.y &&
-        worldY < layer.y + layer.height
-      ) {
-        // Don't start dragging if layer is locked
-        if (layer.locked) {
-          selectLayer(layer.id, e.ctrlKey || e.metaKey);
-          return;
-        }
+    // Layers with a visible pixel under the cursor, top layer first (transparent pixels are click-through)
+    const hits = getLayersAtPoint(
+      worldX,
+      worldY,
+      resolveLayerGroups(project.layers, project.groups),
+      loadedImages,
+      pickAlphaThreshold
+    );
+
+    // Alt-click selects through: each click picks the next layer down under the cursor
+    if (e.altKey && hits.length > 0) {
+      const current = hits.findIndex((layer) => selectedLayerIds.includes(layer.id));
+      selectLayer(hits[(current + 1) % hits.length].id, false);
+      return;
+    }
 
-        const isMultiSelect = e.ctrlKey || e.metaKey;
-        const isAlreadySelected = selectedLayerIds.includes(layer.id);
-        const shouldKeepSelection = isAlreadySelected && !isMultiSelect;
-        
-        if (!shouldKeepSelection) {
-          selectLayer(layer.id, isMultiSelect);
-        }
-        
-        startDraggingLayer(layer.id, worldX, worldY);
+    const layer = hits[0];
+    if (layer) {
+      // Don't start dragging if layer (or its group) is locked
+      if (layer.locked) {
+        selectLayer(layer.id, e.ctrlKey || e.metaKey);
         return;
       }
+
+      const isMultiSelect = e.ctrlKey || e.metaKey;
+      const isAlreadySelected = selectedLayerIds.includes(layer.id);
+      const shouldKeepSelection = isAlreadySelected && !isMultiSelect;
+      
+      if (!shouldKeepSelection) {
+        selectLayer(layer.id, isMultiSelect);
+      }
+      
+      startDraggingLayer(layer.id, worldX, worldY);
+      return;
     }
 
     // No layer clicked — if this is left-click (non-pan mode), start panning as fallback
@@ -381,13 +993,36 @@ function CanvasRenderer() {
       return;
     }
 
+    if (guideDrag) {
+      const position = Math.round(guideDrag.axis === 'x' ? worldX : worldY);
+      if (position !== guideDrag.position) setGuideDrag({ ...guideDrag, position });
+      return;
+    }
+
+    if (selectionDrag) {
+      updateSelectionDrag(worldX, worldY);
+      return;
+    }
+
+    const stroke = paintStrokeRef.current;
+    if (stroke && !stroke.committedSrc) {
+      extendPaintStroke(Math.floor(worldX) - stroke.originX, Math.floor(worldY) - stroke.originY);
+      return;
+    }
+
     const isDragging = useCompositorStore.getState().ui.isDraggingLayer;
     if (isDragging) {
-      updateDragPosition(worldX, worldY);
+      // Alt bypasses smart snapping
+      updateDragPosition(worldX, worldY, e.altKey);
     }
   };
 
-  const handleCanvasMouseUp = () => {
+  const handleCanvasMouseUp = (e: React.MouseEvent<HTMLDivElement>) => {
+    // Leaving the canvas area cancels a guide drag
+    if (e.type === 'mouseleave') finishGuideDrag(null, null);
+    else finishGuideDrag(e.clientX, e.clientY);
+    commitPaintStroke();
+    finishSelectionDrag();
     setIsPanning(false);
     stopDraggingLayer();
     // console.log('[DEBUG] Layer drag ended');
@@ -422,6 +1057,10 @@ function CanvasRenderer() {
       onMouseMove={handleCanvasMouseMove}
       onMouseUp={handleCanvasMouseUp}
       onMouseLeave={handleCanvasMouseUp}
+      onContextMenu={(e) => {
+        // Right-click paints with the secondary color
+        if (pixelToolActive) e.preventDefault();
+      }}
       onWheel={handleCanvasWheel}
     >
       {/* Canvas container with centering and scrollbars */}
@@ -623,6 +1262,180 @@ function CanvasRenderer() {
               `}</style>
             </svg>
           )}
+
+          {/* Guides */}
+          {project.rulers.enabled && (project.rulers.guides.length > 0 || guideDrag) && (
+            <svg
+              id="canvas-guides"
+              width={project.canvas.width}
+              height={project.canvas.height}
+              style={{
+                position: 'absolute',
+                top: 0,
+                left: 0,
+                pointerEvents: 'none',
+                overflow: 'visible',
+                display: 'block',
+              }}
+            >
+              {project.rulers.guides.map((guide) => {
+                const position = guide.id === guideDrag?.id ? guideDrag.position : guide.position;
+                const line = getGuideLine(guide.axis, position);
+                return (
+                  <g key={guide.id}>
+                    <line {...line} stroke={guide.locked ? '#f472b6' : '#22d3ee'} strokeWidth="1" vectorEffect="non-scaling-stroke" />
+                    {activeTool === 'select' && (
+                      <line
+                        {...line}
+                        stroke="transparent"
+                        strokeWidth="7"
+                        vectorEffect="non-scaling-stroke"
+                        style={{
+                          pointerEvents: 'stroke',
+                          cursor: guide.locked ? 'not-allowed' : guide.axis === 'x' ? 'col-resize' : 'row-resize',
+                        }}
+                        onMouseDown={(e) => handleGuideMouseDown(guide, e)}
+                        onDoubleClick={() => updateGuide(guide.id, { locked: !guide.locked })}
+                      >
+                        <title>
+                          {`${guide.axis === 'x' ? 'Vertical' : 'Horizontal'} guide at ${position}px. `}
+                          {guide.locked ? 'Locked - double-click to unlock' : 'Drag to move, drop on the ruler to delete, double-click to lock'}
+                        </title>
+                      </line>
+                    )}
+                  </g>
+                );
+              })}
+              {guideDrag && guideDrag.id === null && (
+                <line
+                  {...getGuideLine(guideDrag.axis, guideDrag.position)}
+                  stroke="#22d3ee"
+                  strokeWidth="1"
+                  vectorEffect="non-scaling-stroke"
+                />
+              )}
+            </svg>
+          )}
+
+          {/* Smart-snap alignment lines and gap readouts */}
+          {isDraggingLayer && dragSnap && (
+            <svg
+              id="canvas-snap-lines"
+              width={project.canvas.width}
+              height={project.canvas.height}
+              style={{
+                position: 'absolute',
+                top: 0,
+                left: 0,
+                pointerEvents: 'none',
+                overflow: 'visible',
+                display: 'block',
+              }}
+            >
+              {dragSnap.lines.map((line) => (
+                <line
+                  key={`${line.axis}-${line.position}`}
+                  {...(line.axis === 'x'
+                    ? { x1: line.position, x2: line.position, y1: line.start, y2: line.end }
+                    : { x1: line.start, x2: line.end, y1: line.position, y2: line.position })}
+                  stroke="#ff00ff"
+                  strokeWidth="1"
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))}
+              {dragSnap.gaps.map((gap) => {
+                const zoom = project.viewport.zoom / 100;
+                const mid = (gap.start + gap.end) / 2;
+                const horizontal = gap.axis === 'x';
+                return (
+                  <g key={`${gap.axis}-${gap.at}-${gap.start}-${gap.end}`}>
+                    <line
+                      {...(horizontal
+                        ? { x1: gap.start, x2: gap.end, y1: gap.at, y2: gap.at }
+                        : { x1: gap.at, x2: gap.at, y1: gap.start, y2: gap.end })}
+                      stroke="#ff00ff"
+                      strokeWidth="1"
+                      strokeDasharray="2,2"
+                      vectorEffect="non-scaling-stroke"
+                    />
+                    <text
+                      x={horizontal ? mid : gap.at + 4 / zoom}
+                      y={horizontal ? gap.at - 4 / zoom : mid}
+                      fontSize={11 / zoom}
+                      fill="#ff00ff"
+                      textAnchor={horizontal ? 'middle' : 'start'}
+                      dominantBaseline={horizontal ? 'auto' : 'middle'}
+                    >
+                      {gap.end - gap.start}px
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+          )}
+
+          {/* Pixel selection (marching ants) and the marquee/lasso being drawn */}
+          {(selectionOutline || (selectionDrag && selectionDrag.tool !== 'move')) && (
+            <svg
+              width={project.canvas.width}
+              height={project.canvas.height}
+              style={{
+                position: 'absolute',
+                top: 0,
+                left: 0,
+                pointerEvents: 'none',
+                overflow: 'visible',
+                display: 'block',
+              }}
+            >
+              {selectionOutline && (
+                <>
+                  <path d={selectionOutline} fill="none" stroke="#ffffff" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+                  <path
+                    d={selectionOutline}
+                    fill="none"
+                    stroke="#000000"
+                    strokeWidth="1"
+                    strokeDasharray="4,4"
+                    vectorEffect="non-scaling-stroke"
+                    style={{ animation: 'pixel-selection-ants 0.6s linear infinite' }}
+                  />
+                </>
+              )}
+              {selectionDrag && selectionDrag.tool !== 'move' && (() => {
+                const { tool, start, points } = selectionDrag;
+                const end = points[points.length - 1];
+                const x = Math.min(start.x, end.x);
+                const y = Math.min(start.y, end.y);
+                const width = Math.abs(end.x - start.x) + 1;
+                const height = Math.abs(end.y - start.y) + 1;
+                const draftProps = {
+                  fill: 'none',
+                  stroke: '#60a5fa',
+                  strokeWidth: 1,
+                  strokeDasharray: '4,4',
+                  vectorEffect: 'non-scaling-stroke' as const,
+                };
+                if (tool === 'lasso') {
+                  return <polyline points={points.map((p) => `${p.x},${p.y}`).join(' ')} {...draftProps} />;
+                }
+                if (tool === 'marquee-ellipse') {
+                  return <ellipse cx={x + width / 2} cy={y + height / 2} rx={width / 2} ry={height / 2} {...draftProps} />;
+                }
+                return <rect x={x} y={y} width={width} height={height} {...draftProps} />;
+              })()}
+              <style>{`
+                @keyframes pixel-selection-ants {
+                  0% {
+                    stroke-dashoffset: 0;
+                  }
+                  100% {
+                    stroke-dashoffset: -8;
+                  }
+                }
+              `}</style>
+            </svg>
+          )}
         </div>
 
         {/* Grid Overlay - NOT transformed, stays fixed to viewport */}
@@ -637,12 +1450,37 @@ function CanvasRenderer() {
         />
       </div>
 
+      {/* Rulers - in the container's 20px top/left gutter */}
+      {project.rulers.enabled && (
+        <Rulers
+          canvas={canvasRef.current}
+          viewport={project.viewport}
+          canvasWidth={project.canvas.width}
+          canvasHeight={project.canvas.height}
+          worldOrigin={project.canvas.worldOrigin}
+          hasGuides={project.rulers.guides.some((guide) => !guide.locked)}
+          onStartGuide={handleStartGuide}
+          onClearGuides={clearGuides}
+        />
+      )}
+
       {/* Coordinate Display */}
       <div id="canvas-status-bar" className="absolute bottom-4 right-4 bg-panel-bg border border-border rounded px-3 py-2 text-xs text-gray-400 space-y-1" aria-label="Canvas status">
         <div>Canvas: {project.canvas.width}x{project.canvas.height}</div>
         <div>Zoom: {project.viewport.zoom}%</div>
         <div>Layers: {project.layers.length}</div>
         {hoverCoords && <div>Coords: ({hoverCoords.x}, {hoverCoords.y})</div>}
+        {hoverWorld && worldOrigin && (
+          <>
+            <div id="canvas-world-coords">World: ({hoverWorld.x}, {hoverWorld.y})</div>
+            <div className="text-gray-500">{formatTileCoordinates(worldOrigin.tileSize, hoverWorld.x, hoverWorld.y)}</div>
+          </>
+        )}
+        {progress && progress.total > 0 && (
+          <div id="canvas-progress">Progress: {Math.floor((progress.done / progress.total) * 100)}%</div>
+        )}
+        {pixelToolActive && <div>Tool: {PIXEL_TOOL_LABELS[activeTool]}</div>}
+        {selectionToolActive && <div>Tool: {SELECTION_TOOL_LABELS[activeTool]}</div>}
         <div className="text-gray-500 text-xs mt-2 pt-2 border-t border-border">Middle-click to pan</div>
       </div>
 
@@ -653,6 +1491,35 @@ function CanvasRenderer() {
         </div>
       )}
 
+      {/* Pixel selection actions */}
+      {pixelSelection && (
+        <div
+          id="canvas-pixel-selection-bar"
+          className="absolute top-4 left-8 flex items-center gap-1 bg-panel-bg border border-border rounded px-2 py-1 text-xs text-gray-300"
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          <span className="px-1 text-gray-400">Selection {pixelSelection.width}×{pixelSelection.height}</span>
+          {[
+            { id: 'copy', label: 'Copy', title: 'Copy selected pixels (Ctrl+C)', action: () => copyPixelSelection() },
+            { id: 'cut', label: 'Cut', title: 'Cut selected pixels (Ctrl+X)', action: () => cutPixelSelection() },
+            { id: 'delete', label: 'Delete', title: 'Clear selected pixels (Delete)', action: () => deletePixelSelection() },
+            { id: 'extract', label: 'To Layer', title: 'Copy selected pixels to a new layer (Ctrl+J, Ctrl+Shift+J to cut)', action: () => extractPixelSelection(false) },
+            { id: 'deselect', label: 'Deselect', title: 'Clear the selection (Ctrl+D / Esc)', action: () => setPixelSelection(null) },
+          ].map(({ id, label, title, action }) => (
+            <button
+              key={id}
+              id={`btn-selection-${id}`}
+              onClick={action}
+              disabled={id !== 'deselect' && selectedLayerIds.length !== 1}
+              className="px-2 py-0.5 rounded hover:bg-gray-700 disabled:text-gray-600 disabled:hover:bg-transparent transition-colors"
+              title={title}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Drag Info Tooltip */}
       {isDraggingLayer && project.canvas.dragInfoEnabled && (
         <DragInfoTooltip
@@ -660,6 +1527,7 @@ function CanvasRenderer() {
           offsetY={dragOffsetY}
           mouseX={mousePos.x}
           mouseY={mousePos.y}
+          snap={dragSnap}
         />
       )}
     </div>
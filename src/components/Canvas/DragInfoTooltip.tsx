@@ -1,21 +1,24 @@
 import React from 'react';
+import { DragSnap } from '../../types/compositor.types';
 
 interface DragInfoTooltipProps {
   offsetX: number;
   offsetY: number;
   mouseX: number;
   mouseY: number;
+  snap: DragSnap | null; // Smart-snap targets and gaps, null when the drag isn't snapped
 }
 
 /**
  * Small tooltip that shows drag translation info
- * Follows the mouse cursor while dragging
+ * Follows the mouse cursor while dragging; lists what the drag snapped to
  */
 const DragInfoTooltip: React.FC<DragInfoTooltipProps> = ({
   offsetX,
   offsetY,
   mouseX,
   mouseY,
+  snap,
 }) => {
   return (
     <div
@@ -30,6 +33,18 @@ const DragInfoTooltip: React.FC<DragInfoTooltipProps> = ({
       <div className="bg-panel-bg border border-border rounded px-2 py-1 text-xs text-gray-300 whitespace-nowrap shadow-lg">
         <div>X: {offsetX > 0 ? '+' : ''}{offsetX}</div>
         <div>Y: {offsetY > 0 ? '+' : ''}{offsetY}</div>
+        {snap && (
+          <div className="mt-1 pt-1 border-t border-border text-fuchsia-400">
+            {snap.x && <div>↔ {snap.x}</div>}
+            {snap.y && <div>↕ {snap.y}</div>}
+            {snap.gaps.map((gap) => (
+              <div key={`${gap.axis}-${gap.at}-${gap.start}`}>
+                {gap.axis === 'x' ? 'Gap ↔' : 'Gap ↕'} {gap.end - gap.start}px
+              </div>
+            ))}
+            <div className="text-gray-500">Hold Alt to move freely</div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,196 @@
+/**
+ * Rulers component
+ * Pixel rulers along the top and left edges of the canvas viewport (the 20px
+ * gutter of the canvas container). Like the grid, positions are derived from
+ * the canvas element's bounding rect so they follow zoom and pan exactly.
+ * Dragging out of a ruler starts a new guide. With a world origin the labels
+ * show world pixels, so the rulers read like the target map canvas.
+ */
+
+import { useEffect, useRef } from 'react';
+import { Guide, ViewportState, WorldOrigin } from '../../types/compositor.types';
+import { RULER_SIZE, getRulerStep } from '../../utils/guides';
+
+interface RulersProps {
+  canvas: HTMLCanvasElement | null;
+  viewport: ViewportState;
+  canvasWidth: number;
+  canvasHeight: number;
+  worldOrigin?: WorldOrigin;
+  hasGuides: boolean;
+  onStartGuide: (axis: Guide['axis'], e: React.MouseEvent) => void;
+  onClearGuides: () => void;
+}
+
+/**
+ * Draw one ruler
+ * @param origin - Screen position of canvas pixel 0 along the ruler, relative to the ruler canvas
+ * @param scale - Screen pixels per canvas pixel
+ * @param extent - Canvas size along the ruler (shaded)
+ * @param offset - Value labeled at canvas pixel 0 (world origin along the ruler, else 0)
+ */
+function drawRuler(
+  ctx: CanvasRenderingContext2D,
+  length: number,
+  vertical: boolean,
+  origin: number,
+  scale: number,
+  extent: number,
+  offset: number
+) {
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.fillStyle = '#36393f';
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+  // Canvas extent
+  ctx.fillStyle = '#44474d';
+  const extentStart = Math.max(0, origin);
+  const extentEnd = Math.min(length, origin + extent * scale);
+  if (extentEnd > extentStart) {
+    if (vertical) ctx.fillRect(0, extentStart, RULER_SIZE, extentEnd - extentStart);
+    else ctx.fillRect(extentStart, 0, extentEnd - extentStart, RULER_SIZE);
+  }
+
+  const step = getRulerStep(scale);
+  const minor = step === 1 ? 1 : step / (step % 5 === 0 ? 5 : 2);
+  const first = Math.floor((-origin / scale + offset) / minor) * minor;
+  const last = (length - origin) / scale + offset;
+
+  ctx.strokeStyle = '#9ca3af';
+  ctx.fillStyle = '#9ca3af';
+  ctx.lineWidth = 1;
+  ctx.font = '9px sans-serif';
+  ctx.textBaseline = 'top';
+
+  for (let value = first; value <= last; value += minor) {
+    const pos = Math.round(origin + (value - offset) * scale) + 0.5;
+    const major = value % step === 0;
+    const tick = major ? RULER_SIZE : 5;
+
+    ctx.beginPath();
+    if (vertical) {
+      ctx.moveTo(RULER_SIZE - tick, pos);
+      ctx.lineTo(RULER_SIZE, pos);
+    } else {
+      ctx.moveTo(pos, RULER_SIZE - tick);
+      ctx.lineTo(pos, RULER_SIZE);
+    }
+    ctx.stroke();
+
+    if (major) {
+      if (vertical) {
+        ctx.save();
+        ctx.translate(2, pos + 2);
+        ctx.rotate(Math.PI / 2);
+        ctx.fillText(String(value), 0, -9);
+        ctx.restore();
+      } else {
+        ctx.fillText(String(value), pos + 2, 2);
+      }
+    }
+  }
+
+  // Edge towards the viewport
+  ctx.strokeStyle = '#44474d';
+  ctx.beginPath();
+  if (vertical) {
+    ctx.moveTo(RULER_SIZE - 0.5, 0);
+    ctx.lineTo(RULER_SIZE - 0.5, length);
+  } else {
+    ctx.moveTo(0, RULER_SIZE - 0.5);
+    ctx.lineTo(length, RULER_SIZE - 0.5);
+  }
+  ctx.stroke();
+}
+
+function Rulers({ canvas, viewport, canvasWidth, canvasHeight, worldOrigin, hasGuides, onStartGuide, onClearGuides }: RulersProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const topRulerRef = useRef<HTMLCanvasElement>(null);
+  const leftRulerRef = useRef<HTMLCanvasElement>(null);
+  const worldX = worldOrigin?.x ?? 0;
+  const worldY = worldOrigin?.y ?? 0;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const topRuler = topRulerRef.current;
+    const leftRuler = leftRulerRef.current;
+    if (!container || !topRuler || !leftRuler || !canvas) return;
+
+    const draw = () => {
+      const topCtx = topRuler.getContext('2d');
+      const leftCtx = leftRuler.getContext('2d');
+      if (!topCtx || !leftCtx) return;
+
+      const width = Math.max(0, container.clientWidth - RULER_SIZE);
+      const height = Math.max(0, container.clientHeight - RULER_SIZE);
+      topRuler.width = width;
+      topRuler.height = RULER_SIZE;
+      leftRuler.width = RULER_SIZE;
+      leftRuler.height = height;
+
+      const canvasRect = canvas.getBoundingClientRect();
+      const containerRect = container.getBoundingClientRect();
+      const scale = canvasRect.width / canvasWidth;
+
+      drawRuler(topCtx, width, false, canvasRect.left - containerRect.left - RULER_SIZE, scale, canvasWidth, worldX);
+      drawRuler(leftCtx, height, true, canvasRect.top - containerRect.top - RULER_SIZE, scale, canvasHeight, worldY);
+    };
+
+    draw();
+    const observer = new ResizeObserver(draw);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [canvas, viewport, canvasWidth, canvasHeight, worldX, worldY]);
+
+  return (
+    <div
+      ref={containerRef}
+      style={{
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        width: '100%',
+        height: '100%',
+        pointerEvents: 'none',
+        overflow: 'hidden',
+      }}
+    >
+      <canvas
+        ref={topRulerRef}
+        id="canvas-ruler-top"
+        style={{ position: 'absolute', top: 0, left: RULER_SIZE, pointerEvents: 'auto', cursor: 'row-resize' }}
+        onMouseDown={(e) => {
+          if (e.button !== 0) return;
+          e.stopPropagation();
+          onStartGuide('y', e);
+        }}
+        title="Drag down to add a horizontal guide"
+      />
+      <canvas
+        ref={leftRulerRef}
+        id="canvas-ruler-left"
+        style={{ position: 'absolute', top: RULER_SIZE, left: 0, pointerEvents: 'auto', cursor: 'col-resize' }}
+        onMouseDown={(e) => {
+          if (e.button !== 0) return;
+          e.stopPropagation();
+          onStartGuide('x', e);
+        }}
+        title="Drag right to add a vertical guide"
+      />
+      <button
+        id="btn-clear-guides"
+        onMouseDown={(e) => e.stopPropagation()}
+        onClick={onClearGuides}
+        disabled={!hasGuides}
+        className="absolute top-0 left-0 flex items-center justify-center text-[10px] leading-none bg-panel-bg border-r border-b border-border text-gray-400 hover:text-white disabled:text-gray-600 disabled:hover:text-gray-600"
+        style={{ width: RULER_SIZE, height: RULER_SIZE, pointerEvents: 'auto' }}
+        title="Clear unlocked guides"
+        aria-label="Clear unlocked guides"
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
+
+export default Rulers;
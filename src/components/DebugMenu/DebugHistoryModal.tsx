@@ -5,7 +5,10 @@
 
 import { useState } from 'react';
 import useCompositorStore from '../../store/compositorStore';
-import { ProjectData } from '../../types/compositor.types';
+import { HistoryEntry, Layer, ProjectData } from '../../types/compositor.types';
+
+// Fields of a layer the debug view compares (shared by live layers and history records)
+type LayerSummary = Pick<Layer, 'name' | 'x' | 'y' | 'width' | 'height'>;
 
 interface DebugHistoryModalProps {
   isOpen: boolean;
@@ -19,11 +22,15 @@ export function DebugHistoryModal({ isOpen, onClose }: DebugHistoryModalProps) {
 
   if (!isOpen) return null;
 
-  const getProjectSummary = (proj: ProjectData): string => {
-    return `${proj.projectName} | ${proj.layers.length} layer(s) | Modified: ${new Date(proj.modified).toLocaleTimeString()}`;
+  const getProjectSummary = (proj: ProjectData | HistoryEntry): string => {
+    const meta = 'project' in proj ? proj.project : proj;
+    return `${meta.projectName} | ${proj.layers.length} layer(s) | Modified: ${new Date(meta.modified).toLocaleTimeString()}`;
   };
 
-  const getLayerChanges = (proj1: ProjectData, proj2: ProjectData): string[] => {
+  const getLayerChanges = (
+    proj1: { layers: LayerSummary[] },
+    proj2: { layers: LayerSummary[] }
+  ): string[] => {
     const changes: string[] = [];
 
     // Check layer count
@@ -209,6 +216,7 @@ export function DebugHistoryModal({ isOpen, onClose }: DebugHistoryModalProps) {
           <div className="bg-slate-800 px-6 py-3 border-t border-slate-700 text-xs text-slate-400">
             <div className="flex justify-between">
               <span>Stack size: {history.past.length + history.future.length}</span>
+              <span>Stored images: {Object.keys(history.images).length}</span>
               <span>Max steps: {history.maxSteps}</span>
             </div>
             <div className="text-slate-500 text-xs mt-1">Press ESC or click overlay to close</div>
@@ -0,0 +1,249 @@
+import { useEffect, useRef, useState } from 'react';
+import useCompositorStore from '../../store/compositorStore';
+import { HistoryEntry } from '../../types/compositor.types';
+import { restoreHistoryEntry } from '../../utils/historySnapshots';
+import { resolveLayerGroups } from '../../utils/layerGroups';
+import { generateThumbnail } from '../../utils/projectStorage';
+
+// Thumbnails are keyed by entry object - entries are immutable, so a cached
+// thumbnail stays valid for as long as the entry exists
+const thumbnailCache = new WeakMap<HistoryEntry, string>();
+// Generate one thumbnail at a time so opening a long history doesn't decode every image at once
+let thumbnailQueue: Promise<unknown> = Promise.resolve();
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+/**
+ * Lazily rendered preview of a history entry (only generated once scrolled into view)
+ */
+function HistoryThumbnail({ entry }: { entry: HistoryEntry }) {
+  const images = useCompositorStore((state) => state.history.images);
+  const [src, setSrc] = useState<string | undefined>(() => thumbnailCache.get(entry));
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (src || !ref.current) return;
+    let cancelled = false;
+
+    const observer = new IntersectionObserver((observed) => {
+      if (!observed.some((o) => o.isIntersecting)) return;
+      observer.disconnect();
+      thumbnailQueue = thumbnailQueue.then(async () => {
+        if (cancelled) return;
+        const restored = restoreHistoryEntry(entry, images);
+        const url = await generateThumbnail(
+          resolveLayerGroups(restored.layers, restored.groups),
+          restored.canvas.width,
+          restored.canvas.height,
+          40
+        );
+        thumbnailCache.set(entry, url);
+        if (!cancelled) setSrc(url);
+      }).catch((error) => console.warn('Failed to render history thumbnail:', error));
+    });
+    observer.observe(ref.current);
+
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+    };
+  }, [entry, images, src]);
+
+  return (
+    <div
+      ref={ref}
+      className="w-10 h-10 flex-shrink-0 rounded border border-border bg-gray-800 flex items-center justify-center overflow-hidden"
+    >
+      {src && (
+        <img src={src} alt="" className="max-w-full max-h-full" style={{ imageRendering: 'pixelated' }} />
+      )}
+    </div>
+  );
+}
+
+interface HistoryRowProps {
+  entry: HistoryEntry;
+  variant: 'past' | 'future';
+  onJump: () => void;
+  onTogglePin: () => void;
+}
+
+function HistoryRow({ entry, variant, onJump, onTogglePin }: HistoryRowProps) {
+  return (
+    <div
+      className={`group flex items-center gap-2 px-2 py-1 rounded cursor-pointer transition-colors hover:bg-gray-700 ${
+        variant === 'future' ? 'opacity-50 hover:opacity-100' : ''
+      }`}
+      onClick={onJump}
+      title={variant === 'past' ? 'Jump back to this state' : 'Jump forward to this state'}
+    >
+      <HistoryThumbnail entry={entry} />
+      <div className="flex-1 min-w-0">
+        <div className="text-xs text-gray-200 truncate">{entry.label}</div>
+        <div className="text-[10px] text-gray-500 truncate">
+          {entry.checkpoint ? <span className="text-amber-400">📌 {entry.checkpoint}</span> : formatTime(entry.timestamp)}
+        </div>
+      </div>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          onTogglePin();
+        }}
+        className={`text-xs px-1 rounded hover:bg-gray-600 ${
+          entry.checkpoint ? 'text-amber-400' : 'text-gray-500 opacity-0 group-hover:opacity-100'
+        }`}
+        title={entry.checkpoint ? 'Unpin checkpoint' : 'Pin as named checkpoint (never evicted)'}
+        aria-label={entry.checkpoint ? 'Unpin checkpoint' : 'Pin as checkpoint'}
+      >
+        📌
+      </button>
+    </div>
+  );
+}
+
+/**
+ * History panel component
+ * Lists undo/redo entries with labels and thumbnails, click-to-jump,
+ * named checkpoints and restorable branches
+ */
+function HistoryPanel() {
+  const history = useCompositorStore((state) => state.history);
+  const jumpToHistory = useCompositorStore((state) => state.jumpToHistory);
+  const addHistoryCheckpoint = useCompositorStore((state) => state.addHistoryCheckpoint);
+  const setHistoryCheckpoint = useCompositorStore((state) => state.setHistoryCheckpoint);
+  const restoreHistoryBranch = useCompositorStore((state) => state.restoreHistoryBranch);
+  const deleteHistoryBranch = useCompositorStore((state) => state.deleteHistoryBranch);
+  const toggleHistoryPanel = useCompositorStore((state) => state.toggleHistoryPanel);
+  const currentRef = useRef<HTMLDivElement>(null);
+
+  // Keep the current state in view as the history grows
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [history.past.length]);
+
+  const handleTogglePin = (stack: 'past' | 'future', index: number, entry: HistoryEntry) => {
+    if (entry.checkpoint) {
+      setHistoryCheckpoint(stack, index, null);
+      return;
+    }
+    const name = window.prompt('Checkpoint name:', entry.label);
+    if (name && name.trim()) {
+      setHistoryCheckpoint(stack, index, name.trim());
+    }
+  };
+
+  const handleAddCheckpoint = () => {
+    const name = window.prompt('Checkpoint name:', `Checkpoint ${formatTime(Date.now())}`);
+    if (name && name.trim()) {
+      addHistoryCheckpoint(name.trim());
+    }
+  };
+
+  const pinnedCount = history.past.filter((e) => e.checkpoint).length + history.future.filter((e) => e.checkpoint).length;
+
+  return (
+    <div className="h-full flex flex-col bg-canvas-bg" data-region="history-panel">
+      {/* Header */}
+      <div className="px-3 py-3 border-b border-border flex items-center justify-between gap-2">
+        <h2 className="text-sm font-semibold text-gray-300">History</h2>
+        <div className="flex items-center gap-1">
+          <button
+            id="btn-add-history-checkpoint"
+            onClick={handleAddCheckpoint}
+            className="px-2 py-1 text-xs font-medium text-amber-400 hover:text-amber-300 bg-panel-bg hover:bg-gray-700 rounded transition-colors"
+            title="Save the current state as a named checkpoint"
+            aria-label="Add checkpoint"
+          >
+            📌 Checkpoint
+          </button>
+          <button
+            onClick={toggleHistoryPanel}
+            className="text-gray-400 hover:text-white text-sm px-1"
+            title="Close history panel"
+            aria-label="Close history panel"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      {/* Entry List */}
+      <div className="flex-1 overflow-y-auto p-2 space-y-0.5">
+        {history.past.length === 0 && history.future.length === 0 && (
+          <div className="px-3 py-6 text-center text-xs text-gray-500">No history entries yet</div>
+        )}
+
+        {history.past.map((entry, idx) => (
+          <HistoryRow
+            key={entry.id}
+            entry={entry}
+            variant="past"
+            onJump={() => jumpToHistory('past', idx)}
+            onTogglePin={() => handleTogglePin('past', idx, entry)}
+          />
+        ))}
+
+        <div
+          ref={currentRef}
+          className="flex items-center gap-2 px-2 py-1.5 rounded bg-blue-900/40 border border-blue-700 text-xs text-blue-200"
+        >
+          <span>●</span>
+          <span>Current state</span>
+        </div>
+
+        {history.future.map((entry, idx) => (
+          <HistoryRow
+            key={entry.id}
+            entry={entry}
+            variant="future"
+            onJump={() => jumpToHistory('future', idx)}
+            onTogglePin={() => handleTogglePin('future', idx, entry)}
+          />
+        ))}
+      </div>
+
+      {/* Branches */}
+      {history.branches.length > 0 && (
+        <div className="border-t border-border px-2 py-2 max-h-48 overflow-y-auto">
+          <div className="text-xs font-semibold text-gray-400 mb-1 px-1">Branches</div>
+          {[...history.branches].reverse().map((branch) => (
+            <div key={branch.id} className="flex items-center gap-2 px-1 py-1 text-xs">
+              <div className="flex-1 min-w-0">
+                <div className="text-gray-300 truncate" title={branch.label}>⑂ {branch.label}</div>
+                <div className="text-[10px] text-gray-500">
+                  {branch.entries.length} step{branch.entries.length !== 1 ? 's' : ''} • {formatTime(branch.createdAt)}
+                </div>
+              </div>
+              <button
+                onClick={() => restoreHistoryBranch(branch.id)}
+                className="px-2 py-0.5 text-blue-400 hover:text-blue-300 bg-panel-bg hover:bg-blue-900 rounded transition-colors"
+                title="Switch to this branch (the current line is kept as a branch)"
+              >
+                Restore
+              </button>
+              <button
+                onClick={() => deleteHistoryBranch(branch.id)}
+                className="px-1 text-gray-500 hover:text-red-400"
+                title="Discard branch"
+                aria-label="Discard branch"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Footer Info */}
+      <div className="px-3 py-2 border-t border-border text-xs text-gray-500">
+        {history.past.length + history.future.length} step{history.past.length + history.future.length !== 1 ? 's' : ''}
+        {pinnedCount > 0 && ` • ${pinnedCount} pinned`}
+        {` • max ${history.maxSteps}`}
+      </div>
+    </div>
+  );
+}
+
+export default HistoryPanel;
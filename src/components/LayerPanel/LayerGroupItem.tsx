@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import useCompositorStore from '../../store/compositorStore';
+import { LayerGroup } from '../../types/compositor.types';
+import { layerDragState } from './layerDragState';
+
+interface LayerGroupItemProps {
+  group: LayerGroup;
+  layerCount: number; // Layers inside the group, including nested groups
+  isSelected: boolean; // True when every layer in the group is selected
+  depth: number; // Group nesting level, used for indentation
+}
+
+/**
+ * Layer group (folder) header component
+ * Collapses its children, carries group visibility/lock/opacity,
+ * and accepts layers dragged onto it from the layer list
+ */
+function LayerGroupItem({ group, layerCount, isSelected, depth }: LayerGroupItemProps) {
+  const selectGroup = useCompositorStore((state) => state.selectGroup);
+  const updateGroup = useCompositorStore((state) => state.updateGroup);
+  const toggleGroupCollapsed = useCompositorStore((state) => state.toggleGroupCollapsed);
+  const reorderGroup = useCompositorStore((state) => state.reorderGroup);
+  const duplicateGroup = useCompositorStore((state) => state.duplicateGroup);
+  const ungroup = useCompositorStore((state) => state.ungroup);
+  const removeGroup = useCompositorStore((state) => state.removeGroup);
+  const moveLayersToGroup = useCompositorStore((state) => state.moveLayersToGroup);
+
+  const [isEditingName, setIsEditingName] = useState(false);
+  const [tempName, setTempName] = useState(group.name);
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const handleNameSave = () => {
+    if (tempName.trim()) {
+      updateGroup(group.id, { name: tempName.trim() });
+    } else {
+      setTempName(group.name);
+    }
+    setIsEditingName(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleNameSave();
+    } else if (e.key === 'Escape') {
+      setTempName(group.name);
+      setIsEditingName(false);
+    }
+  };
+
+  const handleMouseEnter = () => {
+    setIsDragOver(layerDragState.draggedLayerId !== null);
+  };
+
+  // Dropping a dragged layer on the header moves it into the group
+  const handleMouseUp = () => {
+    const draggedLayerId = layerDragState.draggedLayerId;
+    setIsDragOver(false);
+    if (!draggedLayerId) return;
+
+    const draggedLayer = useCompositorStore.getState().project.layers.find((l) => l.id === draggedLayerId);
+    if (draggedLayer && draggedLayer.groupId !== group.id) {
+      moveLayersToGroup([draggedLayerId], group.id);
+    }
+  };
+
+  const handleRemoveGroup = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const confirmed = window.confirm(
+      `Delete group '${group.name}' and its ${layerCount} layer${layerCount !== 1 ? 's' : ''}?`
+    );
+    if (confirmed) {
+      removeGroup(group.id);
+    }
+  };
+
+  return (
+    <div
+      id={`layer-group-${group.id}`}
+      onClick={(e) => selectGroup(group.id, e.ctrlKey || e.metaKey)}
+      onMouseEnter={handleMouseEnter}
+      onMouseLeave={() => setIsDragOver(false)}
+      onMouseUp={handleMouseUp}
+      title="Click to select all layers in the group • Drop a layer here to move it into the group"
+      aria-label={`Group: ${group.name}`}
+      style={depth > 0 ? { marginLeft: depth * 12 } : undefined}
+      className={`group p-2 rounded border transition-colors cursor-pointer select-none ${
+        isDragOver
+          ? 'bg-green-900 border-green-400'
+          : isSelected
+          ? 'bg-blue-950 border-blue-500 text-white'
+          : 'bg-gray-900 border-border text-gray-300 hover:bg-gray-800'
+      }`}
+    >
+      {/* Group Header */}
+      <div className="flex items-center gap-2">
+        {/* Collapse Toggle */}
+        <button
+          id={`btn-group-collapse-${group.id}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            toggleGroupCollapsed(group.id);
+          }}
+          className="w-4 h-4 flex items-center justify-center flex-shrink-0 rounded text-gray-400 hover:bg-gray-600 text-[10px]"
+          title={group.collapsed ? 'Expand group' : 'Collapse group'}
+          aria-label={group.collapsed ? `Expand ${group.name}` : `Collapse ${group.name}`}
+        >
+          {group.collapsed ? '▶' : '▼'}
+        </button>
+
+        <span className="flex-shrink-0 text-sm" aria-hidden="true">📁</span>
+
+        {/* Group Name */}
+        <div className="flex-1 min-w-0">
+          {isEditingName ? (
+            <input
+              id={`input-group-name-${group.id}`}
+              autoFocus
+              type="text"
+              value={tempName}
+              onChange={(e) => setTempName(e.target.value)}
+              onBlur={handleNameSave}
+              onKeyDown={handleKeyDown}
+              onClick={(e) => e.stopPropagation()}
+              className="w-full px-1 py-0 bg-canvas-bg border border-blue-400 rounded text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-300"
+              placeholder="Group name..."
+              aria-label="Group name"
+            />
+          ) : (
+            <span
+              className="text-xs font-semibold truncate block"
+              title={group.name}
+              onDoubleClick={(e) => {
+                e.stopPropagation();
+                setTempName(group.name);
+                setIsEditingName(true);
+              }}
+            >
+              {group.name}
+            </span>
+          )}
+        </div>
+
+        {/* Visibility Toggle */}
+        <button
+          id={`btn-group-visibility-${group.id}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            updateGroup(group.id, { visible: !group.visible });
+          }}
+          className={`w-5 h-5 flex items-center justify-center flex-shrink-0 rounded transition-colors hover:bg-gray-600 text-xs ${
+            group.visible ? 'text-gray-300' : 'text-gray-600'
+          }`}
+          title={group.visible ? 'Hide group' : 'Show group'}
+          aria-label={group.visible ? `Hide ${group.name}` : `Show ${group.name}`}
+        >
+          {group.visible ? '👁' : '—'}
+        </button>
+
+        {/* Lock Toggle */}
+        <button
+          id={`btn-group-lock-${group.id}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            updateGroup(group.id, { locked: !group.locked });
+          }}
+          className={`w-5 h-5 flex items-center justify-center flex-shrink-0 rounded transition-colors hover:bg-gray-600 text-xs ${
+            group.locked ? 'text-gray-300' : 'text-gray-600'
+          }`}
+          title={group.locked ? 'Unlock group' : 'Lock group'}
+          aria-label={group.locked ? `Unlock ${group.name}` : `Lock ${group.name}`}
+        >
+          {group.locked ? '🔒' : '🔓'}
+        </button>
+      </div>
+
+      {/* Group Info + Opacity */}
+      <div className="flex items-center gap-2 text-xs text-gray-500 pl-6 mt-1">
+        <span className="flex-shrink-0">
+          {layerCount} layer{layerCount !== 1 ? 's' : ''}
+        </span>
+        <input
+          id={`input-group-opacity-${group.id}`}
+          type="range"
+          min={0}
+          max={100}
+          value={Math.round(group.opacity * 100)}
+          onClick={(e) => e.stopPropagation()}
+          onChange={(e) => updateGroup(group.id, { opacity: Number(e.target.value) / 100 })}
+          className="flex-1 min-w-0 h-1"
+          title="Group opacity"
+          aria-label={`Opacity of ${group.name}`}
+        />
+        <span className="w-8 text-right flex-shrink-0">{Math.round(group.opacity * 100)}%</span>
+      </div>
+
+      {/* Group Controls */}
+      <div className="flex gap-1 mt-1 opacity-0 group-hover:opacity-100 transition-opacity">
+        <button
+          id={`btn-group-up-${group.id}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            reorderGroup(group.id, 'up');
+          }}
+          className="flex-1 px-1 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+          title="Move group up"
+          aria-label={`Move ${group.name} up`}
+        >
+          ↑
+        </button>
+        <button
+          id={`btn-group-down-${group.id}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            reorderGroup(group.id, 'down');
+          }}
+          className="flex-1 px-1 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+          title="Move group down"
+          aria-label={`Move ${group.name} down`}
+        >
+          ↓
+        </button>
+        <button
+          id={`btn-group-duplicate-${group.id}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            duplicateGroup(group.id);
+          }}
+          className="flex-1 px-1 py-1 text-xs bg-blue-700 hover:bg-blue-600 rounded transition-colors"
+          title="Duplicate group"
+          aria-label={`Duplicate ${group.name}`}
+        >
+          ⧉
+        </button>
+        <button
+          id={`btn-group-ungroup-${group.id}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            ungroup(group.id);
+          }}
+          className="flex-1 px-1 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+          title="Ungroup (keep layers)"
+          aria-label={`Ungroup ${group.name}`}
+        >
+          Ungroup
+        </button>
+        <button
+          id={`btn-group-remove-${group.id}`}
+          onClick={handleRemoveGroup}
+          className="flex-1 px-1 py-1 text-xs bg-red-700 hover:bg-red-600 rounded transition-colors"
+          title="Delete group and its layers"
+          aria-label={`Delete ${group.name}`}
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default LayerGroupItem;
@@ -2,20 +2,19 @@ import { useState, useRef, useEffect } from 'react';
 import useCompositorStore from '../../store/compositorStore';
 import { Layer } from '../../types/compositor.types';
 import { isTextLayer, isShapeLayer } from '../../utils/textRasterizer';
+import { layerDragState } from './layerDragState';
 
 interface LayerItemProps {
   layer: Layer;
   isSelected: boolean;
+  depth?: number; // Group nesting level, used for indentation
 }
 
-// Global drag state shared across all LayerItem instances
-let globalDraggedLayerId: string | null = null;
-
 /**
  * Individual layer item component
  * Displays layer thumbnail, name, and controls
  */
-function LayerItem({ layer, isSelected }: LayerItemProps) {
+function LayerItem({ layer, isSelected, depth = 0 }: LayerItemProps) {
   const selectLayer = useCompositorStore((state) => state.selectLayer);
   const selectLayerRange = useCompositorStore((state) => state.selectLayerRange);
   const updateLayer = useCompositorStore((state) => state.updateLayer);
@@ -24,6 +23,10 @@ function LayerItem({ layer, isSelected }: LayerItemProps) {
   const bringLayerToFront = useCompositorStore((state) => state.bringLayerToFront);
   const sendLayerToBack = useCompositorStore((state) => state.sendLayerToBack);
   const duplicateLayer = useCompositorStore((state) => state.duplicateLayer);
+  const moveLayersToGroup = useCompositorStore((state) => state.moveLayersToGroup);
+  const parentGroupId = useCompositorStore(
+    (state) => state.project.groups?.find((g) => g.id === layer.groupId)?.parentId
+  );
 
   const [isEditingName, setIsEditingName] = useState(false);
   const [tempName, setTempName] = useState(layer.name);
@@ -33,9 +36,9 @@ function LayerItem({ layer, isSelected }: LayerItemProps) {
   // Set up global listeners to handle mouseup and mouse leaving window
   useEffect(() => {
     const handleGlobalMouseUp = () => {
-      if (globalDraggedLayerId) {
+      if (layerDragState.draggedLayerId) {
         // console.log(`[DEBUG] Global drag released`);
-        globalDraggedLayerId = null;
+        layerDragState.draggedLayerId = null;
         setIsDragOver(false);
       }
     };
@@ -49,9 +52,9 @@ function LayerItem({ layer, isSelected }: LayerItemProps) {
       // clientX < 0 or clientX > window.innerWidth means left/right
       // clientY > window.innerHeight means bottom
       if (e.clientY < 0 || e.clientX < 0 || e.clientX > window.innerWidth || e.clientY > window.innerHeight) {
-        if (globalDraggedLayerId) {
+        if (layerDragState.draggedLayerId) {
           // console.log(`[DEBUG] Mouse left window, canceling drag`);
-          globalDraggedLayerId = null;
+          layerDragState.draggedLayerId = null;
           setIsDragOver(false);
         }
       }
@@ -95,7 +98,7 @@ function LayerItem({ layer, isSelected }: LayerItemProps) {
     }
 
     // Start drag by setting global dragged layer
-    globalDraggedLayerId = layer.id;
+    layerDragState.draggedLayerId = layer.id;
     
     // If not selected, select it
     if (!isSelected) {
@@ -106,7 +109,7 @@ function LayerItem({ layer, isSelected }: LayerItemProps) {
   };
 
   const handleMouseEnter = () => {
-    if (!globalDraggedLayerId || globalDraggedLayerId === layer.id) {
+    if (!layerDragState.draggedLayerId || layerDragState.draggedLayerId === layer.id) {
       setIsDragOver(false);
       return;
     }
@@ -114,11 +117,11 @@ function LayerItem({ layer, isSelected }: LayerItemProps) {
     setIsDragOver(true);
     
     // Determine direction to move: if dragged layer has lower z-index, move it up
-    const draggedLayer = useCompositorStore.getState().project.layers.find(l => l.id === globalDraggedLayerId);
+    const draggedLayer = useCompositorStore.getState().project.layers.find(l => l.id === layerDragState.draggedLayerId);
     const direction = draggedLayer && draggedLayer.zIndex < layer.zIndex ? 'up' : 'down';
     
-    reorderLayer(globalDraggedLayerId, direction);
-    // console.log(`[DEBUG] Swapped: moved layer ${globalDraggedLayerId} ${direction}`);
+    reorderLayer(layerDragState.draggedLayerId, direction);
+    // console.log(`[DEBUG] Swapped: moved layer ${layerDragState.draggedLayerId} ${direction}`);
   };
 
   const handleMouseLeave = () => {
@@ -126,9 +129,9 @@ function LayerItem({ layer, isSelected }: LayerItemProps) {
   };
 
   const handleMouseUp = () => {
-    if (globalDraggedLayerId) {
+    if (layerDragState.draggedLayerId) {
       // console.log(`[DEBUG] Drag released`);
-      globalDraggedLayerId = null;
+      layerDragState.draggedLayerId = null;
     }
   };
 
@@ -175,6 +178,11 @@ function LayerItem({ layer, isSelected }: LayerItemProps) {
     // console.log(`[DEBUG] Layer duplicated: ${layer.name}`);
   };
 
+  const handleMoveOutOfGroup = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    moveLayersToGroup([layer.id], parentGroupId ?? null);
+  };
+
   const handleBringToFront = (e: React.MouseEvent) => {
     e.stopPropagation();
     bringLayerToFront(layer.id);
@@ -200,6 +208,7 @@ function LayerItem({ layer, isSelected }: LayerItemProps) {
       aria-label={`Layer: ${layer.name}`}
       aria-selected={isSelected}
       role="option"
+      style={depth > 0 ? { marginLeft: depth * 12 } : undefined}
       className={`group p-2 rounded border transition-colors cursor-pointer select-none ${
         isDragOver ? 'bg-green-900 border-green-400 scale-105' : ''
       } ${
@@ -368,11 +377,23 @@ function LayerItem({ layer, isSelected }: LayerItemProps) {
             ◆
           </button>
         )}
+        {/* Move Out Of Group Button (only for grouped layers) */}
+        {layer.groupId && (
+          <button
+            id={`btn-layer-ungroup-${layer.id}`}
+            onClick={handleMoveOutOfGroup}
+            className="flex-1 px-1 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded transition-colors flex items-center justify-center"
+            title="Move out of group"
+            aria-label={`Move ${layer.name} out of its group`}
+          >
+            ⇱
+          </button>
+        )}
         <button
           id={`btn-layer-bring-front-${layer.id}`}
           onClick={handleBringToFront}
           className="flex-1 px-1 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded transition-colors flex items-center justify-center"
-          title="Bring to front"
+          title={layer.groupId ? 'Bring to front of group' : 'Bring to front'}
           aria-label={`Bring ${layer.name} to front`}
         >
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 20 20">
@@ -383,7 +404,7 @@ function LayerItem({ layer, isSelected }: LayerItemProps) {
           id={`btn-layer-send-back-${layer.id}`}
           onClick={handleSendToBack}
           className="flex-1 px-1 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded transition-colors flex items-center justify-center"
-          title="Send to back"
+          title={layer.groupId ? 'Send to back of group' : 'Send to back'}
           aria-label={`Send ${layer.name} to back`}
         >
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 20 20">
@@ -1,7 +1,9 @@
 import { useRef } from 'react';
 import useCompositorStore from '../../store/compositorStore';
 import LayerItem from './LayerItem';
+import LayerGroupItem from './LayerGroupItem';
 import CanvasSettings from '../PropertyPanel/CanvasSettings';
+import { buildLayerTree, flattenLayerTree, LayerTreeNode } from '../../utils/layerGroups';
 
 /**
  * Layer panel component
@@ -15,9 +17,38 @@ function LayerPanel() {
   const deselectAllLayers = useCompositorStore((state) => state.deselectAllLayers);
   const deleteSelectedLayers = useCompositorStore((state) => state.deleteSelectedLayers);
   const addLayer = useCompositorStore((state) => state.addLayer);
+  const groupSelectedLayers = useCompositorStore((state) => state.groupSelectedLayers);
 
-  // Sort layers by z-index for display (highest z-index at top)
-  const sortedLayers = [...project.layers].sort((a, b) => b.zIndex - a.zIndex);
+  // Build the group tree for display (highest z-index at top)
+  const layerTree = buildLayerTree(project.layers, project.groups);
+  const groupCount = project.groups?.length ?? 0;
+
+  const renderNodes = (nodes: LayerTreeNode[], depth: number): React.ReactNode[] =>
+    [...nodes].reverse().map((node) => {
+      if (node.type === 'layer') {
+        return (
+          <LayerItem
+            key={node.layer.id}
+            layer={node.layer}
+            isSelected={selectedLayerIds.includes(node.layer.id)}
+            depth={depth}
+          />
+        );
+      }
+
+      const groupLayers = flattenLayerTree(node.children);
+      return (
+        <div key={node.group.id} className="space-y-1">
+          <LayerGroupItem
+            group={node.group}
+            layerCount={groupLayers.length}
+            isSelected={groupLayers.length > 0 && groupLayers.every((l) => selectedLayerIds.includes(l.id))}
+            depth={depth}
+          />
+          {!node.group.collapsed && renderNodes(node.children, depth + 1)}
+        </div>
+      );
+    });
 
   const handleDeleteSelected = () => {
     if (selectedLayerIds.length === 0) {
@@ -148,6 +179,17 @@ function LayerPanel() {
             Delete
           </button>
 
+          <button
+            id="btn-group-selected-layers"
+            onClick={() => groupSelectedLayers()}
+            disabled={selectedLayerIds.length === 0}
+            className="flex-1 min-w-16 px-2 py-1 text-xs font-medium text-amber-400 hover:text-amber-300 bg-panel-bg hover:bg-gray-700 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Group selected layers (Ctrl+G)"
+            aria-label="Group selected layers"
+          >
+            Group
+          </button>
+
           <button
             id="btn-create-text-layer"
             onClick={() => (window as any).openTextLayerModal?.()}
@@ -182,20 +224,14 @@ function LayerPanel() {
 
       {/* Layer List */}
       <div className="flex-1 overflow-y-auto">
-        {sortedLayers.length === 0 ? (
+        {project.layers.length === 0 ? (
           <div className="px-3 py-8 text-center text-sm text-gray-500">
             <div className="mb-2">No layers yet</div>
             <div className="text-xs">Upload images to get started</div>
           </div>
         ) : (
           <div className="space-y-1 p-2">
-            {sortedLayers.map((layer) => (
-              <LayerItem
-                key={layer.id}
-                layer={layer}
-                isSelected={selectedLayerIds.includes(layer.id)}
-              />
-            ))}
+            {renderNodes(layerTree, 0)}
           </div>
         )}
       </div>
@@ -204,6 +240,7 @@ function LayerPanel() {
       {project.layers.length > 0 && (
         <div className="px-3 py-2 border-t border-border text-xs text-gray-500">
           {project.layers.length} layer{project.layers.length !== 1 ? 's' : ''}
+          {groupCount > 0 && ` • ${groupCount} group${groupCount !== 1 ? 's' : ''}`}
           {selectedLayerIds.length > 0 && ` • ${selectedLayerIds.length} selected`}
         </div>
       )}
@@ -0,0 +1,7 @@
+/**
+ * Drag state shared by the layer and group rows of the layer panel
+ * (mouse-based dragging, so it can't live in a single component)
+ */
+export const layerDragState = {
+  draggedLayerId: null as string | null,
+};
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import useCompositorStore from '../../store/compositorStore';
+import { exportCanvasPixels } from '../../utils/projectSerializer';
+import { resolveLayerGroups } from '../../utils/layerGroups';
+import { RenderedFrame, getAnimationDuration, getFrameLayers } from '../../utils/animation';
+import { encodeGIF } from '../../utils/gifEncoder';
+import { encodeAPNG } from '../../utils/apngEncoder';
+
+interface AnimationExportModalProps {
+  onClose: () => void;
+  initialScale: number;
+}
+
+type AnimationFormat = 'gif' | 'apng';
+
+const FORMAT_NOTES: Record<AnimationFormat, string> = {
+  gif: 'Up to 256 colors shared by all frames (reduced by median cut if needed); pixels under 50% opacity become transparent.',
+  apng: 'Full color with partial transparency, lossless. Saved with a .png extension.',
+};
+
+/**
+ * Export the project's animation frames as an animated GIF or APNG
+ * Frames are rendered exactly like the PNG export and encoded in the browser
+ */
+function AnimationExportModal({ onClose, initialScale }: AnimationExportModalProps) {
+  const project = useCompositorStore((state) => state.project);
+  const [format, setFormat] = useState<AnimationFormat>('gif');
+  const [scale, setScale] = useState(initialScale);
+  const [isExporting, setIsExporting] = useState(false);
+  const [errorText, setErrorText] = useState<string | null>(null);
+
+  const animation = project.animation;
+  const frameCount = animation?.frames.length ?? 0;
+
+  const handleExport = async () => {
+    if (!animation || frameCount === 0) return;
+    setIsExporting(true);
+    setErrorText(null);
+    try {
+      const frames: RenderedFrame[] = [];
+      for (const frame of animation.frames) {
+        const pixels = await exportCanvasPixels(
+          resolveLayerGroups(getFrameLayers(project.layers, animation, frame.id), project.groups),
+          project.canvas.width, project.canvas.height,
+          scale, project.canvas.backgroundColor, project.canvas,
+        );
+        frames.push({ pixels, duration: frame.duration });
+      }
+
+      const blob = format === 'gif' ? encodeGIF(frames, animation.loopCount) : await encodeAPNG(frames, animation.loopCount);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${project.projectName || 'composite'}_${scale}x.${format === 'gif' ? 'gif' : 'png'}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      onClose();
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-gray-800 border border-gray-600 rounded-lg shadow-xl w-[400px] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-200">Export Animation</h3>
+            <p className="text-xs text-gray-500 mt-0.5">
+              {frameCount > 0 && animation
+                ? `${frameCount} frame${frameCount === 1 ? '' : 's'}, ${(getAnimationDuration(animation) / 1000).toFixed(2)}s, ${animation.loopCount === 0 ? 'looping forever' : `plays ${animation.loopCount}×`}`
+                : 'No frames yet - add frames in the timeline'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-lg leading-none">×</button>
+        </div>
+
+        <div className="px-4 py-3 space-y-3">
+          <div className="flex items-center gap-2">
+            <label htmlFor="select-animation-format" className="text-xs text-gray-400 flex-shrink-0">Format</label>
+            <select
+              id="select-animation-format"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as AnimationFormat)}
+              className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-gray-200"
+            >
+              <option value="gif">Animated GIF</option>
+              <option value="apng">Animated PNG (APNG)</option>
+            </select>
+            <label htmlFor="select-animation-scale" className="text-xs text-gray-400 flex-shrink-0">Scale</label>
+            <select
+              id="select-animation-scale"
+              value={scale}
+              onChange={(e) => setScale(parseInt(e.target.value))}
+              className="bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-gray-200"
+            >
+              {[1, 2, 4, 8].map((s) => <option key={s} value={s}>{s}x</option>)}
+            </select>
+          </div>
+
+          <p className="text-xs text-gray-500">{FORMAT_NOTES[format]}</p>
+
+          {errorText && <div className="text-xs text-red-400">{errorText}</div>}
+        </div>
+
+        {/* Footer */}
+        <div className="px-4 py-3 border-t border-gray-700 flex items-center gap-2">
+          <button
+            id="btn-export-animation"
+            onClick={handleExport}
+            disabled={isExporting || frameCount === 0}
+            className="flex-1 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white py-2 rounded text-sm font-semibold transition-colors"
+          >
+            {isExporting ? 'Exporting…' : 'Export'}
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded text-sm transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default AnimationExportModal;
@@ -2,7 +2,9 @@ import React, { useEffect, useRef, useState, useCallback } from 'react';
 import DraggableModal from './DraggableModal';
 import useCompositorStore from '../../store/compositorStore';
 import { Layer } from '../../types/compositor.types';
-import { removeBackground as legacyRemoveBackground } from '../../utils/imageProcessing';
+import { maskToDataUrl, removeBackground as legacyRemoveBackground } from '../../utils/imageProcessing';
+import { applyLayerEffect, createEffectId, renderEffectInput } from '../../utils/layerEffects';
+import { loadPreferences, savePreferences } from '../../hooks/useLocalStorage';
 
 type Mode = 'ai' | 'click' | 'brush' | 'lasso';
 
@@ -10,6 +12,7 @@ interface BgRemovalModalProps {
   isOpen: boolean;
   onClose: () => void;
   layer: Layer;
+  effectId?: string; // Edit this background-removal effect instead of adding a new one
 }
 
 // ─── Helpers ────────────────────────────────────────────────────────────────
@@ -144,10 +147,18 @@ async function applyAlphaMask(originalSrc: string, alphaMask: Uint8Array, w: num
 
 // ─── Component ──────────────────────────────────────────────────────────────
 
-const BgRemovalModal: React.FC<BgRemovalModalProps> = ({ isOpen, onClose, layer }) => {
-  const updateLayer = useCompositorStore((state) => state.updateLayer);
+const BgRemovalModal: React.FC<BgRemovalModalProps> = ({ isOpen, onClose, layer, effectId }) => {
+  const addLayerEffect = useCompositorStore((state) => state.addLayerEffect);
+  const updateLayerEffect = useCompositorStore((state) => state.updateLayerEffect);
+  const trimLayers = useCompositorStore((state) => state.trimLayers);
   const layers = useCompositorStore((state) => state.project.layers);
   const cropCanvasToLayers = useCompositorStore((state) => state.cropCanvasToLayers);
+  const [autoTrim, setAutoTrim] = useState<boolean>(() => loadPreferences().autoTrimAfterMask ?? false);
+
+  const handleAutoTrimChange = (checked: boolean) => {
+    setAutoTrim(checked);
+    savePreferences({ ...loadPreferences(), autoTrimAfterMask: checked });
+  };
 
   // Mode & processing state
   const [mode, setMode] = useState<Mode>('click');
@@ -227,11 +238,16 @@ const BgRemovalModal: React.FC<BgRemovalModalProps> = ({ isOpen, onClose, layer
   const lassoPointsRef = useRef<{ x: number; y: number }[]>([]);
   const [lassoMode, setLassoMode] = useState<'erase' | 'restore'>('erase');
 
+  // Latest layer for the init effect, which must not re-run on unrelated layer edits
+  const layerRef = useRef(layer);
+  layerRef.current = layer;
+
   // ─── Init when modal opens ────────────────────────────────────────────
   useEffect(() => {
-    if (isOpen && layer?.imageData) {
-      setWorkingImage(layer.imageData);
-      setOriginalImage(layer.imageData);
+    if (!isOpen || !layer?.imageData) return;
+    const start = (original: string, working: string) => {
+      setWorkingImage(working);
+      setOriginalImage(original);
       setErrorText(null);
       setStatusText(null);
       setDownloadProgress(null);
@@ -243,8 +259,24 @@ const BgRemovalModal: React.FC<BgRemovalModalProps> = ({ isOpen, onClose, layer
       setCanUndo(false);
       setCanRedo(false);
       hasInitialFitRef.current = false;
+    };
+
+    // Editing an effect starts from its input, with its current mask applied
+    const current = layerRef.current;
+    const effect = current.effects?.find((e) => e.id === effectId && e.type === 'bg-removal');
+    if (!effect) {
+      start(layer.imageData, layer.imageData);
+      return;
     }
-  }, [isOpen, layer?.imageData]);
+    let cancelled = false;
+    renderEffectInput(current, effect.id)
+      .then(async (input) => {
+        const edited = await applyLayerEffect(input, effect);
+        if (!cancelled) start(input.imageData, edited.imageData);
+      })
+      .catch((error) => console.error('Failed to render background removal input:', error));
+    return () => { cancelled = true; };
+  }, [isOpen, layer?.imageData, effectId]);
 
   // ─── Keyboard shortcuts (scoped to modal) ─────────────────────────────
   useEffect(() => {
@@ -778,14 +810,24 @@ const BgRemovalModal: React.FC<BgRemovalModalProps> = ({ isOpen, onClose, layer
   };
 
   // ─── Apply final result ───────────────────────────────────────────────
-  const handleApply = () => {
-    if (!workingImage || workingImage === originalImage) return;
-    updateLayer(layer.id, { imageData: workingImage });
+  const handleApply = async () => {
+    if (!workingImage || !imgDim || workingImage === originalImage) return;
+    // Only the alpha is kept, as a mask effect over the untouched pixels
+    const alpha = await buildAlphaMask(workingImage, imgDim.w, imgDim.h);
+    const mask = maskToDataUrl(alpha, imgDim.w, imgDim.h);
+    const existing = layer.effects?.find((e) => e.id === effectId);
+    onClose();
+
+    if (existing?.type === 'bg-removal') {
+      await updateLayerEffect(layer.id, { ...existing, mask });
+    } else {
+      await addLayerEffect(layer.id, { id: createEffectId(), type: 'bg-removal', enabled: true, mask });
+    }
+    if (autoTrim) await trimLayers([layer.id]);
     // Auto-crop canvas when there's only one layer
     if (layers.length === 1) {
       setTimeout(() => { cropCanvasToLayers(); window.fitCanvasToScreen?.(); }, 50);
     }
-    onClose();
   };
 
   // ─── Reset to original ────────────────────────────────────────────────
@@ -1104,7 +1146,17 @@ const BgRemovalModal: React.FC<BgRemovalModalProps> = ({ isOpen, onClose, layer
                 Redo
               </button>
             </div>
-            <div className="flex gap-2">
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-1.5 text-xs text-gray-300 cursor-pointer mr-1">
+                <input
+                  id="input-bg-removal-auto-trim"
+                  type="checkbox"
+                  checked={autoTrim}
+                  onChange={(e) => handleAutoTrimChange(e.target.checked)}
+                  className="w-3.5 h-3.5 rounded bg-gray-700 border-gray-600 accent-blue-500 cursor-pointer"
+                />
+                Trim transparent pixels
+              </label>
               <button
                 onClick={onClose}
                 className="px-4 py-2 text-sm font-medium text-gray-300 bg-gray-700 rounded hover:bg-gray-600 transition-colors"
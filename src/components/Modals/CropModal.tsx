@@ -2,6 +2,7 @@ import React, { useState, useRef, useEffect, useCallback } from 'react';
 import DraggableModal from './DraggableModal';
 import useCompositorStore from '../../store/compositorStore';
 import { Layer } from '../../types/compositor.types';
+import { createEffectId } from '../../utils/layerEffects';
 
 interface CropModalProps {
   isOpen: boolean;
@@ -15,7 +16,7 @@ const MIN_ZOOM = 0.1;
 const MAX_ZOOM = 20;
 
 const CropModal: React.FC<CropModalProps> = ({ isOpen, onClose, layer }) => {
-  const updateLayer = useCompositorStore((s) => s.updateLayer);
+  const addLayerEffect = useCompositorStore((s) => s.addLayerEffect);
   const layers = useCompositorStore((s) => s.project.layers);
   const cropCanvasToLayers = useCompositorStore((s) => s.cropCanvasToLayers);
 
@@ -275,34 +276,21 @@ const CropModal: React.FC<CropModalProps> = ({ isOpen, onClose, layer }) => {
 
   const applyCrop = async () => {
     if (!cropRect || !imageDimensions || !previewImage) return;
-    const img = new Image();
-    img.src = previewImage;
-    await new Promise((res) => { img.onload = res; img.onerror = res; });
-
-    const canvas = document.createElement('canvas');
-    canvas.width = Math.round(cropRect.width);
-    canvas.height = Math.round(cropRect.height);
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    ctx.imageSmoothingQuality = 'high';
-    ctx.drawImage(
-      img,
-      Math.round(cropRect.x),
-      Math.round(cropRect.y),
-      Math.round(cropRect.width),
-      Math.round(cropRect.height),
-      0,
-      0,
-      Math.round(cropRect.width),
-      Math.round(cropRect.height)
-    );
-    const dataUrl = canvas.toDataURL();
-    updateLayer(layer.id, { imageData: dataUrl, width: Math.round(cropRect.width), height: Math.round(cropRect.height) });
+    onClose();
+    // Added to the effect stack so the cropped-away pixels stay recoverable
+    await addLayerEffect(layer.id, {
+      id: createEffectId(),
+      type: 'crop',
+      enabled: true,
+      x: Math.round(cropRect.x),
+      y: Math.round(cropRect.y),
+      width: Math.round(cropRect.width),
+      height: Math.round(cropRect.height),
+    });
     // Auto-crop canvas when there's only one layer
     if (layers.length === 1) {
       setTimeout(() => { cropCanvasToLayers(); window.fitCanvasToScreen?.(); }, 50);
     }
-    onClose();
   };
 
   // render
@@ -1,4 +1,5 @@
 import React, { useState, useCallback } from 'react';
+import { addLibraryPalette } from '../../utils/paletteStorage';
 
 interface GeoPixelsPaletteModalProps {
   isOpen: boolean;
@@ -47,6 +48,7 @@ const GeoPixelsPaletteModal: React.FC<GeoPixelsPaletteModalProps> = ({ isOpen, o
   const [parsedColors, setParsedColors] = useState<string[]>([]);
   const [hoveredColor, setHoveredColor] = useState<string | null>(null);
   const [hoverPos, setHoverPos] = useState<{ x: number; y: number } | null>(null);
+  const [savedToLibrary, setSavedToLibrary] = useState(false);
 
   const handleFetch = useCallback(async () => {
     const id = parseInt(userId.trim() || '3228', 10);
@@ -59,6 +61,7 @@ const GeoPixelsPaletteModal: React.FC<GeoPixelsPaletteModalProps> = ({ isOpen, o
     setError(null);
     setProfile(null);
     setParsedColors([]);
+    setSavedToLibrary(false);
 
     try {
       const response = await fetch(GEOPIXELS_PROFILE_URL, {
@@ -114,6 +117,13 @@ const GeoPixelsPaletteModal: React.FC<GeoPixelsPaletteModalProps> = ({ isOpen, o
     }
   };
 
+  const handleSaveToLibrary = () => {
+    if (!profile || parsedColors.length === 0) return;
+    addLibraryPalette(`GeoPixels – ${profile.name}`, parsedColors, ['geopixels', 'owned'])
+      .then(() => setSavedToLibrary(true))
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to save palette.'));
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleFetch();
@@ -308,6 +318,14 @@ const GeoPixelsPaletteModal: React.FC<GeoPixelsPaletteModalProps> = ({ isOpen, o
                     <span>🎨</span>
                     Add Palette to Pixelator
                   </button>
+                  <button
+                    id="btn-geopixels-save-to-library"
+                    onClick={handleSaveToLibrary}
+                    disabled={savedToLibrary}
+                    className="w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:cursor-default text-gray-200 text-xs font-medium rounded transition-colors"
+                  >
+                    {savedToLibrary ? 'Saved to Palette Library' : 'Save to Palette Library'}
+                  </button>
                 </div>
               )}
             </div>
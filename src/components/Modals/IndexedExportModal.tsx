@@ -0,0 +1,233 @@
+import { useMemo, useState } from 'react';
+import useCompositorStore from '../../store/compositorStore';
+import { exportCanvasPixels } from '../../utils/projectSerializer';
+import { resolveLayerGroups } from '../../utils/layerGroups';
+import { getImageColors, getPixelatorPalette, parsePaletteText } from '../../utils/palette';
+import { LIBRARY_SOURCE_PREFIX, getLibraryPaletteColors } from '../../utils/paletteStorage';
+import { usePaletteLibrary } from '../../hooks/usePaletteLibrary';
+import { MAX_PNG_PALETTE_SIZE, PaletteMismatch, encodeIndexedPNG, findPaletteMismatches } from '../../utils/indexedPng';
+
+interface IndexedExportModalProps {
+  onClose: () => void;
+  initialScale: number;
+}
+
+type PaletteSource = 'project' | 'pixelator' | 'image' | `${typeof LIBRARY_SOURCE_PREFIX}${string}`;
+
+const PALETTE_SOURCES: { value: PaletteSource; label: string }[] = [
+  { value: 'project', label: 'Project palette' },
+  { value: 'pixelator', label: 'Pixelator palette' },
+  { value: 'image', label: 'Colors in image' },
+];
+
+/**
+ * Export the canvas as an indexed PNG (PLTE + tRNS) with an exact palette
+ * Nothing is remapped: if a pixel's color is not in the palette the export
+ * stops and lists the offending colors instead
+ */
+function IndexedExportModal({ onClose, initialScale }: IndexedExportModalProps) {
+  const project = useCompositorStore((state) => state.project);
+  const setProjectPalette = useCompositorStore((state) => state.setProjectPalette);
+  // Default to the palette most likely intended: the project's, then the pixelator's
+  const [source, setSource] = useState<PaletteSource>(() =>
+    project.palette?.length ? 'project' : getPixelatorPalette(project.layers).length > 0 ? 'pixelator' : 'image'
+  );
+  const [scale, setScale] = useState(initialScale);
+  const [paletteText, setPaletteText] = useState((project.palette ?? []).join(', '));
+  const [isExporting, setIsExporting] = useState(false);
+  const [errorText, setErrorText] = useState<string | null>(null);
+  const [mismatches, setMismatches] = useState<{ list: PaletteMismatch[]; total: number } | null>(null);
+
+  const parsed = useMemo(() => parsePaletteText(paletteText), [paletteText]);
+  const pixelatorPalette = useMemo(() => getPixelatorPalette(project.layers), [project.layers]);
+  const library = usePaletteLibrary();
+
+  const palette = getLibraryPaletteColors(library, source)
+    ?? (source === 'project' ? parsed.colors : source === 'pixelator' ? pixelatorPalette : null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setErrorText(null);
+    setMismatches(null);
+    try {
+      const pixels = await exportCanvasPixels(
+        resolveLayerGroups(project.layers, project.groups), project.canvas.width, project.canvas.height,
+        scale, project.canvas.backgroundColor, project.canvas,
+      );
+
+      // 'Colors in image' reads the palette from the pixels, so it can only fail on size
+      const exportPalette = palette ?? getImageColors(pixels, MAX_PNG_PALETTE_SIZE + 1);
+      const check = findPaletteMismatches(pixels, exportPalette);
+      if (check.total > 0) {
+        setMismatches({ list: check.mismatches, total: check.total });
+        return;
+      }
+
+      const blob = await encodeIndexedPNG(pixels, exportPalette);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${project.projectName || 'composite'}_${scale}x_indexed.png`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      if (source === 'project' && parsed.colors.join() !== (project.palette ?? []).join()) {
+        setProjectPalette(parsed.colors);
+      }
+      onClose();
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-gray-800 border border-gray-600 rounded-lg shadow-xl w-[520px] max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-200">Export Indexed PNG</h3>
+            <p className="text-xs text-gray-500 mt-0.5">
+              Writes the exact palette into the file; colors are never remapped
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-lg leading-none">×</button>
+        </div>
+
+        <div className="px-4 py-3 space-y-3 overflow-y-auto">
+          <div className="flex items-center gap-2">
+            <label htmlFor="select-indexed-palette-source" className="text-xs text-gray-400 flex-shrink-0">Palette</label>
+            <select
+              id="select-indexed-palette-source"
+              value={source}
+              onChange={(e) => { setSource(e.target.value as PaletteSource); setMismatches(null); }}
+              className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-gray-200"
+            >
+              {PALETTE_SOURCES.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+              {library.length > 0 && (
+                <optgroup label="Palette Library">
+                  {library.map((entry) => (
+                    <option key={entry.id} value={`${LIBRARY_SOURCE_PREFIX}${entry.id}`}>{entry.name}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+            <label htmlFor="select-indexed-scale" className="text-xs text-gray-400 flex-shrink-0">Scale</label>
+            <select
+              id="select-indexed-scale"
+              value={scale}
+              onChange={(e) => setScale(parseInt(e.target.value))}
+              className="bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-gray-200"
+            >
+              {[1, 2, 4, 8].map((s) => <option key={s} value={s}>{s}x</option>)}
+            </select>
+          </div>
+
+          {source === 'project' && (
+            <div className="space-y-1">
+              <textarea
+                id="input-indexed-palette"
+                value={paletteText}
+                onChange={(e) => { setPaletteText(e.target.value); setMismatches(null); }}
+                rows={4}
+                placeholder="#000000, #FFFFFF, ... (hex or decimal, separated by commas, spaces or new lines)"
+                className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs font-mono text-gray-200"
+                aria-label="Project palette"
+              />
+              {parsed.invalid.length > 0 && (
+                <p className="text-xs text-yellow-400">Ignored: {parsed.invalid.slice(0, 8).join(', ')}{parsed.invalid.length > 8 ? ', …' : ''}</p>
+              )}
+              <p className="text-xs text-gray-500">Saved as the project palette when the export succeeds</p>
+            </div>
+          )}
+
+          {source === 'image' && (
+            <p className="text-xs text-gray-500">
+              Uses the distinct colors of the exported image (up to {MAX_PNG_PALETTE_SIZE}, semi-transparent pixels not allowed).
+            </p>
+          )}
+
+          {palette && (
+            <div className="space-y-1">
+              <div className="text-xs text-gray-400">{palette.length} color{palette.length === 1 ? '' : 's'}</div>
+              {palette.length > 0 ? (
+                <div className="flex flex-wrap gap-0.5">
+                  {palette.map((color) => (
+                    <div key={color} className="w-4 h-4 rounded-sm border border-gray-600" style={{ backgroundColor: color }} title={color} />
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-yellow-400">
+                  {source === 'pixelator' ? 'No pixelated layer uses a palette' : 'Enter at least one color'}
+                </p>
+              )}
+              {source !== 'project' && palette.length > 0 && (
+                <button
+                  id="btn-indexed-save-project-palette"
+                  onClick={() => setProjectPalette(palette)}
+                  className="text-xs text-blue-400 hover:text-blue-300"
+                >
+                  Use as project palette
+                </button>
+              )}
+            </div>
+          )}
+
+          {mismatches && (
+            <div className="bg-gray-900 rounded border border-red-700/60 p-3 space-y-2" data-region="palette-mismatches">
+              <div className="text-xs font-semibold text-red-400">
+                {mismatches.total} pixel{mismatches.total === 1 ? '' : 's'} outside the palette - nothing was exported
+              </div>
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {mismatches.list.map((m) => (
+                  <div key={m.color} className="flex items-center gap-2 text-xs text-gray-300">
+                    <div className="w-4 h-4 rounded-sm border border-gray-600 flex-shrink-0" style={{ backgroundColor: m.color }} />
+                    <span className="font-mono">{m.color}</span>
+                    <span className="text-gray-500">
+                      {m.count}× - first at {Math.floor(m.x / scale)}, {Math.floor(m.y / scale)}
+                      {m.color.length > 7 ? ' (semi-transparent)' : ''}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              {mismatches.total > mismatches.list.reduce((sum, m) => sum + m.count, 0) && (
+                <div className="text-xs text-gray-500">Only the {mismatches.list.length} most common colors are listed</div>
+              )}
+            </div>
+          )}
+
+          {errorText && <div className="text-xs text-red-400">{errorText}</div>}
+        </div>
+
+        {/* Footer */}
+        <div className="px-4 py-3 border-t border-gray-700 flex items-center gap-2">
+          <button
+            id="btn-export-indexed-png"
+            onClick={handleExport}
+            disabled={isExporting || (palette !== null && palette.length === 0)}
+            className="flex-1 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white py-2 rounded text-sm font-semibold transition-colors"
+          >
+            {isExporting ? 'Exporting…' : 'Export'}
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded text-sm transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default IndexedExportModal;
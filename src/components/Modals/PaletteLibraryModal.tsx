@@ -0,0 +1,318 @@
+import { useMemo, useRef, useState } from 'react';
+import useCompositorStore from '../../store/compositorStore';
+import { usePaletteLibrary } from '../../hooks/usePaletteLibrary';
+import { PRESET_PALETTES } from '../../utils/palette';
+import {
+  PALETTE_FILE_ACCEPT, PALETTE_FILE_FORMATS, PaletteFileFormat, exportPaletteFile, importPaletteFile,
+} from '../../utils/paletteFormats';
+import {
+  LibraryPalette, addLibraryPalette, deleteLibraryPalette, reorderLibraryPalettes, updateLibraryPalette,
+} from '../../utils/paletteStorage';
+
+interface PaletteLibraryModalProps {
+  onClose: () => void;
+}
+
+// Swatches shown per palette row
+const MAX_PREVIEW_COLORS = 48;
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+function parseTags(text: string) {
+  return [...new Set(text.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+function SwatchStrip({ colors }: { colors: string[] }) {
+  return (
+    <div className="flex flex-wrap gap-0">
+      {colors.slice(0, MAX_PREVIEW_COLORS).map((color, i) => (
+        <div key={i} className="w-3 h-3" style={{ backgroundColor: color }} title={color} />
+      ))}
+      {colors.length > MAX_PREVIEW_COLORS && (
+        <span className="text-[10px] text-gray-500 ml-1">+{colors.length - MAX_PREVIEW_COLORS}</span>
+      )}
+    </div>
+  );
+}
+
+function ExportSelect({ name, colors }: { name: string; colors: string[] }) {
+  return (
+    <select
+      value=""
+      onChange={(e) => {
+        const format = PALETTE_FILE_FORMATS.find((f) => f.value === (e.target.value as PaletteFileFormat));
+        if (format) downloadBlob(exportPaletteFile(name, colors, format.value), `${name}.${format.extension}`);
+      }}
+      className="bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-xs text-gray-300"
+      title="Download this palette"
+    >
+      <option value="">Export…</option>
+      {PALETTE_FILE_FORMATS.map(({ value, label }) => (
+        <option key={value} value={value}>{label}</option>
+      ))}
+    </select>
+  );
+}
+
+/**
+ * Palette library: named, tagged palettes kept in the browser (IndexedDB) and
+ * offered by every palette picker. Imports and exports GIMP, Paint.NET, JASC,
+ * Adobe and hex palettes and PNG swatch strips.
+ */
+function PaletteLibraryModal({ onClose }: PaletteLibraryModalProps) {
+  const library = usePaletteLibrary();
+  const projectPalette = useCompositorStore((state) => state.project.palette);
+  const setProjectPalette = useCompositorStore((state) => state.setProjectPalette);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [search, setSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [messages, setMessages] = useState<{ text: string; error: boolean }[]>([]);
+
+  const allTags = useMemo(() => [...new Set(library.flatMap((p) => p.tags))].sort(), [library]);
+  const query = search.trim().toLowerCase();
+  const visible = library.filter((p) =>
+    (!tagFilter || p.tags.includes(tagFilter)) &&
+    (!query || p.name.toLowerCase().includes(query) || p.tags.some((tag) => tag.includes(query)))
+  );
+  const builtIns = PRESET_PALETTES.filter((p) => !query || p.label.toLowerCase().includes(query));
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    const results: { text: string; error: boolean }[] = [];
+    for (const file of files) {
+      try {
+        const parsed = await importPaletteFile(file);
+        await addLibraryPalette(parsed.name, parsed.colors, tagFilter ? [tagFilter] : []);
+        results.push({ text: `Imported "${parsed.name}" (${parsed.colors.length} colors)`, error: false });
+        for (const warning of parsed.warnings) results.push({ text: `${file.name}: ${warning}`, error: true });
+      } catch (error) {
+        results.push({ text: `${file.name}: ${error instanceof Error ? error.message : 'Could not read palette'}`, error: true });
+      }
+    }
+    setMessages(results);
+  };
+
+  const handleMove = (palette: LibraryPalette, direction: -1 | 1) => {
+    const ids = library.map((p) => p.id);
+    const index = ids.indexOf(palette.id);
+    const target = index + direction;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderLibraryPalettes(library, ids);
+  };
+
+  const handleRenameSubmit = (palette: LibraryPalette) => {
+    if (renameValue.trim() && renameValue.trim() !== palette.name) {
+      updateLibraryPalette(palette, { name: renameValue.trim() });
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (palette: LibraryPalette) => {
+    if (!window.confirm(`Delete palette "${palette.name}"?`)) return;
+    deleteLibraryPalette(palette.id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-gray-800 border border-gray-600 rounded-lg shadow-xl w-[640px] max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-200">Palette Library</h3>
+            <p className="text-xs text-gray-500 mt-0.5">
+              Saved in this browser and offered wherever a palette is picked
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-lg leading-none">×</button>
+        </div>
+
+        <div className="px-4 py-3 space-y-3 border-b border-gray-700">
+          <div className="flex items-center gap-2">
+            <input
+              id="input-palette-library-search"
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search names and tags"
+              className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-gray-200"
+            />
+            <button
+              id="btn-import-palettes"
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-1 bg-blue-600 hover:bg-blue-500 text-white rounded text-xs font-medium transition-colors"
+              title="GIMP .gpl, Paint.NET .txt, .pal, Adobe .ase/.aco, .hex or a PNG swatch strip"
+            >
+              Import…
+            </button>
+            {projectPalette && projectPalette.length > 0 && (
+              <button
+                id="btn-add-project-palette-to-library"
+                onClick={() => addLibraryPalette('Project palette', projectPalette, tagFilter ? [tagFilter] : [])}
+                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded text-xs transition-colors"
+              >
+                Add Project Palette
+              </button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={PALETTE_FILE_ACCEPT}
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+          {allTags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {allTags.map((tag) => (
+                <button
+                  key={tag}
+                  onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                  className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                    tagFilter === tag ? 'bg-blue-600 border-blue-500 text-white' : 'bg-gray-900 border-gray-600 text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+          )}
+          {messages.length > 0 && (
+            <div className="space-y-0.5">
+              {messages.map((m, i) => (
+                <div key={i} className={`text-xs ${m.error ? 'text-yellow-400' : 'text-green-400'}`}>{m.text}</div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="px-4 py-3 space-y-2 overflow-y-auto flex-1" data-region="palette-library-list">
+          {library.length === 0 && (
+            <div className="text-center text-gray-500 py-6 text-xs">
+              No saved palettes yet - import a palette file, or save one from the pixelator
+            </div>
+          )}
+          {visible.map((palette) => (
+            <div key={palette.id} className="p-2 bg-gray-900/60 rounded border border-gray-700 space-y-1.5">
+              <div className="flex items-center gap-2">
+                {renamingId === palette.id ? (
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onBlur={() => handleRenameSubmit(palette)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRenameSubmit(palette);
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="flex-1 bg-gray-900 border border-blue-500 rounded px-2 py-0.5 text-sm text-white focus:outline-none"
+                  />
+                ) : (
+                  <button
+                    onClick={() => { setRenamingId(palette.id); setRenameValue(palette.name); }}
+                    className="flex-1 text-left text-sm font-medium text-gray-200 truncate hover:text-white"
+                    title="Rename"
+                  >
+                    {palette.name}
+                  </button>
+                )}
+                <span className="text-xs text-gray-500">{palette.colors.length} colors</span>
+                <button
+                  onClick={() => handleMove(palette, -1)}
+                  className="px-1 text-xs text-gray-400 hover:text-white"
+                  title="Move up"
+                >▲</button>
+                <button
+                  onClick={() => handleMove(palette, 1)}
+                  className="px-1 text-xs text-gray-400 hover:text-white"
+                  title="Move down"
+                >▼</button>
+              </div>
+              <SwatchStrip colors={palette.colors} />
+              <div className="flex items-center gap-2">
+                <input
+                  key={palette.tags.join(',')}
+                  type="text"
+                  defaultValue={palette.tags.join(', ')}
+                  onBlur={(e) => {
+                    const tags = parseTags(e.target.value);
+                    if (tags.join() !== palette.tags.join()) updateLibraryPalette(palette, { tags });
+                  }}
+                  onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                  placeholder="Tags, comma separated"
+                  className="flex-1 bg-gray-900 border border-gray-700 rounded px-2 py-0.5 text-xs text-gray-300"
+                />
+                <button
+                  onClick={() => setProjectPalette(palette.colors)}
+                  className="text-xs text-blue-400 hover:text-blue-300"
+                  title="Use these colors as the project palette"
+                >
+                  Use in Project
+                </button>
+                <ExportSelect name={palette.name} colors={palette.colors} />
+                <button
+                  onClick={() => handleDelete(palette)}
+                  className="text-xs text-gray-400 hover:text-red-400"
+                  title="Delete"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {!tagFilter && builtIns.length > 0 && (
+            <>
+              <div className="text-xs font-semibold text-gray-500 uppercase pt-2">Built-in</div>
+              {builtIns.map((preset) => (
+                <div key={preset.label} className="p-2 bg-gray-900/30 rounded border border-gray-700/60 space-y-1.5">
+                  <div className="flex items-center gap-2">
+                    <span className="flex-1 text-sm text-gray-300">{preset.label}</span>
+                    <span className="text-xs text-gray-500">{preset.palette.length} colors</span>
+                    <button
+                      onClick={() => addLibraryPalette(preset.label, [...preset.palette])}
+                      className="text-xs text-blue-400 hover:text-blue-300"
+                      title="Copy into the library to rename, tag or edit it"
+                    >
+                      Copy to Library
+                    </button>
+                    <ExportSelect name={preset.label} colors={preset.palette} />
+                  </div>
+                  <SwatchStrip colors={preset.palette} />
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-4 py-3 border-t border-gray-700 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded text-sm transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default PaletteLibraryModal;
@@ -4,41 +4,30 @@ import EyedropperModal from './EyedropperModal';
 import GeoPixelsPaletteModal from './GeoPixelsPaletteModal';
 import GradientPickerModal from './GradientPickerModal';
 import GroupNoiseModal from './GroupNoiseModal';
+import PaletteLibraryModal from './PaletteLibraryModal';
+import QuantizeCompareModal from './QuantizeCompareModal';
 import SamplingMaskModal from './SamplingMaskModal';
+import { usePaletteLibrary } from '../../hooks/usePaletteLibrary';
 import { usePortraitMode } from '../../hooks/usePortraitMode';
 import useCompositorStore from '../../store/compositorStore';
-import { Layer } from '../../types/compositor.types';
+import { ColorBudget, Layer, PixelateEffect } from '../../types/compositor.types';
+import { dataUrlToMask, maskToDataUrl } from '../../utils/imageProcessing';
+import { createEffectId, getEffectSource, primeEffectCache, renderEffectInput } from '../../utils/layerEffects';
+import { isLayerLocked } from '../../utils/layerGroups';
+import {
+  GEOPIXELS_PALETTE, PRESET_PALETTES, WPLACE_FREE_PALETTE, WPLACE_PALETTE, getBudgetLimits, getBudgetUsage,
+} from '../../utils/palette';
+import { LIBRARY_SOURCE_PREFIX, addLibraryPalette, getLibraryPaletteColors } from '../../utils/paletteStorage';
+import { DEFAULT_QUANTIZE_SEED, QUANTIZE_ALGORITHMS, QuantizeAlgorithm, QuantizeColorSpace } from '../../utils/quantize';
 import PixelatorWorker from '../../workers/pixelator.worker?worker';
 
 interface PixelatorModalProps {
   isOpen: boolean;
   onClose: () => void;
   layer: Layer;
+  batch?: boolean; // Opened to pixelate all selected layers: "apply to selected" starts on
 }
 
-const GEOPIXELS_PALETTE = [
-  "#FFFFFF", "#F4F59F", "#FFCA3A", "#FF9F1C", "#FF595E", "#E71D36", "#F3BBC2", "#FF85A1", "#BD637D", "#CDB4DB", "#6A4C93", "#4D194D", "#A8D0DC", "#2EC4B6", "#1A535C", "#6D9DCD", "#1982C4", "#A1C181", "#8AC926", "#A0A0A0", "#6B4226", "#505050", "#CFD078", "#145A7A", "#8B1D24", "#C07F7A", "#C49A6C", "#5B7B1C", "#000000"
-];
-
-const WPLACE_PALETTE = [
-  "#000000", "#3C3C3C", "#787878", "#AAAAAA", "#D2D2D2", "#FFFFFF", "#600018", "#A50E1E", "#ED1C24", "#FA8072", "#E45C1A", "#FF7F27", "#F6AA09", "#F9DD3B", "#FFFABC", "#9C8431", "#C5AD31", "#E8D45F", "#4A6B3A", "#5A944A", "#84C573", "#0EB968", "#13E67B", "#87FF5E", "#0C816E", "#10AEA6", "#13E1BE", "#0F799F", "#60F7F2", "#BBFAF2", "#28509E", "#4093E4", "#7DC7FF", "#4D31B8", "#6B50F6", "#99B1FB", "#4A4284", "#7A71C4", "#B5AEF1", "#780C99", "#AA38B9", "#E09FF9", "#CB007A", "#EC1F80", "#F38DA9", "#9B5249", "#D18078", "#FAB6A4", "#684634", "#95682A", "#DBA463", "#7B6352", "#9C846B", "#D6B594", "#D18051", "#F8B277", "#FFC5A5", "#6D643F", "#948C6B", "#CDC59E", "#333941", "#6D758D", "#B3B9D1"
-];
-
-const WPLACE_FREE_PALETTE = [
-  "#000000", "#3C3C3C", "#787878", "#D2D2D2", "#FFFFFF", "#600018", "#ED1C24", "#FF7F27", "#F6AA09", "#F9DD3B", "#FFFABC", "#0EB968", "#13E67B", "#87FF5E", "#0C816E", "#10AEA6", "#13E1BE", "#60F7F2", "#28509E", "#4093E4", "#6B50F6", "#99B1FB", "#780C99", "#AA38B9", "#E09FF9", "#CB007A", "#EC1F80", "#F38DA9", "#684634", "#95682A", "#F8B277"
-];
-
-const WIN95_256_PALETTE = [
-  "#000000", "#800000", "#008000", "#808000", "#000080", "#800080", "#008080", "#C0C0C0", "#C0DCC0", "#A6CAF0", "#2A3FAA", "#2A3FFF", "#2A5F00", "#2A5F55", "#2A5FAA", "#2A5FFF", "#2A7F00", "#2A7F55", "#2A7FAA", "#2A7FFF", "#2A9F00", "#2A9F55", "#2A9FAA", "#2A9FFF", "#2ABF00", "#2ABF55", "#2ABFAA", "#2ABFFF", "#2ADF00", "#2ADF55", "#2ADFAA", "#2ADFFF", "#2AFF00", "#2AFF55", "#2AFFAA", "#2AFFFF", "#550000", "#550055", "#5500AA", "#5500FF", "#551F00", "#551F55", "#551FAA", "#551FFF", "#553F00", "#553F55", "#553FAA", "#553FFF", "#555F00", "#555F55", "#555FAA", "#555FFF", "#557F00", "#557F55", "#557FAA", "#557FFF", "#559F00", "#559F55", "#559FAA", "#559FFF", "#55BF00", "#55BF55", "#55BFAA", "#55BFFF", "#55DF00", "#55DF55", "#55DFAA", "#55DFFF", "#55FF00", "#55FF55", "#55FFAA", "#55FFFF", "#7F0000", "#7F0055", "#7F00AA", "#7F00FF", "#7F1F00", "#7F1F55", "#7F1FAA", "#7F1FFF", "#7F3F00", "#7F3F55", "#7F3FAA", "#7F3FFF", "#7F5F00", "#7F5F55", "#7F5FAA", "#7F5FFF", "#7F7F00", "#7F7F55", "#7F7FAA", "#7F7FFF", "#7F9F00", "#7F9F55", "#7F9FAA", "#7F9FFF", "#7FBF00", "#7FBF55", "#7FBFAA", "#7FBFFF", "#7FDF00", "#7FDF55", "#7FDFAA", "#7FDFFF", "#7FFF00", "#7FFF55", "#7FFFAA", "#7FFFFF", "#AA0000", "#AA0055", "#AA00AA", "#AA00FF", "#AA1F00", "#AA1F55", "#AA1FAA", "#AA1FFF", "#AA3F00", "#AA3F55", "#AA3FAA", "#AA3FFF", "#AA5F00", "#AA5F55", "#AA5FAA", "#AA5FFF", "#AA7F00", "#AA7F55", "#AA7FAA", "#AA7FFF", "#AA9F00", "#AA9F55", "#AA9FAA", "#AA9FFF", "#AABF00", "#AABF55", "#AABFAA", "#AABFFF", "#AADF00", "#AADF55", "#AADFAA", "#AADFFF", "#AAFF00", "#AAFF55", "#AAFFAA", "#AAFFFF", "#D40000", "#D40055", "#D400AA", "#D400FF", "#D41F00", "#D41F55", "#D41FAA", "#D41FFF", "#D43F00", "#D43F55", "#D43FAA", "#D43FFF", "#D45F00", "#D45F55", "#D45FAA", "#D45FFF", "#D47F00", "#D47F55", "#D47FAA", "#D47FFF", "#D49F00", "#D49F55", "#D49FAA", "#D49FFF", "#D4BF00", "#D4BF55", "#D4BFAA", "#D4BFFF", "#D4DF00", "#D4DF55", "#D4DFAA", "#D4DFFF", "#D4FF00", "#D4FF55", "#D4FFAA", "#D4FFFF", "#FF0055", "#FF00AA", "#FF1F00", "#FF1F55", "#FF1FAA", "#FF1FFF", "#FF3F00", "#FF3F55", "#FF3FAA", "#FF3FFF", "#FF5F00", "#FF5F55", "#FF5FAA", "#FF5FFF", "#FF7F00", "#FF7F55", "#FF7FAA", "#FF7FFF", "#FF9F00", "#FF9F55", "#FF9FAA", "#FF9FFF", "#FFBF00", "#FFBF55", "#FFBFAA", "#FFBFFF", "#FFDF00", "#FFDF55", "#FFDFAA", "#FFDFFF", "#FFFF55", "#FFFFAA", "#CCCCFF", "#FFCCFF", "#33FFFF", "#66FFFF", "#99FFFF", "#CCFFFF", "#007F00", "#007F55", "#007FAA", "#007FFF", "#009F00", "#009F55", "#009FAA", "#009FFF", "#00BF00", "#00BF55", "#00BFAA", "#00BFFF", "#00DF00", "#00DF55", "#00DFAA", "#00DFFF", "#00FF55", "#00FFAA", "#2A0000", "#2A0055", "#2A00AA", "#2A00FF", "#2A1F00", "#2A1F55", "#2A1FAA", "#2A1FFF", "#2A3F00", "#2A3F55", "#FFFBF0", "#A0A0A4", "#808080", "#FF0000", "#00FF00", "#FFFF00", "#0000FF", "#FF00FF", "#00FFFF", "#FFFFFF"
-];
-
-const PRESET_PALETTES = [
-  { label: 'Geopixels Base', palette: GEOPIXELS_PALETTE },
-  { label: 'WPlace Free', palette: WPLACE_FREE_PALETTE },
-  { label: 'WPlace All', palette: WPLACE_PALETTE },
-  { label: 'Win95 256-color', palette: WIN95_256_PALETTE },
-];
-
 const COLOR_MATCH_ALGORITHMS = [
   { value: 'oklab', label: 'OKLab (perceptual)', desc: 'Modern perceptual — best all-round accuracy' },
   { value: 'ciede2000', label: 'CIEDE2000', desc: 'Gold standard — great for skin tones and gradients' },
@@ -71,11 +60,43 @@ const COMMON_HEIGHTS = [
   512, 550, 600, 650, 700, 750, 800, 850, 900, 950, 1000
 ];
 
-const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer }) => {
-  const updateLayer = useCompositorStore((state) => state.updateLayer);
+const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer, batch = false }) => {
+  const addLayerEffect = useCompositorStore((state) => state.addLayerEffect);
+  const updateLayerEffect = useCompositorStore((state) => state.updateLayerEffect);
   const layers = useCompositorStore((state) => state.project.layers);
   const cropCanvasToLayers = useCompositorStore((state) => state.cropCanvasToLayers);
+  const revertPixelation = useCompositorStore((state) => state.revertPixelation);
+  const selectedLayerIds = useCompositorStore((state) => state.selectedLayerIds);
+  const groups = useCompositorStore((state) => state.project.groups);
   const isPortrait = usePortraitMode();
+  const paletteLibrary = usePaletteLibrary();
+  // Other selected layers (e.g. imported GIF frames) can get the same pixelation in one go
+  const batchLayers = layers.filter(
+    (l) => l.id !== layer.id && selectedLayerIds.includes(l.id) && !isLayerLocked(l, groups)
+  );
+  // Opt-in unless asked for, so applying to one layer never silently rewrites the others
+  const [applyToSelected, setApplyToSelected] = useState(batch);
+  useEffect(() => {
+    if (isOpen) setApplyToSelected(batch);
+  }, [isOpen, batch]);
+
+  // Re-opening on a pixelated layer edits its pixelate effect instead of pixelating twice
+  const pixelateEffect = [...(layer.effects ?? [])].reverse().find((e): e is PixelateEffect => e.type === 'pixelate');
+  // Image the pixelation runs on: the layer as it looks below the pixelate effect
+  const [sourceImage, setSourceImage] = useState<string>(pixelateEffect ? '' : layer.imageData);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    if (!pixelateEffect) {
+      setSourceImage(layer.imageData);
+      return;
+    }
+    let cancelled = false;
+    renderEffectInput(layer, pixelateEffect.id)
+      .then((input) => { if (!cancelled) setSourceImage(input.imageData); })
+      .catch((error) => console.error('Failed to render pixelator input:', error));
+    return () => { cancelled = true; };
+  }, [isOpen, layer, pixelateEffect]);
 
   // State
   const [targetHeight, setTargetHeight] = useState<number>(128);
@@ -105,6 +126,9 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
   const [isPaletteOpen, setIsPaletteOpen] = useState<boolean>(true);
   const [useKmeans, setUseKmeans] = useState<boolean>(false);
   const [kmeansColors, setKmeansColors] = useState<number>(16);
+  const [quantizeAlgorithm, setQuantizeAlgorithm] = useState<QuantizeAlgorithm>('kmeans');
+  const [quantizeColorSpace, setQuantizeColorSpace] = useState<QuantizeColorSpace>('rgb');
+  const [quantizeSeed, setQuantizeSeed] = useState<number>(DEFAULT_QUANTIZE_SEED);
   const [suggestedColors, setSuggestedColors] = useState<string[]>([]);
   const [suggestCount, setSuggestCount] = useState<number>(8);
   const [isSuggesting, setIsSuggesting] = useState<boolean>(false);
@@ -122,6 +146,11 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
   const [displayTrivialThreshold, setDisplayTrivialThreshold] = useState<string>('0.1');
   const [trivialThresholdMode, setTrivialThresholdMode] = useState<'percent' | 'pixels'>('percent');
 
+  // Limited inventory: pixel budget and cost per palette color (kept across sessions like the custom palette)
+  const [limitInventory, setLimitInventory] = useState<boolean>(false);
+  const [colorBudgets, setColorBudgets] = useState<Record<string, ColorBudget>>({});
+  const [isInventoryOpen, setIsInventoryOpen] = useState<boolean>(true);
+
   // Before/After comparison slider (0 = all original, 100 = all pixelated)
   const [comparePosition, setComparePosition] = useState<number>(100);
 
@@ -168,6 +197,9 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
   // GeoPixels palette modal state
   const [isGeoPixelsPaletteOpen, setIsGeoPixelsPaletteOpen] = useState<boolean>(false);
 
+  // Palette library modal state
+  const [isPaletteLibraryOpen, setIsPaletteLibraryOpen] = useState<boolean>(false);
+
   // Gradient picker modal state
   const [isGradientPickerOpen, setIsGradientPickerOpen] = useState<boolean>(false);
 
@@ -192,6 +224,9 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
   const compareContainerRef = useRef<HTMLDivElement>(null);
   const isDraggingCompare = useRef<boolean>(false);
   const jobIdRef = useRef<number>(0);
+  const restoredSourceRef = useRef<boolean>(false); // Settings from the layer's pixelate effect applied for this open
+  const lastJobRef = useRef<{ workerSettings: Record<string, unknown>; samplingMask: { mask: Uint8Array; w: number; h: number } | null } | null>(null); // Settings behind the current preview
+  const [quantizeCompareJob, setQuantizeCompareJob] = useState<typeof lastJobRef.current>(null); // Open while set
   const [settingsLoaded, setSettingsLoaded] = useState<boolean>(false);
 
   // Track previous state to restore K-Means when switching back to 'none'
@@ -288,6 +323,10 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
     if (cached) {
       setCustomPaletteInput(cached);
     }
+    try {
+      const budgets = localStorage.getItem('pixelator_color_budgets');
+      if (budgets) setColorBudgets(JSON.parse(budgets));
+    } catch { /* ignore corrupt data */ }
   }, []);
 
   // Load persisted settings on mount
@@ -313,6 +352,9 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
         if (s.selectedPreset != null) setSelectedPreset(s.selectedPreset);
         if (s.useKmeans != null) setUseKmeans(s.useKmeans);
         if (s.kmeansColors != null) setKmeansColors(s.kmeansColors);
+        if (s.quantizeAlgorithm) setQuantizeAlgorithm(s.quantizeAlgorithm);
+        if (s.quantizeColorSpace) setQuantizeColorSpace(s.quantizeColorSpace);
+        if (s.quantizeSeed != null) setQuantizeSeed(s.quantizeSeed);
         if (s.brightness != null) setBrightness(s.brightness);
         if (s.contrast != null) setContrast(s.contrast);
         if (s.saturation != null) setSaturation(s.saturation);
@@ -334,6 +376,7 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
         if (s.edgeDetectAlgorithm) setEdgeDetectAlgorithm(s.edgeDetectAlgorithm);
         if (s.serpentineDither != null) setSerpentineDither(s.serpentineDither);
         if (s.gammaCorrectDither != null) setGammaCorrectDither(s.gammaCorrectDither);
+        if (s.limitInventory != null) setLimitInventory(s.limitInventory);
         if (s.autoUpdate != null) setAutoUpdate(s.autoUpdate);
         if (s.isPaletteVisualizationOpen != null) setIsPaletteVisualizationOpen(s.isPaletteVisualizationOpen);
         if (s.isExtraFeaturesOpen != null) setIsExtraFeaturesOpen(s.isExtraFeaturesOpen);
@@ -351,20 +394,20 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
   const settingsToSave = useMemo(() => ({
     targetHeight, resamplingMethod, ditherMethod, ditherStrength,
     preprocessBilateral, preprocessBilateralStrength, preprocessEdgeDetect, preprocessSharpening, preprocessSharpeningStrength, bcsEnabled, paletteMode,
-    useKmeans, kmeansColors, brightness, contrast, saturation, vibrance,
+    useKmeans, kmeansColors, quantizeAlgorithm, quantizeColorSpace, quantizeSeed, brightness, contrast, saturation, vibrance,
     colorMatchAlgorithm, preserveDetailThreshold,
     filterTrivialColors, trivialThreshold, trivialThresholdMode,
     pixeloeThickness, pixeloePatchSize, edgeDetectBlur, edgeDetectAlgorithm,
-    serpentineDither, gammaCorrectDither,
+    serpentineDither, gammaCorrectDither, limitInventory,
     outlineConsistency, outlineColors, clusterCleanup, clusterMinSize,
     autoUpdate, isPaletteVisualizationOpen, isExtraFeaturesOpen, includeGeopixelsBase, selectedPreset,
   }), [targetHeight, resamplingMethod, ditherMethod, ditherStrength,
     preprocessBilateral, preprocessBilateralStrength, preprocessEdgeDetect, preprocessSharpening, preprocessSharpeningStrength, bcsEnabled, paletteMode,
-    useKmeans, kmeansColors, brightness, contrast, saturation, vibrance,
+    useKmeans, kmeansColors, quantizeAlgorithm, quantizeColorSpace, quantizeSeed, brightness, contrast, saturation, vibrance,
     colorMatchAlgorithm, preserveDetailThreshold,
     filterTrivialColors, trivialThreshold, trivialThresholdMode,
     pixeloeThickness, pixeloePatchSize, edgeDetectBlur, edgeDetectAlgorithm,
-    serpentineDither, gammaCorrectDither,
+    serpentineDither, gammaCorrectDither, limitInventory,
     outlineConsistency, outlineColors, clusterCleanup, clusterMinSize,
     autoUpdate, isPaletteVisualizationOpen, isExtraFeaturesOpen, includeGeopixelsBase, selectedPreset]);
 
@@ -375,11 +418,13 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
 
   // Initialize original dimensions from layer
   useEffect(() => {
-    if (isOpen && layer.imageData) {
+    if (isOpen && sourceImage) {
       const img = new Image();
       img.onload = () => {
         setOriginalHeight(img.height);
         setOriginalWidth(img.width);
+        // Settings restored from a pixelated layer carry their own target width
+        if (restoredSourceRef.current) return;
         // Only reset target dims on first open (don't clobber persisted settings)
         setTargetHeight(h => {
           const newW = Math.round(h * img.width / img.height);
@@ -388,9 +433,15 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
           return h;
         });
       };
-      img.src = layer.imageData;
+      img.src = sourceImage;
     }
-  }, [isOpen, layer.imageData]);
+  }, [isOpen, sourceImage]);
+
+  // Save color budgets to localStorage on change
+  useEffect(() => {
+    if (!settingsLoaded) return;
+    localStorage.setItem('pixelator_color_budgets', JSON.stringify(colorBudgets));
+  }, [colorBudgets, settingsLoaded]);
 
   // Save custom palette to localStorage on change
   useEffect(() => {
@@ -436,6 +487,8 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
     }
 
     if (paletteMode === 'preset') {
+      const fromLibrary = getLibraryPaletteColors(paletteLibrary, selectedPreset);
+      if (fromLibrary) return fromLibrary;
       const found = PRESET_PALETTES.find(p => p.label === selectedPreset);
       return found ? found.palette : [];
     }
@@ -459,7 +512,7 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
     }
 
     return [];
-  }, [paletteMode, customPaletteInput, selectedPreset, includeGeopixelsBase]);
+  }, [paletteMode, customPaletteInput, selectedPreset, includeGeopixelsBase, paletteLibrary]);
 
   // Handle K-Means state when palette mode changes
   useEffect(() => {
@@ -488,7 +541,7 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
 
   // Trigger Processing
   const processImage = useCallback(() => {
-    if (!layer.imageData) return;
+    if (!sourceImage) return;
 
     // Cancel any in-flight worker job by terminating and recreating
     createWorker();
@@ -519,41 +572,55 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
       // Use explicitly set target dimensions (aspect ratio maintained by UI handlers)
       const tw = targetWidth > 0 ? targetWidth : Math.round(targetHeight * img.width / img.height);
 
+      const workerSettings = {
+        targetWidth: tw,
+        targetHeight,
+        ditherMethod,
+        ditherStrength,
+        palette,
+        resamplingMethod,
+        useKmeans,
+        kmeansColors,
+        quantizeAlgorithm,
+        quantizeColorSpace,
+        quantizeSeed,
+        brightness: bcsEnabled ? brightness : 0,
+        contrast: bcsEnabled ? contrast : 0,
+        saturation: bcsEnabled ? saturation : 0,
+        vibrance: bcsEnabled ? vibrance : 0,
+        preprocessSharpening,
+        preprocessSharpeningStrength,
+        preprocessBilateral,
+        preprocessBilateralStrength,
+        preprocessEdgeDetect,
+        filterTrivialColors,
+        trivialThreshold,
+        trivialThresholdMode,
+        colorMatchAlgorithm,
+        preserveDetailThreshold: bcsEnabled ? preserveDetailThreshold : 0,
+        pixeloeThickness,
+        pixeloePatchSize,
+        edgeDetectBlur,
+        edgeDetectAlgorithm,
+        serpentineDither,
+        gammaCorrectDither,
+        outlineConsistency,
+        outlineColors,
+        clusterCleanup,
+        clusterMinSize,
+        colorBudgets: limitInventory ? getBudgetLimits(palette, colorBudgets) : null,
+      };
+      lastJobRef.current = {
+        workerSettings,
+        samplingMask: samplingMaskEnabled && samplingMask && samplingMaskDims
+          ? { mask: samplingMask, ...samplingMaskDims }
+          : null,
+      };
+
       workerRef.current?.postMessage({
         imageData,
         settings: {
-          targetWidth: tw,
-          targetHeight,
-          ditherMethod,
-          ditherStrength,
-          palette,
-          resamplingMethod,
-          useKmeans,
-          kmeansColors,
-          brightness: bcsEnabled ? brightness : 0,
-          contrast: bcsEnabled ? contrast : 0,
-          saturation: bcsEnabled ? saturation : 0,
-          vibrance: bcsEnabled ? vibrance : 0,
-          preprocessSharpening,
-          preprocessSharpeningStrength,
-          preprocessBilateral,
-          preprocessBilateralStrength,
-          preprocessEdgeDetect,
-          filterTrivialColors,
-          trivialThreshold,
-          trivialThresholdMode,
-          colorMatchAlgorithm,
-          preserveDetailThreshold: bcsEnabled ? preserveDetailThreshold : 0,
-          pixeloeThickness,
-          pixeloePatchSize,
-          edgeDetectBlur,
-          edgeDetectAlgorithm,
-          serpentineDither,
-          gammaCorrectDither,
-          outlineConsistency,
-          outlineColors,
-          clusterCleanup,
-          clusterMinSize,
+          ...workerSettings,
           colorStats: [],
           samplingMask: samplingMaskEnabled && samplingMask ? Array.from(samplingMask) : null,
           samplingMaskWidth: samplingMaskDims?.w || 0,
@@ -561,9 +628,9 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
         }
       });
     };
-    img.src = layer.imageData;
+    img.src = sourceImage;
 
-  }, [layer.imageData, targetHeight, targetWidth, ditherMethod, ditherStrength, getPalette, resamplingMethod, useKmeans, kmeansColors, brightness, contrast, saturation, vibrance, bcsEnabled, preprocessSharpening, preprocessSharpeningStrength, preprocessBilateral, preprocessBilateralStrength, preprocessEdgeDetect, filterTrivialColors, trivialThreshold, trivialThresholdMode, colorMatchAlgorithm, preserveDetailThreshold, pixeloeThickness, pixeloePatchSize, edgeDetectBlur, edgeDetectAlgorithm, serpentineDither, gammaCorrectDither, outlineConsistency, outlineColors, clusterCleanup, clusterMinSize, createWorker, samplingMaskEnabled, samplingMask, samplingMaskDims]);
+  }, [sourceImage, targetHeight, targetWidth, ditherMethod, ditherStrength, getPalette, resamplingMethod, useKmeans, kmeansColors, quantizeAlgorithm, quantizeColorSpace, quantizeSeed, brightness, contrast, saturation, vibrance, bcsEnabled, preprocessSharpening, preprocessSharpeningStrength, preprocessBilateral, preprocessBilateralStrength, preprocessEdgeDetect, filterTrivialColors, trivialThreshold, trivialThresholdMode, colorMatchAlgorithm, preserveDetailThreshold, pixeloeThickness, pixeloePatchSize, edgeDetectBlur, edgeDetectAlgorithm, serpentineDither, gammaCorrectDither, outlineConsistency, outlineColors, clusterCleanup, clusterMinSize, limitInventory, colorBudgets, createWorker, samplingMaskEnabled, samplingMask, samplingMaskDims]);
 
   // Debounced Effect
   useEffect(() => {
@@ -587,6 +654,9 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
     resamplingMethod,
     useKmeans,
     kmeansColors,
+    quantizeAlgorithm,
+    quantizeColorSpace,
+    quantizeSeed,
     brightness,
     contrast,
     saturation,
@@ -612,21 +682,66 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
     outlineColors,
     clusterCleanup,
     clusterMinSize,
+    limitInventory,
+    colorBudgets,
     processImage
   ]);
 
-  const handleApply = () => {
-    if (previewImage && resultDimensions) {
-      updateLayer(layer.id, {
+  const handleApply = async () => {
+    if (previewImage && resultDimensions && lastJobRef.current) {
+      // Stored as an effect so the original stays on the layer and the settings can be resumed
+      const effect: PixelateEffect = {
+        id: pixelateEffect?.id ?? createEffectId(),
+        type: 'pixelate',
+        enabled: true,
+        settings: getLayerSettings(),
+        workerSettings: lastJobRef.current.workerSettings,
+      };
+      const jobMask = lastJobRef.current.samplingMask;
+      if (jobMask) {
+        effect.samplingMask = maskToDataUrl(jobMask.mask, jobMask.w, jobMask.h);
+      }
+      const effects = layer.effects ?? [];
+      const below = pixelateEffect ? effects.slice(0, effects.indexOf(pixelateEffect)) : effects;
+      primeEffectCache(getEffectSource(layer), [...below, effect], {
         imageData: previewImage,
         width: resultDimensions.width,
-        height: resultDimensions.height
+        height: resultDimensions.height,
       });
+      onClose();
+
+      if (pixelateEffect) {
+        await updateLayerEffect(layer.id, effect);
+      } else {
+        await addLayerEffect(layer.id, effect);
+      }
+      // The sampling mask was drawn on this layer's pixels, so the other layers go without it
+      if (applyToSelected) {
+        // An adaptive palette would be rebuilt for every layer and animation frames would
+        // flicker between palettes: the other layers map to the one generated here instead
+        // (undithered and unfiltered, like the adaptive mapping itself)
+        const batchWorkerSettings = effect.workerSettings.useKmeans && generatedPalette.length > 0
+          ? { ...effect.workerSettings, useKmeans: false, palette: generatedPalette, ditherMethod: 'none', filterTrivialColors: false, colorBudgets: null }
+          : effect.workerSettings;
+        for (const other of batchLayers) {
+          const existing = [...(other.effects ?? [])].reverse().find((e) => e.type === 'pixelate');
+          const batchEffect: PixelateEffect = {
+            ...effect,
+            id: existing?.id ?? createEffectId(),
+            workerSettings: batchWorkerSettings,
+            samplingMask: undefined,
+          };
+          if (existing) {
+            await updateLayerEffect(other.id, batchEffect);
+          } else {
+            await addLayerEffect(other.id, batchEffect);
+          }
+        }
+      }
       // Auto-crop canvas when there's only one layer
       if (layers.length === 1) {
         setTimeout(() => { cropCanvasToLayers(); window.fitCanvasToScreen?.(); }, 50);
       }
-      onClose();
     }
   };
 
@@ -767,7 +882,7 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
   }, [getPalette, filterTrivialColors, colorStats, trivialThreshold, trivialThresholdMode]);
 
   const handleSuggestColors = useCallback(() => {
-    if (!workerRef.current || !layer.imageData) return;
+    if (!workerRef.current || !sourceImage) return;
 
     const palette = getEffectivePalette();
     if (palette.length === 0) {
@@ -801,8 +916,8 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
         }
       });
     };
-    img.src = layer.imageData;
-  }, [layer.imageData, getEffectivePalette, suggestCount, preferDistinctColors, samplingMaskEnabled, samplingMask, samplingMaskDims]);
+    img.src = sourceImage;
+  }, [sourceImage, getEffectivePalette, suggestCount, preferDistinctColors, samplingMaskEnabled, samplingMask, samplingMaskDims]);
 
   const handleAddSuggestedToCustom = () => {
     const existingText = customPaletteInput.trim();
@@ -933,6 +1048,9 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
     setPaletteMode('geopixels');
     setUseKmeans(false);
     setKmeansColors(16);
+    setQuantizeAlgorithm('kmeans');
+    setQuantizeColorSpace('rgb');
+    setQuantizeSeed(DEFAULT_QUANTIZE_SEED);
     setBrightness(0);
     setContrast(0);
     setSaturation(0);
@@ -959,6 +1077,7 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
     setEdgeDetectAlgorithm('sobel');
     setSerpentineDither(true);
     setGammaCorrectDither(false);
+    setLimitInventory(false);
     setAutoUpdate(true);
     setIsPaletteVisualizationOpen(true);
     setIsExtraFeaturesOpen(true);
@@ -972,20 +1091,20 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
   const getCurrentSettings = useCallback((): Record<string, any> => ({
     targetHeight, resamplingMethod, ditherMethod, ditherStrength,
     preprocessBilateral, preprocessBilateralStrength, preprocessEdgeDetect, preprocessSharpening, preprocessSharpeningStrength, bcsEnabled,
-    useKmeans, kmeansColors, brightness, contrast, saturation, vibrance,
+    useKmeans, kmeansColors, quantizeAlgorithm, quantizeColorSpace, quantizeSeed, brightness, contrast, saturation, vibrance,
     colorMatchAlgorithm, preserveDetailThreshold,
     filterTrivialColors, trivialThreshold, trivialThresholdMode,
     pixeloeThickness, pixeloePatchSize, edgeDetectBlur, edgeDetectAlgorithm,
-    serpentineDither, gammaCorrectDither,
+    serpentineDither, gammaCorrectDither, limitInventory, colorBudgets,
     outlineConsistency, outlineColors, clusterCleanup, clusterMinSize,
     autoUpdate, customPaletteInput, selectedPreset, includeGeopixelsBase,
   }), [targetHeight, resamplingMethod, ditherMethod, ditherStrength,
     preprocessBilateral, preprocessBilateralStrength, preprocessEdgeDetect, preprocessSharpening, preprocessSharpeningStrength, bcsEnabled,
-    useKmeans, kmeansColors, brightness, contrast, saturation, vibrance,
+    useKmeans, kmeansColors, quantizeAlgorithm, quantizeColorSpace, quantizeSeed, brightness, contrast, saturation, vibrance,
     colorMatchAlgorithm, preserveDetailThreshold,
     filterTrivialColors, trivialThreshold, trivialThresholdMode,
     pixeloeThickness, pixeloePatchSize, edgeDetectBlur, edgeDetectAlgorithm,
-    serpentineDither, gammaCorrectDither,
+    serpentineDither, gammaCorrectDither, limitInventory, colorBudgets,
     outlineConsistency, outlineColors, clusterCleanup, clusterMinSize,
     autoUpdate, customPaletteInput, selectedPreset, includeGeopixelsBase]);
 
@@ -1010,6 +1129,9 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
     if (settings.paletteMode) setPaletteMode(settings.paletteMode);
     if (settings.useKmeans != null) setUseKmeans(settings.useKmeans);
     if (settings.kmeansColors != null) setKmeansColors(settings.kmeansColors);
+    if (settings.quantizeAlgorithm) setQuantizeAlgorithm(settings.quantizeAlgorithm);
+    if (settings.quantizeColorSpace) setQuantizeColorSpace(settings.quantizeColorSpace);
+    if (settings.quantizeSeed != null) setQuantizeSeed(settings.quantizeSeed);
     if (settings.brightness != null) setBrightness(settings.brightness);
     if (settings.contrast != null) setContrast(settings.contrast);
     if (settings.saturation != null) setSaturation(settings.saturation);
@@ -1033,6 +1155,8 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
     if (settings.clusterMinSize != null) setClusterMinSize(settings.clusterMinSize);
     if (settings.serpentineDither != null) setSerpentineDither(settings.serpentineDither);
     if (settings.gammaCorrectDither != null) setGammaCorrectDither(settings.gammaCorrectDither);
+    if (settings.limitInventory != null) setLimitInventory(settings.limitInventory);
+    if (settings.colorBudgets != null) setColorBudgets(settings.colorBudgets);
     if (settings.autoUpdate != null) setAutoUpdate(settings.autoUpdate);
     if (settings.customPaletteInput != null) setCustomPaletteInput(settings.customPaletteInput);
     if (settings.selectedPreset != null) setSelectedPreset(settings.selectedPreset);
@@ -1043,6 +1167,37 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
     setIsPresetsModalOpen(false);
   }, []);
 
+  // Full settings stored on a pixelated layer: the preset fields plus the exact target size
+  const getLayerSettings = useCallback((): Record<string, unknown> => ({
+    ...getCurrentSettings(),
+    targetWidth, aspectRatioLocked, paletteMode, samplingMaskEnabled,
+  }), [getCurrentSettings, targetWidth, aspectRatioLocked, paletteMode, samplingMaskEnabled]);
+
+  // Resume from the settings a pixelated layer was created with
+  useEffect(() => {
+    if (!isOpen) {
+      restoredSourceRef.current = false;
+      return;
+    }
+    const source = pixelateEffect;
+    if (!settingsLoaded || !source || restoredSourceRef.current) return;
+    restoredSourceRef.current = true;
+
+    const { settings } = source;
+    loadPreset(settings);
+    if (typeof settings.targetWidth === 'number') setTargetWidth(settings.targetWidth);
+    if (typeof settings.aspectRatioLocked === 'boolean') setAspectRatioLocked(settings.aspectRatioLocked);
+    if (typeof settings.samplingMaskEnabled === 'boolean') setSamplingMaskEnabled(settings.samplingMaskEnabled);
+    if (source.samplingMask) {
+      dataUrlToMask(source.samplingMask)
+        .then(({ mask, width, height }) => {
+          setSamplingMask(mask);
+          setSamplingMaskDims({ w: width, h: height });
+        })
+        .catch(() => { /* keep the current mask */ });
+    }
+  }, [isOpen, settingsLoaded, pixelateEffect, loadPreset]);
+
   const deletePreset = useCallback((index: number) => {
     const updated = presets.filter((_, i) => i !== index);
     setPresets(updated);
@@ -1082,12 +1237,37 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
     });
   }, [getPalette, colorStats, generatedPalette, paletteMode, useKmeans]);
 
+  // Total cost and over-budget colors of the current preview
+  const budgetUsage = useMemo(
+    () => getBudgetUsage(colorStats, limitInventory ? colorBudgets : {}),
+    [colorStats, colorBudgets, limitInventory]
+  );
+
+  // Update one color's budget; entries back at the defaults (unlimited, cost 1) are dropped
+  const updateColorBudget = (color: string, update: Partial<ColorBudget>) => {
+    setColorBudgets((prev) => {
+      const budget = { ...(prev[color] ?? { limit: null, cost: 1 }), ...update };
+      const next = { ...prev };
+      if (budget.limit === null && budget.cost === 1) delete next[color];
+      else next[color] = budget;
+      return next;
+    });
+  };
+
   const handleCopyPalette = () => {
     if (sortedPalette.length > 0) {
       navigator.clipboard.writeText(sortedPalette.join(', '));
     }
   };
 
+  const handleSavePaletteToLibrary = () => {
+    const palette = getPalette();
+    if (palette.length === 0) return;
+    const name = window.prompt('Palette name:', paletteMode === 'preset' ? selectedPreset : 'Custom palette');
+    if (!name?.trim()) return;
+    addLibraryPalette(name.trim(), palette, ['pixelator']).catch((error) => console.error('Failed to save palette:', error));
+  };
+
   // Before/After comparison slider handlers
   const handleCompareMouseDown = useCallback((e: React.MouseEvent) => {
     isDraggingCompare.current = true;
@@ -1377,7 +1557,21 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
                     {PRESET_PALETTES.map(p => (
                       <option key={p.label} value={p.label}>{p.label} ({p.palette.length} colors)</option>
                     ))}
+                    {paletteLibrary.length > 0 && (
+                      <optgroup label="Palette Library">
+                        {paletteLibrary.map(p => (
+                          <option key={p.id} value={`${LIBRARY_SOURCE_PREFIX}${p.id}`}>{p.name} ({p.colors.length} colors)</option>
+                        ))}
+                      </optgroup>
+                    )}
                   </select>
+                  <button
+                    onClick={() => setIsPaletteLibraryOpen(true)}
+                    className="w-full px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-green-300 text-xs font-medium rounded transition-colors"
+                    title="Import, export, tag and order saved palettes"
+                  >
+                    Palette Library…
+                  </button>
                 </div>
               )}
 
@@ -1451,15 +1645,27 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
                     <span>Palette Preview</span>
                     <span className="ml-1">{isPaletteVisualizationOpen ? '▼' : '▶'}</span>
                   </button>
-                  <button
-                    onClick={handleCopyPalette}
-                    className="text-gray-400 hover:text-white p-1 rounded hover:bg-gray-700"
-                    title="Copy palette to clipboard"
-                  >
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m2 4h3a2 2 0 012 2v3m-3-3V5a2 2 0 012-2h3.071a2 2 0 011.414.586l1.414 1.414A2 2 0 0118 6.414V9m-3-3h3" />
-                    </svg>
-                  </button>
+                  <div className="flex items-center">
+                    <button
+                      id="btn-pixelator-save-palette-to-library"
+                      onClick={handleSavePaletteToLibrary}
+                      className="text-gray-400 hover:text-white p-1 rounded hover:bg-gray-700"
+                      title="Save palette to the palette library"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={handleCopyPalette}
+                      className="text-gray-400 hover:text-white p-1 rounded hover:bg-gray-700"
+                      title="Copy palette to clipboard"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m2 4h3a2 2 0 012 2v3m-3-3V5a2 2 0 012-2h3.071a2 2 0 011.414.586l1.414 1.414A2 2 0 0118 6.414V9m-3-3h3" />
+                      </svg>
+                    </button>
+                  </div>
                 </div>
 
                 {isPaletteVisualizationOpen && (
@@ -1734,6 +1940,122 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
                 )}
               </div>
 
+              {/* Limited inventory — per-color pixel budgets and costs */}
+              {paletteMode !== 'none' && (
+                <div className="space-y-2 border-t border-gray-700 pt-2">
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center space-x-2 cursor-pointer">
+                      <input
+                        id="input-pixelator-limit-inventory"
+                        type="checkbox"
+                        checked={limitInventory}
+                        onChange={(e) => { setLimitInventory(e.target.checked); debounceTimeRef.current = 100; }}
+                        className="rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500 focus:ring-offset-gray-800"
+                      />
+                      <span className="text-xs text-gray-400" title="Give colors a limited number of pixels; once a color runs out, pixels get the next-best color">
+                        Limited inventory
+                      </span>
+                    </label>
+                    {limitInventory && (
+                      <button
+                        onClick={() => setIsInventoryOpen(o => !o)}
+                        className="text-xs text-gray-400 hover:text-gray-300"
+                      >
+                        {isInventoryOpen ? '▼' : '▶'}
+                      </button>
+                    )}
+                  </div>
+
+                  {limitInventory && (
+                    <div className="space-y-2">
+                      {isInventoryOpen && (
+                        <>
+                          <div className="flex items-center gap-1 text-[10px] text-gray-500 uppercase">
+                            <span className="flex-1">Color · used</span>
+                            <span className="w-16 text-center">Limit</span>
+                            <span className="w-12 text-center">Cost/px</span>
+                          </div>
+                          <div className="max-h-48 overflow-y-auto space-y-0.5" data-region="pixelator-inventory">
+                            {getPalette().map((color) => {
+                              const budget = colorBudgets[color];
+                              const used = colorStats.get(color)?.count ?? 0;
+                              const over = budget && budget.limit !== null && used > budget.limit;
+                              return (
+                                <div key={color} className="flex items-center gap-1 text-xs">
+                                  <div className="w-3 h-3 rounded-sm border border-gray-600 flex-shrink-0" style={{ backgroundColor: color }} />
+                                  <span className="font-mono text-gray-400">{color}</span>
+                                  <span className={`flex-1 text-right pr-1 ${over ? 'text-red-400' : 'text-gray-500'}`}>{used.toLocaleString()}</span>
+                                  <input
+                                    key={`${color}-limit-${budget?.limit ?? ''}`}
+                                    type="text"
+                                    inputMode="numeric"
+                                    defaultValue={budget?.limit ?? ''}
+                                    placeholder="∞"
+                                    onBlur={(e) => {
+                                      const value = parseInt(e.target.value, 10);
+                                      updateColorBudget(color, { limit: Number.isFinite(value) && value >= 0 ? value : null });
+                                    }}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                    className="w-16 bg-gray-800 border border-gray-600 rounded px-1 py-0.5 text-xs text-center font-mono"
+                                    title="Pixels available in this color (empty = unlimited)"
+                                  />
+                                  <input
+                                    key={`${color}-cost-${budget?.cost ?? 1}`}
+                                    type="text"
+                                    inputMode="decimal"
+                                    defaultValue={budget?.cost ?? 1}
+                                    onBlur={(e) => {
+                                      const value = parseFloat(e.target.value);
+                                      updateColorBudget(color, { cost: Number.isFinite(value) && value >= 0 ? value : 1 });
+                                    }}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                    className="w-12 bg-gray-800 border border-gray-600 rounded px-1 py-0.5 text-xs text-center font-mono"
+                                    title="Price of one pixel in this color"
+                                  />
+                                </div>
+                              );
+                            })}
+                          </div>
+                        </>
+                      )}
+
+                      {colorStats.size > 0 && (
+                        <div className="space-y-1" data-region="pixelator-inventory-summary">
+                          <div className="flex items-center justify-between text-xs">
+                            <span className="text-gray-400">Total cost</span>
+                            <span id="pixelator-total-cost" className="font-mono text-white">{budgetUsage.totalCost.toLocaleString()}</span>
+                          </div>
+                          {budgetUsage.overBudget.length > 0 ? (
+                            <div className="text-xs text-red-400 space-y-0.5">
+                              <div>Over budget:</div>
+                              {budgetUsage.overBudget.map(({ color, used, limit }) => (
+                                <div key={color} className="flex items-center gap-1">
+                                  <div className="w-3 h-3 rounded-sm border border-gray-600 flex-shrink-0" style={{ backgroundColor: color }} />
+                                  <span className="font-mono">{color}</span>
+                                  <span className="ml-auto">{used.toLocaleString()} / {limit.toLocaleString()}</span>
+                                </div>
+                              ))}
+                              <div className="text-gray-500">All other colors ran out, or post-processing repainted pixels</div>
+                            </div>
+                          ) : (
+                            <div className="text-xs text-green-400">Every color is within its budget</div>
+                          )}
+                        </div>
+                      )}
+
+                      {Object.keys(colorBudgets).length > 0 && (
+                        <button
+                          onClick={() => setColorBudgets({})}
+                          className="text-xs text-gray-400 hover:text-white"
+                        >
+                          Clear all limits and costs
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Suggest Colors — always visible for custom palette mode */}
               {paletteMode === 'custom' && (
                 <div className="space-y-2 border-t border-gray-700 pt-2">
@@ -1797,7 +2119,7 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
                 </div>
               )}
 
-              {/* K-Means Clustering — only shown when No Coloring selected */}
+              {/* Adaptive color reduction — only shown when No Coloring selected */}
               {paletteMode === 'none' && (
                 <div className="space-y-2 border-t border-gray-700 pt-2">
                   <label className="flex items-center gap-2 text-xs font-semibold text-gray-400 uppercase cursor-pointer">
@@ -1806,10 +2128,51 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
                       checked={useKmeans}
                       onChange={(e) => setUseKmeans(e.target.checked)}
                     />
-                    <span>K-Means Color Reduction</span>
+                    <span>Adaptive Color Reduction</span>
                   </label>
                   {useKmeans && (
                     <div className="pl-5 space-y-1">
+                      <label htmlFor="select-pixelator-quantize-algorithm" className="text-xs text-gray-500">Algorithm</label>
+                      <select
+                        id="select-pixelator-quantize-algorithm"
+                        value={quantizeAlgorithm}
+                        onChange={(e) => setQuantizeAlgorithm(e.target.value as QuantizeAlgorithm)}
+                        className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm"
+                      >
+                        {QUANTIZE_ALGORITHMS.map(({ value, label }) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-gray-500">{QUANTIZE_ALGORITHMS.find((a) => a.value === quantizeAlgorithm)?.desc}</p>
+                      <div className="flex gap-2">
+                        <div className="flex-1">
+                          <label htmlFor="select-pixelator-quantize-space" className="text-xs text-gray-500">Color Space</label>
+                          <select
+                            id="select-pixelator-quantize-space"
+                            value={quantizeColorSpace}
+                            onChange={(e) => setQuantizeColorSpace(e.target.value as QuantizeColorSpace)}
+                            className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm"
+                          >
+                            <option value="rgb">RGB</option>
+                            <option value="oklab">OKLab (perceptual)</option>
+                          </select>
+                        </div>
+                        {quantizeAlgorithm === 'kmeans++' && (
+                          <div className="w-20">
+                            <label htmlFor="input-pixelator-quantize-seed" className="text-xs text-gray-500">Seed</label>
+                            <input
+                              id="input-pixelator-quantize-seed"
+                              key={quantizeSeed}
+                              type="number"
+                              min="0"
+                              defaultValue={quantizeSeed}
+                              onBlur={(e) => setQuantizeSeed(Math.max(0, Math.round(Number(e.target.value)) || 0))}
+                              onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                              className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm"
+                            />
+                          </div>
+                        )}
+                      </div>
                       <label className="text-xs text-gray-500">Number of Colors</label>
                       <input
                         type="number"
@@ -1820,6 +2183,14 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
                         className="w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm"
                       />
                       <p className="text-xs text-gray-500">Reduces image to N dominant colors before applying palette/dithering.</p>
+                      <button
+                        id="btn-pixelator-compare-quantizers"
+                        onClick={() => setQuantizeCompareJob(lastJobRef.current)}
+                        disabled={!sourceImage || !previewImage}
+                        className="w-full mt-2 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-200 text-xs font-medium rounded transition-colors"
+                      >
+                        Compare Algorithms…
+                      </button>
                       {generatedPalette.length > 0 && (
                         <button
                           onClick={handleSendKmeansToCustom}
@@ -1859,7 +2230,7 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
                       )}
                       <p className="text-xs text-gray-500">
                         {paletteMode === 'none'
-                          ? 'K-Means will only sample colors from the masked region.'
+                          ? 'Color reduction will only sample colors from the masked region.'
                           : 'Color suggestions will only sample from the masked region.'}
                       </p>
                     </div>
@@ -2201,7 +2572,7 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
                   {comparePosition < 100 && (
                     <img
                       ref={originalImgRef}
-                      src={layer.imageData}
+                      src={sourceImage}
                       alt="Original"
                       draggable={false}
                       data-compare-area
@@ -2319,13 +2690,34 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
 
           {/* Apply Button - Bottom Right */}
           <div className="px-4 py-3 bg-gray-800/50 border-t border-gray-700 flex-shrink-0">
+            {batchLayers.length > 0 && (
+              <label className="flex items-center gap-2 mb-2 text-xs text-gray-300 cursor-pointer">
+                <input
+                  id="input-pixelator-apply-to-selected"
+                  type="checkbox"
+                  checked={applyToSelected}
+                  onChange={(e) => setApplyToSelected(e.target.checked)}
+                />
+                Also apply to the other {batchLayers.length} selected layer{batchLayers.length === 1 ? '' : 's'} (without the sampling mask)
+              </label>
+            )}
             <button
               onClick={handleApply}
               disabled={!previewImage}
               className="w-full bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white py-2 rounded font-semibold transition-colors"
             >
-              Apply Pixelation
+              {applyToSelected && batchLayers.length > 0 ? `Apply to ${batchLayers.length + 1} layers` : 'Apply Pixelation'}
             </button>
+            {pixelateEffect && (
+              <button
+                id="btn-pixelator-revert"
+                onClick={() => { revertPixelation(layer.id); onClose(); }}
+                className="w-full mt-2 bg-gray-700 hover:bg-gray-600 text-gray-200 py-1.5 rounded text-sm transition-colors"
+                title="Restore the original image and drop the pixelation"
+              >
+                Revert to Original
+              </button>
+            )}
           </div>
         </div>
 
@@ -2333,7 +2725,7 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
         <EyedropperModal
           isOpen={isEyedropperOpen}
           onClose={() => setIsEyedropperOpen(false)}
-          imageDataUrl={layer.imageData}
+          imageDataUrl={sourceImage}
           pixelatedImageUrl={previewImage ?? undefined}
           onAddColors={handleEyedropperColors}
         />
@@ -2349,7 +2741,7 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
         <GradientPickerModal
           isOpen={isGradientPickerOpen}
           onClose={() => setIsGradientPickerOpen(false)}
-          imageDataUrl={layer.imageData}
+          imageDataUrl={sourceImage}
           pixelatedImageUrl={previewImage ?? undefined}
           onAddColors={handleEyedropperColors}
         />
@@ -2365,11 +2757,32 @@ const PixelatorModal: React.FC<PixelatorModalProps> = ({ isOpen, onClose, layer
           }}
         />
 
+        {/* Color Reduction Comparison Modal */}
+        {quantizeCompareJob && sourceImage && (
+          <QuantizeCompareModal
+            onClose={() => setQuantizeCompareJob(null)}
+            sourceImage={sourceImage}
+            job={quantizeCompareJob}
+            currentAlgorithm={quantizeAlgorithm}
+            initialColorSpace={quantizeColorSpace}
+            onChoose={(algorithm, colorSpace) => {
+              setQuantizeAlgorithm(algorithm);
+              setQuantizeColorSpace(colorSpace);
+              setQuantizeCompareJob(null);
+            }}
+          />
+        )}
+
+        {/* Palette Library Modal */}
+        {isPaletteLibraryOpen && (
+          <PaletteLibraryModal onClose={() => setIsPaletteLibraryOpen(false)} />
+        )}
+
         {/* Sampling Mask Modal */}
         <SamplingMaskModal
           isOpen={isSamplingMaskModalOpen}
           onClose={() => setIsSamplingMaskModalOpen(false)}
-          imageData={layer.imageData}
+          imageData={sourceImage}
           existingMask={samplingMask}
           onApply={(mask, w, h) => {
             setSamplingMask(mask);
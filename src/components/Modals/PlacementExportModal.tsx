@@ -0,0 +1,275 @@
+import { useMemo, useState } from 'react';
+import useCompositorStore from '../../store/compositorStore';
+import { exportCanvasPixels } from '../../utils/projectSerializer';
+import { resolveLayerGroups } from '../../utils/layerGroups';
+import { GEOPIXELS_PALETTE, WPLACE_FREE_PALETTE, WPLACE_PALETTE, getImageColors, getPixelatorPalette } from '../../utils/palette';
+import { LIBRARY_SOURCE_PREFIX, getLibraryPaletteColors } from '../../utils/paletteStorage';
+import { usePaletteLibrary } from '../../hooks/usePaletteLibrary';
+import {
+  PlacementOrder, PlacementPlan, buildPlacementPlan, getLayerOwnership, placementCountsToCSV, placementToCSV,
+} from '../../utils/placement';
+
+interface PlacementExportModalProps {
+  onClose: () => void;
+}
+
+type PaletteSource = 'geopixels' | 'wplace-free' | 'wplace' | 'project' | 'pixelator' | 'image'
+  | `${typeof LIBRARY_SOURCE_PREFIX}${string}`;
+type PlacementFormat = 'json' | 'csv';
+
+const PALETTE_SOURCES: { value: PaletteSource; label: string }[] = [
+  { value: 'geopixels', label: 'GeoPixels' },
+  { value: 'wplace-free', label: 'WPlace Free' },
+  { value: 'wplace', label: 'WPlace All' },
+  { value: 'project', label: 'Project palette' },
+  { value: 'pixelator', label: 'Pixelator palette' },
+  { value: 'image', label: 'Colors in image' },
+];
+
+const ORDERS: { value: PlacementOrder; label: string; desc: string }[] = [
+  { value: 'row-major', label: 'Row by row', desc: 'Left to right, top to bottom' },
+  { value: 'color', label: 'By color', desc: 'All pixels of one color at a time, in palette order' },
+  { value: 'spiral', label: 'Spiral from center', desc: 'Rings around the canvas center, clockwise from the top' },
+  { value: 'layer', label: 'By layer', desc: 'Bottom layer first; each pixel lists the layer it comes from' },
+];
+
+// Colors listed in the summary; the downloads always have all of them
+const MAX_LISTED_COLORS = 40;
+
+function downloadText(text: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Export placement instructions: every opaque pixel of the composite with its
+ * world coordinates, color and palette index, for placing on GeoPixels/WPlace
+ * by hand or by bot. The background color and export border are not included.
+ */
+function PlacementExportModal({ onClose }: PlacementExportModalProps) {
+  const project = useCompositorStore((state) => state.project);
+  const pixelatorPalette = useMemo(() => getPixelatorPalette(project.layers), [project.layers]);
+  const library = usePaletteLibrary();
+  // Default to the palette most likely intended: the project's, then the pixelator's
+  const [source, setSource] = useState<PaletteSource>(() =>
+    project.palette?.length ? 'project' : pixelatorPalette.length > 0 ? 'pixelator' : 'geopixels'
+  );
+  const [order, setOrder] = useState<PlacementOrder>('row-major');
+  const [format, setFormat] = useState<PlacementFormat>('json');
+  // Start from the project's world origin so coordinates land on the real canvas
+  const [originX, setOriginX] = useState(project.canvas.worldOrigin?.x ?? 0);
+  const [originY, setOriginY] = useState(project.canvas.worldOrigin?.y ?? 0);
+  const [plan, setPlan] = useState<PlacementPlan | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [errorText, setErrorText] = useState<string | null>(null);
+
+  const palette: string[] | null = getLibraryPaletteColors(library, source)
+    ?? (source === 'geopixels' ? GEOPIXELS_PALETTE
+      : source === 'wplace-free' ? WPLACE_FREE_PALETTE
+        : source === 'wplace' ? WPLACE_PALETTE
+          : source === 'project' ? project.palette ?? []
+            : source === 'pixelator' ? pixelatorPalette
+              : null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setErrorText(null);
+    try {
+      const layers = resolveLayerGroups(project.layers, project.groups);
+      const { width, height } = project.canvas;
+      const pixels = await exportCanvasPixels(layers, width, height, 1, null);
+      const ownership = order === 'layer' ? await getLayerOwnership(layers, width, height) : undefined;
+      const result = buildPlacementPlan(pixels, palette ?? getImageColors(pixels), {
+        origin: { x: originX, y: originY },
+        order,
+        ownership,
+      });
+      if (result.pixels.length === 0) {
+        setErrorText('Nothing to place: the canvas has no opaque pixels');
+        return;
+      }
+
+      const name = `${project.projectName || 'composite'}_placement`;
+      if (format === 'json') downloadText(JSON.stringify(result), `${name}.json`, 'application/json');
+      else downloadText(placementToCSV(result), `${name}.csv`, 'text/csv');
+      setPlan(result);
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const numberInputClass = 'w-20 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-gray-200';
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-gray-800 border border-gray-600 rounded-lg shadow-xl w-[480px] max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-200">Export Placement List</h3>
+            <p className="text-xs text-gray-500 mt-0.5">
+              Coordinates and colors of every opaque pixel, for placing the image pixel by pixel
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-lg leading-none">×</button>
+        </div>
+
+        <div className="px-4 py-3 space-y-3 overflow-y-auto">
+          <div className="flex items-center gap-2">
+            <label htmlFor="select-placement-palette" className="text-xs text-gray-400 w-14 flex-shrink-0">Palette</label>
+            <select
+              id="select-placement-palette"
+              value={source}
+              onChange={(e) => { setSource(e.target.value as PaletteSource); setPlan(null); }}
+              className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-gray-200"
+            >
+              {PALETTE_SOURCES.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+              {library.length > 0 && (
+                <optgroup label="Palette Library">
+                  {library.map((entry) => (
+                    <option key={entry.id} value={`${LIBRARY_SOURCE_PREFIX}${entry.id}`}>{entry.name}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+          </div>
+          {palette && palette.length === 0 && (
+            <p className="text-xs text-yellow-400">
+              {source === 'pixelator' ? 'No pixelated layer uses a palette' : 'The project has no palette yet'} - every pixel will be listed without a palette index
+            </p>
+          )}
+          {source === 'image' && (
+            <p className="text-xs text-gray-500">Palette indices follow the colors of the image, most used first.</p>
+          )}
+
+          <div className="flex items-center gap-2">
+            <label htmlFor="select-placement-order" className="text-xs text-gray-400 w-14 flex-shrink-0">Order</label>
+            <select
+              id="select-placement-order"
+              value={order}
+              onChange={(e) => { setOrder(e.target.value as PlacementOrder); setPlan(null); }}
+              className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-gray-200"
+            >
+              {ORDERS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-xs text-gray-500">{ORDERS.find((o) => o.value === order)?.desc}</p>
+
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-gray-400 w-14 flex-shrink-0">Origin</span>
+            <label htmlFor="input-placement-origin-x" className="text-xs text-gray-500">X</label>
+            <input
+              id="input-placement-origin-x"
+              key={originX}
+              type="number"
+              defaultValue={originX}
+              onBlur={(e) => { setOriginX(Math.round(Number(e.target.value)) || 0); setPlan(null); }}
+              onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+              className={numberInputClass}
+            />
+            <label htmlFor="input-placement-origin-y" className="text-xs text-gray-500">Y</label>
+            <input
+              id="input-placement-origin-y"
+              key={originY}
+              type="number"
+              defaultValue={originY}
+              onBlur={(e) => { setOriginY(Math.round(Number(e.target.value)) || 0); setPlan(null); }}
+              onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+              className={numberInputClass}
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            World coordinates of the canvas's top-left pixel; added to every x and y.
+            {project.canvas.worldOrigin ? ' Defaults to the world origin in Canvas settings.' : ' Set a world origin in Canvas settings to fill this in.'}
+          </p>
+
+          <div className="flex items-center gap-2">
+            <label htmlFor="select-placement-format" className="text-xs text-gray-400 w-14 flex-shrink-0">Format</label>
+            <select
+              id="select-placement-format"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as PlacementFormat)}
+              className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-gray-200"
+            >
+              <option value="json">JSON (pixels and color counts)</option>
+              <option value="csv">CSV (one pixel per row)</option>
+            </select>
+          </div>
+
+          {plan && (
+            <div className="bg-gray-900 rounded border border-gray-700 p-3 space-y-2" data-region="placement-summary">
+              <div className="text-xs text-gray-300">
+                {plan.pixels.length} pixel{plan.pixels.length === 1 ? '' : 's'} in {plan.colors.length} color{plan.colors.length === 1 ? '' : 's'}
+              </div>
+              {plan.offPalette > 0 && (
+                <div className="text-xs text-yellow-400">
+                  {plan.offPalette} pixel{plan.offPalette === 1 ? ' is' : 's are'} not in the palette (listed without an index) - pixelate with this palette first
+                </div>
+              )}
+              {plan.semiTransparent > 0 && (
+                <div className="text-xs text-gray-500">{plan.semiTransparent} semi-transparent pixels were listed by their color</div>
+              )}
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {plan.colors.slice(0, MAX_LISTED_COLORS).map((c) => (
+                  <div key={c.color} className="flex items-center gap-2 text-xs text-gray-300">
+                    <div className="w-4 h-4 rounded-sm border border-gray-600 flex-shrink-0" style={{ backgroundColor: c.color }} />
+                    <span className="font-mono">{c.color}</span>
+                    <span className="text-gray-500">{c.paletteIndex === null ? 'not in palette' : `#${c.paletteIndex}`}</span>
+                    <span className="ml-auto">{c.count}×</span>
+                  </div>
+                ))}
+              </div>
+              {plan.colors.length > MAX_LISTED_COLORS && (
+                <div className="text-xs text-gray-500">Only the {MAX_LISTED_COLORS} most used colors are listed</div>
+              )}
+              <button
+                id="btn-download-placement-counts"
+                onClick={() => downloadText(placementCountsToCSV(plan), `${project.projectName || 'composite'}_colors.csv`, 'text/csv')}
+                className="text-xs text-blue-400 hover:text-blue-300"
+              >
+                Download color counts (CSV)
+              </button>
+            </div>
+          )}
+
+          {errorText && <div className="text-xs text-red-400">{errorText}</div>}
+        </div>
+
+        {/* Footer */}
+        <div className="px-4 py-3 border-t border-gray-700 flex items-center gap-2">
+          <button
+            id="btn-export-placement"
+            onClick={handleExport}
+            disabled={isExporting}
+            className="flex-1 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white py-2 rounded text-sm font-semibold transition-colors"
+          >
+            {isExporting ? 'Exporting…' : 'Export'}
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded text-sm transition-colors"
+          >
+            {plan ? 'Close' : 'Cancel'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default PlacementExportModal;
@@ -0,0 +1,269 @@
+import { useRef, useState } from 'react';
+import useCompositorStore from '../../store/compositorStore';
+import { exportCanvasPixels } from '../../utils/projectSerializer';
+import { resolveLayerGroups } from '../../utils/layerGroups';
+import { blobToDataUrl } from '../../utils/imageProcessing';
+import { loadImagePixels, pixelsToDataUrl } from '../../utils/pixelSelection';
+import { DEFAULT_PROGRESS_TOLERANCE, compareWithSnapshot } from '../../utils/progress';
+import { tileToWorld, worldToTile } from '../../utils/worldOrigin';
+
+interface ProgressModalProps {
+  onClose: () => void;
+}
+
+// Colors listed with their remaining pixels
+const MAX_LISTED_COLORS = 40;
+
+/**
+ * Track progress on the live canvas: compare a saved tile PNG or screenshot
+ * of the area with the composite at the project's world origin. Everything
+ * happens locally; the snapshot is never uploaded or stored in the project.
+ */
+function ProgressModal({ onClose }: ProgressModalProps) {
+  const project = useCompositorStore((state) => state.project);
+  const progress = useCompositorStore((state) => state.ui.progress);
+  const showOverlay = useCompositorStore((state) => state.ui.showProgressOverlay);
+  const setProgressReport = useCompositorStore((state) => state.setProgressReport);
+  const toggleProgressOverlay = useCompositorStore((state) => state.toggleProgressOverlay);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const worldOrigin = project.canvas.worldOrigin;
+  const canvasOrigin = { x: worldOrigin?.x ?? 0, y: worldOrigin?.y ?? 0 };
+  // The tile the canvas starts in: where a saved tile PNG begins
+  const originTile = worldOrigin
+    ? tileToWorld(worldOrigin.tileSize, { ...worldToTile(worldOrigin.tileSize, worldOrigin.x, worldOrigin.y), offsetX: 0, offsetY: 0 })
+    : null;
+
+  const [snapshot, setSnapshot] = useState<{ name: string; pixels: ImageData } | null>(null);
+  const [snapshotX, setSnapshotX] = useState(originTile?.x ?? canvasOrigin.x);
+  const [snapshotY, setSnapshotY] = useState(originTile?.y ?? canvasOrigin.y);
+  const [scale, setScale] = useState(1);
+  const [tolerance, setTolerance] = useState(DEFAULT_PROGRESS_TOLERANCE);
+  const [isComparing, setIsComparing] = useState(false);
+  const [errorText, setErrorText] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setErrorText(null);
+    try {
+      const pixels = await loadImagePixels(await blobToDataUrl(file));
+      setSnapshot({ name: file.name, pixels });
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : 'Failed to load image');
+    }
+  };
+
+  const handleCompare = async () => {
+    if (!snapshot) return;
+    setIsComparing(true);
+    setErrorText(null);
+    try {
+      const { width, height } = project.canvas;
+      const design = await exportCanvasPixels(resolveLayerGroups(project.layers, project.groups), width, height, 1, null);
+      const { report, overlay } = compareWithSnapshot(design, snapshot.pixels, {
+        offsetX: canvasOrigin.x - snapshotX,
+        offsetY: canvasOrigin.y - snapshotY,
+        scale,
+        tolerance,
+      });
+      if (report.total === 0) {
+        setErrorText('Nothing to compare: the canvas has no opaque pixels');
+        return;
+      }
+      setProgressReport({ ...report, snapshotName: snapshot.name, overlay: pixelsToDataUrl(overlay) });
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const numberInputClass = 'w-20 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-gray-200';
+  const percent = progress && progress.total > 0 ? (progress.done / progress.total) * 100 : 0;
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-gray-800 border border-gray-600 rounded-lg shadow-xl w-[480px] max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-200">Track Progress</h3>
+            <p className="text-xs text-gray-500 mt-0.5">
+              Compare a snapshot of the live canvas with the design to see what is left to place
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-lg leading-none">×</button>
+        </div>
+
+        <div className="px-4 py-3 space-y-3 overflow-y-auto">
+          <div className="flex items-center gap-2">
+            <button
+              id="btn-choose-progress-snapshot"
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded text-xs transition-colors"
+            >
+              Choose snapshot…
+            </button>
+            <span className="text-xs text-gray-400 truncate">
+              {snapshot ? `${snapshot.name} (${snapshot.pixels.width}×${snapshot.pixels.height})` : 'Tile PNG or screenshot of the area'}
+            </span>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/png,image/gif,image/bmp,image/webp"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-gray-400 w-16 flex-shrink-0">Top-left</span>
+            <label htmlFor="input-progress-snapshot-x" className="text-xs text-gray-500">X</label>
+            <input
+              id="input-progress-snapshot-x"
+              key={snapshotX}
+              type="number"
+              defaultValue={snapshotX}
+              onBlur={(e) => setSnapshotX(Math.round(Number(e.target.value)) || 0)}
+              onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+              className={numberInputClass}
+            />
+            <label htmlFor="input-progress-snapshot-y" className="text-xs text-gray-500">Y</label>
+            <input
+              id="input-progress-snapshot-y"
+              key={snapshotY}
+              type="number"
+              defaultValue={snapshotY}
+              onBlur={(e) => setSnapshotY(Math.round(Number(e.target.value)) || 0)}
+              onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+              className={numberInputClass}
+            />
+          </div>
+          <div className="flex items-center gap-2 text-xs">
+            <span className="text-gray-500">World pixel at the snapshot's top-left:</span>
+            {originTile && (
+              <button
+                id="btn-progress-origin-tile"
+                onClick={() => { setSnapshotX(originTile.x); setSnapshotY(originTile.y); }}
+                className="text-blue-400 hover:text-blue-300"
+              >
+                Tile of origin
+              </button>
+            )}
+            <button
+              id="btn-progress-origin-canvas"
+              onClick={() => { setSnapshotX(canvasOrigin.x); setSnapshotY(canvasOrigin.y); }}
+              className="text-blue-400 hover:text-blue-300"
+            >
+              Canvas origin
+            </button>
+          </div>
+          {!worldOrigin && (
+            <p className="text-xs text-yellow-400">No world origin set - the canvas is assumed to start at world (0, 0)</p>
+          )}
+
+          <div className="flex items-center gap-2">
+            <label htmlFor="input-progress-scale" className="text-xs text-gray-400 w-16 flex-shrink-0">Scale</label>
+            <input
+              id="input-progress-scale"
+              type="number"
+              min={1}
+              max={64}
+              value={scale}
+              onChange={(e) => setScale(Math.max(1, Math.min(64, Math.round(Number(e.target.value)) || 1)))}
+              className={numberInputClass}
+            />
+            <span className="text-xs text-gray-500">snapshot pixels per canvas pixel (1 for tile images)</span>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label htmlFor="input-progress-tolerance" className="text-xs text-gray-400 w-16 flex-shrink-0">Tolerance</label>
+            <input
+              id="input-progress-tolerance"
+              type="number"
+              min={0}
+              max={50}
+              step={0.5}
+              value={tolerance}
+              onChange={(e) => setTolerance(Math.max(0, Math.min(50, Number(e.target.value) || 0)))}
+              className={numberInputClass}
+            />
+            <span className="text-xs text-gray-500">OKLab ΔE; 0 needs the exact color</span>
+          </div>
+
+          {progress && (
+            <div className="bg-gray-900 rounded border border-gray-700 p-3 space-y-2" data-region="progress-summary">
+              <div className="flex items-center justify-between text-xs text-gray-300">
+                <span>{progress.snapshotName}</span>
+                <span id="progress-percent" className="font-semibold">{percent.toFixed(1)}% complete</span>
+              </div>
+              <div className="h-2 bg-gray-700 rounded overflow-hidden">
+                <div className="h-full bg-green-500" style={{ width: `${percent}%` }} />
+              </div>
+              <div className="flex gap-3 text-xs">
+                <span className="text-green-400">{progress.done} done</span>
+                <span className="text-red-400">{progress.wrong} wrong color</span>
+                <span className="text-yellow-400">{progress.missing} missing</span>
+                <span className="text-gray-500 ml-auto">of {progress.total}</span>
+              </div>
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {progress.colors.filter((c) => c.remaining > 0).slice(0, MAX_LISTED_COLORS).map((c) => (
+                  <div key={c.color} className="flex items-center gap-2 text-xs text-gray-300">
+                    <div className="w-4 h-4 rounded-sm border border-gray-600 flex-shrink-0" style={{ backgroundColor: c.color }} />
+                    <span className="font-mono">{c.color}</span>
+                    <span className="ml-auto">{c.remaining} of {c.total} left</span>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-1.5 text-xs text-gray-300 cursor-pointer">
+                  <input
+                    id="input-progress-overlay"
+                    type="checkbox"
+                    checked={showOverlay}
+                    onChange={toggleProgressOverlay}
+                  />
+                  Show overlay on canvas
+                </label>
+                <button
+                  id="btn-clear-progress"
+                  onClick={() => setProgressReport(null)}
+                  className="text-xs text-gray-400 hover:text-white ml-auto"
+                >
+                  Clear
+                </button>
+              </div>
+            </div>
+          )}
+
+          {errorText && <div className="text-xs text-red-400">{errorText}</div>}
+        </div>
+
+        {/* Footer */}
+        <div className="px-4 py-3 border-t border-gray-700 flex items-center gap-2">
+          <button
+            id="btn-compare-progress"
+            onClick={handleCompare}
+            disabled={!snapshot || isComparing}
+            className="flex-1 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white py-2 rounded text-sm font-semibold transition-colors"
+          >
+            {isComparing ? 'Comparing…' : 'Compare'}
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded text-sm transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ProgressModal;
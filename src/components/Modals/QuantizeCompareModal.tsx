@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react';
+import { loadImagePixels, pixelsToDataUrl } from '../../utils/pixelSelection';
+import { QUANTIZE_ALGORITHMS, QuantizeAlgorithm, QuantizeColorSpace } from '../../utils/quantize';
+import PixelatorWorker from '../../workers/pixelator.worker?worker';
+
+interface QuantizeCompareModalProps {
+  onClose: () => void;
+  sourceImage: string;
+  job: { workerSettings: Record<string, unknown>; samplingMask: { mask: Uint8Array; w: number; h: number } | null };
+  currentAlgorithm: QuantizeAlgorithm;
+  initialColorSpace: QuantizeColorSpace;
+  onChoose: (algorithm: QuantizeAlgorithm, colorSpace: QuantizeColorSpace) => void;
+}
+
+interface CompareResult {
+  algorithm: QuantizeAlgorithm;
+  preview: string;
+  palette: string[];
+  error: number; // Mean OKLab ΔE per pixel
+  ms: number;
+}
+
+/**
+ * Run every palette extraction algorithm on the pixelator's current settings
+ * and show the results side by side. Runs one algorithm at a time in its own
+ * worker so the pixelator's preview is left alone.
+ */
+function QuantizeCompareModal({ onClose, sourceImage, job, currentAlgorithm, initialColorSpace, onChoose }: QuantizeCompareModalProps) {
+  const [colorSpace, setColorSpace] = useState<QuantizeColorSpace>(initialColorSpace);
+  const [results, setResults] = useState<CompareResult[]>([]);
+  const [errorText, setErrorText] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const worker = new PixelatorWorker();
+    setResults([]);
+    setErrorText(null);
+
+    const run = (imageData: ImageData, algorithm: QuantizeAlgorithm) => new Promise<CompareResult>((resolve, reject) => {
+      const started = performance.now();
+      worker.onmessage = (e) => {
+        const { type, imageData: output, generatedPalette, quantizeError, message } = e.data;
+        if (type === 'success') {
+          resolve({
+            algorithm,
+            preview: pixelsToDataUrl(output),
+            palette: generatedPalette ?? [],
+            error: quantizeError ?? 0,
+            ms: performance.now() - started,
+          });
+        } else {
+          reject(new Error(message || 'Pixelator worker failed'));
+        }
+      };
+      worker.postMessage({
+        imageData,
+        settings: {
+          ...job.workerSettings,
+          useKmeans: true,
+          quantizeAlgorithm: algorithm,
+          quantizeColorSpace: colorSpace,
+          colorStats: [],
+          samplingMask: job.samplingMask ? Array.from(job.samplingMask.mask) : null,
+          samplingMaskWidth: job.samplingMask?.w || 0,
+          samplingMaskHeight: job.samplingMask?.h || 0,
+        },
+      });
+    });
+
+    (async () => {
+      try {
+        const imageData = await loadImagePixels(sourceImage);
+        for (const { value } of QUANTIZE_ALGORITHMS) {
+          if (cancelled) return;
+          const result = await run(imageData, value);
+          if (!cancelled) setResults((prev) => [...prev, result]);
+        }
+      } catch (error) {
+        if (!cancelled) setErrorText(error instanceof Error ? error.message : 'Unknown error');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      worker.terminate();
+    };
+  }, [sourceImage, job, colorSpace]);
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-gray-800 border border-gray-600 rounded-lg shadow-xl w-[760px] max-w-[95vw] max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-200">Compare Color Reduction</h3>
+            <p className="text-xs text-gray-500 mt-0.5">
+              Every algorithm with the current settings; ΔE is the mean OKLab error per pixel (lower is closer)
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-lg leading-none">×</button>
+        </div>
+
+        <div className="px-4 py-3 space-y-3 overflow-y-auto">
+          <div className="flex items-center gap-2">
+            <label htmlFor="select-quantize-compare-space" className="text-xs text-gray-400">Work in</label>
+            <select
+              id="select-quantize-compare-space"
+              value={colorSpace}
+              onChange={(e) => setColorSpace(e.target.value as QuantizeColorSpace)}
+              className="bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-gray-200"
+            >
+              <option value="rgb">RGB</option>
+              <option value="oklab">OKLab</option>
+            </select>
+            {results.length < QUANTIZE_ALGORITHMS.length && !errorText && (
+              <span className="text-xs text-gray-500">Running {results.length + 1} of {QUANTIZE_ALGORITHMS.length}…</span>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            {QUANTIZE_ALGORITHMS.map(({ value, label, desc }) => {
+              const result = results.find((r) => r.algorithm === value);
+              return (
+                <div
+                  key={value}
+                  className={`bg-gray-900 rounded border p-2 space-y-1.5 ${value === currentAlgorithm ? 'border-blue-500' : 'border-gray-700'}`}
+                  title={desc}
+                >
+                  <div className="h-32 flex items-center justify-center bg-gray-950 rounded overflow-hidden">
+                    {result ? (
+                      <img
+                        src={result.preview}
+                        alt={label}
+                        className="max-w-full max-h-full object-contain"
+                        style={{ imageRendering: 'pixelated' }}
+                      />
+                    ) : (
+                      <span className="text-xs text-gray-600">{errorText ? '—' : 'Waiting…'}</span>
+                    )}
+                  </div>
+                  <div className="text-xs font-medium text-gray-200">{label}</div>
+                  {result && (
+                    <>
+                      <div className="text-[11px] text-gray-400">
+                        ΔE {result.error.toFixed(2)} · {result.palette.length} colors · {Math.round(result.ms)} ms
+                      </div>
+                      <div className="flex flex-wrap gap-0">
+                        {result.palette.map((color, i) => (
+                          <div key={i} className="w-3 h-3" style={{ backgroundColor: color }} title={color} />
+                        ))}
+                      </div>
+                      <button
+                        id={`btn-quantize-use-${value}`}
+                        onClick={() => onChoose(value, colorSpace)}
+                        className="w-full px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs rounded transition-colors"
+                      >
+                        Use {label}
+                      </button>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {errorText && <div className="text-xs text-red-400">{errorText}</div>}
+        </div>
+
+        {/* Footer */}
+        <div className="px-4 py-3 border-t border-gray-700 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded text-sm transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default QuantizeCompareModal;
@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react';
+import useCompositorStore from '../../store/compositorStore';
+import { CanvasAnchor } from '../../types/compositor.types';
+import { CANVAS_ANCHORS } from '../../utils/canvasResize';
+
+interface ResizeCanvasModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type SizeMode = 'absolute' | 'relative';
+
+// Largest canvas dimension browsers reliably support
+const MAX_CANVAS_SIZE = 16384;
+
+const ANCHOR_ARROWS: Record<CanvasAnchor, string> = {
+  nw: '↖', n: '↑', ne: '↗', w: '←', center: '•', e: '→', sw: '↙', s: '↓', se: '↘',
+};
+
+/**
+ * Resize the canvas around a 9-point anchor
+ * Sizes are absolute or relative (padding added to each dimension); layers can
+ * move with the anchor so content keeps its place
+ */
+function ResizeCanvasModal({ isOpen, onClose }: ResizeCanvasModalProps) {
+  const canvas = useCompositorStore((state) => state.project.canvas);
+  const resizeCanvas = useCompositorStore((state) => state.resizeCanvas);
+  const [mode, setMode] = useState<SizeMode>('absolute');
+  const [displayWidth, setDisplayWidth] = useState(String(canvas.width));
+  const [displayHeight, setDisplayHeight] = useState(String(canvas.height));
+  const [anchor, setAnchor] = useState<CanvasAnchor>('center');
+  const [moveLayers, setMoveLayers] = useState(true);
+
+  // Start from the current size each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setMode('absolute');
+    setDisplayWidth(String(canvas.width));
+    setDisplayHeight(String(canvas.height));
+  }, [isOpen, canvas.width, canvas.height]);
+
+  if (!isOpen) return null;
+
+  const handleModeChange = (next: SizeMode) => {
+    setMode(next);
+    setDisplayWidth(next === 'absolute' ? String(canvas.width) : '0');
+    setDisplayHeight(next === 'absolute' ? String(canvas.height) : '0');
+  };
+
+  const parse = (value: string) => parseInt(value, 10) || 0;
+  const newWidth = mode === 'absolute' ? parse(displayWidth) : canvas.width + parse(displayWidth);
+  const newHeight = mode === 'absolute' ? parse(displayHeight) : canvas.height + parse(displayHeight);
+  const isValid = newWidth >= 1 && newHeight >= 1 && newWidth <= MAX_CANVAS_SIZE && newHeight <= MAX_CANVAS_SIZE;
+  const isUnchanged = newWidth === canvas.width && newHeight === canvas.height;
+
+  const handleApply = () => {
+    if (!isValid || isUnchanged) return;
+    resizeCanvas(newWidth, newHeight, anchor, moveLayers);
+    window.fitCanvasToScreen?.();
+    onClose();
+  };
+
+  const inputClass = 'w-full px-2 py-1 bg-gray-900 border border-gray-600 rounded text-xs font-mono text-white focus:outline-none focus:ring-1 focus:ring-blue-400';
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="bg-gray-800 border border-gray-600 rounded-lg shadow-xl w-[360px] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-200">Resize Canvas</h3>
+            <p className="text-xs text-gray-500 mt-0.5">
+              Current size {canvas.width}×{canvas.height}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-lg leading-none">×</button>
+        </div>
+
+        <div className="px-4 py-3 space-y-3">
+          {/* Sizing mode */}
+          <div className="flex gap-1">
+            {(['absolute', 'relative'] as SizeMode[]).map((value) => (
+              <button
+                key={value}
+                id={`btn-resize-canvas-${value}`}
+                onClick={() => handleModeChange(value)}
+                className={`flex-1 px-2 py-1 text-xs rounded transition-colors ${
+                  mode === value ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {value === 'absolute' ? 'Absolute' : 'Relative (padding)'}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-3">
+            {/* Size inputs */}
+            <div className="flex-1 space-y-2">
+              <div>
+                <label htmlFor="input-resize-canvas-width" className="text-xs text-gray-400 block mb-1">
+                  {mode === 'absolute' ? 'Width' : 'Add width'}
+                </label>
+                <input
+                  id="input-resize-canvas-width"
+                  type="text"
+                  inputMode="numeric"
+                  value={displayWidth}
+                  onChange={(e) => setDisplayWidth(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="input-resize-canvas-height" className="text-xs text-gray-400 block mb-1">
+                  {mode === 'absolute' ? 'Height' : 'Add height'}
+                </label>
+                <input
+                  id="input-resize-canvas-height"
+                  type="text"
+                  inputMode="numeric"
+                  value={displayHeight}
+                  onChange={(e) => setDisplayHeight(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            {/* Anchor grid */}
+            <div>
+              <span className="text-xs text-gray-400 block mb-1">Anchor</span>
+              <div className="grid grid-cols-3 gap-1" role="radiogroup" aria-label="Canvas anchor">
+                {CANVAS_ANCHORS.map((value) => (
+                  <button
+                    key={value}
+                    id={`btn-resize-canvas-anchor-${value}`}
+                    onClick={() => setAnchor(value)}
+                    role="radio"
+                    aria-checked={anchor === value}
+                    aria-label={`Anchor ${value}`}
+                    className={`w-7 h-7 text-xs rounded transition-colors ${
+                      anchor === value ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+                    }`}
+                  >
+                    {ANCHOR_ARROWS[value]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+            <input
+              id="input-resize-canvas-move-layers"
+              type="checkbox"
+              checked={moveLayers}
+              onChange={(e) => setMoveLayers(e.target.checked)}
+            />
+            Move layers and guides with the anchor
+          </label>
+
+          <div className={`text-xs ${isValid ? 'text-gray-400' : 'text-red-400'}`}>
+            New size: {newWidth}×{newHeight}
+            {!isValid && ` (must be 1–${MAX_CANVAS_SIZE}px)`}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-4 py-3 border-t border-gray-700 flex items-center gap-2">
+          <button
+            id="btn-apply-resize-canvas"
+            onClick={handleApply}
+            disabled={!isValid || isUnchanged}
+            className="flex-1 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white py-2 rounded text-sm font-semibold transition-colors"
+          >
+            Resize
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded text-sm transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ResizeCanvasModal;
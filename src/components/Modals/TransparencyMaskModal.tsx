@@ -3,6 +3,8 @@ import DraggableModal from './DraggableModal';
 import { applyTransparencyMask } from '../../utils/imageProcessing';
 import useCompositorStore from '../../store/compositorStore';
 import { Layer } from '../../types/compositor.types';
+import { createEffectId } from '../../utils/layerEffects';
+import { loadPreferences, savePreferences } from '../../hooks/useLocalStorage';
 
 interface TransparencyMaskModalProps {
   isOpen: boolean;
@@ -21,15 +23,22 @@ const TransparencyMaskModal: React.FC<TransparencyMaskModalProps> = ({
   const [zoom, setZoom] = useState<number>(1);
   const [imageDimensions, setImageDimensions] = useState<{ width: number; height: number } | null>(null);
   const [useTemplatePalette, setUseTemplatePalette] = useState<boolean>(true);
+  const [autoTrim, setAutoTrim] = useState<boolean>(() => loadPreferences().autoTrimAfterMask ?? false);
   const [hasInitialFit, setHasInitialFit] = useState<boolean>(false);
   const [pinFitToScreen, setPinFitToScreen] = useState<boolean>(true);
   const previewContainerRef = useRef<HTMLDivElement>(null);
   const imgRef = useRef<HTMLImageElement>(null);
   const previewPanRef = useRef<{ startX: number; startY: number; startScrollLeft: number; startScrollTop: number } | null>(null);
-  const updateLayer = useCompositorStore((state) => state.updateLayer);
+  const addLayerEffect = useCompositorStore((state) => state.addLayerEffect);
+  const trimLayers = useCompositorStore((state) => state.trimLayers);
   const layers = useCompositorStore((state) => state.project.layers);
   const cropCanvasToLayers = useCompositorStore((state) => state.cropCanvasToLayers);
 
+  const handleAutoTrimChange = (checked: boolean) => {
+    setAutoTrim(checked);
+    savePreferences({ ...loadPreferences(), autoTrimAfterMask: checked });
+  };
+
   const previewPadding = 20;
   const minZoom = 0.1;
   const maxZoom = 20;
@@ -62,16 +71,19 @@ const TransparencyMaskModal: React.FC<TransparencyMaskModalProps> = ({
 
   const handleApply = async () => {
     if (layer.imageData) {
-      try {
-        const result = await applyTransparencyMask(layer.imageData, threshold, useTemplatePalette);
-        updateLayer(layer.id, { imageData: result });
-        // Auto-crop canvas when there's only one layer
-        if (layers.length === 1) {
-          setTimeout(() => { cropCanvasToLayers(); window.fitCanvasToScreen?.(); }, 50);
-        }
-        onClose();
-      } catch (error) {
-        console.error('Failed to apply transparency mask with palette reduction:', error);
+      onClose();
+      // Added to the effect stack so the threshold stays editable
+      await addLayerEffect(layer.id, {
+        id: createEffectId(),
+        type: 'transparency-mask',
+        enabled: true,
+        threshold,
+        useTemplatePalette,
+      });
+      if (autoTrim) await trimLayers([layer.id]);
+      // Auto-crop canvas when there's only one layer
+      if (layers.length === 1) {
+        setTimeout(() => { cropCanvasToLayers(); window.fitCanvasToScreen?.(); }, 50);
       }
     }
   };
@@ -338,6 +350,17 @@ const TransparencyMaskModal: React.FC<TransparencyMaskModalProps> = ({
               <label htmlFor="input-tmask-template-colors" className="text-sm text-gray-300 cursor-pointer">
                 Use template colors
               </label>
+              <input
+                id="input-tmask-auto-trim"
+                type="checkbox"
+                checked={autoTrim}
+                onChange={(e) => handleAutoTrimChange(e.target.checked)}
+                className="w-4 h-4 ml-2 rounded bg-gray-700 border-gray-600 accent-blue-500 cursor-pointer"
+                aria-label="Trim transparent pixels after applying"
+              />
+              <label htmlFor="input-tmask-auto-trim" className="text-sm text-gray-300 cursor-pointer">
+                Trim transparent pixels
+              </label>
             </div>
 
             <div className="flex space-x-2">
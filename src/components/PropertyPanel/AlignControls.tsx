@@ -0,0 +1,114 @@
+import useCompositorStore from '../../store/compositorStore';
+import { AlignEdge, AlignReference, DistributeMode, Layer } from '../../types/compositor.types';
+
+interface AlignControlsProps {
+  layers: Layer[];
+}
+
+const ALIGN_BUTTONS: { edge: AlignEdge; label: string; shortcut: string; icon: string }[] = [
+  { edge: 'left', label: 'Align left', shortcut: 'Alt+Shift+L', icon: 'M4 3v18M8 7h12v4H8zm0 6h7v4H8z' },
+  { edge: 'center', label: 'Align horizontal centers', shortcut: 'Alt+Shift+C', icon: 'M12 3v18M5 7h14v4H5zm3 6h8v4H8z' },
+  { edge: 'right', label: 'Align right', shortcut: 'Alt+Shift+R', icon: 'M20 3v18M4 7h12v4H4zm5 6h7v4H9z' },
+  { edge: 'top', label: 'Align top', shortcut: 'Alt+Shift+T', icon: 'M3 4h18M7 8v12h4V8zm6 0v7h4V8z' },
+  { edge: 'middle', label: 'Align vertical centers', shortcut: 'Alt+Shift+M', icon: 'M3 12h18M7 5v14h4V5zm6 3v8h4V8z' },
+  { edge: 'bottom', label: 'Align bottom', shortcut: 'Alt+Shift+B', icon: 'M3 20h18M7 4v12h4V4zm6 5v7h4V9z' },
+];
+
+const DISTRIBUTE_BUTTONS: { axis: 'x' | 'y'; mode: DistributeMode; label: string; shortcut?: string; icon: string }[] = [
+  { axis: 'x', mode: 'centers', label: 'Distribute horizontal centers', icon: 'M5 4v16m7-16v16m7-16v16M3 9h4v6H3zm7 0h4v6h-4zm7 0h4v6h-4z' },
+  { axis: 'x', mode: 'gaps', label: 'Distribute horizontal spacing', shortcut: 'Alt+Shift+H', icon: 'M3 4v16m18-16v16M7 8h3v8H7zm7 0h3v8h-3z' },
+  { axis: 'y', mode: 'centers', label: 'Distribute vertical centers', icon: 'M4 5h16M4 12h16M4 19h16M9 3h6v4H9zm0 7h6v4H9zm0 7h6v4H9z' },
+  { axis: 'y', mode: 'gaps', label: 'Distribute vertical spacing', shortcut: 'Alt+Shift+V', icon: 'M4 3h16M4 21h16M8 7h8v3H8zm0 7h8v3H8z' },
+];
+
+const REFERENCES: { value: AlignReference; label: string }[] = [
+  { value: 'selection', label: 'Selection' },
+  { value: 'canvas', label: 'Canvas' },
+  { value: 'key-layer', label: 'Key layer' },
+];
+
+/**
+ * Align and distribute buttons for the selected layers
+ * Alignment is relative to the selection bounds, the canvas or a key layer
+ */
+function AlignControls({ layers }: AlignControlsProps) {
+  const alignReference = useCompositorStore((state) => state.ui.alignReference);
+  const alignKeyLayerId = useCompositorStore((state) => state.ui.alignKeyLayerId);
+  const alignSelectedLayers = useCompositorStore((state) => state.alignSelectedLayers);
+  const distributeSelectedLayers = useCompositorStore((state) => state.distributeSelectedLayers);
+  const setAlignOptions = useCompositorStore((state) => state.setAlignOptions);
+
+  const keyLayerId = layers.find((layer) => layer.id === alignKeyLayerId)?.id ?? layers[0]?.id;
+  const canAlign = alignReference === 'canvas' || layers.length > 1;
+
+  return (
+    <div className="bg-panel-bg rounded p-3 space-y-2" data-region="align-controls">
+      <div className="flex items-center justify-between">
+        <label htmlFor="select-align-reference" className="text-xs font-semibold text-gray-300">Align to</label>
+        <select
+          id="select-align-reference"
+          value={alignReference}
+          onChange={(e) => setAlignOptions({ alignReference: e.target.value as AlignReference })}
+          className="px-2 py-0.5 text-xs bg-canvas-bg border border-border rounded text-gray-200 focus:outline-none focus:border-blue-400"
+        >
+          {REFERENCES.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {alignReference === 'key-layer' && layers.length > 1 && (
+        <select
+          id="select-align-key-layer"
+          value={keyLayerId}
+          onChange={(e) => setAlignOptions({ alignKeyLayerId: e.target.value })}
+          className="w-full px-2 py-1 text-xs bg-canvas-bg border border-border rounded text-gray-200 focus:outline-none focus:border-blue-400"
+          aria-label="Key layer (stays in place)"
+          title="Key layer (stays in place)"
+        >
+          {layers.map((layer) => (
+            <option key={layer.id} value={layer.id}>{layer.name}</option>
+          ))}
+        </select>
+      )}
+
+      <div className="grid grid-cols-6 gap-1">
+        {ALIGN_BUTTONS.map(({ edge, label, shortcut, icon }) => (
+          <button
+            key={edge}
+            id={`btn-align-${edge}`}
+            onClick={() => alignSelectedLayers(edge)}
+            disabled={!canAlign}
+            className="flex justify-center px-1 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:hover:bg-gray-700 rounded transition-colors"
+            title={`${label} (${shortcut})`}
+            aria-label={label}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d={icon} />
+            </svg>
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-4 gap-1">
+        {DISTRIBUTE_BUTTONS.map(({ axis, mode, label, shortcut, icon }) => (
+          <button
+            key={`${axis}-${mode}`}
+            id={`btn-distribute-${axis === 'x' ? 'horizontal' : 'vertical'}-${mode}`}
+            onClick={() => distributeSelectedLayers(axis, mode)}
+            disabled={layers.length < 3}
+            className="flex justify-center px-1 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:hover:bg-gray-700 rounded transition-colors"
+            title={`${label}${shortcut ? ` (${shortcut})` : ''} - needs 3 or more layers`}
+            aria-label={label}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d={icon} />
+            </svg>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default AlignControls;
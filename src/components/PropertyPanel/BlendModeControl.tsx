@@ -0,0 +1,48 @@
+import useCompositorStore from '../../store/compositorStore';
+import { BlendMode, Layer } from '../../types/compositor.types';
+import { BLEND_MODES } from '../../utils/canvasRenderer';
+
+interface BlendModeControlProps {
+  layers: Pick<Layer, 'id' | 'blendMode'>[];
+}
+
+/**
+ * Blend mode picker for one or more selected layers
+ * Shows "Mixed" when the selected layers use different modes
+ */
+function BlendModeControl({ layers }: BlendModeControlProps) {
+  const updateLayer = useCompositorStore((state) => state.updateLayer);
+
+  const modes = new Set(layers.map((layer) => layer.blendMode ?? 'normal'));
+  const current = modes.size === 1 ? [...modes][0] : '';
+
+  const handleChange = (value: BlendMode) => {
+    for (const layer of layers) {
+      updateLayer(layer.id, { blendMode: value === 'normal' ? undefined : value });
+    }
+  };
+
+  return (
+    <div className="bg-panel-bg rounded p-3 space-y-2" data-region="blend-mode-control">
+      <label htmlFor="select-layer-blend-mode" className="text-xs font-semibold text-gray-300 block">
+        Blend Mode{layers.length > 1 ? ` (${layers.length} layers)` : ''}
+      </label>
+      <select
+        id="select-layer-blend-mode"
+        value={current}
+        onChange={(e) => handleChange(e.target.value as BlendMode)}
+        className="w-full px-2 py-1 text-xs bg-canvas-bg border border-border rounded text-gray-200 focus:outline-none focus:border-blue-400"
+        aria-label="Layer blend mode"
+      >
+        {current === '' && <option value="" disabled>Mixed</option>}
+        {BLEND_MODES.map((mode) => (
+          <option key={mode.value} value={mode.value}>
+            {mode.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+export default BlendModeControl;
@@ -1,6 +1,42 @@
 import { useEffect, useState } from 'react';
 import useCompositorStore from '../../store/compositorStore';
 import { savePreferences, loadPreferences } from '../../hooks/useLocalStorage';
+import ResizeCanvasModal from '../Modals/ResizeCanvasModal';
+import { WorldOrigin } from '../../types/compositor.types';
+import { DEFAULT_TILE_SIZE, TileCoordinates, canvasToWorld, tileToWorld, worldToTile } from '../../utils/worldOrigin';
+
+interface OriginInputProps {
+  id: string;
+  label: string;
+  value: number;
+  min?: number;
+  onCommit: (value: number) => void;
+}
+
+/**
+ * Integer field that commits on blur or Enter, so negative values can be typed
+ */
+function OriginInput({ id, label, value, min, onCommit }: OriginInputProps) {
+  return (
+    <div className="flex items-center gap-1">
+      <label htmlFor={id} className="text-xs text-gray-500 w-12 flex-shrink-0">{label}</label>
+      <input
+        id={id}
+        key={value}
+        type="number"
+        min={min}
+        defaultValue={value}
+        onBlur={(e) => {
+          const next = Math.round(Number(e.target.value));
+          if (Number.isFinite(next) && next !== value && (min === undefined || next >= min)) onCommit(next);
+          else e.target.value = String(value);
+        }}
+        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        className="w-full min-w-0 px-2 py-1 bg-canvas-bg border border-border rounded text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-400"
+      />
+    </div>
+  );
+}
 
 /**
  * Canvas settings component
@@ -11,7 +47,12 @@ function CanvasSettings() {
   const layers = useCompositorStore((state) => state.project.layers);
   const setCanvasConfig = useCompositorStore((state) => state.setCanvasConfig);
   const cropCanvasToLayers = useCompositorStore((state) => state.cropCanvasToLayers);
+  const trimCanvas = useCompositorStore((state) => state.trimCanvas);
+  const pickAlphaThreshold = useCompositorStore((state) => state.ui.pickAlphaThreshold);
+  const setPickAlphaThreshold = useCompositorStore((state) => state.setPickAlphaThreshold);
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const [isResizeOpen, setIsResizeOpen] = useState(false);
+  const [originMode, setOriginMode] = useState<'pixel' | 'tile'>('pixel');
   const [displayWidth, setDisplayWidth] = useState(String(canvas.width));
   const [displayHeight, setDisplayHeight] = useState(String(canvas.height));
 
@@ -56,6 +97,12 @@ function CanvasSettings() {
     savePreferences(preferences);
   }, [canvas.borderEnabled, canvas.shadowIntensity]);
 
+  // Saved on change rather than in an effect so mounting can't overwrite the stored value
+  const handlePickAlphaThresholdChange = (value: string) => {
+    setPickAlphaThreshold(parseInt(value, 10) || 0);
+    savePreferences({ ...loadPreferences(), pickAlphaThreshold: useCompositorStore.getState().ui.pickAlphaThreshold });
+  };
+
   const handleBackgroundColorChange = (value: string) => {
     if (value === 'transparent') {
       setCanvasConfig({ backgroundColor: null });
@@ -66,6 +113,16 @@ function CanvasSettings() {
     }
   };
 
+  const origin = canvas.worldOrigin;
+  const setOrigin = (changes: Partial<WorldOrigin>) => {
+    if (origin) setCanvasConfig({ worldOrigin: { ...origin, ...changes } });
+  };
+  const originTile = origin && worldToTile(origin.tileSize, origin.x, origin.y);
+  const setOriginTile = (changes: Partial<TileCoordinates>) => {
+    if (origin && originTile) setOrigin(tileToWorld(origin.tileSize, { ...originTile, ...changes }));
+  };
+  const originEnd = origin && canvasToWorld(origin, canvas.width - 1, canvas.height - 1);
+
   const handleCommonSizeChange = (size: string) => {
     const [w, h] = size.split('x').map(Number);
     if (!isNaN(w) && !isNaN(h) && w > 0 && h > 0) {
@@ -163,6 +220,36 @@ function CanvasSettings() {
         Crop Canvas to Layers
       </button>
 
+      {/* Resize with anchor / trim transparent margins */}
+      <div className="flex gap-1">
+        <button
+          id="btn-open-resize-canvas"
+          onClick={() => setIsResizeOpen(true)}
+          className="flex-1 px-3 py-2 rounded transition-colors text-xs font-medium bg-slate-700 text-white hover:bg-slate-600"
+          title="Resize canvas around an anchor point"
+        >
+          Resize Canvas…
+        </button>
+        <button
+          id="btn-trim-canvas"
+          onClick={async () => {
+            await trimCanvas();
+            window.fitCanvasToScreen?.();
+          }}
+          disabled={layers.length === 0}
+          className={`flex-1 px-3 py-2 rounded transition-colors text-xs font-medium ${
+            layers.length === 0
+              ? 'bg-gray-700 text-gray-500 cursor-not-allowed'
+              : 'bg-slate-700 text-white hover:bg-slate-600'
+          }`}
+          title="Trim fully transparent margins across all visible layers"
+          aria-label="Trim transparent canvas margins"
+        >
+          Trim
+        </button>
+      </div>
+      <ResizeCanvasModal isOpen={isResizeOpen} onClose={() => setIsResizeOpen(false)} />
+
       {/* Background Color */}
       <div>
         <label className="text-xs text-gray-400 block mb-1">Background</label>
@@ -311,6 +398,62 @@ function CanvasSettings() {
         </div>
       </div>
 
+      {/* World Origin */}
+      <div className="space-y-2 pt-2 border-t border-border">
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="input-world-origin-enabled"
+            checked={!!origin}
+            onChange={(e) => setCanvasConfig({
+              worldOrigin: e.target.checked ? { x: 0, y: 0, tileSize: DEFAULT_TILE_SIZE } : undefined,
+            })}
+            className="w-4 h-4 rounded cursor-pointer"
+            title="Anchor the canvas to a position on GeoPixels/WPlace; rulers, cursor coordinates and placement exports then use world pixels"
+            aria-label="Use a world origin"
+          />
+          <label htmlFor="input-world-origin-enabled" className="text-xs text-gray-400 cursor-pointer flex-1">
+            World Origin
+          </label>
+          {origin && (
+            <div className="flex rounded overflow-hidden border border-border">
+              {(['pixel', 'tile'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  id={`btn-world-origin-${mode}`}
+                  onClick={() => setOriginMode(mode)}
+                  className={`px-2 py-0.5 text-xs transition-colors ${originMode === mode ? 'bg-blue-600 text-white' : 'bg-panel-bg text-gray-400 hover:text-gray-300'}`}
+                  aria-pressed={originMode === mode}
+                >
+                  {mode === 'pixel' ? 'Pixel' : 'Tile'}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        {origin && originTile && originEnd && (
+          <>
+            {originMode === 'pixel' ? (
+              <div className="grid grid-cols-2 gap-2">
+                <OriginInput id="input-world-origin-x" label="World X" value={origin.x} onCommit={(x) => setOrigin({ x })} />
+                <OriginInput id="input-world-origin-y" label="World Y" value={origin.y} onCommit={(y) => setOrigin({ y })} />
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                <OriginInput id="input-world-tile-x" label="Tile X" value={originTile.tileX} onCommit={(tileX) => setOriginTile({ tileX })} />
+                <OriginInput id="input-world-tile-y" label="Tile Y" value={originTile.tileY} onCommit={(tileY) => setOriginTile({ tileY })} />
+                <OriginInput id="input-world-tile-offset-x" label="Offset X" value={originTile.offsetX} onCommit={(offsetX) => setOriginTile({ offsetX })} />
+                <OriginInput id="input-world-tile-offset-y" label="Offset Y" value={originTile.offsetY} onCommit={(offsetY) => setOriginTile({ offsetY })} />
+                <OriginInput id="input-world-tile-size" label="Tile size" value={origin.tileSize} min={1} onCommit={(tileSize) => setOrigin({ tileSize })} />
+              </div>
+            )}
+            <p className="text-xs text-gray-500">
+              Canvas covers world ({origin.x}, {origin.y}) to ({originEnd.x}, {originEnd.y})
+            </p>
+          </>
+        )}
+      </div>
+
       {/* Drag Info */}
       <div className="space-y-2 pt-2 border-t border-border">
         <div className="flex items-center gap-2">
@@ -327,6 +470,22 @@ function CanvasSettings() {
             Show Drag Info
           </label>
         </div>
+        <div className="flex items-center gap-2">
+          <label htmlFor="input-pick-alpha-threshold" className="text-xs text-gray-400 flex-1">
+            Click-through Alpha
+          </label>
+          <input
+            id="input-pick-alpha-threshold"
+            type="number"
+            min={0}
+            max={254}
+            value={pickAlphaThreshold}
+            onChange={(e) => handlePickAlphaThresholdChange(e.target.value)}
+            className="w-16 px-2 py-1 bg-canvas-bg border border-border rounded text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-400"
+            title="Clicks pass through layer pixels with alpha at or below this value (0 = only fully transparent). Alt-click selects the next layer down."
+            aria-label="Click-through alpha threshold"
+          />
+        </div>
       </div>
         </div>
       )}
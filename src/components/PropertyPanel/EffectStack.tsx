@@ -0,0 +1,245 @@
+import { useEffect, useState } from 'react';
+import useCompositorStore from '../../store/compositorStore';
+import { Layer, LayerEffect } from '../../types/compositor.types';
+import { EFFECT_LABELS, createEffectId } from '../../utils/layerEffects';
+
+interface EffectStackProps {
+  layer: Layer;
+  onEditPixelate: () => void; // Opens the Pixelator on the layer's pixelate effect
+  onEditBgRemoval: (effectId: string) => void; // Opens Background Removal on that effect's mask
+}
+
+interface EffectSliderProps {
+  id: string;
+  label: string;
+  min: number;
+  max: number;
+  value: number;
+  onCommit: (value: number) => void;
+}
+
+/**
+ * Range input that only commits on release, since every commit re-renders the stack
+ */
+function EffectSlider({ id, label, min, max, value, onCommit }: EffectSliderProps) {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+
+  return (
+    <label htmlFor={id} className="flex items-center gap-2 text-xs text-gray-400">
+      <span className="w-16 flex-shrink-0">{label}</span>
+      <input
+        id={id}
+        type="range"
+        min={min}
+        max={max}
+        value={draft}
+        onChange={(e) => setDraft(parseInt(e.target.value))}
+        onPointerUp={commit}
+        onKeyUp={commit}
+        onBlur={commit}
+        className="flex-1 min-w-0 h-1 accent-blue-400"
+        aria-label={label}
+      />
+      <span className="w-8 text-right flex-shrink-0">{draft}</span>
+    </label>
+  );
+}
+
+/**
+ * Non-destructive effect stack of a single layer
+ * Lists the last-applied effect first (like the layer list), with toggle,
+ * reorder, remove and inline parameter editing
+ */
+function EffectStack({ layer, onEditPixelate, onEditBgRemoval }: EffectStackProps) {
+  const addLayerEffect = useCompositorStore((state) => state.addLayerEffect);
+  const updateLayerEffect = useCompositorStore((state) => state.updateLayerEffect);
+  const removeLayerEffect = useCompositorStore((state) => state.removeLayerEffect);
+  const reorderLayerEffect = useCompositorStore((state) => state.reorderLayerEffect);
+
+  const effects = layer.effects ?? [];
+
+  const handleAddColorAdjust = () => {
+    addLayerEffect(layer.id, {
+      id: createEffectId(),
+      type: 'color-adjust',
+      enabled: true,
+      brightness: 0,
+      contrast: 0,
+      saturation: 0,
+      hue: 0,
+    });
+  };
+
+  const renderParams = (effect: LayerEffect) => {
+    switch (effect.type) {
+      case 'crop':
+        return (
+          <div className="grid grid-cols-4 gap-1">
+            {(['x', 'y', 'width', 'height'] as const).map((field) => (
+              <input
+                // Keyed by value so undo/redo or a re-trim shows the new number
+                key={`${field}-${effect[field]}`}
+                id={`input-effect-crop-${field}-${effect.id}`}
+                type="number"
+                min={field === 'width' || field === 'height' ? 1 : 0}
+                defaultValue={effect[field]}
+                onBlur={(e) => {
+                  const value = parseInt(e.target.value);
+                  if (!isNaN(value) && value !== effect[field]) {
+                    updateLayerEffect(layer.id, { ...effect, [field]: value });
+                  }
+                }}
+                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                className="w-full px-1 py-0.5 text-xs bg-canvas-bg border border-border rounded text-gray-200 focus:outline-none focus:border-blue-400"
+                title={field}
+                aria-label={`Crop ${field}`}
+              />
+            ))}
+          </div>
+        );
+      case 'transparency-mask':
+        return (
+          <div className="space-y-1">
+            <EffectSlider
+              id={`input-effect-threshold-${effect.id}`}
+              label="Threshold"
+              min={0}
+              max={255}
+              value={effect.threshold}
+              onCommit={(threshold) => updateLayerEffect(layer.id, { ...effect, threshold })}
+            />
+            <label className="flex items-center gap-2 text-xs text-gray-400">
+              <input
+                type="checkbox"
+                checked={effect.useTemplatePalette}
+                onChange={(e) => updateLayerEffect(layer.id, { ...effect, useTemplatePalette: e.target.checked })}
+              />
+              Use template palette
+            </label>
+          </div>
+        );
+      case 'color-adjust':
+        return (
+          <div className="space-y-1">
+            {(['brightness', 'contrast', 'saturation'] as const).map((field) => (
+              <EffectSlider
+                key={field}
+                id={`input-effect-${field}-${effect.id}`}
+                label={field.charAt(0).toUpperCase() + field.slice(1)}
+                min={-100}
+                max={100}
+                value={effect[field]}
+                onCommit={(value) => updateLayerEffect(layer.id, { ...effect, [field]: value })}
+              />
+            ))}
+            <EffectSlider
+              id={`input-effect-hue-${effect.id}`}
+              label="Hue"
+              min={-180}
+              max={180}
+              value={effect.hue}
+              onCommit={(hue) => updateLayerEffect(layer.id, { ...effect, hue })}
+            />
+          </div>
+        );
+      case 'pixelate':
+        return (
+          <button
+            id={`btn-effect-edit-${effect.id}`}
+            onClick={onEditPixelate}
+            className="w-full px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+          >
+            Edit in Pixelator…
+          </button>
+        );
+      case 'bg-removal':
+        return (
+          <button
+            id={`btn-effect-edit-${effect.id}`}
+            onClick={() => onEditBgRemoval(effect.id)}
+            className="w-full px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+          >
+            Edit mask…
+          </button>
+        );
+    }
+  };
+
+  return (
+    <div className="bg-panel-bg rounded p-3 space-y-2" data-region="effect-stack">
+      <div className="flex items-center justify-between">
+        <div className="text-xs font-semibold text-gray-300">Effects</div>
+        <button
+          id="btn-add-color-adjust-effect"
+          onClick={handleAddColorAdjust}
+          className="px-2 py-0.5 text-xs bg-canvas-bg hover:bg-border rounded transition"
+          title="Add a color adjustment effect"
+        >
+          + Color Adjust
+        </button>
+      </div>
+
+      {effects.length === 0 ? (
+        <div className="text-xs text-gray-500">
+          Crop, Transparency Mask, BG Removal and Pixelator add their result here
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {[...effects].reverse().map((effect) => (
+            <div
+              key={effect.id}
+              id={`effect-${effect.id}`}
+              className={`rounded border border-border p-2 space-y-1 ${effect.enabled ? '' : 'opacity-50'}`}
+            >
+              <div className="flex items-center gap-1">
+                <input
+                  id={`input-effect-enabled-${effect.id}`}
+                  type="checkbox"
+                  checked={effect.enabled}
+                  onChange={() => updateLayerEffect(layer.id, { ...effect, enabled: !effect.enabled })}
+                  aria-label={`${effect.enabled ? 'Disable' : 'Enable'} ${EFFECT_LABELS[effect.type]}`}
+                />
+                <span className="flex-1 min-w-0 truncate text-xs text-gray-200">{EFFECT_LABELS[effect.type]}</span>
+                <button
+                  id={`btn-effect-up-${effect.id}`}
+                  onClick={() => reorderLayerEffect(layer.id, effect.id, 'up')}
+                  className="w-5 h-5 text-xs rounded hover:bg-gray-600"
+                  title="Apply later (move up)"
+                  aria-label={`Move ${EFFECT_LABELS[effect.type]} up`}
+                >
+                  ↑
+                </button>
+                <button
+                  id={`btn-effect-down-${effect.id}`}
+                  onClick={() => reorderLayerEffect(layer.id, effect.id, 'down')}
+                  className="w-5 h-5 text-xs rounded hover:bg-gray-600"
+                  title="Apply earlier (move down)"
+                  aria-label={`Move ${EFFECT_LABELS[effect.type]} down`}
+                >
+                  ↓
+                </button>
+                <button
+                  id={`btn-effect-remove-${effect.id}`}
+                  onClick={() => removeLayerEffect(layer.id, effect.id)}
+                  className="w-5 h-5 text-xs rounded text-red-400 hover:bg-red-900"
+                  title="Remove effect"
+                  aria-label={`Remove ${EFFECT_LABELS[effect.type]}`}
+                >
+                  ✕
+                </button>
+              </div>
+              {renderParams(effect)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default EffectStack;
@@ -2,6 +2,10 @@ import useCompositorStore from '../../store/compositorStore';
 import { Layer } from '../../types/compositor.types';
 import PositionInputs from './PositionInputs';
 import OpacityControl from './OpacityControl';
+import BlendModeControl from './BlendModeControl';
+import AlignControls from './AlignControls';
+import TransformControls from './TransformControls';
+import EffectStack from './EffectStack';
 import ColorAnalysis from './ColorAnalysis';
 import ShapeProperties from './ShapeProperties';
 import TransparencyMaskModal from '../Modals/TransparencyMaskModal';
@@ -17,6 +21,8 @@ import { useState } from 'react';
 function PropertyPanel() {
   const project = useCompositorStore((state) => state.project);
   const selectedLayerIds = useCompositorStore((state) => state.selectedLayerIds);
+  const revertPixelation = useCompositorStore((state) => state.revertPixelation);
+  const trimLayers = useCompositorStore((state) => state.trimLayers);
   const selectedLayers = project.layers.filter((layer) =>
     selectedLayerIds.includes(layer.id)
   );
@@ -24,8 +30,10 @@ function PropertyPanel() {
   const [isTransparencyModalOpen, setIsTransparencyModalOpen] = useState(false);
   const [isPixelatorModalOpen, setIsPixelatorModalOpen] = useState(false);
   const [pixelatorLayerId, setPixelatorLayerId] = useState<string | null>(null);
+  const [pixelatorBatch, setPixelatorBatch] = useState(false); // Opened from "Pixelate Selected Layers"
   const [isCropModalOpen, setIsCropModalOpen] = useState(false);
   const [isBgRemovalModalOpen, setIsBgRemovalModalOpen] = useState(false);
+  const [bgRemovalEffectId, setBgRemovalEffectId] = useState<string | undefined>(undefined);
 
   return (
     <div className="h-full flex flex-col bg-canvas-bg overflow-hidden" data-region="property-panel">
@@ -52,6 +60,12 @@ function PropertyPanel() {
               ))}
             </div>
 
+            {/* Align / distribute (canvas alignment also works on a single layer) */}
+            {selectedLayers.length > 0 && <AlignControls layers={selectedLayers} />}
+
+            {/* Flip / rotate / scale (single or multiple layers) */}
+            {selectedLayers.length > 0 && <TransformControls layerCount={selectedLayers.length} />}
+
             {/* Position Controls (if single layer selected) */}
             {selectedLayerIds.length === 1 && selectedLayers.length > 0 && <PositionInputs layer={selectedLayers[0]} />}
 
@@ -61,6 +75,9 @@ function PropertyPanel() {
             {/* Bulk Opacity Control (if multiple layers selected) */}
             {selectedLayerIds.length > 1 && <BulkOpacityControl layers={selectedLayers} />}
 
+            {/* Blend Mode (single or multiple layers) */}
+            {selectedLayers.length > 0 && <BlendModeControl layers={selectedLayers} />}
+
             {/* Color Analysis (single or multi-layer) */}
             {selectedLayerIds.length === 1 && selectedLayers.length > 0 && <ColorAnalysis layer={selectedLayers[0]} />}
             {selectedLayerIds.length > 1 && selectedLayers.length > 1 && <ColorAnalysis layers={selectedLayers} />}
@@ -70,6 +87,15 @@ function PropertyPanel() {
               <ShapeProperties layer={selectedLayers[0]} />
             )}
 
+            {/* Effect Stack (if single layer selected) */}
+            {selectedLayerIds.length === 1 && selectedLayers.length > 0 && (
+              <EffectStack
+                layer={selectedLayers[0]}
+                onEditPixelate={() => { setPixelatorLayerId(selectedLayers[0].id); setPixelatorBatch(false); setIsPixelatorModalOpen(true); }}
+                onEditBgRemoval={(effectId) => { setBgRemovalEffectId(effectId); setIsBgRemovalModalOpen(true); }}
+              />
+            )}
+
             {/* Layer Modification Menu */}
             {selectedLayerIds.length === 1 && selectedLayers.length > 0 && (
               <div data-region="actions-menu">
@@ -103,7 +129,7 @@ function PropertyPanel() {
                   </button>
                   <button
                     id="btn-open-pixelator-modal"
-                    onClick={() => { setPixelatorLayerId(selectedLayers[0].id); setIsPixelatorModalOpen(true); }}
+                    onClick={() => { setPixelatorLayerId(selectedLayers[0].id); setPixelatorBatch(false); setIsPixelatorModalOpen(true); }}
                     className="flex items-center gap-2 w-full text-left px-2 py-1.5 text-xs text-gray-300 hover:bg-slate-700/50 hover:text-white rounded transition-colors"
                     aria-label="Open pixelator / resize"
                   >
@@ -115,9 +141,23 @@ function PropertyPanel() {
                     </svg>
                     <span>Pixelator / Resize</span>
                   </button>
+                  {selectedLayers[0].effects?.some((e) => e.type === 'pixelate') && (
+                    <button
+                      id="btn-revert-pixelation"
+                      onClick={() => revertPixelation(selectedLayers[0].id)}
+                      className="flex items-center gap-2 w-full text-left px-2 py-1.5 text-xs text-gray-300 hover:bg-slate-700/50 hover:text-white rounded transition-colors"
+                      aria-label="Revert pixelation to the original image"
+                    >
+                      <svg className="w-4 h-4 flex-shrink-0 text-gray-400" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <path d="M3 12a9 9 0 109-9 9.75 9.75 0 00-6.74 2.74L3 8" />
+                        <path d="M3 3v5h5" />
+                      </svg>
+                      <span>Revert to Original</span>
+                    </button>
+                  )}
                   <button
                     id="btn-open-bg-removal-modal"
-                    onClick={() => setIsBgRemovalModalOpen(true)}
+                    onClick={() => { setBgRemovalEffectId(undefined); setIsBgRemovalModalOpen(true); }}
                     className="flex items-center gap-2 w-full text-left px-2 py-1.5 text-xs text-gray-300 hover:bg-slate-700/50 hover:text-white rounded transition-colors"
                     aria-label="Open background removal"
                   >
@@ -129,6 +169,56 @@ function PropertyPanel() {
                     </svg>
                     <span>BG Removal</span>
                   </button>
+                  <button
+                    id="btn-trim-layer"
+                    onClick={() => trimLayers([selectedLayers[0].id])}
+                    className="flex items-center gap-2 w-full text-left px-2 py-1.5 text-xs text-gray-300 hover:bg-slate-700/50 hover:text-white rounded transition-colors"
+                    aria-label="Trim transparent pixels"
+                    title="Crop the layer to its non-transparent pixels without moving them"
+                  >
+                    <svg className="w-4 h-4 flex-shrink-0 text-gray-400" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                      <path d="M3 3h4M3 3v4M21 3h-4M21 3v4M3 21h4M3 21v-4M21 21h-4M21 21v-4" />
+                      <rect x="8" y="8" width="8" height="8" rx="1" />
+                    </svg>
+                    <span>Trim Transparent Pixels</span>
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Multi-layer Modify Menu: the pixelator previews on the first layer and applies to all */}
+            {selectedLayerIds.length > 1 && selectedLayers.length > 1 && (
+              <div data-region="actions-menu">
+                <div className="text-xs font-semibold text-gray-300 mb-2">Modify {selectedLayers.length} Layers</div>
+                <div className="flex flex-col gap-0.5">
+                  <button
+                    id="btn-open-pixelator-batch"
+                    onClick={() => { setPixelatorLayerId(selectedLayers[0].id); setPixelatorBatch(true); setIsPixelatorModalOpen(true); }}
+                    className="flex items-center gap-2 w-full text-left px-2 py-1.5 text-xs text-gray-300 hover:bg-slate-700/50 hover:text-white rounded transition-colors"
+                    aria-label="Pixelate selected layers"
+                    title={`Tune the settings on '${selectedLayers[0].name}', then apply them to every selected layer`}
+                  >
+                    <svg className="w-4 h-4 flex-shrink-0 text-gray-400" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                      <rect x="2" y="2" width="8" height="8" rx="1" />
+                      <rect x="14" y="2" width="8" height="8" rx="1" />
+                      <rect x="2" y="14" width="8" height="8" rx="1" />
+                      <rect x="14" y="14" width="4" height="4" rx="0.5" />
+                    </svg>
+                    <span>Pixelate Selected Layers</span>
+                  </button>
+                  <button
+                    id="btn-trim-selected-layers"
+                    onClick={() => trimLayers(selectedLayers.map((layer) => layer.id))}
+                    className="flex items-center gap-2 w-full text-left px-2 py-1.5 text-xs text-gray-300 hover:bg-slate-700/50 hover:text-white rounded transition-colors"
+                    aria-label="Trim transparent pixels of selected layers"
+                    title="Crop each selected layer to its non-transparent pixels without moving them"
+                  >
+                    <svg className="w-4 h-4 flex-shrink-0 text-gray-400" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                      <path d="M3 3h4M3 3v4M21 3h-4M21 3v4M3 21h4M3 21v-4M21 21h-4M21 21v-4" />
+                      <rect x="8" y="8" width="8" height="8" rx="1" />
+                    </svg>
+                    <span>Trim Transparent Pixels</span>
+                  </button>
                 </div>
               </div>
             )}
@@ -147,6 +237,7 @@ function PropertyPanel() {
                 isOpen={isBgRemovalModalOpen}
                 onClose={() => setIsBgRemovalModalOpen(false)}
                 layer={selectedLayers[0]}
+                effectId={bgRemovalEffectId}
               />
             )}
 
@@ -174,6 +265,7 @@ function PropertyPanel() {
             isOpen={isPixelatorModalOpen}
             onClose={() => setIsPixelatorModalOpen(false)}
             layer={pixelatorLayer}
+            batch={pixelatorBatch}
           />
         ) : null;
       })()}
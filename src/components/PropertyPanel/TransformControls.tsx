@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import useCompositorStore from '../../store/compositorStore';
+import { LayerTransform, RotateAlgorithm } from '../../types/compositor.types';
+import { describeTransform } from '../../utils/layerTransforms';
+
+interface TransformControlsProps {
+  layerCount: number;
+}
+
+const QUICK_TRANSFORMS: { id: string; transform: LayerTransform; label: string; shortcut?: string }[] = [
+  { id: 'flip-x', transform: { type: 'flip', axis: 'x' }, label: '⇋ Flip H', shortcut: 'Shift+H' },
+  { id: 'flip-y', transform: { type: 'flip', axis: 'y' }, label: '⇵ Flip V', shortcut: 'Shift+V' },
+  { id: 'rotate-cw', transform: { type: 'rotate', quarterTurns: 1 }, label: '↻ 90°', shortcut: 'Shift+R' },
+  { id: 'rotate-ccw', transform: { type: 'rotate', quarterTurns: 3 }, label: '↺ 90°' },
+  { id: 'rotate-180', transform: { type: 'rotate', quarterTurns: 2 }, label: '180°' },
+  { id: 'scale-2', transform: { type: 'scale', factor: 2 }, label: '2x' },
+  { id: 'scale-3', transform: { type: 'scale', factor: 3 }, label: '3x' },
+  { id: 'scale-half', transform: { type: 'scale', factor: 0.5 }, label: '½x' },
+];
+
+/**
+ * Flip, rotate and scale buttons for the selected layers
+ * Every transform is pixel-exact except free rotation, which offers RotSprite
+ */
+function TransformControls({ layerCount }: TransformControlsProps) {
+  const transformSelectedLayers = useCompositorStore((state) => state.transformSelectedLayers);
+  const [degrees, setDegrees] = useState(45);
+  const [algorithm, setAlgorithm] = useState<RotateAlgorithm>('rotsprite');
+  const [isApplying, setIsApplying] = useState(false);
+
+  const apply = async (transform: LayerTransform) => {
+    setIsApplying(true);
+    try {
+      await transformSelectedLayers(transform);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="bg-panel-bg rounded p-3 space-y-2" data-region="transform-controls">
+      <div className="text-xs font-semibold text-gray-300">
+        Transform{layerCount > 1 ? ` (${layerCount} layers)` : ''}
+      </div>
+
+      <div className="grid grid-cols-4 gap-1">
+        {QUICK_TRANSFORMS.map(({ id, transform, label, shortcut }) => (
+          <button
+            key={id}
+            id={`btn-transform-${id}`}
+            onClick={() => apply(transform)}
+            disabled={isApplying}
+            className="px-1 py-1 text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded transition-colors"
+            title={`${describeTransform(transform)}${shortcut ? ` (${shortcut})` : ''}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-1">
+        <input
+          id="input-transform-rotate-degrees"
+          type="number"
+          min={-360}
+          max={360}
+          value={degrees}
+          onChange={(e) => setDegrees(parseFloat(e.target.value) || 0)}
+          className="w-14 px-1 py-0.5 text-xs bg-canvas-bg border border-border rounded text-gray-200 focus:outline-none focus:border-blue-400"
+          aria-label="Rotation angle in degrees (clockwise)"
+          title="Rotation angle in degrees (clockwise)"
+        />
+        <span className="text-xs text-gray-400">°</span>
+        <select
+          id="select-transform-rotate-algorithm"
+          value={algorithm}
+          onChange={(e) => setAlgorithm(e.target.value as RotateAlgorithm)}
+          className="flex-1 min-w-0 px-1 py-0.5 text-xs bg-canvas-bg border border-border rounded text-gray-200 focus:outline-none focus:border-blue-400"
+          aria-label="Rotation algorithm"
+          title="RotSprite keeps pixel-art lines clean (layers up to 512×512; larger ones use nearest neighbor)"
+        >
+          <option value="rotsprite">RotSprite</option>
+          <option value="nearest">Nearest neighbor</option>
+        </select>
+        <button
+          id="btn-transform-rotate"
+          onClick={() => apply({ type: 'free-rotate', degrees, algorithm })}
+          disabled={isApplying || degrees % 360 === 0}
+          className="px-2 py-0.5 text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded transition-colors"
+        >
+          Rotate
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default TransformControls;
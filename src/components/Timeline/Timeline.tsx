@@ -0,0 +1,273 @@
+import { useEffect, useRef, useState } from 'react';
+import useCompositorStore from '../../store/compositorStore';
+import { AnimationMode } from '../../types/compositor.types';
+import { exportCanvasPixels } from '../../utils/projectSerializer';
+import { resolveLayerGroups } from '../../utils/layerGroups';
+import { MIN_FRAME_DURATION, RenderedFrame, getAnimationDuration, getFrameLayers } from '../../utils/animation';
+
+const buttonClass = 'px-2 py-1 text-xs rounded bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+
+/**
+ * Animation timeline shown under the canvas
+ * Frames are edited by selecting one and changing the layers; playback renders
+ * every frame once and plays them in a small preview, so the project is untouched
+ */
+function Timeline() {
+  const project = useCompositorStore((state) => state.project);
+  const selectedLayerIds = useCompositorStore((state) => state.selectedLayerIds);
+  const onionSkin = useCompositorStore((state) => state.ui.onionSkin);
+  const addAnimationFrame = useCompositorStore((state) => state.addAnimationFrame);
+  const removeAnimationFrame = useCompositorStore((state) => state.removeAnimationFrame);
+  const selectAnimationFrame = useCompositorStore((state) => state.selectAnimationFrame);
+  const updateAnimationFrame = useCompositorStore((state) => state.updateAnimationFrame);
+  const moveAnimationFrame = useCompositorStore((state) => state.moveAnimationFrame);
+  const setAnimationOptions = useCompositorStore((state) => state.setAnimationOptions);
+  const createFramesFromLayers = useCompositorStore((state) => state.createFramesFromLayers);
+  const clearAnimation = useCompositorStore((state) => state.clearAnimation);
+  const toggleTimeline = useCompositorStore((state) => state.toggleTimeline);
+  const toggleOnionSkin = useCompositorStore((state) => state.toggleOnionSkin);
+  const [preview, setPreview] = useState<RenderedFrame[] | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+
+  const animation = project.animation;
+  const frames = animation?.frames ?? [];
+  const activeIndex = frames.findIndex((f) => f.id === animation?.activeFrameId);
+  const activeFrame = frames[activeIndex];
+
+  // Cycle through the rendered frames with their own durations
+  useEffect(() => {
+    const ctx = previewRef.current?.getContext('2d');
+    if (!preview || !ctx) return;
+    let index = 0;
+    let timer: ReturnType<typeof setTimeout>;
+    const show = () => {
+      ctx.putImageData(preview[index].pixels, 0, 0);
+      timer = setTimeout(() => {
+        index = (index + 1) % preview.length;
+        show();
+      }, preview[index].duration);
+    };
+    show();
+    return () => clearTimeout(timer);
+  }, [preview]);
+
+  const handlePlay = async () => {
+    if (preview) {
+      setPreview(null);
+      return;
+    }
+    if (!animation || frames.length === 0) return;
+    setIsRendering(true);
+    try {
+      const rendered: RenderedFrame[] = [];
+      for (const frame of frames) {
+        const pixels = await exportCanvasPixels(
+          resolveLayerGroups(getFrameLayers(project.layers, animation, frame.id), project.groups),
+          project.canvas.width, project.canvas.height, 1, project.canvas.backgroundColor,
+        );
+        rendered.push({ pixels, duration: frame.duration });
+      }
+      setPreview(rendered);
+    } catch (error) {
+      console.error('Failed to render animation preview:', error);
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const commitDuration = (frameId: string, value: string, current: number) => {
+    const duration = Math.max(MIN_FRAME_DURATION, Math.round(Number(value)) || current);
+    if (duration !== current) updateAnimationFrame(frameId, { duration });
+  };
+
+  const layerOptions = [...project.layers].sort((a, b) => a.zIndex - b.zIndex);
+
+  return (
+    <div id="animation-timeline" className="border-t border-border bg-panel-bg flex flex-col" data-region="timeline">
+      {/* Header */}
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-border flex-wrap">
+        <span className="text-xs font-semibold text-gray-300">Timeline</span>
+        {animation && (
+          <span className="text-xs text-gray-500">
+            {frames.length} frame{frames.length === 1 ? '' : 's'} · {(getAnimationDuration(animation) / 1000).toFixed(2)}s
+          </span>
+        )}
+        <div className="flex-1" />
+
+        {animation && (
+          <>
+            <label htmlFor="select-animation-mode" className="text-xs text-gray-400">Mode</label>
+            <select
+              id="select-animation-mode"
+              value={animation.mode}
+              onChange={(e) => setAnimationOptions({ mode: e.target.value as AnimationMode })}
+              className="bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-xs text-gray-200"
+              title="Layer states: each frame remembers every layer's visibility and position. Layer per frame: each frame shows one layer."
+            >
+              <option value="states">Layer states</option>
+              <option value="layer-per-frame">Layer per frame</option>
+            </select>
+            <label htmlFor="input-animation-loops" className="text-xs text-gray-400">Plays</label>
+            <input
+              id="input-animation-loops"
+              key={animation.loopCount}
+              type="number"
+              min={0}
+              defaultValue={animation.loopCount}
+              onBlur={(e) => {
+                const loopCount = Math.max(0, Math.round(Number(e.target.value)) || 0);
+                if (loopCount !== animation.loopCount) setAnimationOptions({ loopCount });
+              }}
+              onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+              className="w-12 bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-xs text-gray-200"
+              title="Times the animation plays when exported (0 = loop forever)"
+            />
+          </>
+        )}
+        <button
+          id="btn-toggle-onion-skin"
+          onClick={toggleOnionSkin}
+          aria-pressed={onionSkin}
+          className={`px-2 py-1 text-xs rounded transition-colors ${onionSkin ? 'bg-blue-600 text-white hover:bg-blue-500' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+          title="Show the previous frame faintly under the current one"
+        >
+          Onion Skin
+        </button>
+        <button
+          id="btn-play-animation"
+          onClick={handlePlay}
+          disabled={frames.length === 0 || isRendering}
+          className={buttonClass}
+          title={preview ? 'Stop the preview' : 'Play the frames in a preview'}
+        >
+          {isRendering ? 'Rendering…' : preview ? '■ Stop' : '▶ Play'}
+        </button>
+        <button
+          id="btn-frames-from-layers"
+          onClick={() => createFramesFromLayers(selectedLayerIds)}
+          disabled={selectedLayerIds.length < 2}
+          className={buttonClass}
+          title="Replace the frames with one frame per selected layer (layer per frame mode)"
+        >
+          Frames from Selected Layers
+        </button>
+        {animation && (
+          <button
+            id="btn-remove-animation"
+            onClick={() => { setPreview(null); clearAnimation(); }}
+            className={buttonClass}
+            title="Remove all frames; the layers stay as they are now"
+          >
+            Remove Animation
+          </button>
+        )}
+        <button onClick={toggleTimeline} className="text-gray-400 hover:text-white text-lg leading-none px-1" aria-label="Close timeline">×</button>
+      </div>
+
+      {/* Frame strip */}
+      <div className="flex items-stretch gap-2 px-3 py-2 overflow-x-auto">
+        {preview && (
+          <canvas
+            ref={previewRef}
+            width={preview[0].pixels.width}
+            height={preview[0].pixels.height}
+            className="h-16 flex-shrink-0 border border-border bg-gray-800"
+            style={{ imageRendering: 'pixelated' }}
+            aria-label="Animation preview"
+          />
+        )}
+
+        {frames.map((frame, i) => (
+          <div
+            key={frame.id}
+            className={`flex-shrink-0 w-24 rounded border p-1 space-y-1 cursor-pointer transition-colors ${
+              i === activeIndex ? 'border-blue-500 bg-gray-700' : 'border-border bg-gray-800 hover:bg-gray-700'
+            }`}
+            onClick={() => selectAnimationFrame(frame.id)}
+            data-frame-index={i}
+          >
+            <div className="text-xs font-semibold text-gray-300">Frame {i + 1}</div>
+            <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+              <input
+                key={frame.duration}
+                type="number"
+                min={MIN_FRAME_DURATION}
+                step={10}
+                defaultValue={frame.duration}
+                onBlur={(e) => commitDuration(frame.id, e.target.value, frame.duration)}
+                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                className="w-14 bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-xs text-gray-200"
+                aria-label={`Frame ${i + 1} duration in milliseconds`}
+              />
+              <span className="text-xs text-gray-500">ms</span>
+            </div>
+            {animation?.mode === 'layer-per-frame' && (
+              <select
+                value={frame.layerId ?? ''}
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => updateAnimationFrame(frame.id, { layerId: e.target.value })}
+                className="w-full bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-xs text-gray-200"
+                aria-label={`Frame ${i + 1} layer`}
+              >
+                <option value="">(none)</option>
+                {layerOptions.map((layer) => (
+                  <option key={layer.id} value={layer.id}>{layer.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        ))}
+
+        {frames.length === 0 && (
+          <p className="text-xs text-gray-500 self-center">
+            No frames yet. Add Frame records the current layers as frame 1; select several layers and use Frames from Selected Layers for one frame per layer.
+          </p>
+        )}
+
+        {/* Frame actions apply to the selected frame */}
+        <div className="flex flex-col gap-1 flex-shrink-0 justify-center">
+          <button
+            id="btn-add-frame"
+            onClick={addAnimationFrame}
+            className={buttonClass}
+            title={frames.length === 0 ? 'Record the current layers as the first frame' : 'Duplicate the selected frame'}
+          >
+            + Add Frame
+          </button>
+          <div className="flex gap-1">
+            <button
+              id="btn-move-frame-left"
+              onClick={() => activeFrame && moveAnimationFrame(activeFrame.id, 'left')}
+              disabled={!activeFrame || activeIndex === 0}
+              className={buttonClass}
+              aria-label="Move frame left"
+            >
+              ←
+            </button>
+            <button
+              id="btn-move-frame-right"
+              onClick={() => activeFrame && moveAnimationFrame(activeFrame.id, 'right')}
+              disabled={!activeFrame || activeIndex === frames.length - 1}
+              className={buttonClass}
+              aria-label="Move frame right"
+            >
+              →
+            </button>
+            <button
+              id="btn-delete-frame"
+              onClick={() => activeFrame && removeAnimationFrame(activeFrame.id)}
+              disabled={!activeFrame}
+              className={buttonClass}
+              aria-label="Delete frame"
+            >
+              🗑
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default Timeline;
@@ -6,6 +6,14 @@ import {
   renameProjectLocal, generateThumbnail, formatBytes,
   SavedProjectMeta, SavedProject,
 } from '../../utils/projectStorage';
+import { resolveLayerGroups } from '../../utils/layerGroups';
+import { decodeGIF } from '../../utils/gifDecoder';
+import { exportAseprite, importAseprite } from '../../utils/aseprite';
+import IndexedExportModal from '../Modals/IndexedExportModal';
+import AnimationExportModal from '../Modals/AnimationExportModal';
+import PlacementExportModal from '../Modals/PlacementExportModal';
+import ProgressModal from '../Modals/ProgressModal';
+import PaletteLibraryModal from '../Modals/PaletteLibraryModal';
 
 /**
  * File operations component
@@ -18,6 +26,11 @@ function FileOperations() {
   const [saveOpen, setSaveOpen] = useState(false);
   const [loadOpen, setLoadOpen] = useState(false);
   const [showSavedProjects, setShowSavedProjects] = useState(false);
+  const [showIndexedExport, setShowIndexedExport] = useState(false);
+  const [showAnimationExport, setShowAnimationExport] = useState(false);
+  const [showPlacementExport, setShowPlacementExport] = useState(false);
+  const [showProgress, setShowProgress] = useState(false);
+  const [showPaletteLibrary, setShowPaletteLibrary] = useState(false);
 
   const project = useCompositorStore((state) => state.project);
   const resetProject = useCompositorStore((state) => state.resetProject);
@@ -80,7 +93,7 @@ function FileOperations() {
     setSaveOpen(false);
     try {
       const blob = await exportCanvasToPNG(
-        project.layers, project.canvas.width, project.canvas.height,
+        resolveLayerGroups(project.layers, project.groups), project.canvas.width, project.canvas.height,
         exportScale, project.canvas.backgroundColor, project.canvas,
       );
       const url = URL.createObjectURL(blob);
@@ -96,6 +109,24 @@ function FileOperations() {
     }
   };
 
+  /** Export layers as an Aseprite sprite */
+  const handleExportAseprite = async () => {
+    setSaveOpen(false);
+    try {
+      const blob = await exportAseprite(project);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${project.projectName || 'untitled'}.aseprite`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      alert(`Error exporting Aseprite file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   /** Save project to IndexedDB */
   const handleSaveLocal = async () => {
     setSaveOpen(false);
@@ -103,7 +134,7 @@ function FileOperations() {
       const projectJson = serializeProject(project);
       const sizeBytes = new Blob([projectJson]).size;
       const thumbnail = await generateThumbnail(
-        project.layers, project.canvas.width, project.canvas.height,
+        resolveLayerGroups(project.layers, project.groups), project.canvas.width, project.canvas.height,
       );
       const entry: SavedProject = {
         id: `proj_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
@@ -153,8 +184,35 @@ function FileOperations() {
         } catch (error) {
           alert(`Error loading project: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
+      } else if (/\.(ase|aseprite)$/i.test(file.name)) {
+        try {
+          // An Aseprite sprite opens as a new project, like a .pixcomp file
+          const sprite = await importAseprite(await file.arrayBuffer());
+          resetProject();
+          const fresh = useCompositorStore.getState().project;
+          loadProject({
+            ...fresh,
+            projectName: file.name.replace(/\.(ase|aseprite)$/i, ''),
+            canvas: { ...fresh.canvas, width: sprite.width, height: sprite.height },
+            layers: sprite.layers,
+            groups: sprite.groups,
+            palette: sprite.palette,
+          });
+          markClean();
+          if (sprite.warnings.length > 0) alert(`Imported ${file.name} with changes:\n\n${sprite.warnings.join('\n')}`);
+        } catch (error) {
+          alert(`Error loading Aseprite file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
       } else if (file.type.startsWith('image/')) {
         try {
+          // Animated GIFs can come in as one layer per frame; anything the decoder can't read loads as a still
+          const gif = file.type === 'image/gif' ? await file.arrayBuffer().then(decodeGIF).catch(() => null) : null;
+          if (gif && gif.frames.length > 1 && window.confirm(
+            `'${file.name}' has ${gif.frames.length} frames. Import every frame as a layer and animation frame?\n\nCancel imports only the first frame.`
+          )) {
+            useCompositorStore.getState().importAnimationLayers(file.name, gif.frames, gif.loopCount);
+            continue;
+          }
           const dataUrl = await new Promise<string>((resolve, reject) => {
             const reader = new FileReader();
             reader.onload = (e) => resolve(e.target?.result as string);
@@ -254,6 +312,38 @@ function FileOperations() {
                 </div>
                 <div className="text-xs text-gray-500">PNG at {exportScale}x scale</div>
               </button>
+              <button
+                id="btn-open-indexed-export"
+                onClick={() => { setSaveOpen(false); setShowIndexedExport(true); }}
+                className="w-full text-left px-3 py-2 text-sm text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+              >
+                <div className="font-medium">Export Indexed PNG…</div>
+                <div className="text-xs text-gray-500">Exact palette, smaller file</div>
+              </button>
+              <button
+                id="btn-open-animation-export"
+                onClick={() => { setSaveOpen(false); setShowAnimationExport(true); }}
+                className="w-full text-left px-3 py-2 text-sm text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+              >
+                <div className="font-medium">Export Animation…</div>
+                <div className="text-xs text-gray-500">Animated GIF or APNG from the timeline frames</div>
+              </button>
+              <button
+                id="btn-open-placement-export"
+                onClick={() => { setSaveOpen(false); setShowPlacementExport(true); }}
+                className="w-full text-left px-3 py-2 text-sm text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+              >
+                <div className="font-medium">Export Placement List…</div>
+                <div className="text-xs text-gray-500">Pixel coordinates for GeoPixels/WPlace</div>
+              </button>
+              <button
+                id="btn-export-aseprite"
+                onClick={handleExportAseprite}
+                className="w-full text-left px-3 py-2 text-sm text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+              >
+                <div className="font-medium">Export Aseprite</div>
+                <div className="text-xs text-gray-500">.aseprite with layers, groups and offsets</div>
+              </button>
               <div className="border-t border-border" />
               <button
                 onClick={handleSaveLocal}
@@ -283,7 +373,23 @@ function FileOperations() {
                 className="w-full text-left px-3 py-2 text-sm text-gray-300 hover:text-white hover:bg-gray-700 transition-colors rounded-t"
               >
                 <div className="font-medium">Load File</div>
-                <div className="text-xs text-gray-500">.pixcomp, PNG, GIF, BMP, JPEG</div>
+                <div className="text-xs text-gray-500">.pixcomp, .aseprite, PNG, GIF, BMP, JPEG</div>
+              </button>
+              <button
+                id="btn-open-progress"
+                onClick={() => { setLoadOpen(false); setShowProgress(true); }}
+                className="w-full text-left px-3 py-2 text-sm text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+              >
+                <div className="font-medium">Track Progress…</div>
+                <div className="text-xs text-gray-500">Compare with a snapshot of the live canvas</div>
+              </button>
+              <button
+                id="btn-open-palette-library"
+                onClick={() => { setLoadOpen(false); setShowPaletteLibrary(true); }}
+                className="w-full text-left px-3 py-2 text-sm text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+              >
+                <div className="font-medium">Palette Library…</div>
+                <div className="text-xs text-gray-500">.gpl, .pal, .txt, .ase, .aco, hex, PNG swatches</div>
               </button>
               <div className="border-t border-border" />
               <button
@@ -301,12 +407,43 @@ function FileOperations() {
           ref={fileInputRef}
           type="file"
           multiple
-          accept=".pixcomp,.json,image/png,image/gif,image/bmp,image/jpeg"
+          accept=".pixcomp,.json,.ase,.aseprite,image/png,image/gif,image/bmp,image/jpeg"
           onChange={handleFileInputChange}
           className="hidden"
         />
       </div>
 
+      {/* Indexed PNG Export Modal */}
+      {showIndexedExport && (
+        <IndexedExportModal
+          onClose={() => setShowIndexedExport(false)}
+          initialScale={exportScale}
+        />
+      )}
+
+      {/* Animation Export Modal */}
+      {showAnimationExport && (
+        <AnimationExportModal
+          onClose={() => setShowAnimationExport(false)}
+          initialScale={exportScale}
+        />
+      )}
+
+      {/* Placement Export Modal */}
+      {showPlacementExport && (
+        <PlacementExportModal onClose={() => setShowPlacementExport(false)} />
+      )}
+
+      {/* Progress Tracking Modal */}
+      {showProgress && (
+        <ProgressModal onClose={() => setShowProgress(false)} />
+      )}
+
+      {/* Palette Library Modal */}
+      {showPaletteLibrary && (
+        <PaletteLibraryModal onClose={() => setShowPaletteLibrary(false)} />
+      )}
+
       {/* Saved Projects Modal */}
       {showSavedProjects && (
         <SavedProjectsModal
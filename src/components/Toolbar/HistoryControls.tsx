@@ -7,6 +7,8 @@ function HistoryControls() {
   const history = useCompositorStore((state) => state.history);
   const undo = useCompositorStore((state) => state.undo);
   const redo = useCompositorStore((state) => state.redo);
+  const showHistoryPanel = useCompositorStore((state) => state.ui.showHistoryPanel);
+  const toggleHistoryPanel = useCompositorStore((state) => state.toggleHistoryPanel);
 
   const canUndo = history.past.length > 0;
   const canRedo = history.future.length > 0;
@@ -52,6 +54,23 @@ function HistoryControls() {
       >
         ↷
       </button>
+
+      <button
+        id="btn-toggle-history-panel"
+        onClick={toggleHistoryPanel}
+        aria-pressed={showHistoryPanel}
+        className={`px-2 py-1 text-sm font-medium rounded transition-colors ${
+          showHistoryPanel
+            ? 'bg-blue-600 text-white hover:bg-blue-500'
+            : 'text-gray-300 hover:text-white bg-panel-bg hover:bg-gray-700'
+        }`}
+        title={showHistoryPanel ? 'Hide history panel' : 'Show history panel (labels, checkpoints, branches)'}
+        aria-label={showHistoryPanel ? 'Hide history panel' : 'Show history panel'}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+      </button>
     </div>
   );
 }
@@ -0,0 +1,201 @@
+import useCompositorStore from '../../store/compositorStore';
+import { ActiveTool, SelectionMode } from '../../types/compositor.types';
+import { MAX_BRUSH_SIZE } from '../../utils/pixelTools';
+import { isSelectionTool } from '../../utils/pixelSelection';
+
+const TOOLS: { tool: ActiveTool; label: string; shortcut: string; icon: string }[] = [
+  { tool: 'select', label: 'Select / move', shortcut: 'V', icon: 'M5 3l14 8-6 1.5L10 19 5 3z' },
+  { tool: 'pencil', label: 'Pencil', shortcut: 'B', icon: 'M15.2 5.2l3.6 3.6M4 20l1-4.6L16.4 4a1.4 1.4 0 012 0l1.6 1.6a1.4 1.4 0 010 2L8.6 19 4 20z' },
+  { tool: 'eraser', label: 'Eraser', shortcut: 'E', icon: 'M9 20h11M4.5 15.5l9-9a2 2 0 012.8 0l2.2 2.2a2 2 0 010 2.8L12 18H7l-2.5-2.5z' },
+  { tool: 'fill', label: 'Bucket fill', shortcut: 'G', icon: 'M5 11l6-6 8 8-6 6a2 2 0 01-2.8 0L5 13.8A2 2 0 015 11zm0 2h14M20 17s1.5 2 1.5 3a1.5 1.5 0 01-3 0c0-1 1.5-3 1.5-3z' },
+  { tool: 'eyedropper', label: 'Eyedropper', shortcut: 'I', icon: 'M14 7l3 3M4 20l1.5-1.5M5.5 18.5L15 9m-3-3l5.5-2.5a2 2 0 012.5 2.5L17.5 11.5 12 6z' },
+  { tool: 'marquee-rect', label: 'Rectangle marquee', shortcut: 'M', icon: 'M4 4h3m3 0h4m3 0h3v3m0 3v4m0 3v3h-3m-3 0h-4m-3 0H4v-3m0-3v-4m0-3V4' },
+  { tool: 'marquee-ellipse', label: 'Ellipse marquee', shortcut: 'M', icon: 'M12 4a8 8 0 010 16 8 8 0 010-16z' },
+  { tool: 'lasso', label: 'Lasso', shortcut: 'L', icon: 'M7 16c-2.5-1-4-3-4-5.5C3 6.4 7 4 12 4s9 2.4 9 6.5S17 17 12 17c-1.3 0-2.5-.2-3.6-.5M7 16a2 2 0 102 2c0-.6-.3-1.1-.6-1.5M9 18c0 1.5-1 2.5-2 3' },
+  { tool: 'magic-wand', label: 'Magic wand', shortcut: 'W', icon: 'M4 20L15 9m2-5v2m0 4v2m-4-6h2m4 0h2m-1.5-2.5L18 5m0 4l1.5 1.5' },
+];
+
+const SELECTION_MODES: { mode: SelectionMode; label: string; title: string }[] = [
+  { mode: 'replace', label: 'New', title: 'New selection' },
+  { mode: 'add', label: 'Add', title: 'Add to selection (Shift)' },
+  { mode: 'subtract', label: 'Sub', title: 'Subtract from selection (Alt)' },
+  { mode: 'intersect', label: 'Int', title: 'Intersect with selection (Shift+Alt)' },
+];
+
+/**
+ * Canvas tool picker with primary/secondary colors and pixel/selection tool options
+ */
+function PixelToolControls() {
+  const activeTool = useCompositorStore((state) => state.ui.activeTool);
+  const primaryColor = useCompositorStore((state) => state.ui.primaryColor);
+  const secondaryColor = useCompositorStore((state) => state.ui.secondaryColor);
+  const brushSize = useCompositorStore((state) => state.ui.brushSize);
+  const pixelPerfect = useCompositorStore((state) => state.ui.pixelPerfect);
+  const fillTolerance = useCompositorStore((state) => state.ui.fillTolerance);
+  const fillContiguous = useCompositorStore((state) => state.ui.fillContiguous);
+  const selectionMode = useCompositorStore((state) => state.ui.selectionMode);
+  const wandTolerance = useCompositorStore((state) => state.ui.wandTolerance);
+  const wandContiguous = useCompositorStore((state) => state.ui.wandContiguous);
+  const setActiveTool = useCompositorStore((state) => state.setActiveTool);
+  const setToolColor = useCompositorStore((state) => state.setToolColor);
+  const swapToolColors = useCompositorStore((state) => state.swapToolColors);
+  const setPixelToolOptions = useCompositorStore((state) => state.setPixelToolOptions);
+
+  return (
+    <div className="flex items-center gap-1" data-region="pixel-tools">
+      {TOOLS.map(({ tool, label, shortcut, icon }) => (
+        <button
+          key={tool}
+          id={`btn-tool-${tool}`}
+          onClick={() => setActiveTool(tool)}
+          className={`px-2 py-1 rounded transition-colors ${
+            activeTool === tool
+              ? 'bg-blue-600 text-white hover:bg-blue-500'
+              : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+          }`}
+          title={`${label} (${shortcut})`}
+          aria-label={label}
+          aria-pressed={activeTool === tool}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d={icon} />
+          </svg>
+        </button>
+      ))}
+
+      {/* Primary (front) / secondary (back) colors */}
+      <div className="relative w-8 h-7 ml-1 flex-shrink-0">
+        <input
+          id="input-secondary-color"
+          type="color"
+          value={secondaryColor}
+          onChange={(e) => setToolColor('secondary', e.target.value)}
+          className="absolute right-0 bottom-0 w-5 h-5 p-0 border border-gray-500 rounded cursor-pointer"
+          title={`Secondary color ${secondaryColor} (right-click)`}
+          aria-label="Secondary color"
+        />
+        <input
+          id="input-primary-color"
+          type="color"
+          value={primaryColor}
+          onChange={(e) => setToolColor('primary', e.target.value)}
+          className="absolute left-0 top-0 w-5 h-5 p-0 border border-gray-500 rounded cursor-pointer"
+          title={`Primary color ${primaryColor} (left-click)`}
+          aria-label="Primary color"
+        />
+      </div>
+      <button
+        id="btn-swap-colors"
+        onClick={swapToolColors}
+        className="px-1 py-1 rounded text-xs text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+        title="Swap primary and secondary colors (X)"
+        aria-label="Swap primary and secondary colors"
+      >
+        ⇄
+      </button>
+
+      {(activeTool === 'pencil' || activeTool === 'eraser') && (
+        <div className="flex items-center gap-1">
+          <label htmlFor="input-brush-size" className="text-xs text-gray-400">Size:</label>
+          <input
+            id="input-brush-size"
+            type="number"
+            min={1}
+            max={MAX_BRUSH_SIZE}
+            value={brushSize}
+            onChange={(e) => setPixelToolOptions({ brushSize: parseInt(e.target.value) || 1 })}
+            className="w-12 px-1 py-0.5 text-xs bg-canvas-bg border border-border rounded text-gray-200 focus:outline-none focus:border-blue-400"
+            title="Brush size in pixels ([ / ])"
+          />
+          <label
+            className={`flex items-center gap-1 text-xs ${brushSize === 1 ? 'text-gray-400' : 'text-gray-600'}`}
+            title="Remove doubled-up corners from 1px strokes"
+          >
+            <input
+              id="input-pixel-perfect"
+              type="checkbox"
+              checked={pixelPerfect}
+              disabled={brushSize !== 1}
+              onChange={(e) => setPixelToolOptions({ pixelPerfect: e.target.checked })}
+            />
+            Pixel-perfect
+          </label>
+        </div>
+      )}
+
+      {activeTool === 'fill' && (
+        <div className="flex items-center gap-1">
+          <label htmlFor="input-fill-tolerance" className="text-xs text-gray-400">Tolerance:</label>
+          <input
+            id="input-fill-tolerance"
+            type="range"
+            min="0"
+            max="255"
+            value={fillTolerance}
+            onChange={(e) => setPixelToolOptions({ fillTolerance: parseInt(e.target.value) })}
+            className="w-20 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+            title={`Fill tolerance: ${fillTolerance}`}
+          />
+          <span className="text-xs text-gray-400 w-6">{fillTolerance}</span>
+          <label className="flex items-center gap-1 text-xs text-gray-400" title="Only fill pixels connected to the clicked one">
+            <input
+              id="input-fill-contiguous"
+              type="checkbox"
+              checked={fillContiguous}
+              onChange={(e) => setPixelToolOptions({ fillContiguous: e.target.checked })}
+            />
+            Contiguous
+          </label>
+        </div>
+      )}
+
+      {isSelectionTool(activeTool) && (
+        <div className="flex items-center gap-1">
+          <div className="flex rounded overflow-hidden border border-border" role="group" aria-label="Selection mode">
+            {SELECTION_MODES.map(({ mode, label, title }) => (
+              <button
+                key={mode}
+                id={`btn-selection-mode-${mode}`}
+                onClick={() => setPixelToolOptions({ selectionMode: mode })}
+                className={`px-1.5 py-0.5 text-xs transition-colors ${
+                  selectionMode === mode ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+                title={title}
+                aria-pressed={selectionMode === mode}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {activeTool === 'magic-wand' && (
+            <>
+              <label htmlFor="input-wand-tolerance" className="text-xs text-gray-400">Tolerance:</label>
+              <input
+                id="input-wand-tolerance"
+                type="range"
+                min="0"
+                max="255"
+                value={wandTolerance}
+                onChange={(e) => setPixelToolOptions({ wandTolerance: parseInt(e.target.value) })}
+                className="w-20 h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                title={`Magic wand tolerance: ${wandTolerance}`}
+              />
+              <span className="text-xs text-gray-400 w-6">{wandTolerance}</span>
+              <label className="flex items-center gap-1 text-xs text-gray-400" title="Only select pixels connected to the clicked one">
+                <input
+                  id="input-wand-contiguous"
+                  type="checkbox"
+                  checked={wandContiguous}
+                  onChange={(e) => setPixelToolOptions({ wandContiguous: e.target.checked })}
+                />
+                Contiguous
+              </label>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PixelToolControls;
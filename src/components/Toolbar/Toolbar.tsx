@@ -5,6 +5,7 @@ import ZoomControls from './ZoomControls';
 import FileOperations from './FileOperations';
 import HistoryControls from './HistoryControls';
 import GridToggle from './GridToggle';
+import PixelToolControls from './PixelToolControls';
 import { usePortraitMode } from '../../hooks/usePortraitMode';
 
 /**
@@ -20,6 +21,10 @@ function Toolbar({ onHelpClick }: { onHelpClick?: () => void }) {
   const toggleSelectionTools = useCompositorStore((state) => state.toggleSelectionTools);
   const leftClickPan = useCompositorStore((state) => state.ui.leftClickPan);
   const toggleLeftClickPan = useCompositorStore((state) => state.toggleLeftClickPan);
+  const rulersEnabled = useCompositorStore((state) => state.project.rulers.enabled);
+  const toggleRulers = useCompositorStore((state) => state.toggleRulers);
+  const showTimeline = useCompositorStore((state) => state.ui.showTimeline);
+  const toggleTimeline = useCompositorStore((state) => state.toggleTimeline);
   const borderAnimationSpeed = useCompositorStore((state) => state.ui.selectionBorderAnimationSpeed);
   const setSelectionBorderAnimationSpeed = useCompositorStore((state) => state.setSelectionBorderAnimationSpeed);
   const [isEditingName, setIsEditingName] = useState(false);
@@ -59,6 +64,38 @@ function Toolbar({ onHelpClick }: { onHelpClick?: () => void }) {
   const gridBorderToolsControls = (
     <>
       <GridToggle />
+      {/* Rulers & guides toggle */}
+      <button
+        id="btn-toggle-rulers"
+        onClick={toggleRulers}
+        title="Toggle rulers and guides (Ctrl+R). Drag from a ruler to add a guide; layers snap to visible guides."
+        aria-label={rulersEnabled ? 'Hide rulers and guides' : 'Show rulers and guides'}
+        aria-pressed={rulersEnabled}
+        className={`px-2 py-1 rounded transition-colors ${rulersEnabled
+          ? 'bg-gray-600 text-white hover:bg-gray-500'
+          : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+        }`}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M3 3h18v6H9v12H3V3zm4 0v3m4-3v3m4-3v3M3 13h3m-3 4h3" />
+        </svg>
+      </button>
+      {/* Animation timeline toggle */}
+      <button
+        id="btn-toggle-timeline"
+        onClick={toggleTimeline}
+        title="Toggle the animation timeline (frames, onion skin, playback)"
+        aria-label={showTimeline ? 'Hide animation timeline' : 'Show animation timeline'}
+        aria-pressed={showTimeline}
+        className={`px-2 py-1 rounded transition-colors ${showTimeline
+          ? 'bg-gray-600 text-white hover:bg-gray-500'
+          : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+        }`}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M4 5h16v14H4V5zm4 0v14m8-14v14M4 9h4m-4 6h4m8-6h4m-4 6h4" />
+        </svg>
+      </button>
       {/* Left-click pan toggle */}
       <button
         id="btn-toggle-left-click-pan"
@@ -77,6 +114,8 @@ function Toolbar({ onHelpClick }: { onHelpClick?: () => void }) {
           <path strokeLinecap="round" strokeLinejoin="round" d="M7 11.5V14m0-2.5v-6a1.5 1.5 0 113 0m-3 6a1.5 1.5 0 00-3 0v2a7.5 7.5 0 0015 0v-5a1.5 1.5 0 00-3 0m-6-3V11m0-5.5v-1a1.5 1.5 0 013 0v1m0 0V11m0-5.5a1.5 1.5 0 013 0v3m0 0V11" />
         </svg>
       </button>
+      <div className="w-px h-6 bg-border"></div>
+      <PixelToolControls />
       {/* Hidden: Borders toggle + animation speed (code preserved) */}
       {false && (
         <>
@@ -266,12 +305,44 @@ function Toolbar({ onHelpClick }: { onHelpClick?: () => void }) {
               <Shortcut keys="Ctrl + D" desc="Deselect all" />
               <Shortcut keys="Ctrl + C" desc="Copy selected layers" />
               <Shortcut keys="Ctrl + V" desc="Paste from clipboard" />
+              <Shortcut keys="Ctrl + Shift + V" desc="Paste copied layers (keeps groups)" />
+              <Shortcut keys="Ctrl + G" desc="Group selected layers" />
+              <Shortcut keys="Alt + click" desc="Select the next layer down under the cursor" />
               <Shortcut keys="Delete / Backspace" desc="Delete selected layers" />
               <Shortcut keys="Shift + ↑ / ↓" desc="Reorder layer up / down" />
+              <Shortcut keys="Shift + H / V" desc="Flip selected layers horizontally / vertically" />
+              <Shortcut keys="Shift + R" desc="Rotate selected layers 90° clockwise" />
+            </ShortcutSection>
+            <ShortcutSection title="Tools">
+              <Shortcut keys="V" desc="Select / move" />
+              <Shortcut keys="B" desc="Pencil" />
+              <Shortcut keys="E" desc="Eraser" />
+              <Shortcut keys="G" desc="Bucket fill" />
+              <Shortcut keys="I" desc="Eyedropper" />
+              <Shortcut keys="X" desc="Swap primary / secondary color" />
+              <Shortcut keys="[ / ]" desc="Brush size down / up" />
+              <Shortcut keys="Right-click" desc="Paint / pick with secondary color" />
+            </ShortcutSection>
+            <ShortcutSection title="Pixel Selection">
+              <Shortcut keys="M" desc="Marquee (again: rectangle / ellipse)" />
+              <Shortcut keys="L" desc="Lasso" />
+              <Shortcut keys="W" desc="Magic wand" />
+              <Shortcut keys="Shift / Alt + drag" desc="Add to / subtract from selection" />
+              <Shortcut keys="Drag inside selection" desc="Move selection outline" />
+              <Shortcut keys="Ctrl + drag inside selection" desc="Move selected pixels" />
+              <Shortcut keys="Ctrl + C / X" desc="Copy / cut selected pixels" />
+              <Shortcut keys="Ctrl + J" desc="Copy selected pixels to new layer" />
+              <Shortcut keys="Ctrl + Shift + J" desc="Cut selected pixels to new layer" />
+              <Shortcut keys="Delete" desc="Clear selected pixels" />
+              <Shortcut keys="Ctrl + D / Esc" desc="Deselect pixels" />
             </ShortcutSection>
             <ShortcutSection title="Movement">
               <Shortcut keys="Arrow keys" desc="Nudge selected layer (1 px)" />
               <Shortcut keys="Hold arrow keys" desc="Continuous nudge" />
+              <Shortcut keys="Alt + drag" desc="Move layer without snapping" />
+              <Shortcut keys="Alt + Shift + L / C / R" desc="Align left / center / right" />
+              <Shortcut keys="Alt + Shift + T / M / B" desc="Align top / middle / bottom" />
+              <Shortcut keys="Alt + Shift + H / V" desc="Distribute spacing horizontally / vertically" />
             </ShortcutSection>
             <ShortcutSection title="Viewport">
               <Shortcut keys="+ / −" desc="Zoom in / out" />
@@ -279,6 +350,9 @@ function Toolbar({ onHelpClick }: { onHelpClick?: () => void }) {
               <Shortcut keys="Scroll wheel" desc="Zoom in / out (canvas)" />
               <Shortcut keys="Middle-click drag" desc="Pan canvas" />
               <Shortcut keys="Space + drag" desc="Pan canvas" />
+              <Shortcut keys="Ctrl + R" desc="Toggle rulers & guides" />
+              <Shortcut keys="Drag from ruler" desc="Add guide (drop on ruler to delete)" />
+              <Shortcut keys="Double-click guide" desc="Lock / unlock guide" />
             </ShortcutSection>
             <ShortcutSection title="Other">
               <Shortcut keys="Ctrl + Shift + D" desc="Debug history modal" />
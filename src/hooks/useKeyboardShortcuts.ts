@@ -5,6 +5,29 @@
 
 import { useEffect, useRef } from 'react';
 import useCompositorStore from '../store/compositorStore';
+import { ActiveTool, AlignEdge } from '../types/compositor.types';
+import { isSelectionTool, translateSelection } from '../utils/pixelSelection';
+
+// Alt+Shift align shortcuts, by event.code (Alt changes event.key on macOS)
+const ALIGN_KEYS: Record<string, AlignEdge> = {
+  KeyL: 'left',
+  KeyC: 'center',
+  KeyR: 'right',
+  KeyT: 'top',
+  KeyM: 'middle',
+  KeyB: 'bottom',
+};
+
+// Single-key tool shortcuts (without Ctrl/Cmd)
+const TOOL_KEYS: Record<string, ActiveTool> = {
+  v: 'select',
+  b: 'pencil',
+  e: 'eraser',
+  g: 'fill',
+  i: 'eyedropper',
+  l: 'lasso',
+  w: 'magic-wand',
+};
 
 export function useKeyboardShortcuts() {
   const project = useCompositorStore((state) => state.project);
@@ -21,7 +44,20 @@ export function useKeyboardShortcuts() {
   const pasteSelectedLayers = useCompositorStore((state) => state.pasteSelectedLayers);
   const pasteFromClipboard = useCompositorStore((state) => state.pasteFromClipboard);
   const reorderSelectedLayers = useCompositorStore((state) => state.reorderSelectedLayers);
+  const groupSelectedLayers = useCompositorStore((state) => state.groupSelectedLayers);
   const setSpaceHeld = useCompositorStore((state) => state.setSpaceHeld);
+  const setActiveTool = useCompositorStore((state) => state.setActiveTool);
+  const swapToolColors = useCompositorStore((state) => state.swapToolColors);
+  const setPixelToolOptions = useCompositorStore((state) => state.setPixelToolOptions);
+  const setPixelSelection = useCompositorStore((state) => state.setPixelSelection);
+  const copyPixelSelection = useCompositorStore((state) => state.copyPixelSelection);
+  const cutPixelSelection = useCompositorStore((state) => state.cutPixelSelection);
+  const deletePixelSelection = useCompositorStore((state) => state.deletePixelSelection);
+  const extractPixelSelection = useCompositorStore((state) => state.extractPixelSelection);
+  const toggleRulers = useCompositorStore((state) => state.toggleRulers);
+  const alignSelectedLayers = useCompositorStore((state) => state.alignSelectedLayers);
+  const distributeSelectedLayers = useCompositorStore((state) => state.distributeSelectedLayers);
+  const transformSelectedLayers = useCompositorStore((state) => state.transformSelectedLayers);
 
   const isPanningRef = useRef(false);
   const panStartXRef = useRef(0);
@@ -84,6 +120,7 @@ export function useKeyboardShortcuts() {
 
       const isCtrlOrCmd = event.ctrlKey || event.metaKey;
       const isShift = event.shiftKey;
+      const { pixelSelection, activeTool } = useCompositorStore.getState().ui;
 
       // Spacebar: Start pan mode (temporary override)
       if (event.code === 'Space' && !event.repeat) {
@@ -104,6 +141,16 @@ export function useKeyboardShortcuts() {
         return;
       }
 
+      // Arrow keys with a selection tool: move the pixel selection outline (10px with Shift)
+      if (pixelSelection && isSelectionTool(activeTool) && ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(event.key)) {
+        event.preventDefault();
+        const step = isShift ? 10 : 1;
+        const dx = event.key === 'ArrowLeft' ? -step : event.key === 'ArrowRight' ? step : 0;
+        const dy = event.key === 'ArrowUp' ? -step : event.key === 'ArrowDown' ? step : 0;
+        setPixelSelection(translateSelection(pixelSelection, dx, dy));
+        return;
+      }
+
       // Arrow keys for nudging (add to held keys for continuous movement)
       // Only if NOT shift (since shift is for layer reordering)
       if (!isShift && ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(event.key)) {
@@ -146,6 +193,19 @@ export function useKeyboardShortcuts() {
         return;
       }
 
+      // Escape: Clear the pixel selection
+      if (event.key === 'Escape' && pixelSelection) {
+        setPixelSelection(null);
+        return;
+      }
+
+      // Delete / Backspace with a pixel selection: Clear the selected pixels
+      if ((event.key === 'Delete' || event.key === 'Backspace') && pixelSelection) {
+        event.preventDefault();
+        deletePixelSelection();
+        return;
+      }
+
       // Delete / Backspace: Remove selected layers
       if (event.key === 'Delete' || event.key === 'Backspace') {
         if (selectedLayerIds.length > 0) {
@@ -171,14 +231,36 @@ export function useKeyboardShortcuts() {
         return;
       }
 
-      // Ctrl/Cmd + D: Deselect all layers
+      // Ctrl/Cmd + D: Clear the pixel selection, or deselect all layers
       if (isCtrlOrCmd && event.key === 'd') {
         event.preventDefault();
+        if (pixelSelection) {
+          setPixelSelection(null);
+          return;
+        }
         // console.log('[DEBUG] Deselect all triggered by Ctrl+D');
         deselectAllLayers();
         return;
       }
 
+      // Ctrl/Cmd + C / X with a pixel selection: Copy / cut the selected pixels
+      if (isCtrlOrCmd && pixelSelection && (event.key === 'c' || event.key === 'x')) {
+        event.preventDefault();
+        if (event.key === 'c') {
+          copyPixelSelection();
+        } else {
+          cutPixelSelection();
+        }
+        return;
+      }
+
+      // Ctrl/Cmd + J: Copy the selected pixels to a new layer (Shift: cut)
+      if (isCtrlOrCmd && pixelSelection && event.key.toLowerCase() === 'j') {
+        event.preventDefault();
+        extractPixelSelection(isShift);
+        return;
+      }
+
       // Ctrl/Cmd + C: Copy selected layers
       if (isCtrlOrCmd && event.key === 'c') {
         if (selectedLayerIds.length > 0) {
@@ -190,6 +272,29 @@ export function useKeyboardShortcuts() {
         return;
       }
 
+      // Ctrl/Cmd + Shift + V: Paste copied layers as layers (keeps copied groups)
+      if (isCtrlOrCmd && isShift && event.key.toLowerCase() === 'v') {
+        event.preventDefault();
+        pasteSelectedLayers();
+        return;
+      }
+
+      // Ctrl/Cmd + G: Group selected layers
+      if (isCtrlOrCmd && event.key === 'g') {
+        event.preventDefault();
+        if (selectedLayerIds.length > 0) {
+          groupSelectedLayers();
+        }
+        return;
+      }
+
+      // Ctrl/Cmd + R: Toggle rulers and guides
+      if (isCtrlOrCmd && !isShift && event.key === 'r') {
+        event.preventDefault();
+        toggleRulers();
+        return;
+      }
+
       // Ctrl/Cmd + V: Paste from clipboard
       if (isCtrlOrCmd && event.key === 'v') {
         event.preventDefault();
@@ -197,6 +302,64 @@ export function useKeyboardShortcuts() {
         return;
       }
 
+      // Alt+Shift+L/C/R/T/M/B: Align selected layers; Alt+Shift+H/V: Distribute with equal gaps
+      if (event.altKey && isShift && !isCtrlOrCmd && selectedLayerIds.length > 0) {
+        if (ALIGN_KEYS[event.code]) {
+          event.preventDefault();
+          alignSelectedLayers(ALIGN_KEYS[event.code]);
+          return;
+        }
+        if (event.code === 'KeyH' || event.code === 'KeyV') {
+          event.preventDefault();
+          distributeSelectedLayers(event.code === 'KeyH' ? 'x' : 'y', 'gaps');
+          return;
+        }
+      }
+
+      // Shift+H / Shift+V: Flip selected layers; Shift+R: Rotate them 90° clockwise
+      if (isShift && !isCtrlOrCmd && !event.altKey && selectedLayerIds.length > 0) {
+        const key = event.key.toLowerCase();
+        if (key === 'h' || key === 'v') {
+          event.preventDefault();
+          transformSelectedLayers({ type: 'flip', axis: key === 'h' ? 'x' : 'y' });
+          return;
+        }
+        if (key === 'r') {
+          event.preventDefault();
+          transformSelectedLayers({ type: 'rotate', quarterTurns: 1 });
+          return;
+        }
+      }
+
+      // M: Rectangle marquee, again to switch between rectangle and ellipse
+      if (!isCtrlOrCmd && !event.altKey && event.key.toLowerCase() === 'm') {
+        event.preventDefault();
+        setActiveTool(activeTool === 'marquee-rect' ? 'marquee-ellipse' : 'marquee-rect');
+        return;
+      }
+
+      // V/B/E/G/I/L/W: Select, pencil, eraser, bucket fill, eyedropper, lasso, magic wand
+      if (!isCtrlOrCmd && !event.altKey && TOOL_KEYS[event.key.toLowerCase()]) {
+        event.preventDefault();
+        setActiveTool(TOOL_KEYS[event.key.toLowerCase()]);
+        return;
+      }
+
+      // X: Swap primary and secondary colors
+      if (!isCtrlOrCmd && event.key.toLowerCase() === 'x') {
+        event.preventDefault();
+        swapToolColors();
+        return;
+      }
+
+      // [ / ]: Brush size down/up
+      if (!isCtrlOrCmd && (event.key === '[' || event.key === ']')) {
+        event.preventDefault();
+        const { brushSize } = useCompositorStore.getState().ui;
+        setPixelToolOptions({ brushSize: brushSize + (event.key === ']' ? 1 : -1) });
+        return;
+      }
+
       // +/-: Zoom in/out
       if ((event.key === '+' || event.key === '=') && !isCtrlOrCmd) {
         event.preventDefault();
@@ -318,9 +481,22 @@ export function useKeyboardShortcuts() {
     copySelectedLayers,
     copySelectedLayersToClipboard,
     pasteSelectedLayers,
+    groupSelectedLayers,
     pasteFromClipboard,
     reorderSelectedLayers,
     setSpaceHeld,
+    setActiveTool,
+    swapToolColors,
+    setPixelToolOptions,
+    setPixelSelection,
+    copyPixelSelection,
+    cutPixelSelection,
+    deletePixelSelection,
+    extractPixelSelection,
+    toggleRulers,
+    alignSelectedLayers,
+    distributeSelectedLayers,
+    transformSelectedLayers,
   ]);
 }
 
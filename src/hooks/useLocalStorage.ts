@@ -26,6 +26,12 @@ interface StoredPreferences {
 
   // Pan mode
   leftClickPan?: boolean;
+
+  // Layer picking: alpha at or below this is click-through
+  pickAlphaThreshold?: number;
+
+  // Trim transparent margins after Transparency Mask / BG Removal
+  autoTrimAfterMask?: boolean;
 }
 
 /**
@@ -80,6 +86,9 @@ export function useInitializePreferences(): void {
     if (preferences.selectionBorderAnimationSpeed !== undefined) {
       useCompositorStore.getState().setSelectionBorderAnimationSpeed(preferences.selectionBorderAnimationSpeed);
     }
+    if (preferences.pickAlphaThreshold !== undefined) {
+      useCompositorStore.getState().setPickAlphaThreshold(preferences.pickAlphaThreshold);
+    }
     if (preferences.leftClickPan !== undefined) {
       const current = useCompositorStore.getState().ui.leftClickPan;
       if (current !== preferences.leftClickPan) {
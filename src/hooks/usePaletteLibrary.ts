@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { LibraryPalette, listLibraryPalettes, onPaletteLibraryChange } from '../utils/paletteStorage';
+
+/**
+ * Palettes in the palette library, kept up to date when the library changes
+ */
+export function usePaletteLibrary(): LibraryPalette[] {
+  const [library, setLibrary] = useState<LibraryPalette[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      listLibraryPalettes()
+        .then((list) => { if (!cancelled) setLibrary(list); })
+        .catch((error) => console.error('Failed to list library palettes:', error));
+    };
+    refresh();
+    const unsubscribe = onPaletteLibraryChange(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return library;
+}
@@ -6,17 +6,85 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import { 
+  ActiveTool,
   AppState, 
   ProjectData, 
   Layer, 
+  LayerGroup,
+  LayerEffect,
+  EffectSourceImage,
+  AlignEdge,
+  AnimationConfig,
+  AnimationFrame,
+  CanvasAnchor,
   CanvasConfig,
+  DistributeMode,
+  DragSnap,
+  LayerTransform,
+  Guide,
   ViewportState,
+  PixelSelection,
   ProjectMetadata,
+  ProgressReport,
   HistoryState,
   UIState
 } from '../types/compositor.types';
 import { blobToDataUrl, dataUrlToBlob, compositeLayersToBlob } from '../utils/imageProcessing';
 import { rasterizeText } from '../utils/textRasterizer';
+import {
+  jumpToHistoryEntry,
+  deleteHistoryBranch as removeHistoryBranch,
+  pushHistoryEntry,
+  setHistoryCheckpoint as setEntryCheckpoint,
+  switchHistoryBranch,
+} from '../utils/historySnapshots';
+import {
+  cloneLayersWithGroups,
+  getDescendantGroupIds,
+  getGroupLayerIds,
+  groupLayers,
+  isLayerLocked,
+  moveLayersToGroup as moveLayersIntoGroup,
+  moveNodeToEdge,
+  normalizeLayerOrder,
+  pruneLayerGroups,
+  reorderLayerSelection,
+  resolveLayerGroups,
+  ungroupLayers,
+} from '../utils/layerGroups';
+import {
+  EFFECT_LABELS,
+  clearEffectSourceSelection,
+  createEffectId,
+  getEffectSource,
+  primeEffectCache,
+  renderLayerEffects,
+  reorderEffects,
+  transformLayerEffects,
+} from '../utils/layerEffects';
+import { MAX_BRUSH_SIZE } from '../utils/pixelTools';
+import { createGuideId } from '../utils/guides';
+import { ALIGN_EDGE_LABELS, alignLayers, distributeLayers } from '../utils/alignLayers';
+import { describeTransform, transformPixels } from '../utils/layerTransforms';
+import { getAnchorOffset, getOpaqueBounds } from '../utils/canvasResize';
+import { offsetWorldOrigin } from '../utils/worldOrigin';
+import {
+  DEFAULT_FRAME_DURATION,
+  RenderedFrame,
+  applyFrameToLayers,
+  captureActiveFrame,
+  captureFrameLayers,
+  createFrameId,
+  offsetFrameLayers,
+} from '../utils/animation';
+import { SNAP_DISTANCE, getLayersBounds, getSnapTargets, snapDragOffset } from '../utils/snapping';
+import {
+  clearSelectedPixels,
+  extractSelectedPixels,
+  loadImagePixels,
+  pixelsToDataUrl,
+  translateSelection,
+} from '../utils/pixelSelection';
 
 // Default project configuration
 const DEFAULT_PROJECT_DATA: ProjectData = {
@@ -53,6 +121,7 @@ const DEFAULT_PROJECT_DATA: ProjectData = {
     guides: [],
   },
   layers: [],
+  groups: [],
   metadata: {
     author: '',
     description: '',
@@ -63,30 +132,112 @@ const DEFAULT_PROJECT_DATA: ProjectData = {
 const DEFAULT_HISTORY: HistoryState = {
   past: [],
   future: [],
-  maxSteps: 50,
+  branches: [],
+  images: {},
+  maxSteps: 200,
 };
 
 const DEFAULT_UI: UIState = {
   activeTool: 'select',
+  primaryColor: '#000000',
+  secondaryColor: '#FFFFFF',
+  brushSize: 1,
+  pixelPerfect: true,
+  fillTolerance: 0,
+  fillContiguous: true,
+  pixelSelection: null,
+  selectionMode: 'replace',
+  wandTolerance: 32,
+  wandContiguous: true,
+  alignReference: 'selection',
+  alignKeyLayerId: null,
+  pickAlphaThreshold: 0,
   leftClickPan: false,
   spaceHeld: false,
   showRulers: false,
+  showTimeline: false,
+  onionSkin: false,
+  progress: null,
+  showProgressOverlay: true,
+  showHistoryPanel: false,
   showSelectionBorders: true,
   showSelectionTools: true,
   selectionBorderAnimationSpeed: 0.1,
   clipboardLayers: [],
+  clipboardGroups: [],
   isDraggingLayer: false,
   dragLayerId: null,
   dragStartX: 0,
   dragStartY: 0,
   dragOffsetX: 0,
   dragOffsetY: 0,
+  dragSnap: null,
 };
 
+// Latest effect-stack render per layer id - older renders that finish late are dropped
+const effectRenderTokens = new Map<string, number>();
+
+/**
+ * A layer with its effect stack flattened into its pixels. Painted pixels
+ * can't be replayed through the stack, so painting bakes it in for good.
+ */
+function bakeLayerEffects(layer: Layer): Layer {
+  const baked: Layer = { ...layer };
+  delete baked.effects;
+  delete baked.effectSource;
+  return baked;
+}
+
+/**
+ * The single selected layer and its decoded pixels, for pixel selection operations
+ */
+async function getPixelSelectionTarget() {
+  const state = useCompositorStore.getState();
+  const selection = state.ui.pixelSelection;
+  if (!selection || state.selectedLayerIds.length !== 1) return null;
+  const layer = state.project.layers.find((l) => l.id === state.selectedLayerIds[0]);
+  if (!layer) return null;
+
+  const pixels = await loadImagePixels(layer.imageData);
+  return {
+    layer,
+    selection,
+    pixels,
+    originX: Math.floor(layer.x),
+    originY: Math.floor(layer.y),
+    locked: isLayerLocked(layer, state.project.groups),
+  };
+}
+
+type PixelSelectionTarget = NonNullable<Awaited<ReturnType<typeof getPixelSelectionTarget>>>;
+
+/**
+ * Clear the selected pixels of a selection target's layer
+ * A layer with effects keeps its stack: the pixels are cleared on its source
+ * too and the stack is re-rendered on top.
+ * @returns The layer updates, or null when nothing changed
+ */
+async function clearSelectionTarget(
+  target: PixelSelectionTarget
+): Promise<Pick<Layer, 'imageData' | 'width' | 'height' | 'effectSource'> | null> {
+  const { layer } = target;
+  if (!clearSelectedPixels(target.pixels, target.originX, target.originY, target.selection)) return null;
+  if (!layer.effects?.length) {
+    return { imageData: pixelsToDataUrl(target.pixels), width: layer.width, height: layer.height };
+  }
+
+  const effectSource = await clearEffectSourceSelection(layer, target.selection) ?? getEffectSource(layer);
+  const rendered = await renderLayerEffects(effectSource, layer.effects);
+  // Renders of the stack still running on the old source are stale now
+  effectRenderTokens.set(layer.id, (effectRenderTokens.get(layer.id) ?? 0) + 1);
+  return { ...rendered, effectSource };
+}
+
 interface CompositorStore extends AppState {
   // Project operations
   setProjectName: (name: string) => void;
   setCanvasConfig: (config: Partial<CanvasConfig>) => void;
+  setProjectPalette: (palette: string[]) => void;
   setViewport: (viewport: Partial<ViewportState>) => void;
   setProjectMetadata: (metadata: Partial<ProjectMetadata>) => void;
 
@@ -94,6 +245,8 @@ interface CompositorStore extends AppState {
   addLayer: (layer: Omit<Layer, 'id'> & { id?: string }) => void;
   removeLayer: (layerId: string) => void;
   updateLayer: (layerId: string, updates: Partial<Layer>) => void;
+  paintLayer: (layerId: string, imageData: string, label: string) => void;
+  flattenLayerEffects: (layerId: string) => void;
   duplicateLayer: (layerId: string) => void;
   moveLayer: (layerId: string, deltaX: number, deltaY: number) => void;
   reorderLayer: (layerId: string, direction: 'up' | 'down') => void;
@@ -101,42 +254,109 @@ interface CompositorStore extends AppState {
   bringLayerToFront: (layerId: string) => void;
   sendLayerToBack: (layerId: string) => void;
 
+  // Effect stack operations (async: the stack is re-rendered before the layer updates)
+  setLayerEffects: (layerId: string, effects: LayerEffect[], label?: string) => Promise<void>;
+  addLayerEffect: (layerId: string, effect: LayerEffect) => Promise<void>;
+  updateLayerEffect: (layerId: string, effect: LayerEffect) => Promise<void>;
+  removeLayerEffect: (layerId: string, effectId: string) => Promise<void>;
+  reorderLayerEffect: (layerId: string, effectId: string, direction: 'up' | 'down') => Promise<void>;
+  trimLayers: (layerIds: string[]) => Promise<void>;
+  revertPixelation: (layerId: string) => Promise<void>;
+
+  // Group operations
+  groupSelectedLayers: (name?: string) => void;
+  ungroup: (groupId: string) => void;
+  updateGroup: (groupId: string, updates: Partial<Omit<LayerGroup, 'id'>>) => void;
+  toggleGroupCollapsed: (groupId: string) => void;
+  removeGroup: (groupId: string) => void;
+  duplicateGroup: (groupId: string) => void;
+  selectGroup: (groupId: string, multiSelect?: boolean) => void;
+  reorderGroup: (groupId: string, direction: 'up' | 'down') => void;
+  moveLayersToGroup: (layerIds: string[], groupId: string | null) => void;
+
   // Multi-layer operations
   selectLayer: (layerId: string, multiSelect?: boolean) => void;
   selectAllLayers: () => void;
   deselectAllLayers: () => void;
   selectLayerRange: (fromId: string, toId: string) => void;
   moveSelectedLayers: (deltaX: number, deltaY: number) => void;
+  transformSelectedLayers: (transform: LayerTransform) => Promise<void>;
+  alignSelectedLayers: (edge: AlignEdge) => void;
+  distributeSelectedLayers: (axis: 'x' | 'y', mode: DistributeMode) => void;
+  setAlignOptions: (options: Partial<Pick<UIState, 'alignReference' | 'alignKeyLayerId'>>) => void;
   deleteSelectedLayers: () => void;
   toggleVisibilitySelected: () => void;
 
   // Drag operations
   startDraggingLayer: (layerId: string, startX: number, startY: number) => void;
-  updateDragPosition: (currentX: number, currentY: number) => void;
+  updateDragPosition: (currentX: number, currentY: number, bypassSnap?: boolean) => void;
   stopDraggingLayer: () => void;
 
   // History operations
-  pushHistory: () => void;
+  pushHistory: (label?: string) => void;
+  setHistoryLabel: (label: string) => void;
   undo: () => void;
   redo: () => void;
+  jumpToHistory: (stack: 'past' | 'future', index: number) => void;
+  addHistoryCheckpoint: (name: string) => void;
+  setHistoryCheckpoint: (stack: 'past' | 'future', index: number, name: string | null) => void;
+  restoreHistoryBranch: (branchId: string) => void;
+  deleteHistoryBranch: (branchId: string) => void;
 
   // UI operations
-  setActiveTool: (tool: 'select' | 'pan' | 'zoom') => void;
+  setActiveTool: (tool: ActiveTool) => void;
+  setToolColor: (slot: 'primary' | 'secondary', color: string) => void;
+  swapToolColors: () => void;
+  setPixelToolOptions: (options: Partial<Pick<UIState,
+    'brushSize' | 'pixelPerfect' | 'fillTolerance' | 'fillContiguous' | 'selectionMode' | 'wandTolerance' | 'wandContiguous'
+  >>) => void;
+
+  // Pixel selection operations (on the single selected layer)
+  setPixelSelection: (selection: PixelSelection | null) => void;
+  copyPixelSelection: () => Promise<void>;
+  cutPixelSelection: () => Promise<void>;
+  deletePixelSelection: () => Promise<void>;
+  extractPixelSelection: (cut: boolean) => Promise<void>;
   toggleLeftClickPan: () => void;
   setSpaceHeld: (held: boolean) => void;
   toggleGrid: () => void;
   setGridDensity: (density: number) => void;
   toggleRulers: () => void;
+  addGuide: (axis: Guide['axis'], position: number) => string;
+  updateGuide: (guideId: string, updates: Partial<Omit<Guide, 'id'>>) => void;
+  removeGuide: (guideId: string) => void;
+  clearGuides: () => void;
+  toggleHistoryPanel: () => void;
   toggleSelectionBorders: () => void;
   toggleSelectionTools: () => void;
   setSelectionBorderAnimationSpeed: (speed: number) => void;
+  setPickAlphaThreshold: (threshold: number) => void;
   copySelectedLayers: () => void;
   copySelectedLayersToClipboard: () => Promise<void>;
   pasteSelectedLayers: () => void;
   pasteFromClipboard: () => Promise<void>;
 
+  // Animation
+  addAnimationFrame: () => void;
+  removeAnimationFrame: (frameId: string) => void;
+  selectAnimationFrame: (frameId: string) => void;
+  updateAnimationFrame: (frameId: string, updates: Partial<Pick<AnimationFrame, 'duration' | 'layerId'>>) => void;
+  moveAnimationFrame: (frameId: string, direction: 'left' | 'right') => void;
+  setAnimationOptions: (options: Partial<Pick<AnimationConfig, 'mode' | 'loopCount'>>) => void;
+  createFramesFromLayers: (layerIds: string[]) => void;
+  importAnimationLayers: (name: string, frames: RenderedFrame[], loopCount: number) => void;
+  clearAnimation: () => void;
+  toggleTimeline: () => void;
+  toggleOnionSkin: () => void;
+
+  // Progress tracking
+  setProgressReport: (report: ProgressReport | null) => void;
+  toggleProgressOverlay: () => void;
+
   // Canvas operations
   cropCanvasToLayers: () => void;
+  resizeCanvas: (width: number, height: number, anchor: CanvasAnchor, moveLayers: boolean) => void;
+  trimCanvas: () => Promise<void>;
 
   // File operations
   resetProject: () => void;
@@ -145,6 +365,23 @@ interface CompositorStore extends AppState {
   markClean: () => void;
 }
 
+/**
+ * Switch the layers to a frame of `animation` (after storing their current
+ * states into the frame being left) and make it the active frame
+ */
+function activateFrame(
+  project: ProjectData,
+  animation: AnimationConfig,
+  frameId: string | null
+): Pick<ProjectData, 'animation' | 'layers'> {
+  const captured = captureActiveFrame(animation, project.layers);
+  const frame = captured.frames.find((f) => f.id === frameId);
+  return {
+    animation: { ...captured, activeFrameId: frame?.id ?? null },
+    layers: frame ? applyFrameToLayers(project.layers, captured, frame) : project.layers,
+  };
+}
+
 const useCompositorStore = create<CompositorStore>()(
   devtools(
     (set) => ({
@@ -181,6 +418,17 @@ const useCompositorStore = create<CompositorStore>()(
         }));
       },
 
+      setProjectPalette: (palette: string[]) => {
+        set((state) => ({
+          project: {
+            ...state.project,
+            palette,
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+        }));
+      },
+
       setViewport: (viewport: Partial<ViewportState>) => {
         set((state) => ({
           project: {
@@ -239,7 +487,11 @@ const useCompositorStore = create<CompositorStore>()(
         set((state) => ({
           project: {
             ...state.project,
-            layers: state.project.layers.filter((l) => l.id !== layerId),
+            // Groups left without layers are removed with it
+            ...pruneLayerGroups(
+              state.project.layers.filter((l) => l.id !== layerId),
+              state.project.groups
+            ),
             modified: new Date().toISOString(),
           },
           selectedLayerIds: state.selectedLayerIds.filter((id) => id !== layerId),
@@ -248,6 +500,12 @@ const useCompositorStore = create<CompositorStore>()(
       },
 
       updateLayer: (layerId: string, updates: Partial<Layer>) => {
+        const target = useCompositorStore.getState().project.layers.find((l) => l.id === layerId);
+        // New pixels for a layer with effects (e.g. re-rasterized text) become its effect source
+        const newSource = target?.effects?.length && updates.imageData !== undefined && updates.effectSource === undefined
+          ? { imageData: updates.imageData, width: updates.width ?? target.width, height: updates.height ?? target.height }
+          : undefined;
+
         set((state) => ({
           project: {
             ...state.project,
@@ -256,6 +514,7 @@ const useCompositorStore = create<CompositorStore>()(
                 ? {
                     ...layer,
                     ...updates,
+                    ...(newSource ? { effectSource: newSource } : {}),
                   }
                 : layer
             ),
@@ -263,6 +522,40 @@ const useCompositorStore = create<CompositorStore>()(
           },
           isDirty: true,
         }));
+
+        // Re-render the stack on top of the new source
+        if (newSource && target?.effects) {
+          useCompositorStore.getState().setLayerEffects(layerId, target.effects);
+        }
+      },
+
+      paintLayer: (layerId: string, imageData: string, label: string) => {
+        set((state) => ({
+          project: {
+            ...state.project,
+            layers: state.project.layers.map((layer) =>
+              layer.id === layerId ? bakeLayerEffects({ ...layer, imageData }) : layer
+            ),
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+        }));
+        // One history entry per stroke/fill
+        useCompositorStore.getState().pushHistory(label);
+      },
+
+      flattenLayerEffects: (layerId: string) => {
+        const layer = useCompositorStore.getState().project.layers.find((l) => l.id === layerId);
+        if (!layer?.effects) return;
+        set((state) => ({
+          project: {
+            ...state.project,
+            layers: state.project.layers.map((l) => (l.id === layerId ? bakeLayerEffects(l) : l)),
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+        }));
+        useCompositorStore.getState().pushHistory(`Flatten effects of '${layer.name}'`);
       },
 
       duplicateLayer: (layerId: string) => {
@@ -270,17 +563,18 @@ const useCompositorStore = create<CompositorStore>()(
           const layerToClone = state.project.layers.find((l) => l.id === layerId);
           if (!layerToClone) return state;
 
+          // The copy stays in the same group, directly above the original
           const newLayer: Layer = {
             ...layerToClone,
             id: `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
             name: `${layerToClone.name} (copy)`,
-            zIndex: Math.max(...state.project.layers.map((l) => l.zIndex), 0) + 1,
+            zIndex: layerToClone.zIndex + 0.5,
           };
 
           return {
             project: {
               ...state.project,
-              layers: [...state.project.layers, newLayer],
+              layers: normalizeLayerOrder([...state.project.layers, newLayer], state.project.groups),
               modified: new Date().toISOString(),
             },
             isDirty: true,
@@ -291,16 +585,12 @@ const useCompositorStore = create<CompositorStore>()(
       moveLayer: (layerId: string, deltaX: number, deltaY: number) => {
         set((state) => {
           const currentState = useCompositorStore.getState();
-          const newPast = [...currentState.history.past, currentState.project];
-          if (newPast.length > currentState.history.maxSteps) {
-            newPast.shift();
-          }
 
           return {
             project: {
               ...state.project,
               layers: state.project.layers.map((layer) => {
-                if (layer.id === layerId && !layer.locked) {
+                if (layer.id === layerId && !isLayerLocked(layer, state.project.groups)) {
                   const newX = Math.floor(layer.x + deltaX);
                   const newY = Math.floor(layer.y + deltaY);
 
@@ -310,11 +600,7 @@ const useCompositorStore = create<CompositorStore>()(
               }),
               modified: new Date().toISOString(),
             },
-            history: {
-              ...currentState.history,
-              past: newPast,
-              future: [],
-            },
+            history: pushHistoryEntry(currentState.history, currentState.project),
             isDirty: true,
           };
         });
@@ -322,127 +608,380 @@ const useCompositorStore = create<CompositorStore>()(
 
       reorderLayer: (layerId: string, direction: 'up' | 'down') => {
         set((state) => {
-          const currentZIndex = state.project.layers.find((l) => l.id === layerId)?.zIndex;
-          if (currentZIndex === undefined) return state;
+          if (!state.project.layers.some((l) => l.id === layerId)) return state;
+
+          return {
+            project: {
+              ...state.project,
+              layers: reorderLayerSelection(state.project.layers, state.project.groups ?? [], [layerId], direction),
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+          };
+        });
+      },
+
+      reorderSelectedLayers: (direction: 'up' | 'down') => {
+        set((state) => {
+          if (state.selectedLayerIds.length === 0) return state;
 
-          const zIndices = state.project.layers.map((l) => l.zIndex).sort((a, b) => a - b);
-          const currentPos = zIndices.indexOf(currentZIndex);
+          // Fully selected groups move as one unit; nothing crosses a group boundary
+          return {
+            project: {
+              ...state.project,
+              layers: reorderLayerSelection(
+                state.project.layers,
+                state.project.groups ?? [],
+                state.selectedLayerIds,
+                direction
+              ),
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+          };
+        });
+      },
 
-          if (
-            (direction === 'up' && currentPos === zIndices.length - 1) ||
-            (direction === 'down' && currentPos === 0)
-          ) {
-            return state;
-          }
+      bringLayerToFront: (layerId: string) => {
+        set((state) => ({
+          project: {
+            ...state.project,
+            // Front of its own group when grouped
+            layers: moveNodeToEdge(state.project.layers, state.project.groups ?? [], { layerId }, 'top'),
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+        }));
+      },
+
+      sendLayerToBack: (layerId: string) => {
+        set((state) => ({
+          project: {
+            ...state.project,
+            // Back of its own group when grouped
+            layers: moveNodeToEdge(state.project.layers, state.project.groups ?? [], { layerId }, 'bottom'),
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+        }));
+      },
+
+      // Effect stack operations
+      setLayerEffects: async (layerId: string, effects: LayerEffect[], label?: string) => {
+        const layer = useCompositorStore.getState().project.layers.find((l) => l.id === layerId);
+        if (!layer) return;
+
+        const source = getEffectSource(layer);
+        const token = (effectRenderTokens.get(layerId) ?? 0) + 1;
+        effectRenderTokens.set(layerId, token);
+
+        let rendered: EffectSourceImage;
+        try {
+          rendered = await renderLayerEffects(source, effects);
+        } catch (error) {
+          console.error('Failed to render layer effects:', error);
+          return;
+        }
+        // A newer edit of the same stack finished first
+        if (effectRenderTokens.get(layerId) !== token) return;
+
+        set((state) => ({
+          project: {
+            ...state.project,
+            layers: state.project.layers.map((l) => {
+              if (l.id !== layerId) return l;
+              if (effects.length > 0) {
+                return { ...l, effects, effectSource: source, imageData: rendered.imageData, width: rendered.width, height: rendered.height };
+              }
+              // An empty stack turns back into a plain layer
+              const plain: Layer = { ...l, imageData: source.imageData, width: source.width, height: source.height };
+              delete plain.effects;
+              delete plain.effectSource;
+              return plain;
+            }),
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+          _pendingHistoryLabel: label ?? state._pendingHistoryLabel,
+        }));
+      },
+
+      addLayerEffect: async (layerId: string, effect: LayerEffect) => {
+        const layer = useCompositorStore.getState().project.layers.find((l) => l.id === layerId);
+        if (!layer) return;
+        await useCompositorStore.getState().setLayerEffects(
+          layerId,
+          [...(layer.effects ?? []), effect],
+          `Add ${EFFECT_LABELS[effect.type]} to '${layer.name}'`
+        );
+      },
+
+      updateLayerEffect: async (layerId: string, effect: LayerEffect) => {
+        const layer = useCompositorStore.getState().project.layers.find((l) => l.id === layerId);
+        if (!layer?.effects) return;
+        const previous = layer.effects.find((e) => e.id === effect.id);
+        if (!previous) return;
+
+        const verb = previous.enabled !== effect.enabled ? (effect.enabled ? 'Enable' : 'Disable') : 'Edit';
+        await useCompositorStore.getState().setLayerEffects(
+          layerId,
+          layer.effects.map((e) => (e.id === effect.id ? effect : e)),
+          `${verb} ${EFFECT_LABELS[effect.type]} on '${layer.name}'`
+        );
+      },
+
+      removeLayerEffect: async (layerId: string, effectId: string) => {
+        const layer = useCompositorStore.getState().project.layers.find((l) => l.id === layerId);
+        const effect = layer?.effects?.find((e) => e.id === effectId);
+        if (!layer?.effects || !effect) return;
+        await useCompositorStore.getState().setLayerEffects(
+          layerId,
+          layer.effects.filter((e) => e.id !== effectId),
+          `Remove ${EFFECT_LABELS[effect.type]} from '${layer.name}'`
+        );
+      },
+
+      reorderLayerEffect: async (layerId: string, effectId: string, direction: 'up' | 'down') => {
+        const layer = useCompositorStore.getState().project.layers.find((l) => l.id === layerId);
+        if (!layer?.effects) return;
+        const reordered = reorderEffects(layer.effects, effectId, direction);
+        if (reordered === layer.effects) return;
+        await useCompositorStore.getState().setLayerEffects(layerId, reordered, `Reorder effects of '${layer.name}'`);
+      },
+
+      trimLayers: async (layerIds: string[]) => {
+        const { project } = useCompositorStore.getState();
+        const targets = project.layers.filter(
+          (layer) => layerIds.includes(layer.id) && !isLayerLocked(layer, project.groups)
+        );
 
-          const newZIndex =
-            direction === 'up' ? zIndices[currentPos + 1] : zIndices[currentPos - 1];
-          const otherLayerId = state.project.layers.find((l) => l.zIndex === newZIndex)?.id;
+        // Crop entries go on top of each stack so the trimmed margins stay recoverable
+        const results = new Map<string, Pick<Layer, 'imageData' | 'x' | 'y' | 'width' | 'height' | 'effects' | 'effectSource'>>();
+        try {
+          for (const layer of targets) {
+            const pixels = await loadImagePixels(layer.imageData);
+            const bounds = getOpaqueBounds(pixels);
+            // Fully transparent layers are left alone rather than cropped to nothing
+            if (!bounds || (bounds.width === layer.width && bounds.height === layer.height)) continue;
+
+            const trimmed = new ImageData(bounds.width, bounds.height);
+            for (let y = 0; y < bounds.height; y++) {
+              const start = ((bounds.y + y) * pixels.width + bounds.x) * 4;
+              trimmed.data.set(pixels.data.subarray(start, start + bounds.width * 4), y * bounds.width * 4);
+            }
 
-          if (!otherLayerId) return state;
+            const source = getEffectSource(layer);
+            const effects: LayerEffect[] = [
+              ...(layer.effects ?? []),
+              { id: createEffectId(), type: 'crop', enabled: true, ...bounds },
+            ];
+            const rendered = { imageData: pixelsToDataUrl(trimmed), width: bounds.width, height: bounds.height };
+            primeEffectCache(source, effects, rendered);
+            results.set(layer.id, {
+              ...rendered,
+              x: Math.floor(layer.x) + bounds.x,
+              y: Math.floor(layer.y) + bounds.y,
+              effects,
+              effectSource: source,
+            });
+          }
+        } catch (error) {
+          console.error('Failed to trim layers:', error);
+          return;
+        }
+        if (results.size === 0) return;
 
+        set((state) => {
+          // Other frames keep the layer where it was: trimming only moves its origin
+          let animation = state.project.animation;
+          for (const layer of state.project.layers) {
+            const result = results.get(layer.id);
+            if (animation && result) {
+              animation = offsetFrameLayers(animation, result.x - layer.x, result.y - layer.y, [layer.id]);
+            }
+          }
           return {
             project: {
               ...state.project,
               layers: state.project.layers.map((layer) => {
-                if (layer.id === layerId) return { ...layer, zIndex: newZIndex };
-                if (layer.id === otherLayerId) return { ...layer, zIndex: currentZIndex };
-                return layer;
+                const result = results.get(layer.id);
+                return result ? { ...layer, ...result } : layer;
               }),
+              animation,
               modified: new Date().toISOString(),
             },
             isDirty: true,
           };
         });
+        // Right after an effect was applied (auto-trim) its pending label names the entry
+        const trimmedLayers = targets.filter((layer) => results.has(layer.id));
+        useCompositorStore.getState().pushHistory(
+          useCompositorStore.getState()._pendingHistoryLabel ??
+            `Trim ${trimmedLayers.length === 1 ? `'${trimmedLayers[0].name}'` : `${trimmedLayers.length} layers`}`
+        );
       },
 
-      reorderSelectedLayers: (direction: 'up' | 'down') => {
+      revertPixelation: async (layerId: string) => {
+        const layer = useCompositorStore.getState().project.layers.find((l) => l.id === layerId);
+        if (!layer?.effects?.some((e) => e.type === 'pixelate')) return;
+        await useCompositorStore.getState().setLayerEffects(
+          layerId,
+          layer.effects.filter((e) => e.type !== 'pixelate'),
+          `Revert pixelation of '${layer.name}'`
+        );
+      },
+
+      // Group operations
+      groupSelectedLayers: (name?: string) => {
         set((state) => {
           if (state.selectedLayerIds.length === 0) return state;
 
-          const zIndices = state.project.layers.map((l) => l.zIndex).sort((a, b) => a - b);
-          const selectedZIndices = state.project.layers
-            .filter((l) => state.selectedLayerIds.includes(l.id))
-            .map((l) => l.zIndex)
-            .sort((a, b) => a - b);
+          const groups = state.project.groups ?? [];
+          const result = groupLayers(
+            state.project.layers,
+            groups,
+            state.selectedLayerIds,
+            name ?? `Group ${groups.length + 1}`
+          );
 
-          // Check if we can move in this direction
-          const minSelectedZ = Math.min(...selectedZIndices);
-          const maxSelectedZ = Math.max(...selectedZIndices);
+          return {
+            project: {
+              ...state.project,
+              layers: result.layers,
+              groups: result.groups,
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+          };
+        });
+      },
 
-          if (direction === 'up' && maxSelectedZ === zIndices[zIndices.length - 1]) return state;
-          if (direction === 'down' && minSelectedZ === zIndices[0]) return state;
+      ungroup: (groupId: string) => {
+        set((state) => ({
+          project: {
+            ...state.project,
+            ...ungroupLayers(state.project.layers, state.project.groups ?? [], groupId),
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+        }));
+      },
 
-          // Find the target z-index to swap with
-          if (direction === 'up') {
-            const targetZIndex = zIndices.find((z) => z > maxSelectedZ);
-            if (targetZIndex === undefined) return state;
+      updateGroup: (groupId: string, updates: Partial<Omit<LayerGroup, 'id'>>) => {
+        set((state) => ({
+          project: {
+            ...state.project,
+            groups: (state.project.groups ?? []).map((group) =>
+              group.id === groupId ? { ...group, ...updates } : group
+            ),
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+        }));
+      },
 
-            return {
-              project: {
-                ...state.project,
-                layers: state.project.layers.map((layer) => {
-                  if (state.selectedLayerIds.includes(layer.id)) {
-                    return { ...layer, zIndex: targetZIndex };
-                  }
-                  if (layer.zIndex === targetZIndex) {
-                    return { ...layer, zIndex: maxSelectedZ };
-                  }
-                  return layer;
-                }),
-                modified: new Date().toISOString(),
-              },
-              isDirty: true,
-            };
-          } else {
-            const targetZIndex = [...zIndices].reverse().find((z) => z < minSelectedZ);
-            if (targetZIndex === undefined) return state;
+      toggleGroupCollapsed: (groupId: string) => {
+        set((state) => ({
+          project: {
+            ...state.project,
+            groups: (state.project.groups ?? []).map((group) =>
+              group.id === groupId ? { ...group, collapsed: !group.collapsed } : group
+            ),
+          },
+          // Panel display state only - saved with the project but not an undo step
+          _lastHistoryPushAt: Date.now(),
+        }));
+      },
 
-            return {
-              project: {
-                ...state.project,
-                layers: state.project.layers.map((layer) => {
-                  if (state.selectedLayerIds.includes(layer.id)) {
-                    return { ...layer, zIndex: targetZIndex };
-                  }
-                  if (layer.zIndex === targetZIndex) {
-                    return { ...layer, zIndex: minSelectedZ };
-                  }
-                  return layer;
-                }),
-                modified: new Date().toISOString(),
-              },
-              isDirty: true,
-            };
-          }
+      removeGroup: (groupId: string) => {
+        set((state) => {
+          const removedIds = getGroupLayerIds(groupId, state.project.layers, state.project.groups ?? []);
+
+          return {
+            project: {
+              ...state.project,
+              ...pruneLayerGroups(
+                state.project.layers.filter((l) => !removedIds.includes(l.id)),
+                state.project.groups
+              ),
+              modified: new Date().toISOString(),
+            },
+            selectedLayerIds: state.selectedLayerIds.filter((id) => !removedIds.includes(id)),
+            isDirty: true,
+          };
         });
       },
 
-      bringLayerToFront: (layerId: string) => {
+      duplicateGroup: (groupId: string) => {
         set((state) => {
-          const maxZIndex = Math.max(...state.project.layers.map((l) => l.zIndex), 0);
+          const groups = state.project.groups ?? [];
+          const group = groups.find((g) => g.id === groupId);
+          if (!group) return state;
+
+          const memberIds = getGroupLayerIds(groupId, state.project.layers, groups);
+          const members = state.project.layers
+            .filter((l) => memberIds.includes(l.id))
+            .sort((a, b) => a.zIndex - b.zIndex);
+          if (members.length === 0) return state;
+
+          // Clone the group with its nested groups; the copy shares the original's parent
+          const clonedGroupIds = getDescendantGroupIds(groupId, groups);
+          const cloned = cloneLayersWithGroups(
+            members,
+            groups.filter((g) => clonedGroupIds.includes(g.id)),
+            () => `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            group.parentId
+          );
+
+          // Place the copy directly above the original group
+          const top = members[members.length - 1].zIndex;
+          const copies = cloned.layers.map((layer, idx) => ({
+            ...layer,
+            zIndex: top + (idx + 1) / (cloned.layers.length + 1),
+          }));
+          const copiedGroups = cloned.groups.map((g, idx) =>
+            clonedGroupIds[idx] === groupId ? { ...g, name: `${group.name} (copy)` } : g
+          );
+          const nextGroups = [...groups, ...copiedGroups];
+
           return {
             project: {
               ...state.project,
-              layers: state.project.layers.map((layer) =>
-                layer.id === layerId ? { ...layer, zIndex: maxZIndex + 1 } : layer
-              ),
+              layers: normalizeLayerOrder([...state.project.layers, ...copies], nextGroups),
+              groups: nextGroups,
               modified: new Date().toISOString(),
             },
+            selectedLayerIds: copies.map((l) => l.id),
             isDirty: true,
           };
         });
       },
 
-      sendLayerToBack: (layerId: string) => {
+      selectGroup: (groupId: string, multiSelect: boolean = false) => {
+        set((state) => {
+          const memberIds = getGroupLayerIds(groupId, state.project.layers, state.project.groups ?? []);
+          if (!multiSelect) return { selectedLayerIds: memberIds };
+
+          // Toggle the whole group in or out of the selection
+          const allSelected = memberIds.every((id) => state.selectedLayerIds.includes(id));
+          return {
+            selectedLayerIds: allSelected
+              ? state.selectedLayerIds.filter((id) => !memberIds.includes(id))
+              : [...state.selectedLayerIds, ...memberIds.filter((id) => !state.selectedLayerIds.includes(id))],
+          };
+        });
+      },
+
+      reorderGroup: (groupId: string, direction: 'up' | 'down') => {
         set((state) => {
-          const minZIndex = Math.min(...state.project.layers.map((l) => l.zIndex), 0);
+          const groups = state.project.groups ?? [];
+          const memberIds = getGroupLayerIds(groupId, state.project.layers, groups);
+          if (memberIds.length === 0) return state;
+
           return {
             project: {
               ...state.project,
-              layers: state.project.layers.map((layer) =>
-                layer.id === layerId ? { ...layer, zIndex: minZIndex - 1 } : layer
-              ),
+              layers: reorderLayerSelection(state.project.layers, groups, memberIds, direction),
               modified: new Date().toISOString(),
             },
             isDirty: true,
@@ -450,6 +989,17 @@ const useCompositorStore = create<CompositorStore>()(
         });
       },
 
+      moveLayersToGroup: (layerIds: string[], groupId: string | null) => {
+        set((state) => ({
+          project: {
+            ...state.project,
+            ...moveLayersIntoGroup(state.project.layers, state.project.groups ?? [], layerIds, groupId ?? undefined),
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+        }));
+      },
+
       // Multi-layer operations
       selectLayer: (layerId: string, multiSelect: boolean = false) => {
         set((state) => {
@@ -494,7 +1044,7 @@ const useCompositorStore = create<CompositorStore>()(
           project: {
             ...state.project,
             layers: state.project.layers.map((layer) => {
-              if (state.selectedLayerIds.includes(layer.id) && !layer.locked) {
+              if (state.selectedLayerIds.includes(layer.id) && !isLayerLocked(layer, state.project.groups)) {
                 const newX = Math.floor(layer.x + deltaX);
                 const newY = Math.floor(layer.y + deltaY);
 
@@ -508,25 +1058,158 @@ const useCompositorStore = create<CompositorStore>()(
         }));
       },
 
-      deleteSelectedLayers: () => {
-        set((state) => ({
-          project: {
-            ...state.project,
-            layers: state.project.layers.filter(
-              (l) => !state.selectedLayerIds.includes(l.id)
-            ),
-            modified: new Date().toISOString(),
-          },
-          selectedLayerIds: [],
-          isDirty: true,
-        }));
-      },
+      transformSelectedLayers: async (transform: LayerTransform) => {
+        const { project, selectedLayerIds } = useCompositorStore.getState();
+        const targets = project.layers.filter(
+          (layer) => selectedLayerIds.includes(layer.id) && !isLayerLocked(layer, project.groups)
+        );
+        if (targets.length === 0) return;
 
-      toggleVisibilitySelected: () => {
-        set((state) => {
-          const allVisible = state.selectedLayerIds.every((id) =>
-            state.project.layers.find((l) => l.id === id)?.visible
-          );
+        const results = new Map<string, Pick<Layer, 'imageData' | 'x' | 'y' | 'width' | 'height' | 'effects' | 'effectSource'>>();
+        try {
+          for (const layer of targets) {
+            let output: EffectSourceImage;
+            let stack: Pick<Layer, 'effects' | 'effectSource'> = {};
+            if (layer.effects?.length) {
+              // Transform the original and re-render the stack, which follows along
+              const source = getEffectSource(layer);
+              const sourcePixels = transformPixels(await loadImagePixels(source.imageData), transform);
+              const effectSource = { imageData: pixelsToDataUrl(sourcePixels), width: sourcePixels.width, height: sourcePixels.height };
+              const effects = await transformLayerEffects(layer, transform);
+              output = await renderLayerEffects(effectSource, effects);
+              stack = { effects, effectSource };
+              // Renders of the stack still running on the old source are stale now
+              effectRenderTokens.set(layer.id, (effectRenderTokens.get(layer.id) ?? 0) + 1);
+            } else {
+              const pixels = transformPixels(await loadImagePixels(layer.imageData), transform);
+              output = { imageData: pixelsToDataUrl(pixels), width: pixels.width, height: pixels.height };
+            }
+            results.set(layer.id, {
+              ...output,
+              ...stack,
+              // Keep the layer centered where it was (trunc keeps repeated turns from drifting)
+              x: Math.floor(layer.x) + Math.trunc((layer.width - output.width) / 2),
+              y: Math.floor(layer.y) + Math.trunc((layer.height - output.height) / 2),
+            });
+          }
+        } catch (error) {
+          console.error('Failed to transform layers:', error);
+          return;
+        }
+
+        set((state) => {
+          // Other frames keep the layer centered too: shift them by the same re-centering
+          let animation = state.project.animation;
+          for (const layer of state.project.layers) {
+            const result = results.get(layer.id);
+            if (animation && result) {
+              animation = offsetFrameLayers(animation, result.x - layer.x, result.y - layer.y, [layer.id]);
+            }
+          }
+          return {
+            project: {
+              ...state.project,
+              layers: state.project.layers.map((layer) => {
+                const result = results.get(layer.id);
+                return result ? { ...layer, ...result } : layer;
+              }),
+              animation,
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+          };
+        });
+        useCompositorStore.getState().pushHistory(
+          `${describeTransform(transform)} ${targets.length === 1 ? `'${targets[0].name}'` : `${targets.length} layers`}`
+        );
+      },
+
+      alignSelectedLayers: (edge: AlignEdge) => {
+        const { project, selectedLayerIds, ui } = useCompositorStore.getState();
+        const selected = project.layers.filter((layer) => selectedLayerIds.includes(layer.id));
+        const keyLayer = ui.alignReference === 'key-layer'
+          ? selected.find((layer) => layer.id === ui.alignKeyLayerId) ?? selected.find((layer) => layer.id === selectedLayerIds[0])
+          : undefined;
+
+        // Locked layers and the key layer count towards the reference but stay put
+        const reference = ui.alignReference === 'canvas'
+          ? { x: 0, y: 0, width: project.canvas.width, height: project.canvas.height }
+          : getLayersBounds(keyLayer ? [keyLayer] : selected);
+        const movable = selected.filter((layer) => layer !== keyLayer && !isLayerLocked(layer, project.groups));
+        if (!reference || movable.length === 0) return;
+        if (ui.alignReference === 'selection' && selected.length < 2) return;
+
+        const positions = alignLayers(movable, edge, reference);
+        if (positions.size === 0) return;
+        set((state) => ({
+          project: {
+            ...state.project,
+            layers: state.project.layers.map((layer) => {
+              const position = positions.get(layer.id);
+              return position ? { ...layer, ...position } : layer;
+            }),
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+        }));
+        useCompositorStore.getState().pushHistory(
+          `Align ${movable.length === 1 ? `'${movable[0].name}'` : `${movable.length} layers`} ${ALIGN_EDGE_LABELS[edge]}`
+        );
+      },
+
+      distributeSelectedLayers: (axis: 'x' | 'y', mode: DistributeMode) => {
+        const { project, selectedLayerIds } = useCompositorStore.getState();
+        const selected = project.layers.filter(
+          (layer) => selectedLayerIds.includes(layer.id) && !isLayerLocked(layer, project.groups)
+        );
+        const positions = distributeLayers(selected, axis, mode);
+        if (positions.size === 0) return;
+
+        set((state) => ({
+          project: {
+            ...state.project,
+            layers: state.project.layers.map((layer) => {
+              const position = positions.get(layer.id);
+              return position ? { ...layer, ...position } : layer;
+            }),
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+        }));
+        useCompositorStore.getState().pushHistory(
+          `Distribute ${selected.length} layers ${axis === 'x' ? 'horizontally' : 'vertically'}${mode === 'gaps' ? ' (equal gaps)' : ''}`
+        );
+      },
+
+      setAlignOptions: (options: Partial<Pick<UIState, 'alignReference' | 'alignKeyLayerId'>>) => {
+        set((state) => ({
+          ui: {
+            ...state.ui,
+            ...options,
+          },
+        }));
+      },
+
+      deleteSelectedLayers: () => {
+        set((state) => ({
+          project: {
+            ...state.project,
+            ...pruneLayerGroups(
+              state.project.layers.filter((l) => !state.selectedLayerIds.includes(l.id)),
+              state.project.groups
+            ),
+            modified: new Date().toISOString(),
+          },
+          selectedLayerIds: [],
+          isDirty: true,
+        }));
+      },
+
+      toggleVisibilitySelected: () => {
+        set((state) => {
+          const allVisible = state.selectedLayerIds.every((id) =>
+            state.project.layers.find((l) => l.id === id)?.visible
+          );
 
           return {
             project: {
@@ -556,7 +1239,7 @@ const useCompositorStore = create<CompositorStore>()(
         }));
       },
 
-      updateDragPosition: (currentX: number, currentY: number) => {
+      updateDragPosition: (currentX: number, currentY: number, bypassSnap = false) => {
         set((state) => {
           if (!state.ui.isDraggingLayer) return state;
 
@@ -568,6 +1251,27 @@ const useCompositorStore = create<CompositorStore>()(
           offsetX = Math.round(offsetX);
           offsetY = Math.round(offsetY);
 
+          // Smart snapping: edges/center of the dragged layers to other layers,
+          // the canvas and visible guides (bypassed while the modifier is held)
+          let dragSnap: DragSnap | null = null;
+          const { layers, groups, rulers, canvas, viewport } = state.project;
+          const movingIds = state.selectedLayerIds.includes(state.ui.dragLayerId ?? '')
+            ? state.selectedLayerIds
+            : [state.ui.dragLayerId];
+          const moving = layers.filter((layer) => movingIds.includes(layer.id) && !isLayerLocked(layer, groups));
+          const bounds = getLayersBounds(moving);
+          if (!bypassSnap && bounds) {
+            const targets = getSnapTargets(
+              resolveLayerGroups(layers, groups).filter((layer) => layer.visible && !moving.some((m) => m.id === layer.id)),
+              canvas,
+              rulers.enabled ? rulers.guides : []
+            );
+            const snapped = snapDragOffset(bounds, offsetX, offsetY, targets, SNAP_DISTANCE / (viewport.zoom / 100));
+            offsetX = snapped.x;
+            offsetY = snapped.y;
+            dragSnap = snapped.snap;
+          }
+
           // Only update UI state - don't modify project.layers during drag
           // This prevents multiple history entries from rapid mouse movements
           return {
@@ -575,6 +1279,7 @@ const useCompositorStore = create<CompositorStore>()(
               ...state.ui,
               dragOffsetX: offsetX,
               dragOffsetY: offsetY,
+              dragSnap,
             },
           };
         });
@@ -599,7 +1304,7 @@ const useCompositorStore = create<CompositorStore>()(
           const newProject = {
             ...state.project,
             layers: state.project.layers.map((layer) => {
-              if (layersToMove.includes(layer.id) && !layer.locked) {
+              if (layersToMove.includes(layer.id) && !isLayerLocked(layer, state.project.groups)) {
                 return {
                   ...layer,
                   x: Math.floor(layer.x + offsetX),
@@ -619,6 +1324,7 @@ const useCompositorStore = create<CompositorStore>()(
               dragLayerId: null,
               dragOffsetX: 0,
               dragOffsetY: 0,
+              dragSnap: null,
             },
             isDirty: true,
           };
@@ -626,19 +1332,10 @@ const useCompositorStore = create<CompositorStore>()(
           // Push history exactly once if layers moved
           if (layersActuallyMoved) {
             const currentState = useCompositorStore.getState();
-            const { viewport, ...projectWithoutViewport } = currentState.project;
-            const newPast = [...currentState.history.past, projectWithoutViewport as ProjectData];
-            if (newPast.length > currentState.history.maxSteps) {
-              newPast.shift();
-            }
 
             return {
               ...newState,
-              history: {
-                ...currentState.history,
-                past: newPast,
-                future: [],
-              },
+              history: pushHistoryEntry(currentState.history, currentState.project),
               _lastHistoryPushAt: Date.now(), // Prevent useAutoHistory from pushing after drag
             };
           }
@@ -648,49 +1345,35 @@ const useCompositorStore = create<CompositorStore>()(
       },
 
       // History operations
-      pushHistory: () => {
+      pushHistory: (label?: string) => {
         set((state) => {
-          // Store project WITHOUT viewport - we'll preserve the current viewport during undo
-          const { viewport, ...projectWithoutViewport } = state.project;
-          const newPast = [...state.history.past, projectWithoutViewport as ProjectData];
-          if (newPast.length > state.history.maxSteps) {
-            newPast.shift();
-          }
-
+          // Entries are stored WITHOUT viewport - we'll preserve the current viewport during undo
           return {
-            history: {
-              ...state.history,
-              past: newPast,
-              future: [],
-            },
+            history: pushHistoryEntry(state.history, state.project, {
+              label: label ?? state._pendingHistoryLabel,
+            }),
             _lastHistoryPushAt: Date.now(), // Mark when history was manually pushed
+            _pendingHistoryLabel: undefined,
           };
         });
       },
 
+      setHistoryLabel: (label: string) => {
+        set({ _pendingHistoryLabel: label });
+      },
+
       undo: () => {
         set((state) => {
-          if (state.history.past.length === 0) return state;
-
-          const newPast = [...state.history.past];
-          const previousProject = newPast.pop();
-          
-          if (!previousProject) return state;
-
-          // Add current project to future, but strip viewport like we do in pushHistory
-          const { viewport, ...projectWithoutViewport } = state.project;
-          const newFuture = [projectWithoutViewport as ProjectData, ...state.history.future];
+          // Undo = jump to the most recent past entry
+          const result = jumpToHistoryEntry(state.history, state.project, 'past', state.history.past.length - 1);
+          if (!result) return state;
 
           return {
             project: {
-              ...previousProject,
+              ...result.project,
               viewport: state.project.viewport, // Preserve current viewport
             },
-            history: {
-              ...state.history,
-              past: newPast,
-              future: newFuture,
-            },
+            history: result.history,
             _lastHistoryPushAt: Date.now(), // Prevent useAutoHistory from pushing during undo
           };
         });
@@ -698,34 +1381,80 @@ const useCompositorStore = create<CompositorStore>()(
 
       redo: () => {
         set((state) => {
-          if (state.history.future.length === 0) return state;
+          // Redo = jump to the next future entry
+          const result = jumpToHistoryEntry(state.history, state.project, 'future', 0);
+          if (!result) return state;
 
-          const newFuture = [...state.history.future];
-          const nextProject = newFuture.shift();
-          
-          // Add current project to past, but strip viewport like we do in pushHistory
-          const { viewport, ...projectWithoutViewport } = state.project;
-          const newPast = [...state.history.past, projectWithoutViewport as ProjectData];
+          return {
+            project: {
+              ...result.project,
+              viewport: state.project.viewport, // Preserve current viewport
+            },
+            history: result.history,
+            _lastHistoryPushAt: Date.now(), // Prevent useAutoHistory from pushing during redo
+          };
+        });
+      },
 
-          if (!nextProject) return state;
+      jumpToHistory: (stack: 'past' | 'future', index: number) => {
+        set((state) => {
+          // Unlike undo/redo, the jumped-to entry stays listed on top of the undo stack
+          const result = jumpToHistoryEntry(state.history, state.project, stack, index, true);
+          if (!result) return state;
 
           return {
             project: {
-              ...nextProject,
+              ...result.project,
               viewport: state.project.viewport, // Preserve current viewport
             },
-            history: {
-              ...state.history,
-              past: newPast,
-              future: newFuture,
+            history: result.history,
+            _lastHistoryPushAt: Date.now(), // Prevent useAutoHistory from pushing after the jump
+          };
+        });
+      },
+
+      addHistoryCheckpoint: (name: string) => {
+        set((state) => ({
+          history: pushHistoryEntry(state.history, state.project, {
+            label: state._pendingHistoryLabel,
+            checkpoint: name,
+          }),
+          _lastHistoryPushAt: Date.now(),
+          _pendingHistoryLabel: undefined,
+        }));
+      },
+
+      setHistoryCheckpoint: (stack: 'past' | 'future', index: number, name: string | null) => {
+        set((state) => ({
+          history: setEntryCheckpoint(state.history, stack, index, name ?? undefined),
+        }));
+      },
+
+      restoreHistoryBranch: (branchId: string) => {
+        set((state) => {
+          const result = switchHistoryBranch(state.history, state.project, branchId);
+          if (!result) return state;
+
+          return {
+            project: {
+              ...result.project,
+              viewport: state.project.viewport, // Preserve current viewport
             },
-            _lastHistoryPushAt: Date.now(), // Prevent useAutoHistory from pushing during redo
+            history: result.history,
+            isDirty: true,
+            _lastHistoryPushAt: Date.now(), // Prevent useAutoHistory from pushing after the switch
           };
         });
       },
 
+      deleteHistoryBranch: (branchId: string) => {
+        set((state) => ({
+          history: removeHistoryBranch(state.history, branchId),
+        }));
+      },
+
       // UI operations
-      setActiveTool: (tool: 'select' | 'pan' | 'zoom') => {
+      setActiveTool: (tool: ActiveTool) => {
         set((state) => ({
           ui: {
             ...state.ui,
@@ -734,6 +1463,152 @@ const useCompositorStore = create<CompositorStore>()(
         }));
       },
 
+      setToolColor: (slot: 'primary' | 'secondary', color: string) => {
+        set((state) => ({
+          ui: {
+            ...state.ui,
+            [slot === 'primary' ? 'primaryColor' : 'secondaryColor']: color.toUpperCase(),
+          },
+        }));
+      },
+
+      swapToolColors: () => {
+        set((state) => ({
+          ui: {
+            ...state.ui,
+            primaryColor: state.ui.secondaryColor,
+            secondaryColor: state.ui.primaryColor,
+          },
+        }));
+      },
+
+      setPixelToolOptions: (options) => {
+        set((state) => ({
+          ui: {
+            ...state.ui,
+            ...options,
+            brushSize: Math.max(1, Math.min(MAX_BRUSH_SIZE, Math.round(options.brushSize ?? state.ui.brushSize))),
+            fillTolerance: Math.max(0, Math.min(255, options.fillTolerance ?? state.ui.fillTolerance)),
+            wandTolerance: Math.max(0, Math.min(255, options.wandTolerance ?? state.ui.wandTolerance)),
+          },
+        }));
+      },
+
+      setPixelSelection: (selection: PixelSelection | null) => {
+        set((state) => ({
+          ui: {
+            ...state.ui,
+            pixelSelection: selection,
+          },
+        }));
+      },
+
+      copyPixelSelection: async () => {
+        try {
+          const target = await getPixelSelectionTarget();
+          if (!target) return;
+          const extracted = extractSelectedPixels(target.pixels, target.originX, target.originY, target.selection);
+          if (!extracted) return;
+
+          const imageData = pixelsToDataUrl(extracted.pixels);
+          const copied: Layer = {
+            id: `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            name: `${target.layer.name} (selection)`,
+            imageData,
+            x: extracted.x,
+            y: extracted.y,
+            zIndex: target.layer.zIndex,
+            visible: true,
+            locked: false,
+            opacity: 1.0,
+            width: extracted.pixels.width,
+            height: extracted.pixels.height,
+          };
+          // Ctrl+Shift+V pastes it as a layer, other apps get a PNG
+          set((state) => ({
+            ui: {
+              ...state.ui,
+              clipboardLayers: [copied],
+              clipboardGroups: [],
+            },
+          }));
+          await navigator.clipboard.write([new ClipboardItem({ 'image/png': dataUrlToBlob(imageData) })]);
+        } catch (error) {
+          console.error('Failed to copy selection:', error);
+        }
+      },
+
+      cutPixelSelection: async () => {
+        await useCompositorStore.getState().copyPixelSelection();
+        await useCompositorStore.getState().deletePixelSelection();
+      },
+
+      deletePixelSelection: async () => {
+        try {
+          const target = await getPixelSelectionTarget();
+          if (!target || target.locked) return;
+          const cleared = await clearSelectionTarget(target);
+          if (!cleared) return;
+
+          set((state) => ({
+            project: {
+              ...state.project,
+              layers: state.project.layers.map((layer) => (layer.id === target.layer.id ? { ...layer, ...cleared } : layer)),
+              modified: new Date().toISOString(),
+            },
+            isDirty: true,
+          }));
+          useCompositorStore.getState().pushHistory(`Delete selection in '${target.layer.name}'`);
+        } catch (error) {
+          console.error('Failed to delete selection:', error);
+        }
+      },
+
+      extractPixelSelection: async (cut: boolean) => {
+        try {
+          const target = await getPixelSelectionTarget();
+          if (!target || (cut && target.locked)) return;
+          const extracted = extractSelectedPixels(target.pixels, target.originX, target.originY, target.selection);
+          if (!extracted) return;
+
+          const remaining = cut ? await clearSelectionTarget(target) : null;
+          const newLayer: Layer = {
+            id: `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            name: `${target.layer.name} (selection)`,
+            imageData: pixelsToDataUrl(extracted.pixels),
+            x: extracted.x,
+            y: extracted.y,
+            zIndex: target.layer.zIndex + 0.5, // Directly above the source, in the same group
+            visible: true,
+            locked: false,
+            opacity: target.layer.opacity,
+            width: extracted.pixels.width,
+            height: extracted.pixels.height,
+            ...(target.layer.groupId ? { groupId: target.layer.groupId } : {}),
+          };
+
+          set((state) => {
+            const layers = state.project.layers.map((layer) =>
+              layer.id === target.layer.id && remaining ? { ...layer, ...remaining } : layer
+            );
+            return {
+              project: {
+                ...state.project,
+                layers: normalizeLayerOrder([...layers, newLayer], state.project.groups),
+                modified: new Date().toISOString(),
+              },
+              selectedLayerIds: [newLayer.id],
+              isDirty: true,
+            };
+          });
+          useCompositorStore.getState().pushHistory(
+            `${cut ? 'Cut' : 'Copy'} selection of '${target.layer.name}' to new layer`
+          );
+        } catch (error) {
+          console.error('Failed to extract selection:', error);
+        }
+      },
+
       toggleLeftClickPan: () => {
         set((state) => ({
           ui: {
@@ -794,6 +1669,82 @@ const useCompositorStore = create<CompositorStore>()(
         }));
       },
 
+      addGuide: (axis: Guide['axis'], position: number) => {
+        const id = createGuideId();
+        set((state) => ({
+          project: {
+            ...state.project,
+            rulers: {
+              ...state.project.rulers,
+              guides: [...state.project.rulers.guides, { id, axis, position: Math.round(position) }],
+            },
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+        }));
+        return id;
+      },
+
+      updateGuide: (guideId: string, updates: Partial<Omit<Guide, 'id'>>) => {
+        set((state) => ({
+          project: {
+            ...state.project,
+            rulers: {
+              ...state.project.rulers,
+              guides: state.project.rulers.guides.map((guide) =>
+                guide.id === guideId
+                  ? {
+                      ...guide,
+                      ...updates,
+                      position: Math.round(updates.position ?? guide.position),
+                    }
+                  : guide
+              ),
+            },
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+        }));
+      },
+
+      removeGuide: (guideId: string) => {
+        set((state) => ({
+          project: {
+            ...state.project,
+            rulers: {
+              ...state.project.rulers,
+              guides: state.project.rulers.guides.filter((guide) => guide.id !== guideId || guide.locked),
+            },
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+        }));
+      },
+
+      clearGuides: () => {
+        set((state) => ({
+          project: {
+            ...state.project,
+            rulers: {
+              ...state.project.rulers,
+              // Locked guides stay
+              guides: state.project.rulers.guides.filter((guide) => guide.locked),
+            },
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+        }));
+      },
+
+      toggleHistoryPanel: () => {
+        set((state) => ({
+          ui: {
+            ...state.ui,
+            showHistoryPanel: !state.ui.showHistoryPanel,
+          },
+        }));
+      },
+
       toggleSelectionBorders: () => {
         set((state) => ({
           ui: {
@@ -821,21 +1772,40 @@ const useCompositorStore = create<CompositorStore>()(
         }));
       },
 
-      copySelectedLayers: () => {
+      setPickAlphaThreshold: (threshold: number) => {
         set((state) => ({
           ui: {
             ...state.ui,
-            clipboardLayers: state.project.layers.filter((l) =>
-              state.selectedLayerIds.includes(l.id)
-            ),
+            pickAlphaThreshold: Math.max(0, Math.min(254, Math.round(threshold))),
           },
         }));
       },
 
+      copySelectedLayers: () => {
+        set((state) => {
+          const groups = state.project.groups ?? [];
+          // Only groups copied in full are recreated on paste
+          const copiedGroups = groups.filter((g) => {
+            const memberIds = getGroupLayerIds(g.id, state.project.layers, groups);
+            return memberIds.length > 0 && memberIds.every((id) => state.selectedLayerIds.includes(id));
+          });
+
+          return {
+            ui: {
+              ...state.ui,
+              clipboardLayers: state.project.layers.filter((l) =>
+                state.selectedLayerIds.includes(l.id)
+              ),
+              clipboardGroups: copiedGroups,
+            },
+          };
+        });
+      },
+
       copySelectedLayersToClipboard: async () => {
         try {
           const state = useCompositorStore.getState();
-          const selectedLayers = state.project.layers.filter((l) =>
+          const selectedLayers = resolveLayerGroups(state.project.layers, state.project.groups).filter((l) =>
             state.selectedLayerIds.includes(l.id)
           );
 
@@ -868,18 +1838,26 @@ const useCompositorStore = create<CompositorStore>()(
         set((state) => {
           const maxZIndex = Math.max(...state.project.layers.map((l) => l.zIndex), 0);
 
-          const pastedLayers: Layer[] = state.ui.clipboardLayers.map((layer, index) => ({
+          // Copied groups are recreated with fresh ids; everything lands at the top level
+          const cloned = cloneLayersWithGroups(
+            [...state.ui.clipboardLayers].sort((a, b) => a.zIndex - b.zIndex),
+            state.ui.clipboardGroups,
+            () => `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+          );
+
+          const pastedLayers: Layer[] = cloned.layers.map((layer, index) => ({
             ...layer,
-            id: `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
             x: layer.x + 10, // Offset to show pasted layers
             y: layer.y + 10,
             zIndex: maxZIndex + index + 1,
           }));
+          const groups = [...(state.project.groups ?? []), ...cloned.groups];
 
           return {
             project: {
               ...state.project,
-              layers: [...state.project.layers, ...pastedLayers],
+              layers: normalizeLayerOrder([...state.project.layers, ...pastedLayers], groups),
+              groups,
               modified: new Date().toISOString(),
             },
             selectedLayerIds: pastedLayers.map((l) => l.id),
@@ -1009,6 +1987,308 @@ const useCompositorStore = create<CompositorStore>()(
         }
       },
 
+      // Animation
+      addAnimationFrame: () => {
+        const { project } = useCompositorStore.getState();
+        const animation = project.animation;
+
+        // The first frame records the layers as they are
+        if (!animation || animation.frames.length === 0) {
+          const frame: AnimationFrame = {
+            id: createFrameId(),
+            duration: DEFAULT_FRAME_DURATION,
+            layers: captureFrameLayers(project.layers),
+          };
+          set((state) => ({
+            project: {
+              ...state.project,
+              animation: { mode: 'states', frames: [frame], activeFrameId: frame.id, loopCount: 0 },
+              modified: new Date().toISOString(),
+            },
+            ui: { ...state.ui, showTimeline: true },
+            isDirty: true,
+          }));
+          useCompositorStore.getState().pushHistory('Add animation frame');
+          return;
+        }
+
+        // New frames start as a copy of the active one, right after it
+        const captured = captureActiveFrame(animation, project.layers);
+        const index = captured.frames.findIndex((f) => f.id === captured.activeFrameId);
+        const source = captured.frames[index] ?? captured.frames[captured.frames.length - 1];
+        const frame: AnimationFrame = { ...source, id: createFrameId(), layers: { ...source.layers } };
+        const frames = [...captured.frames];
+        frames.splice(index < 0 ? frames.length : index + 1, 0, frame);
+
+        set((state) => ({
+          project: {
+            ...state.project,
+            animation: { ...captured, frames, activeFrameId: frame.id },
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+        }));
+        useCompositorStore.getState().pushHistory(`Add frame ${frames.indexOf(frame) + 1}`);
+      },
+
+      removeAnimationFrame: (frameId: string) => {
+        const { project } = useCompositorStore.getState();
+        const animation = project.animation;
+        const index = animation?.frames.findIndex((f) => f.id === frameId) ?? -1;
+        if (!animation || index < 0) return;
+
+        const frames = animation.frames.filter((f) => f.id !== frameId);
+        // Removing the last frame ends the animation; the layers stay as they are
+        if (frames.length === 0) {
+          useCompositorStore.getState().clearAnimation();
+          return;
+        }
+
+        // Removing the active frame moves to its neighbour (its states are discarded, not captured)
+        const wasActive = animation.activeFrameId === frameId;
+        const remaining = { ...animation, frames, activeFrameId: wasActive ? null : animation.activeFrameId };
+        const next = wasActive
+          ? activateFrame(project, remaining, frames[Math.min(index, frames.length - 1)].id)
+          : { animation: remaining, layers: project.layers };
+
+        set((state) => ({
+          project: {
+            ...state.project,
+            ...next,
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+        }));
+        useCompositorStore.getState().pushHistory(`Delete frame ${index + 1}`);
+      },
+
+      selectAnimationFrame: (frameId: string) => {
+        const { project } = useCompositorStore.getState();
+        const animation = project.animation;
+        const index = animation?.frames.findIndex((f) => f.id === frameId) ?? -1;
+        if (!animation || index < 0 || animation.activeFrameId === frameId) return;
+
+        set((state) => ({
+          project: {
+            ...state.project,
+            ...activateFrame(state.project, animation, frameId),
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+        }));
+        useCompositorStore.getState().pushHistory(`Go to frame ${index + 1}`);
+      },
+
+      updateAnimationFrame: (frameId: string, updates: Partial<Pick<AnimationFrame, 'duration' | 'layerId'>>) => {
+        const { project } = useCompositorStore.getState();
+        const animation = project.animation;
+        const index = animation?.frames.findIndex((f) => f.id === frameId) ?? -1;
+        if (!animation || index < 0) return;
+
+        const frames = animation.frames.map((frame) => (frame.id === frameId ? { ...frame, ...updates } : frame));
+        const updated = { ...animation, frames };
+        // A new layer for the active frame shows right away
+        const layers = updates.layerId !== undefined && animation.activeFrameId === frameId && animation.mode === 'layer-per-frame'
+          ? applyFrameToLayers(project.layers, updated, frames[index])
+          : project.layers;
+
+        set((state) => ({
+          project: {
+            ...state.project,
+            animation: updated,
+            layers,
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+        }));
+        useCompositorStore.getState().pushHistory(
+          updates.duration !== undefined ? `Set frame ${index + 1} duration to ${updates.duration}ms` : `Edit frame ${index + 1}`
+        );
+      },
+
+      moveAnimationFrame: (frameId: string, direction: 'left' | 'right') => {
+        const animation = useCompositorStore.getState().project.animation;
+        const index = animation?.frames.findIndex((f) => f.id === frameId) ?? -1;
+        const target = index + (direction === 'left' ? -1 : 1);
+        if (!animation || index < 0 || target < 0 || target >= animation.frames.length) return;
+
+        const frames = [...animation.frames];
+        [frames[index], frames[target]] = [frames[target], frames[index]];
+        set((state) => ({
+          project: {
+            ...state.project,
+            animation: { ...animation, frames },
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+        }));
+        useCompositorStore.getState().pushHistory(`Move frame ${index + 1} to ${target + 1}`);
+      },
+
+      setAnimationOptions: (options: Partial<Pick<AnimationConfig, 'mode' | 'loopCount'>>) => {
+        const { project } = useCompositorStore.getState();
+        const animation = project.animation;
+        if (!animation) return;
+
+        // Store the layers into the active frame before the mode changes what a frame means
+        const captured = captureActiveFrame(animation, project.layers);
+        const updated: AnimationConfig = {
+          ...captured,
+          ...options,
+          loopCount: Math.max(0, Math.round(options.loopCount ?? captured.loopCount)),
+        };
+        const active = updated.frames.find((f) => f.id === updated.activeFrameId);
+        const layers = options.mode && active ? applyFrameToLayers(project.layers, updated, active) : project.layers;
+
+        set((state) => ({
+          project: {
+            ...state.project,
+            animation: updated,
+            layers,
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+        }));
+        useCompositorStore.getState().pushHistory(
+          options.mode ? `Animation mode: ${options.mode === 'states' ? 'layer states' : 'layer per frame'}` : 'Animation settings'
+        );
+      },
+
+      createFramesFromLayers: (layerIds: string[]) => {
+        const { project } = useCompositorStore.getState();
+        // Bottom layer first, the order frames are usually drawn in
+        const frameLayers = project.layers
+          .filter((layer) => layerIds.includes(layer.id))
+          .sort((a, b) => a.zIndex - b.zIndex);
+        if (frameLayers.length === 0) return;
+
+        const frames: AnimationFrame[] = frameLayers.map((layer) => ({
+          id: createFrameId(),
+          duration: DEFAULT_FRAME_DURATION,
+          layers: {},
+          layerId: layer.id,
+        }));
+        const animation: AnimationConfig = {
+          mode: 'layer-per-frame',
+          frames,
+          activeFrameId: frames[0].id,
+          loopCount: project.animation?.loopCount ?? 0,
+        };
+
+        set((state) => ({
+          project: {
+            ...state.project,
+            animation,
+            layers: applyFrameToLayers(state.project.layers, animation, frames[0]),
+            modified: new Date().toISOString(),
+          },
+          ui: { ...state.ui, showTimeline: true },
+          isDirty: true,
+        }));
+        useCompositorStore.getState().pushHistory(`Create ${frames.length} frames from layers`);
+      },
+
+      importAnimationLayers: (name: string, frames: RenderedFrame[], loopCount: number) => {
+        if (frames.length === 0) return;
+        const { project } = useCompositorStore.getState();
+        const existing = project.animation;
+        // Appended frames start hidden: another frame is the active one
+        const appending = existing?.mode === 'layer-per-frame' && existing.frames.length > 0;
+        const digits = String(frames.length).length;
+        const layers: Layer[] = frames.map((frame, i) => ({
+          id: `layer_${Date.now()}_${i}_${Math.random().toString(36).substr(2, 9)}`,
+          name: `${name} #${String(i + 1).padStart(digits, '0')}`,
+          imageData: pixelsToDataUrl(frame.pixels),
+          x: 0,
+          y: 0,
+          zIndex: project.layers.length + i,
+          visible: i === 0 && !appending,
+          locked: false,
+          opacity: 1.0,
+          width: frame.pixels.width,
+          height: frame.pixels.height,
+        }));
+        const newFrames: AnimationFrame[] = layers.map((layer, i) => ({
+          id: createFrameId(),
+          duration: frames[i].duration,
+          layers: {},
+          layerId: layer.id,
+        }));
+
+        // Frames are added to a layer-per-frame animation; a 'states' animation
+        // is left alone since it can't describe them (the layers are still added)
+        let animation = existing;
+        if (appending && existing) {
+          animation = { ...existing, frames: [...existing.frames, ...newFrames] };
+        } else if (!existing || existing.frames.length === 0) {
+          animation = { mode: 'layer-per-frame', frames: newFrames, activeFrameId: newFrames[0].id, loopCount };
+        }
+
+        set((state) => ({
+          project: {
+            ...state.project,
+            layers: [...state.project.layers, ...layers],
+            animation,
+            modified: new Date().toISOString(),
+          },
+          selectedLayerIds: layers.map((layer) => layer.id),
+          ui: { ...state.ui, showTimeline: animation !== existing || state.ui.showTimeline },
+          isDirty: true,
+        }));
+        useCompositorStore.getState().pushHistory(`Import ${frames.length} frames of '${name}'`);
+      },
+
+      clearAnimation: () => {
+        if (!useCompositorStore.getState().project.animation) return;
+        set((state) => ({
+          project: {
+            ...state.project,
+            animation: undefined,
+            modified: new Date().toISOString(),
+          },
+          isDirty: true,
+        }));
+        useCompositorStore.getState().pushHistory('Remove animation');
+      },
+
+      toggleTimeline: () => {
+        set((state) => ({
+          ui: {
+            ...state.ui,
+            showTimeline: !state.ui.showTimeline,
+          },
+        }));
+      },
+
+      toggleOnionSkin: () => {
+        set((state) => ({
+          ui: {
+            ...state.ui,
+            onionSkin: !state.ui.onionSkin,
+          },
+        }));
+      },
+
+      // Progress tracking
+      setProgressReport: (report: ProgressReport | null) => {
+        set((state) => ({
+          ui: {
+            ...state.ui,
+            progress: report,
+            showProgressOverlay: report ? true : state.ui.showProgressOverlay,
+          },
+        }));
+      },
+
+      toggleProgressOverlay: () => {
+        set((state) => ({
+          ui: {
+            ...state.ui,
+            showProgressOverlay: !state.ui.showProgressOverlay,
+          },
+        }));
+      },
+
       // Canvas operations
       cropCanvasToLayers: () => {
         set((state) => {
@@ -1059,8 +2339,10 @@ const useCompositorStore = create<CompositorStore>()(
                 ...state.project.canvas,
                 width: newWidth,
                 height: newHeight,
+                worldOrigin: offsetWorldOrigin(state.project.canvas.worldOrigin, -offsetX, -offsetY),
               },
               layers: updatedLayers,
+              animation: state.project.animation && offsetFrameLayers(state.project.animation, -offsetX, -offsetY),
               modified: new Date().toISOString(),
             },
             isDirty: true,
@@ -1068,6 +2350,113 @@ const useCompositorStore = create<CompositorStore>()(
         });
       },
 
+      resizeCanvas: (width: number, height: number, anchor: CanvasAnchor, moveLayers: boolean) => {
+        const { canvas } = useCompositorStore.getState().project;
+        if (width <= 0 || height <= 0 || (width === canvas.width && height === canvas.height)) return;
+
+        // Layers, guides and the pixel selection shift with the anchor so content stays put relative to it
+        const offset = moveLayers
+          ? getAnchorOffset(anchor, canvas.width, canvas.height, width, height)
+          : { x: 0, y: 0 };
+
+        set((state) => ({
+          project: {
+            ...state.project,
+            canvas: {
+              ...state.project.canvas,
+              width,
+              height,
+              worldOrigin: offsetWorldOrigin(state.project.canvas.worldOrigin, offset.x, offset.y),
+            },
+            layers: state.project.layers.map((layer) => ({
+              ...layer,
+              x: layer.x + offset.x,
+              y: layer.y + offset.y,
+            })),
+            animation: state.project.animation && offsetFrameLayers(state.project.animation, offset.x, offset.y),
+            rulers: {
+              ...state.project.rulers,
+              guides: state.project.rulers.guides.map((guide) => ({
+                ...guide,
+                position: guide.position + (guide.axis === 'x' ? offset.x : offset.y),
+              })),
+            },
+            modified: new Date().toISOString(),
+          },
+          ui: {
+            ...state.ui,
+            pixelSelection: state.ui.pixelSelection
+              ? translateSelection(state.ui.pixelSelection, offset.x, offset.y)
+              : null,
+          },
+          isDirty: true,
+        }));
+        useCompositorStore.getState().pushHistory(`Resize canvas to ${width}×${height}`);
+      },
+
+      trimCanvas: async () => {
+        const { project } = useCompositorStore.getState();
+        const { canvas } = project;
+
+        // Union of the opaque pixels of all visible layers, clipped to the canvas
+        let left = Infinity;
+        let top = Infinity;
+        let right = -Infinity;
+        let bottom = -Infinity;
+        try {
+          for (const layer of resolveLayerGroups(project.layers, project.groups)) {
+            if (!layer.visible) continue;
+            const bounds = getOpaqueBounds(await loadImagePixels(layer.imageData));
+            if (!bounds) continue;
+            left = Math.min(left, Math.floor(layer.x) + bounds.x);
+            top = Math.min(top, Math.floor(layer.y) + bounds.y);
+            right = Math.max(right, Math.floor(layer.x) + bounds.x + bounds.width);
+            bottom = Math.max(bottom, Math.floor(layer.y) + bounds.y + bounds.height);
+          }
+        } catch (error) {
+          console.error('Failed to trim canvas:', error);
+          return;
+        }
+        left = Math.max(0, left);
+        top = Math.max(0, top);
+        right = Math.min(canvas.width, right);
+        bottom = Math.min(canvas.height, bottom);
+
+        if (right <= left || bottom <= top) {
+          console.warn('[DEBUG] Nothing visible to trim to');
+          return;
+        }
+        if (left === 0 && top === 0 && right === canvas.width && bottom === canvas.height) return;
+
+        set((state) => ({
+          project: {
+            ...state.project,
+            canvas: {
+              ...state.project.canvas,
+              width: right - left,
+              height: bottom - top,
+              worldOrigin: offsetWorldOrigin(state.project.canvas.worldOrigin, -left, -top),
+            },
+            layers: state.project.layers.map((layer) => ({ ...layer, x: layer.x - left, y: layer.y - top })),
+            animation: state.project.animation && offsetFrameLayers(state.project.animation, -left, -top),
+            rulers: {
+              ...state.project.rulers,
+              guides: state.project.rulers.guides.map((guide) => ({
+                ...guide,
+                position: guide.position - (guide.axis === 'x' ? left : top),
+              })),
+            },
+            modified: new Date().toISOString(),
+          },
+          ui: {
+            ...state.ui,
+            pixelSelection: state.ui.pixelSelection ? translateSelection(state.ui.pixelSelection, -left, -top) : null,
+          },
+          isDirty: true,
+        }));
+        useCompositorStore.getState().pushHistory(`Trim canvas to ${right - left}×${bottom - top}`);
+      },
+
       // File operations
       resetProject: () => {
         set({
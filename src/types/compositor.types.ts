@@ -18,9 +18,37 @@ export interface CanvasConfig {
   exportBorderEnabled: boolean; // Draw a border rect on the exported PNG
   exportBorderColor: string; // Hex color for the export border (default #FF0000)
   exportBorderWidth: number; // Width in pixels for the export border (default 1)
+  worldOrigin?: WorldOrigin; // Where the canvas lands on a map-anchored canvas (absent = not georeferenced)
+}
+
+// Placement of the project on a shared world canvas (GeoPixels, WPlace)
+export interface WorldOrigin {
+  x: number; // World pixel coordinate of canvas pixel (0, 0)
+  y: number;
+  tileSize: number; // Edge length of a map tile in pixels, for tile + in-tile offset coordinates
 }
 
 
+// Layer blend mode - names match CanvasRenderingContext2D.globalCompositeOperation
+// ('normal' maps to 'source-over')
+export type BlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion'
+  | 'hue'
+  | 'saturation'
+  | 'color'
+  | 'luminosity';
+
 // Layer representation
 export interface Layer {
   id: string; // UUID
@@ -32,8 +60,10 @@ export interface Layer {
   visible: boolean;
   locked: boolean;
   opacity: number; // 0.0 to 1.0 (1.0 = fully opaque)
+  blendMode?: BlendMode; // How the layer mixes with layers below (undefined = 'normal')
   width: number; // Image width in pixels
   height: number; // Image height in pixels
+  groupId?: string; // Parent LayerGroup id (undefined = top level)
   
   // Optional text layer metadata (enables re-editing)
   textContent?: string; // Original text content with \n for line breaks
@@ -52,6 +82,85 @@ export interface Layer {
   lineHeight?: number; // Text line height
   letterSpacing?: number; // Text letter spacing
   fontWeight?: 'normal' | 'bold' | 'lighter'; // Text font weight
+
+  // Optional non-destructive effect stack (imageData holds the rendered result)
+  effects?: LayerEffect[]; // Applied bottom-up: effects[0] runs first
+  effectSource?: EffectSourceImage; // Original image the stack renders from
+}
+
+// Original (pre-effect) image of a layer with an effect stack
+export interface EffectSourceImage {
+  imageData: string; // Base64 data URI
+  width: number;
+  height: number;
+}
+
+// Effect stack entries - every entry can be toggled, reordered and edited
+export type LayerEffectType = 'crop' | 'transparency-mask' | 'bg-removal' | 'pixelate' | 'color-adjust';
+
+export interface LayerEffectBase {
+  id: string;
+  enabled: boolean; // Disabled entries are skipped when rendering
+}
+
+export interface CropEffect extends LayerEffectBase {
+  type: 'crop';
+  x: number; // Crop rectangle in the effect's input pixels
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TransparencyMaskEffect extends LayerEffectBase {
+  type: 'transparency-mask';
+  threshold: number; // Alpha threshold (0-255)
+  useTemplatePalette: boolean; // Map newly opaque pixels to existing opaque colors
+}
+
+export interface BgRemovalEffect extends LayerEffectBase {
+  type: 'bg-removal';
+  mask: string; // PNG data URI, alpha channel = kept alpha (scaled to the input size)
+}
+
+export interface PixelateEffect extends LayerEffectBase {
+  type: 'pixelate';
+  settings: Record<string, unknown>; // Pixelator modal settings (preset shape plus target size and palette mode)
+  workerSettings: Record<string, unknown>; // Resolved settings posted to the pixelator worker (without the sampling mask)
+  samplingMask?: string; // PNG data URI of the sampling mask, stored in the alpha channel
+}
+
+// Limited inventory of one palette color for the pixelator, keyed by '#RRGGBB'
+export interface ColorBudget {
+  limit: number | null; // Pixels available; null = unlimited
+  cost: number; // Price of one pixel, summed into the total cost
+}
+
+export interface ColorAdjustEffect extends LayerEffectBase {
+  type: 'color-adjust';
+  brightness: number; // -100 to 100
+  contrast: number; // -100 to 100
+  saturation: number; // -100 to 100
+  hue: number; // Hue rotation in degrees (-180 to 180)
+}
+
+export type LayerEffect =
+  | CropEffect
+  | TransparencyMaskEffect
+  | BgRemovalEffect
+  | PixelateEffect
+  | ColorAdjustEffect;
+
+// Layer group (folder) - layers reference their group via Layer.groupId.
+// A group's layers always occupy one contiguous zIndex range, so the flat
+// zIndex order doubles as the tree order.
+export interface LayerGroup {
+  id: string;
+  name: string;
+  parentId?: string; // Enclosing group id (undefined = top level)
+  visible: boolean; // Hides all descendants when false
+  locked: boolean; // Locks all descendants when true
+  opacity: number; // 0.0 to 1.0, multiplied into every descendant's opacity
+  collapsed: boolean; // Layer panel display state
 }
 
 // Viewport state
@@ -69,16 +178,80 @@ export interface GridConfig {
 
 // Ruler configuration
 export interface Guide {
-  axis: 'x' | 'y';
-  position: number;
+  axis: 'x' | 'y'; // 'x' = vertical line at x = position, 'y' = horizontal line at y = position
+  position: number; // Canvas pixels (whole numbers, on pixel boundaries)
   id: string;
+  locked?: boolean; // Locked guides can't be moved or deleted
 }
 
 export interface RulerConfig {
-  enabled: boolean;
+  enabled: boolean; // Shows the rulers and guides; guides only snap while shown
   guides: Guide[];
 }
 
+// Animation: each frame is a set of layer visibility/position states.
+// The active frame's states live on the layers themselves; switching frames
+// stores them back into the frame being left and applies the next one.
+export type AnimationMode = 'states' | 'layer-per-frame';
+
+export interface FrameLayerState {
+  visible: boolean;
+  x: number;
+  y: number;
+}
+
+export interface AnimationFrame {
+  id: string;
+  duration: number; // Milliseconds the frame is shown
+  layers: Record<string, FrameLayerState>; // 'states' mode: state per layer id (layers missing here keep their current state)
+  layerId?: string; // 'layer-per-frame' mode: the one frame layer shown in this frame
+}
+
+export interface AnimationConfig {
+  mode: AnimationMode; // 'layer-per-frame' shows one frame layer at a time; layers not used by any frame stay as they are
+  frames: AnimationFrame[];
+  activeFrameId: string | null; // Frame whose states the layers currently show
+  loopCount: number; // 0 = loop forever
+}
+
+// Smart-snap feedback while dragging layers (canvas pixels)
+export interface SnapLine {
+  axis: 'x' | 'y'; // 'x' = vertical line at x = position
+  position: number;
+  start: number; // Extent along the line, covering the dragged box and what it aligned with
+  end: number;
+}
+
+export interface SnapGap {
+  axis: 'x' | 'y'; // 'x' = horizontal distance, measured from start to end along x
+  start: number;
+  end: number;
+  at: number; // Position across the measurement (the alignment line it belongs to)
+}
+
+export interface DragSnap {
+  x: string | null; // What the horizontal position snapped to, e.g. "canvas center"
+  y: string | null;
+  lines: SnapLine[];
+  gaps: SnapGap[];
+}
+
+// Canvas resize anchor: the part of the canvas that stays put (compass points)
+export type CanvasAnchor = 'nw' | 'n' | 'ne' | 'w' | 'center' | 'e' | 'sw' | 's' | 'se';
+
+// Pixel-exact layer transforms (applied to imageData, width/height follow)
+export type RotateAlgorithm = 'rotsprite' | 'nearest'; // RotSprite keeps pixel-art edges clean; nearest is plain sampling
+export type LayerTransform =
+  | { type: 'flip'; axis: 'x' | 'y' } // 'x' mirrors left-right, 'y' top-bottom
+  | { type: 'rotate'; quarterTurns: 1 | 2 | 3 } // Clockwise 90/180/270
+  | { type: 'scale'; factor: number } // Whole number (2, 3) to upscale, 1/n (0.5) to downscale
+  | { type: 'free-rotate'; degrees: number; algorithm: RotateAlgorithm }; // Clockwise, any angle
+
+// Align / distribute for selected layers
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type AlignReference = 'selection' | 'canvas' | 'key-layer'; // What layers are aligned to
+export type DistributeMode = 'centers' | 'gaps'; // Even spacing of centers, or equal space between layers
+
 // Project metadata
 export interface ProjectMetadata {
   author: string;
@@ -97,6 +270,9 @@ export interface ProjectData {
   grid: GridConfig;
   rulers: RulerConfig;
   layers: Layer[];
+  groups?: LayerGroup[]; // Optional: absent in flat (pre-group) project files
+  animation?: AnimationConfig; // Optional: absent until the first frame is added
+  palette?: string[]; // Project palette ('#RRGGBB'), e.g. for indexed export; absent until one is set
   metadata: ProjectMetadata;
 }
 
@@ -108,31 +284,107 @@ export interface AppState {
   history: HistoryState;
   ui: UIState;
   _lastHistoryPushAt?: number; // Internal: timestamp of last manual history push, used to prevent double-pushing
+  _pendingHistoryLabel?: string; // Internal: label for the next history entry, consumed by pushHistory
 }
 
 // History tracking
+// Layer snapshot stored in history: pixels are referenced by content hash
+// instead of carrying a full copy of the base64 image
+export type HistoryLayer = Omit<Layer, 'imageData'> & {
+  imageHash: string; // Key into HistoryState.images
+};
+
+export interface HistoryEntry {
+  id: string;
+  label: string; // Human-readable description, e.g. "Move 3 layers" or "Crop"
+  timestamp: number; // Date.now() when the entry was recorded
+  checkpoint?: string; // Name of a pinned checkpoint - pinned entries are never evicted by maxSteps
+  project: Omit<ProjectData, 'layers' | 'viewport'>; // Viewport is never part of history
+  layers: HistoryLayer[]; // Unchanged layers share the same object with the previous entry
+}
+
+// A redo line that was abandoned by editing after an undo/jump, kept so it can be restored
+export interface HistoryBranch {
+  id: string;
+  label: string;
+  createdAt: number;
+  entries: HistoryEntry[]; // Whole line in chronological order (oldest first)
+}
+
 export interface HistoryState {
-  past: ProjectData[];
-  future: ProjectData[];
-  maxSteps: number;
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  branches: HistoryBranch[]; // Newest last; beyond MAX_HISTORY_BRANCHES the oldest unpinned ones are dropped
+  undoneTo?: HistoryEntry; // State the last undo/redo landed on - on neither stack until the next push
+  images: Record<string, string>; // Content hash -> base64 data URI, stored once for all entries
+  maxSteps: number; // Counts unpinned entries only
+}
+
+// Canvas tools - the pixel tools edit the selected layer at its own resolution
+export type PixelTool = 'pencil' | 'eraser' | 'fill' | 'eyedropper';
+export type SelectionTool = 'marquee-rect' | 'marquee-ellipse' | 'lasso' | 'magic-wand';
+export type ActiveTool = 'select' | 'pan' | 'zoom' | PixelTool | SelectionTool;
+
+// How a new pixel selection combines with the current one
+export type SelectionMode = 'replace' | 'add' | 'subtract' | 'intersect';
+
+// Pixel selection on the canvas, in canvas pixels
+// Applies to whichever single layer is selected when an operation runs
+export interface PixelSelection {
+  x: number; // Left of the mask in canvas pixels
+  y: number; // Top of the mask in canvas pixels
+  width: number;
+  height: number;
+  mask: Uint8Array; // width * height, 1 = selected
 }
 
 // UI state
+// Progress against a snapshot of the live canvas (not saved with the project)
+export interface ProgressReport {
+  snapshotName: string;
+  total: number; // Opaque design pixels
+  done: number; // Snapshot shows the design color
+  wrong: number; // Snapshot shows another color
+  missing: number; // Snapshot is empty there or does not cover it
+  colors: { color: string; total: number; remaining: number }[]; // Most remaining first
+  overlay: string; // Canvas-sized data URL: green done, red wrong, yellow missing
+}
+
 export interface UIState {
-  activeTool: 'select' | 'pan' | 'zoom';
+  activeTool: ActiveTool;
+  primaryColor: string; // Hex color painted with the left mouse button
+  secondaryColor: string; // Hex color painted with the right mouse button
+  brushSize: number; // Pencil/eraser square size in pixels
+  pixelPerfect: boolean; // Remove L-shaped corners from 1px pencil/eraser strokes
+  fillTolerance: number; // 0-255 max per-channel difference for bucket fill
+  fillContiguous: boolean; // When false, bucket fill replaces the color across the whole layer
+  pixelSelection: PixelSelection | null; // Marching-ants selection, never part of history
+  selectionMode: SelectionMode; // Default combine mode (Shift adds, Alt subtracts, both intersect)
+  wandTolerance: number; // 0-255 max per-channel difference for the magic wand
+  wandContiguous: boolean; // When false, the magic wand selects the color across the whole layer
+  alignReference: AlignReference;
+  alignKeyLayerId: string | null; // Key layer for 'key-layer' alignment; falls back to the first selected layer
+  pickAlphaThreshold: number; // Clicks pass through layer pixels with alpha at or below this (0-254)
   leftClickPan: boolean; // When true, left-click pans and middle-click drags layers
   spaceHeld: boolean; // When true, temporarily inverts leftClickPan behavior
   showRulers: boolean;
+  showTimeline: boolean;
+  onionSkin: boolean; // Show the previous animation frame faintly under the current one
+  progress: ProgressReport | null; // Last comparison with a snapshot of the live canvas
+  showProgressOverlay: boolean; // Draw the progress overlay over the canvas
+  showHistoryPanel: boolean;
   showSelectionBorders: boolean;
   showSelectionTools: boolean; // Show edit/delete/visibility icons on selected layers
   selectionBorderAnimationSpeed: number; // 0 = no movement, 1 = max speed
   clipboardLayers: Layer[];
+  clipboardGroups: LayerGroup[]; // Groups referenced by clipboardLayers, recreated on paste
   isDraggingLayer: boolean;
   dragLayerId: string | null;
   dragStartX: number;
   dragStartY: number;
   dragOffsetX: number; // Temporary offset during drag - not part of history
   dragOffsetY: number; // Temporary offset during drag - not part of history
+  dragSnap: DragSnap | null; // What the current drag snapped to, for the alignment overlay
 }
 
 // Linked project format (post-MVP)
@@ -0,0 +1,100 @@
+/**
+ * Align and distribute utilities
+ * Compute new whole-pixel positions for layers; the store applies them
+ */
+
+import { AlignEdge, DistributeMode, Layer } from '../types/compositor.types';
+import { Bounds } from './snapping';
+
+export type LayerPosition = { x: number; y: number };
+
+export const ALIGN_EDGE_LABELS: Record<AlignEdge, string> = {
+  left: 'left',
+  center: 'to horizontal centers',
+  right: 'right',
+  top: 'top',
+  middle: 'to vertical centers',
+  bottom: 'bottom',
+};
+
+function getLayerBounds(layer: Layer): Bounds {
+  return { x: Math.floor(layer.x), y: Math.floor(layer.y), width: layer.width, height: layer.height };
+}
+
+/**
+ * Align layers to an edge or center of a reference box
+ * @returns New positions by layer id (only layers that move)
+ */
+export function alignLayers(layers: Layer[], edge: AlignEdge, reference: Bounds): Map<string, LayerPosition> {
+  const positions = new Map<string, LayerPosition>();
+
+  for (const layer of layers) {
+    const { x, y, width, height } = getLayerBounds(layer);
+    let next = { x, y };
+    switch (edge) {
+      case 'left':
+        next = { x: reference.x, y };
+        break;
+      case 'center':
+        next = { x: Math.round(reference.x + (reference.width - width) / 2), y };
+        break;
+      case 'right':
+        next = { x: reference.x + reference.width - width, y };
+        break;
+      case 'top':
+        next = { x, y: reference.y };
+        break;
+      case 'middle':
+        next = { x, y: Math.round(reference.y + (reference.height - height) / 2) };
+        break;
+      case 'bottom':
+        next = { x, y: reference.y + reference.height - height };
+        break;
+    }
+    if (next.x !== x || next.y !== y) positions.set(layer.id, next);
+  }
+  return positions;
+}
+
+/**
+ * Spread layers evenly between the outermost two along one axis
+ * @param mode - 'centers' spaces the centers evenly, 'gaps' makes the space between neighbours equal
+ * @returns New positions by layer id (only layers that move); empty for fewer than 3 layers
+ */
+export function distributeLayers(layers: Layer[], axis: 'x' | 'y', mode: DistributeMode): Map<string, LayerPosition> {
+  const positions = new Map<string, LayerPosition>();
+  if (layers.length < 3) return positions;
+
+  const items = layers.map((layer) => {
+    const bounds = getLayerBounds(layer);
+    const start = axis === 'x' ? bounds.x : bounds.y;
+    const size = axis === 'x' ? bounds.width : bounds.height;
+    return { layer, bounds, start, size };
+  });
+  items.sort((a, b) => a.start + a.size / 2 - (b.start + b.size / 2));
+
+  const first = items[0];
+  const last = items[items.length - 1];
+  const steps = items.length - 1;
+
+  let cursor = first.start + first.size;
+  const gap = mode === 'gaps'
+    ? (last.start + last.size - first.start - items.reduce((sum, item) => sum + item.size, 0)) / steps
+    : 0;
+  const firstCenter = first.start + first.size / 2;
+  const centerStep = (last.start + last.size / 2 - firstCenter) / steps;
+
+  items.forEach((item, i) => {
+    if (i === 0 || i === steps) return;
+    let start: number;
+    if (mode === 'gaps') {
+      start = Math.round(cursor + gap);
+      cursor += gap + item.size;
+    } else {
+      start = Math.round(firstCenter + centerStep * i - item.size / 2);
+    }
+    if (start === item.start) return;
+    positions.set(item.layer.id, axis === 'x' ? { x: start, y: item.bounds.y } : { x: item.bounds.x, y: start });
+  });
+  return positions;
+}
@@ -0,0 +1,110 @@
+/**
+ * Animation frame utilities
+ * Frames store layer visibility/position states. The layers themselves always
+ * show the active frame, so the active frame's stored states can be stale:
+ * they are captured from the layers whenever another frame becomes active.
+ */
+
+import { AnimationConfig, AnimationFrame, FrameLayerState, Layer } from '../types/compositor.types';
+
+// Frame duration used for new frames and imported ones without timing
+export const DEFAULT_FRAME_DURATION = 100;
+
+// GIF delays are stored in centiseconds and browsers slow down anything faster than 20ms
+export const MIN_FRAME_DURATION = 20;
+
+export interface RenderedFrame {
+  pixels: ImageData;
+  duration: number; // Milliseconds
+}
+
+export function createFrameId(): string {
+  return `frame_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Current visibility and position of every layer, keyed by layer id
+ */
+export function captureFrameLayers(layers: Layer[]): Record<string, FrameLayerState> {
+  const states: Record<string, FrameLayerState> = {};
+  for (const layer of layers) {
+    states[layer.id] = { visible: layer.visible, x: layer.x, y: layer.y };
+  }
+  return states;
+}
+
+/**
+ * Store the layers' current states into the active frame ('states' mode only;
+ * in 'layer-per-frame' mode a frame is fully described by its layer id)
+ */
+export function captureActiveFrame(animation: AnimationConfig, layers: Layer[]): AnimationConfig {
+  if (animation.mode !== 'states' || !animation.activeFrameId) return animation;
+  return {
+    ...animation,
+    frames: animation.frames.map((frame) =>
+      frame.id === animation.activeFrameId ? { ...frame, layers: captureFrameLayers(layers) } : frame
+    ),
+  };
+}
+
+/**
+ * Layers as they appear in a frame
+ * Layers the frame knows nothing about keep their current state.
+ */
+export function applyFrameToLayers(layers: Layer[], animation: AnimationConfig, frame: AnimationFrame): Layer[] {
+  if (animation.mode === 'layer-per-frame') {
+    // Only layers used by some frame are switched; the rest (backgrounds) always show
+    const frameLayerIds = new Set(animation.frames.map((f) => f.layerId).filter(Boolean));
+    return layers.map((layer) => {
+      if (!frameLayerIds.has(layer.id)) return layer;
+      const visible = layer.id === frame.layerId;
+      return layer.visible === visible ? layer : { ...layer, visible };
+    });
+  }
+
+  return layers.map((layer) => {
+    const state = frame.layers[layer.id];
+    if (!state || (state.visible === layer.visible && state.x === layer.x && state.y === layer.y)) return layer;
+    return { ...layer, ...state };
+  });
+}
+
+/**
+ * Layers of any frame without switching to it (the active frame is the layers as they are)
+ */
+export function getFrameLayers(layers: Layer[], animation: AnimationConfig, frameId: string): Layer[] {
+  const frame = animation.frames.find((f) => f.id === frameId);
+  if (!frame || (frameId === animation.activeFrameId && animation.mode === 'states')) return layers;
+  return applyFrameToLayers(layers, animation, frame);
+}
+
+/**
+ * Shift stored frame positions along with layers moved outside the frame model
+ * (canvas resize or trim, layer trim or transform)
+ * @param layerIds - Layers to shift; all of them when omitted
+ */
+export function offsetFrameLayers(
+  animation: AnimationConfig,
+  dx: number,
+  dy: number,
+  layerIds?: string[]
+): AnimationConfig {
+  if (dx === 0 && dy === 0) return animation;
+  return {
+    ...animation,
+    frames: animation.frames.map((frame) => {
+      const states: Record<string, FrameLayerState> = {};
+      for (const [id, state] of Object.entries(frame.layers)) {
+        states[id] = !layerIds || layerIds.includes(id) ? { ...state, x: state.x + dx, y: state.y + dy } : state;
+      }
+      return { ...frame, layers: states };
+    }),
+  };
+}
+
+/**
+ * Total running time of an animation in milliseconds
+ */
+export function getAnimationDuration(animation: AnimationConfig): number {
+  return animation.frames.reduce((sum, frame) => sum + frame.duration, 0);
+}
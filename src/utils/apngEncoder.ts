@@ -0,0 +1,80 @@
+/**
+ * Animated PNG encoding
+ * Writes full-canvas RGBA frames (8-bit, lossless, partial alpha kept). The
+ * first frame doubles as the still image shown by viewers without APNG support.
+ */
+
+import { RenderedFrame } from './animation';
+import { PNG_SIGNATURE, createIHDR, pngChunk, zlibCompress } from './png';
+
+/**
+ * RGBA scanlines, each prefixed with filter type 0 (none)
+ */
+function rawScanlines(pixels: ImageData) {
+  const { width, height, data } = pixels;
+  const rowBytes = width * 4;
+  const raw = new Uint8Array((rowBytes + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(data.subarray(y * rowBytes, (y + 1) * rowBytes), y * (rowBytes + 1) + 1);
+  }
+  return raw;
+}
+
+/**
+ * fcTL chunk data: a full-canvas frame that replaces the previous one
+ */
+function frameControl(sequence: number, width: number, height: number, duration: number) {
+  const data = new Uint8Array(26);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, sequence);
+  view.setUint32(4, width);
+  view.setUint32(8, height);
+  // x/y offsets stay 0
+  view.setUint16(20, Math.min(0xffff, Math.max(1, Math.round(duration)))); // Delay numerator...
+  view.setUint16(22, 1000); // ...over a millisecond denominator
+  data[24] = 0; // Dispose: none (the next frame covers everything)
+  data[25] = 0; // Blend: source, so transparent pixels replace the previous frame
+  return data;
+}
+
+/**
+ * Encode frames as an animated PNG
+ * All frames must have the same size.
+ * @param loopCount - Times the animation plays; 0 loops forever
+ */
+export async function encodeAPNG(frames: RenderedFrame[], loopCount: number): Promise<Blob> {
+  if (frames.length === 0) throw new Error('No frames to export');
+  const { width, height } = frames[0].pixels;
+
+  const actl = new Uint8Array(8);
+  const actlView = new DataView(actl.buffer);
+  actlView.setUint32(0, frames.length);
+  actlView.setUint32(4, loopCount);
+
+  const parts = [
+    new Uint8Array(PNG_SIGNATURE),
+    pngChunk('IHDR', createIHDR(width, height, 8, 6)), // Color type 6: RGBA
+    pngChunk('acTL', actl),
+  ];
+
+  // fcTL and fdAT chunks share one sequence counter
+  let sequence = 0;
+  for (let i = 0; i < frames.length; i++) {
+    const { pixels, duration } = frames[i];
+    if (pixels.width !== width || pixels.height !== height) throw new Error('All frames must have the same size');
+
+    parts.push(pngChunk('fcTL', frameControl(sequence++, width, height, duration)));
+    const compressed = await zlibCompress(rawScanlines(pixels));
+    if (i === 0) {
+      parts.push(pngChunk('IDAT', compressed));
+    } else {
+      const fdat = new Uint8Array(4 + compressed.length);
+      new DataView(fdat.buffer).setUint32(0, sequence++);
+      fdat.set(compressed, 4);
+      parts.push(pngChunk('fdAT', fdat));
+    }
+  }
+
+  parts.push(pngChunk('IEND', new Uint8Array(0)));
+  return new Blob(parts, { type: 'image/png' });
+}
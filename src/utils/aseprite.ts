@@ -0,0 +1,530 @@
+/**
+ * Aseprite (.ase/.aseprite) import and export
+ * Reads the first frame of a sprite into layers and groups (RGBA, grayscale or
+ * indexed color), and writes a project back as a one-frame RGBA sprite with
+ * the same layer tree, names, order, offsets, opacity and blend modes.
+ * Format reference: https://github.com/aseprite/aseprite/blob/main/docs/ase-file-specs.md
+ */
+
+import { BlendMode, Layer, LayerGroup, ProjectData } from '../types/compositor.types';
+import { LayerTreeNode, buildLayerTree, createGroupId, normalizeLayerOrder } from './layerGroups';
+import { loadImagePixels, pixelsToDataUrl } from './pixelSelection';
+import { zlibCompress, zlibDecompress } from './png';
+
+const FILE_MAGIC = 0xa5e0;
+const FRAME_MAGIC = 0xf1fa;
+const HEADER_SIZE = 128;
+const FRAME_HEADER_SIZE = 16;
+
+const CHUNK_OLD_PALETTE = 0x0004;
+const CHUNK_LAYER = 0x2004;
+const CHUNK_CEL = 0x2005;
+const CHUNK_PALETTE = 0x2019;
+
+const HEADER_LAYER_OPACITY_VALID = 1;
+const HEADER_GROUP_OPACITY_VALID = 2;
+
+const LAYER_VISIBLE = 1;
+const LAYER_EDITABLE = 2;
+const LAYER_BACKGROUND = 8;
+const LAYER_COLLAPSED = 32;
+
+const LAYER_TYPE_IMAGE = 0;
+const LAYER_TYPE_GROUP = 1;
+const LAYER_TYPE_TILEMAP = 2;
+
+const CEL_RAW = 0;
+const CEL_LINKED = 1;
+const CEL_COMPRESSED = 2;
+
+// Aseprite blend mode ids in file order; addition, subtract and divide have no canvas equivalent
+const BLEND_MODES: (BlendMode | null)[] = [
+  'normal', 'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn',
+  'hard-light', 'soft-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity',
+  null, null, null,
+];
+
+export interface AsepriteImport {
+  width: number;
+  height: number;
+  layers: Layer[];
+  groups: LayerGroup[];
+  palette?: string[]; // Sprite palette ('#RRGGBB'); absent when the file has none
+  warnings: string[]; // Parts of the file that could not be imported as-is
+}
+
+interface AseLayer {
+  name: string;
+  flags: number;
+  type: number;
+  childLevel: number;
+  blendMode: number;
+  opacity: number; // 0-255
+}
+
+interface AseCel {
+  x: number;
+  y: number;
+  opacity: number; // 0-255
+  pixels: ImageData;
+}
+
+class AseReader {
+  private view: DataView;
+  pos = 0;
+
+  constructor(private bytes: Uint8Array<ArrayBuffer>) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private need(length: number) {
+    if (this.pos + length > this.bytes.length) throw new Error('Unexpected end of Aseprite data');
+  }
+
+  byte(): number {
+    this.need(1);
+    return this.bytes[this.pos++];
+  }
+
+  word(): number {
+    this.need(2);
+    const value = this.view.getUint16(this.pos, true);
+    this.pos += 2;
+    return value;
+  }
+
+  short(): number {
+    this.need(2);
+    const value = this.view.getInt16(this.pos, true);
+    this.pos += 2;
+    return value;
+  }
+
+  dword(): number {
+    this.need(4);
+    const value = this.view.getUint32(this.pos, true);
+    this.pos += 4;
+    return value;
+  }
+
+  read(length: number): Uint8Array<ArrayBuffer> {
+    this.need(length);
+    const out = this.bytes.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return out;
+  }
+
+  skip(length: number) {
+    this.need(length);
+    this.pos += length;
+  }
+
+  string(): string {
+    return new TextDecoder().decode(this.read(this.word()));
+  }
+}
+
+class AseWriter {
+  private bytes: number[] = [];
+
+  byte(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  word(value: number) {
+    this.bytes.push(value & 0xff, (value >> 8) & 0xff);
+  }
+
+  dword(value: number) {
+    this.word(value & 0xffff);
+    this.word((value >>> 16) & 0xffff);
+  }
+
+  zeros(length: number) {
+    for (let i = 0; i < length; i++) this.bytes.push(0);
+  }
+
+  string(value: string) {
+    const encoded = new TextEncoder().encode(value);
+    this.word(encoded.length);
+    this.bytes.push(...encoded);
+  }
+
+  toBytes() {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+function toHex(r: number, g: number, b: number) {
+  return `#${[r, g, b].map((c) => c.toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+}
+
+/**
+ * Convert cel pixels of any color mode to RGBA
+ */
+function celToImageData(
+  raw: Uint8Array,
+  width: number,
+  height: number,
+  colorDepth: number,
+  palette: Uint8Array,
+  transparentIndex: number,
+  isBackground: boolean,
+): ImageData {
+  const out = new Uint8ClampedArray(width * height * 4);
+  const bytesPerPixel = colorDepth / 8;
+  if (raw.length < width * height * bytesPerPixel) throw new Error('Aseprite cel data is truncated');
+
+  for (let i = 0; i < width * height; i++) {
+    const o = i * 4;
+    if (colorDepth === 32) {
+      out.set(raw.subarray(o, o + 4), o);
+    } else if (colorDepth === 16) {
+      out[o] = out[o + 1] = out[o + 2] = raw[i * 2];
+      out[o + 3] = raw[i * 2 + 1];
+    } else {
+      // The transparent index is a real color only on the background layer
+      const index = raw[i];
+      if (index === transparentIndex && !isBackground) continue;
+      out.set(palette.subarray(index * 4, index * 4 + 4), o);
+    }
+  }
+  return new ImageData(out, width, height);
+}
+
+/**
+ * Read an Aseprite file into project layers and groups
+ * Only the first frame is imported; cel opacity is folded into the layer opacity.
+ */
+export async function importAseprite(buffer: ArrayBuffer): Promise<AsepriteImport> {
+  const reader = new AseReader(new Uint8Array(buffer));
+  reader.dword(); // File size
+  if (reader.word() !== FILE_MAGIC) throw new Error('Not an Aseprite file');
+  const frameCount = reader.word();
+  const width = reader.word();
+  const height = reader.word();
+  const colorDepth = reader.word();
+  const headerFlags = reader.dword();
+  reader.skip(2 + 8); // Speed (deprecated) and two reserved DWORDs
+  const transparentIndex = reader.byte();
+  reader.skip(3);
+  const colorCount = reader.word() || 256;
+  reader.pos = HEADER_SIZE;
+
+  if (![8, 16, 32].includes(colorDepth)) throw new Error(`Unsupported Aseprite color depth ${colorDepth}`);
+  if (width === 0 || height === 0) throw new Error('Aseprite sprite has no size');
+
+  const warnings: string[] = [];
+  if (frameCount > 1) warnings.push(`Only the first of ${frameCount} frames was imported.`);
+
+  const aseLayers: AseLayer[] = [];
+  const cels = new Map<number, AseCel>();
+  // Indexed cels are converted once the palette (which may come later in the frame) is known
+  const indexedCels: { layerIndex: number; x: number; y: number; opacity: number; width: number; height: number; raw: Uint8Array }[] = [];
+  let palette = new Uint8Array(Math.max(256, colorCount) * 4);
+  let paletteSize = 0;
+  let hasNewPalette = false;
+
+  const frameStart = reader.pos;
+  const frameBytes = reader.dword();
+  if (reader.word() !== FRAME_MAGIC) throw new Error('Corrupt Aseprite frame header');
+  const oldChunkCount = reader.word();
+  reader.skip(2 + 2); // Duration and reserved
+  const newChunkCount = reader.dword();
+  const chunkCount = newChunkCount || oldChunkCount;
+
+  for (let c = 0; c < chunkCount && reader.pos < frameStart + frameBytes; c++) {
+    const chunkStart = reader.pos;
+    const chunkSize = reader.dword();
+    const chunkType = reader.word();
+
+    if (chunkType === CHUNK_LAYER) {
+      const flags = reader.word();
+      const type = reader.word();
+      const childLevel = reader.word();
+      reader.skip(4); // Default width and height (ignored)
+      const blendMode = reader.word();
+      const opacity = reader.byte();
+      reader.skip(3);
+      const name = reader.string();
+      aseLayers.push({ name, flags, type, childLevel, blendMode, opacity });
+    } else if (chunkType === CHUNK_CEL) {
+      const layerIndex = reader.word();
+      const x = reader.short();
+      const y = reader.short();
+      const opacity = reader.byte();
+      const celType = reader.word();
+      reader.skip(2 + 5); // Z-index and reserved
+      if (celType === CEL_RAW || celType === CEL_COMPRESSED) {
+        const celWidth = reader.word();
+        const celHeight = reader.word();
+        const data = reader.read(chunkStart + chunkSize - reader.pos);
+        const raw = celType === CEL_COMPRESSED ? await zlibDecompress(data) : data;
+        if (colorDepth === 8) {
+          indexedCels.push({ layerIndex, x, y, opacity, width: celWidth, height: celHeight, raw });
+        } else {
+          const pixels = celToImageData(raw, celWidth, celHeight, colorDepth, palette, transparentIndex, false);
+          cels.set(layerIndex, { x, y, opacity, pixels });
+        }
+      } else if (celType === CEL_LINKED) {
+        warnings.push('A linked cel in the first frame was skipped.');
+      }
+    } else if (chunkType === CHUNK_PALETTE) {
+      const size = reader.dword();
+      const first = reader.dword();
+      const last = reader.dword();
+      reader.skip(8);
+      if (last >= size || first > last) throw new Error('Corrupt Aseprite palette');
+      if (size * 4 > palette.length) {
+        const grown = new Uint8Array(size * 4);
+        grown.set(palette);
+        palette = grown;
+      }
+      for (let i = first; i <= last; i++) {
+        const entryFlags = reader.word();
+        palette.set(reader.read(4), i * 4);
+        if (entryFlags & 1) reader.string(); // Color name
+      }
+      paletteSize = size;
+      hasNewPalette = true;
+    } else if (chunkType === CHUNK_OLD_PALETTE && !hasNewPalette) {
+      // Superseded by the new palette chunk when a file has both
+      const packets = reader.word();
+      let index = 0;
+      for (let p = 0; p < packets; p++) {
+        index += reader.byte();
+        const count = reader.byte() || 256;
+        for (let i = 0; i < count && index < 256; i++, index++) {
+          palette.set([...reader.read(3), 255], index * 4);
+        }
+      }
+      paletteSize = Math.max(paletteSize, index);
+    }
+    reader.pos = chunkStart + chunkSize;
+  }
+
+  for (const cel of indexedCels) {
+    const isBackground = (aseLayers[cel.layerIndex]?.flags ?? 0) & LAYER_BACKGROUND;
+    const pixels = celToImageData(cel.raw, cel.width, cel.height, 8, palette, transparentIndex, isBackground !== 0);
+    cels.set(cel.layerIndex, { x: cel.x, y: cel.y, opacity: cel.opacity, pixels });
+  }
+
+  // Rebuild the tree: each layer belongs to the last group one child level above it
+  const layers: Layer[] = [];
+  const groups: LayerGroup[] = [];
+  const parents: (string | undefined)[] = [];
+  const unsupportedBlends = new Set<number>();
+  const layerOpacity = (aseLayer: AseLayer) =>
+    headerFlags & HEADER_LAYER_OPACITY_VALID ? aseLayer.opacity / 255 : 1;
+
+  for (let i = 0; i < aseLayers.length; i++) {
+    const aseLayer = aseLayers[i];
+    const parentId = aseLayer.childLevel > 0 ? parents[aseLayer.childLevel - 1] : undefined;
+    const visible = (aseLayer.flags & LAYER_VISIBLE) !== 0;
+    const locked = (aseLayer.flags & LAYER_EDITABLE) === 0;
+
+    if (aseLayer.type === LAYER_TYPE_GROUP) {
+      const id = createGroupId();
+      groups.push({
+        id,
+        name: aseLayer.name,
+        parentId,
+        visible,
+        locked,
+        opacity: headerFlags & HEADER_GROUP_OPACITY_VALID ? aseLayer.opacity / 255 : 1,
+        collapsed: (aseLayer.flags & LAYER_COLLAPSED) !== 0,
+      });
+      parents[aseLayer.childLevel] = id;
+      parents.length = aseLayer.childLevel + 1;
+      continue;
+    }
+    if (aseLayer.type !== LAYER_TYPE_IMAGE) {
+      const kind = aseLayer.type === LAYER_TYPE_TILEMAP ? 'Tilemap layer' : 'Layer of unknown type';
+      warnings.push(`${kind} '${aseLayer.name}' was skipped.`);
+      continue;
+    }
+
+    const blendMode = BLEND_MODES[aseLayer.blendMode] ?? 'normal';
+    if (!BLEND_MODES[aseLayer.blendMode]) unsupportedBlends.add(aseLayer.blendMode);
+
+    // Layers without a cel in the first frame keep their place as empty layers
+    const cel = cels.get(i);
+    const pixels = cel?.pixels ?? new ImageData(1, 1);
+    layers.push({
+      id: `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: aseLayer.name,
+      imageData: pixelsToDataUrl(pixels),
+      x: cel?.x ?? 0,
+      y: cel?.y ?? 0,
+      zIndex: layers.length,
+      visible,
+      locked,
+      opacity: layerOpacity(aseLayer) * ((cel?.opacity ?? 255) / 255),
+      blendMode: blendMode === 'normal' ? undefined : blendMode,
+      width: pixels.width,
+      height: pixels.height,
+      groupId: parentId,
+    });
+  }
+
+  if (unsupportedBlends.size > 0) {
+    warnings.push('Addition, subtract and divide blend modes are not supported and were set to normal.');
+  }
+
+  const colors: string[] = [];
+  for (let i = 0; i < paletteSize; i++) {
+    colors.push(toHex(palette[i * 4], palette[i * 4 + 1], palette[i * 4 + 2]));
+  }
+
+  return {
+    width,
+    height,
+    layers: normalizeLayerOrder(layers, groups),
+    groups,
+    palette: colors.length > 0 ? colors : undefined,
+    warnings,
+  };
+}
+
+/**
+ * Wrap chunk data with its size and type
+ */
+function chunk(type: number, data: Uint8Array): Uint8Array<ArrayBuffer> {
+  const header = new AseWriter();
+  header.dword(6 + data.length);
+  header.word(type);
+  const out = new Uint8Array(6 + data.length);
+  out.set(header.toBytes());
+  out.set(data, 6);
+  return out;
+}
+
+function layerChunk(name: string, type: number, childLevel: number, flags: number, blendMode: number, opacity: number) {
+  const w = new AseWriter();
+  w.word(flags);
+  w.word(type);
+  w.word(childLevel);
+  w.zeros(4); // Default width and height (ignored)
+  w.word(blendMode);
+  w.byte(Math.round(Math.min(1, Math.max(0, opacity)) * 255));
+  w.zeros(3);
+  w.string(name);
+  return chunk(CHUNK_LAYER, w.toBytes());
+}
+
+async function celChunk(layerIndex: number, x: number, y: number, pixels: ImageData) {
+  const w = new AseWriter();
+  w.word(layerIndex);
+  w.word(x); // SHORT: the low 16 bits of a negative number are its two's complement
+  w.word(y);
+  w.byte(255); // Cel opacity; the layer carries the opacity
+  w.word(CEL_COMPRESSED);
+  w.zeros(2 + 5); // Z-index and reserved
+  w.word(pixels.width);
+  w.word(pixels.height);
+  const header = w.toBytes();
+  const compressed = await zlibCompress(new Uint8Array(pixels.data));
+  const out = new Uint8Array(header.length + compressed.length);
+  out.set(header);
+  out.set(compressed, header.length);
+  return chunk(CHUNK_CEL, out);
+}
+
+function paletteChunk(colors: string[]) {
+  const w = new AseWriter();
+  w.dword(colors.length);
+  w.dword(0);
+  w.dword(colors.length - 1);
+  w.zeros(8);
+  for (const color of colors) {
+    const value = parseInt(color.replace('#', '').slice(0, 6), 16) || 0;
+    w.word(0); // No name
+    w.byte((value >> 16) & 0xff);
+    w.byte((value >> 8) & 0xff);
+    w.byte(value & 0xff);
+    w.byte(255);
+  }
+  return chunk(CHUNK_PALETTE, w.toBytes());
+}
+
+function checkRange(value: number, min: number, max: number, what: string) {
+  if (value < min || value > max) throw new Error(`${what} (${value}) is outside the range Aseprite files can store`);
+}
+
+/**
+ * Write a project as a one-frame RGBA Aseprite file
+ * Groups become Aseprite groups; each layer is one cel at its (floored) position.
+ */
+export async function exportAseprite(project: ProjectData): Promise<Blob> {
+  const { width, height } = project.canvas;
+  checkRange(width, 1, 0xffff, 'Canvas width');
+  checkRange(height, 1, 0xffff, 'Canvas height');
+
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  let layerIndex = 0;
+
+  // Aseprite lists layers bottom to top with each group before its children
+  const writeLevel = async (nodes: LayerTreeNode[], childLevel: number) => {
+    for (const node of nodes) {
+      if (node.type === 'group') {
+        const { group } = node;
+        const flags = (group.visible ? LAYER_VISIBLE : 0) | (group.locked ? 0 : LAYER_EDITABLE) | (group.collapsed ? LAYER_COLLAPSED : 0);
+        chunks.push(layerChunk(group.name, LAYER_TYPE_GROUP, childLevel, flags, 0, group.opacity));
+        layerIndex++;
+        await writeLevel(node.children, childLevel + 1);
+        continue;
+      }
+
+      const { layer } = node;
+      const x = Math.floor(layer.x);
+      const y = Math.floor(layer.y);
+      checkRange(x, -0x8000, 0x7fff, `Layer '${layer.name}' x position`);
+      checkRange(y, -0x8000, 0x7fff, `Layer '${layer.name}' y position`);
+      const pixels = await loadImagePixels(layer.imageData);
+      checkRange(pixels.width, 1, 0xffff, `Layer '${layer.name}' width`);
+      checkRange(pixels.height, 1, 0xffff, `Layer '${layer.name}' height`);
+
+      const flags = (layer.visible ? LAYER_VISIBLE : 0) | (layer.locked ? 0 : LAYER_EDITABLE);
+      const blendMode = Math.max(0, BLEND_MODES.indexOf(layer.blendMode ?? 'normal'));
+      chunks.push(layerChunk(layer.name, LAYER_TYPE_IMAGE, childLevel, flags, blendMode, layer.opacity));
+      chunks.push(await celChunk(layerIndex++, x, y, pixels));
+    }
+  };
+  // Temporary canvas preview layers are not part of the project
+  const layers = project.layers.filter(
+    (layer) => layer.id !== '__text_canvas_preview__' && layer.id !== '__shape_canvas_preview__'
+  );
+  await writeLevel(buildLayerTree(layers, project.groups), 0);
+
+  const palette = project.palette ?? [];
+  if (palette.length > 0) chunks.push(paletteChunk(palette));
+
+  const chunkBytes = chunks.reduce((sum, c) => sum + c.length, 0);
+
+  const frame = new AseWriter();
+  frame.dword(FRAME_HEADER_SIZE + chunkBytes);
+  frame.word(FRAME_MAGIC);
+  frame.word(Math.min(chunks.length, 0xffff));
+  frame.word(100); // Duration in ms
+  frame.zeros(2);
+  frame.dword(chunks.length);
+
+  const header = new AseWriter();
+  header.dword(HEADER_SIZE + FRAME_HEADER_SIZE + chunkBytes);
+  header.word(FILE_MAGIC);
+  header.word(1); // Frames
+  header.word(width);
+  header.word(height);
+  header.word(32); // RGBA
+  header.dword(HEADER_LAYER_OPACITY_VALID | HEADER_GROUP_OPACITY_VALID);
+  header.word(100); // Speed (deprecated)
+  header.zeros(8);
+  header.byte(0); // Transparent index (indexed sprites only)
+  header.zeros(3);
+  header.word(palette.length);
+  header.byte(1); // Pixel width and height: square pixels
+  header.byte(1);
+  header.zeros(HEADER_SIZE - 36); // Grid bounds (unset) and reserved
+
+  return new Blob([header.toBytes(), frame.toBytes(), ...chunks], { type: 'application/octet-stream' });
+}
@@ -3,7 +3,43 @@
  * Handles pixel-perfect rendering operations
  */
 
-import { Layer, CanvasConfig, ViewportState } from '../types/compositor.types';
+import { Layer, CanvasConfig, ViewportState, BlendMode } from '../types/compositor.types';
+
+// Blend modes offered in the property panel, in menu order
+export const BLEND_MODES: { value: BlendMode; label: string }[] = [
+  { value: 'normal', label: 'Normal' },
+  { value: 'multiply', label: 'Multiply' },
+  { value: 'screen', label: 'Screen' },
+  { value: 'overlay', label: 'Overlay' },
+  { value: 'darken', label: 'Darken' },
+  { value: 'lighten', label: 'Lighten' },
+  { value: 'color-dodge', label: 'Color Dodge' },
+  { value: 'color-burn', label: 'Color Burn' },
+  { value: 'hard-light', label: 'Hard Light' },
+  { value: 'soft-light', label: 'Soft Light' },
+  { value: 'difference', label: 'Difference' },
+  { value: 'exclusion', label: 'Exclusion' },
+  { value: 'hue', label: 'Hue' },
+  { value: 'saturation', label: 'Saturation' },
+  { value: 'color', label: 'Color' },
+  { value: 'luminosity', label: 'Luminosity' },
+];
+
+/**
+ * Map a layer blend mode to the canvas composite operation
+ * Every renderer and exporter must draw layers through this so the canvas
+ * and the exported PNG blend identically
+ */
+export function getCompositeOperation(blendMode?: BlendMode): GlobalCompositeOperation {
+  return !blendMode || blendMode === 'normal' ? 'source-over' : blendMode;
+}
+
+/**
+ * Check whether any visible layer uses a blend mode other than normal
+ */
+export function hasBlendedLayers(layers: Pick<Layer, 'visible' | 'blendMode'>[]): boolean {
+  return layers.some((layer) => layer.visible && getCompositeOperation(layer.blendMode) !== 'source-over');
+}
 
 /**
  * Render all visible layers to a canvas context
@@ -50,6 +86,8 @@ export function renderCanvasContent(
   for (const layer of sortedLayers) {
     const img = loadedImages.get(layer.id);
     if (img && img.complete) {
+      ctx.globalAlpha = layer.opacity ?? 1;
+      ctx.globalCompositeOperation = getCompositeOperation(layer.blendMode);
       // Use floor to ensure integer positioning
       ctx.drawImage(img, Math.floor(layer.x), Math.floor(layer.y));
     }
@@ -58,32 +96,83 @@ export function renderCanvasContent(
   ctx.restore();
 }
 
+// Decoded alpha channels by layer id, replaced when the layer's image changes
+const alphaCache = new Map<string, { src: string; width: number; height: number; alpha: Uint8Array }>();
+
 /**
- * Get the layer at a specific canvas coordinate
- * Returns the topmost visible layer at that position, or null
+ * Alpha channel of a loaded layer image, decoded once per image
  */
-export function getLayerAtPoint(
+function getLayerAlpha(layerId: string, img: HTMLImageElement): { width: number; height: number; alpha: Uint8Array } | null {
+  const cached = alphaCache.get(layerId);
+  if (cached && cached.src === img.src) return cached;
+
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx || width === 0 || height === 0) return null;
+  ctx.drawImage(img, 0, 0);
+
+  const data = ctx.getImageData(0, 0, width, height).data;
+  const alpha = new Uint8Array(width * height);
+  for (let i = 0; i < alpha.length; i++) {
+    alpha[i] = data[i * 4 + 3];
+  }
+  const entry = { src: img.src, width, height, alpha };
+  alphaCache.set(layerId, entry);
+  return entry;
+}
+
+/**
+ * Get every visible layer under a canvas coordinate, topmost first
+ * Pixels with alpha at or below alphaThreshold are click-through. Layers
+ * whose image isn't loaded yet fall back to their bounding box.
+ */
+export function getLayersAtPoint(
   x: number,
   y: number,
-  layers: Layer[]
-): Layer | null {
+  layers: Layer[],
+  loadedImages?: Map<string, HTMLImageElement>,
+  alphaThreshold = 0
+): Layer[] {
+  // Drop cached alpha of layers that no longer exist
+  const layerIds = new Set(layers.map((layer) => layer.id));
+  for (const id of alphaCache.keys()) {
+    if (!layerIds.has(id)) alphaCache.delete(id);
+  }
+
   // Check in reverse order (top layer first)
   const sortedLayers = [...layers]
     .filter((layer) => layer.visible)
     .sort((a, b) => b.zIndex - a.zIndex);
 
-  for (const layer of sortedLayers) {
-    if (
-      x >= layer.x &&
-      x < layer.x + layer.width &&
-      y >= layer.y &&
-      y < layer.y + layer.height
-    ) {
-      return layer;
-    }
-  }
+  return sortedLayers.filter((layer) => {
+    // Layers are drawn at whole pixels
+    const px = Math.floor(x) - Math.floor(layer.x);
+    const py = Math.floor(y) - Math.floor(layer.y);
+    if (px < 0 || py < 0 || px >= layer.width || py >= layer.height) return false;
+
+    const img = loadedImages?.get(layer.id);
+    const decoded = img && img.complete ? getLayerAlpha(layer.id, img) : null;
+    if (!decoded || px >= decoded.width || py >= decoded.height) return true;
+    return decoded.alpha[py * decoded.width + px] > alphaThreshold;
+  });
+}
 
-  return null;
+/**
+ * Get the layer at a specific canvas coordinate
+ * Returns the topmost visible layer with a visible pixel at that position, or null
+ */
+export function getLayerAtPoint(
+  x: number,
+  y: number,
+  layers: Layer[],
+  loadedImages?: Map<string, HTMLImageElement>,
+  alphaThreshold = 0
+): Layer | null {
+  return getLayersAtPoint(x, y, layers, loadedImages, alphaThreshold)[0] ?? null;
 }
 
 /**
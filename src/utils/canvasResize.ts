@@ -0,0 +1,59 @@
+/**
+ * Canvas resize utilities
+ * Anchor offsets for resizing the canvas and opaque-pixel bounds for trimming
+ */
+
+import { CanvasAnchor } from '../types/compositor.types';
+import { Bounds } from './snapping';
+
+// Anchor grid in reading order (top-left to bottom-right)
+export const CANVAS_ANCHORS: CanvasAnchor[] = ['nw', 'n', 'ne', 'w', 'center', 'e', 'sw', 's', 'se'];
+
+// Fraction of the size change that goes before the content on each axis
+const ANCHOR_WEIGHTS: Record<CanvasAnchor, { ax: number; ay: number }> = {
+  nw: { ax: 0, ay: 0 }, n: { ax: 0.5, ay: 0 }, ne: { ax: 1, ay: 0 },
+  w: { ax: 0, ay: 0.5 }, center: { ax: 0.5, ay: 0.5 }, e: { ax: 1, ay: 0.5 },
+  sw: { ax: 0, ay: 1 }, s: { ax: 0.5, ay: 1 }, se: { ax: 1, ay: 1 },
+};
+
+/**
+ * How far existing content moves when the canvas is resized around an anchor
+ * (a centered anchor splits the change, rounding down)
+ */
+export function getAnchorOffset(
+  anchor: CanvasAnchor,
+  oldWidth: number,
+  oldHeight: number,
+  newWidth: number,
+  newHeight: number
+): { x: number; y: number } {
+  const { ax, ay } = ANCHOR_WEIGHTS[anchor];
+  return {
+    x: Math.floor((newWidth - oldWidth) * ax),
+    y: Math.floor((newHeight - oldHeight) * ay),
+  };
+}
+
+/**
+ * Bounds of the pixels that aren't fully transparent
+ * @returns null when every pixel is transparent
+ */
+export function getOpaqueBounds(pixels: ImageData): Bounds | null {
+  const { width, height, data } = pixels;
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
@@ -0,0 +1,74 @@
+/**
+ * Color matching
+ * Perceptual color distance shared by the pixelator worker and the progress
+ * tracker, so "same color" means the same thing in both.
+ */
+
+export interface RGB { r: number; g: number; b: number; }
+export interface OKLabColor { L: number; a: number; b: number; }
+
+/**
+ * Convert sRGB (0-255) to OKLab
+ */
+export function rgbToOklab(c: RGB): OKLabColor {
+  // sRGB → linear sRGB
+  let r = c.r / 255;
+  let g = c.g / 255;
+  let b = c.b / 255;
+  r = r >= 0.04045 ? Math.pow((r + 0.055) / 1.055, 2.4) : r / 12.92;
+  g = g >= 0.04045 ? Math.pow((g + 0.055) / 1.055, 2.4) : g / 12.92;
+  b = b >= 0.04045 ? Math.pow((b + 0.055) / 1.055, 2.4) : b / 12.92;
+
+  // linear sRGB → LMS (using Oklab M1 matrix)
+  const l_ = 0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b;
+  const m_ = 0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b;
+  const s_ = 0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b;
+
+  // LMS → LMS^(1/3)
+  const l3 = Math.cbrt(l_);
+  const m3 = Math.cbrt(m_);
+  const s3 = Math.cbrt(s_);
+
+  // LMS^(1/3) → OKLab
+  return {
+    L: 0.2104542553 * l3 + 0.7936177850 * m3 - 0.0040720468 * s3,
+    a: 1.9779984951 * l3 - 2.4285922050 * m3 + 0.4505937099 * s3,
+    b: 0.0259040371 * l3 + 0.7827717662 * m3 - 0.8086757660 * s3,
+  };
+}
+
+/**
+ * Convert OKLab back to sRGB (0-255, rounded and clamped to the gamut)
+ */
+export function oklabToRgb(c: OKLabColor): RGB {
+  // OKLab → LMS^(1/3)
+  const l3 = c.L + 0.3963377774 * c.a + 0.2158037573 * c.b;
+  const m3 = c.L - 0.1055613458 * c.a - 0.0638541728 * c.b;
+  const s3 = c.L - 0.0894841775 * c.a - 1.2914855480 * c.b;
+  const l_ = l3 * l3 * l3;
+  const m_ = m3 * m3 * m3;
+  const s_ = s3 * s3 * s3;
+
+  // LMS → linear sRGB → sRGB
+  const toSrgb = (v: number) => {
+    const x = v >= 0.0031308 ? 1.055 * Math.pow(v, 1 / 2.4) - 0.055 : 12.92 * v;
+    return Math.max(0, Math.min(255, Math.round(x * 255)));
+  };
+  return {
+    r: toSrgb(4.0767416621 * l_ - 3.3077115913 * m_ + 0.2309699292 * s_),
+    g: toSrgb(-1.2684380046 * l_ + 2.6097574011 * m_ - 0.3413193965 * s_),
+    b: toSrgb(-0.0041960863 * l_ - 0.7034186147 * m_ + 1.7076147010 * s_),
+  };
+}
+
+/**
+ * OKLab: Euclidean distance in OKLab space (modern perceptual)
+ * Scaled to the CIELAB ΔE range, so about 2 is a just-noticeable difference
+ */
+export function deltaE_OKLab(a: OKLabColor, b: OKLabColor): number {
+  const dL = a.L - b.L;
+  const da = a.a - b.a;
+  const db = a.b - b.b;
+  // Scale by 100 to make values comparable to CIELAB ΔE range
+  return Math.sqrt(dL * dL + da * da + db * db) * 100;
+}
@@ -0,0 +1,263 @@
+/**
+ * Animated GIF decoding
+ * Reads every frame of a GIF and composites it onto the logical screen the
+ * way browsers play it (disposal methods, transparency, interlacing), so each
+ * returned frame is the full image shown at that point of the animation.
+ */
+
+import { DEFAULT_FRAME_DURATION, RenderedFrame } from './animation';
+
+export interface DecodedGIF {
+  width: number;
+  height: number;
+  loopCount: number; // Times the animation plays; 0 loops forever
+  frames: RenderedFrame[];
+}
+
+interface ImageDescriptor {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  interlaced: boolean;
+  palette: Uint8Array;
+  minCodeSize: number;
+  data: Uint8Array;
+}
+
+// Delays of 0 or 10ms are played at 100ms by browsers; imports match what was seen
+const MIN_BROWSER_DELAY = 20;
+
+class GifReader {
+  private pos = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  get done() {
+    return this.pos >= this.bytes.length;
+  }
+
+  byte(): number {
+    if (this.pos >= this.bytes.length) throw new Error('Unexpected end of GIF data');
+    return this.bytes[this.pos++];
+  }
+
+  uint16(): number {
+    const low = this.byte();
+    return low | (this.byte() << 8);
+  }
+
+  read(length: number): Uint8Array {
+    if (this.pos + length > this.bytes.length) throw new Error('Unexpected end of GIF data');
+    const out = this.bytes.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return out;
+  }
+
+  /** Concatenated data of a sub-block sequence (up to the zero-length terminator) */
+  subBlocks(): Uint8Array {
+    const blocks: Uint8Array[] = [];
+    let total = 0;
+    for (let size = this.byte(); size > 0; size = this.byte()) {
+      blocks.push(this.read(size));
+      total += size;
+    }
+    const out = new Uint8Array(total);
+    let offset = 0;
+    for (const block of blocks) {
+      out.set(block, offset);
+      offset += block.length;
+    }
+    return out;
+  }
+}
+
+/**
+ * Decompress GIF LZW data into palette indices
+ */
+function lzwDecode(data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array {
+  const out = new Uint8Array(pixelCount);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  // Each code is stored as (prefix code, last index, length) for linear decoding
+  const prefix = new Int32Array(4096);
+  const suffix = new Uint8Array(4096);
+  const lengths = new Uint16Array(4096);
+  for (let i = 0; i < clearCode; i++) {
+    prefix[i] = -1;
+    suffix[i] = i;
+    lengths[i] = 1;
+  }
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let previous = -1;
+  let written = 0;
+  let buffer = 0;
+  let bits = 0;
+  let pos = 0;
+
+  while (written < pixelCount) {
+    while (bits < codeSize) {
+      if (pos >= data.length) return out; // Truncated frames keep the pixels decoded so far
+      buffer |= data[pos++] << bits;
+      bits += 8;
+    }
+    const code = buffer & ((1 << codeSize) - 1);
+    buffer >>>= codeSize;
+    bits -= codeSize;
+
+    if (code === clearCode) {
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+      previous = -1;
+      continue;
+    }
+    if (code === endCode) break;
+
+    // A code not yet in the table is the previous string plus its own first index
+    const known = code < nextCode;
+    if (!known && (code !== nextCode || previous < 0)) throw new Error('Corrupt GIF image data');
+    const entry = known ? code : previous;
+
+    // Write the string backwards from its last index
+    const length = lengths[entry];
+    const start = written;
+    let c = entry;
+    for (let i = length - 1; i >= 0; i--) {
+      if (start + i < pixelCount) out[start + i] = suffix[c];
+      c = prefix[c];
+    }
+    written += length;
+    const first = out[start];
+    if (!known && written < pixelCount) out[written++] = first;
+
+    if (previous >= 0 && nextCode < 4096) {
+      prefix[nextCode] = previous;
+      suffix[nextCode] = first;
+      lengths[nextCode] = lengths[previous] + 1;
+      nextCode++;
+      if (nextCode === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    previous = code;
+  }
+  return out;
+}
+
+/**
+ * Rows of an interlaced image in the order they are stored
+ */
+function interlacedRows(height: number): number[] {
+  const rows: number[] = [];
+  for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+    for (let y = start; y < height; y += step) rows.push(y);
+  }
+  return rows;
+}
+
+/**
+ * Decode an animated (or still) GIF into full-size frames with their delays
+ */
+export function decodeGIF(buffer: ArrayBuffer): DecodedGIF {
+  const reader = new GifReader(new Uint8Array(buffer));
+  const signature = String.fromCharCode(...reader.read(6));
+  if (signature !== 'GIF87a' && signature !== 'GIF89a') throw new Error('Not a GIF file');
+
+  const width = reader.uint16();
+  const height = reader.uint16();
+  const screenFlags = reader.byte();
+  reader.byte(); // Background color index: browsers show transparency instead
+  reader.byte(); // Pixel aspect ratio
+  const globalPalette = screenFlags & 0x80 ? reader.read(3 * (1 << ((screenFlags & 7) + 1))) : new Uint8Array(0);
+  if (width === 0 || height === 0) throw new Error('GIF has no size');
+
+  const frames: RenderedFrame[] = [];
+  const canvas = new Uint8ClampedArray(width * height * 4);
+  let loopCount = 1; // Without a NETSCAPE2.0 extension the animation plays once
+  let delay = 0;
+  let disposal = 0;
+  let transparentIndex = -1;
+
+  while (!reader.done) {
+    const block = reader.byte();
+    if (block === 0x3b) break; // Trailer
+
+    if (block === 0x21) {
+      const label = reader.byte();
+      const data = reader.subBlocks();
+      if (label === 0xf9 && data.length >= 4) {
+        // Graphic control extension applies to the next image
+        disposal = (data[0] >> 2) & 7;
+        delay = (data[1] | (data[2] << 8)) * 10;
+        transparentIndex = data[0] & 1 ? data[3] : -1;
+      } else if (label === 0xff && data.length >= 14) {
+        const id = String.fromCharCode(...data.subarray(0, 11));
+        if ((id === 'NETSCAPE2.0' || id === 'ANIMEXTS1.0') && data[11] === 1) {
+          // The stored count is repeats after the first play (0 = forever)
+          const repeats = data[12] | (data[13] << 8);
+          loopCount = repeats === 0 ? 0 : repeats + 1;
+        }
+      }
+      continue;
+    }
+
+    if (block !== 0x2c) throw new Error(`Unexpected GIF block 0x${block.toString(16)}`);
+
+    const left = reader.uint16();
+    const top = reader.uint16();
+    const frameWidth = reader.uint16();
+    const frameHeight = reader.uint16();
+    const flags = reader.byte();
+    const image: ImageDescriptor = {
+      left,
+      top,
+      width: frameWidth,
+      height: frameHeight,
+      interlaced: (flags & 0x40) !== 0,
+      palette: flags & 0x80 ? reader.read(3 * (1 << ((flags & 7) + 1))) : globalPalette,
+      minCodeSize: reader.byte(),
+      data: reader.subBlocks(),
+    };
+
+    // Disposal 3 restores what was under the frame, so keep a copy first
+    const previous = disposal === 3 ? canvas.slice() : null;
+    const indices = lzwDecode(image.data, image.minCodeSize, image.width * image.height);
+    const rows = image.interlaced ? interlacedRows(image.height) : null;
+
+    for (let row = 0; row < image.height; row++) {
+      const y = image.top + (rows ? rows[row] : row);
+      if (y >= height) continue;
+      for (let col = 0; col < image.width; col++) {
+        const x = image.left + col;
+        if (x >= width) continue;
+        const index = indices[row * image.width + col];
+        if (index === transparentIndex || index * 3 + 2 >= image.palette.length) continue;
+        const o = (y * width + x) * 4;
+        canvas[o] = image.palette[index * 3];
+        canvas[o + 1] = image.palette[index * 3 + 1];
+        canvas[o + 2] = image.palette[index * 3 + 2];
+        canvas[o + 3] = 255;
+      }
+    }
+
+    frames.push({
+      pixels: new ImageData(canvas.slice(), width, height),
+      duration: delay < MIN_BROWSER_DELAY ? DEFAULT_FRAME_DURATION : delay,
+    });
+
+    // Dispose before the next frame is drawn
+    if (disposal === 2) {
+      for (let y = image.top; y < Math.min(height, image.top + image.height); y++) {
+        canvas.fill(0, (y * width + image.left) * 4, (y * width + Math.min(width, image.left + image.width)) * 4);
+      }
+    } else if (disposal === 3 && previous) {
+      canvas.set(previous);
+    }
+    disposal = 0;
+    delay = 0;
+    transparentIndex = -1;
+  }
+
+  if (frames.length === 0) throw new Error('GIF contains no images');
+  return { width, height, loopCount, frames };
+}
@@ -0,0 +1,267 @@
+/**
+ * Animated GIF encoding
+ * Writes GIF89a files with one global palette shared by all frames. Frames
+ * with at most 256 colors (255 plus transparency) keep their exact colors;
+ * otherwise the palette is reduced by median cut without dithering, which
+ * suits pixel art. Pixels under half opacity become transparent.
+ */
+
+import { RenderedFrame } from './animation';
+
+const MAX_GIF_COLORS = 256;
+const MAX_LZW_CODE = 4096;
+
+// Alpha below this is written as the transparent index (GIF has no partial alpha)
+const ALPHA_THRESHOLD = 128;
+
+interface ColorBox {
+  colors: number[]; // 0xRRGGBB values
+  counts: number[];
+}
+
+function channel(rgb: number, shift: number): number {
+  return (rgb >> shift) & 0xff;
+}
+
+/**
+ * Reduce a color histogram to at most `maxColors` colors by median cut
+ * Boxes are split on their widest channel at the pixel-weighted median.
+ */
+function medianCut(histogram: Map<number, number>, maxColors: number): number[] {
+  const boxes: ColorBox[] = [{ colors: [...histogram.keys()], counts: [...histogram.values()] }];
+
+  while (boxes.length < maxColors) {
+    // Split the box with the widest channel range
+    let best = -1;
+    let bestRange = 0;
+    let bestShift = 0;
+    boxes.forEach((box, i) => {
+      if (box.colors.length < 2) return;
+      for (const shift of [16, 8, 0]) {
+        let min = 255;
+        let max = 0;
+        for (const rgb of box.colors) {
+          const value = channel(rgb, shift);
+          if (value < min) min = value;
+          if (value > max) max = value;
+        }
+        if (max - min > bestRange) {
+          best = i;
+          bestRange = max - min;
+          bestShift = shift;
+        }
+      }
+    });
+    if (best < 0) break;
+
+    const box = boxes[best];
+    const order = box.colors.map((_, i) => i).sort((a, b) => channel(box.colors[a], bestShift) - channel(box.colors[b], bestShift));
+    const total = box.counts.reduce((sum, count) => sum + count, 0);
+    let running = 0;
+    let split = 1;
+    for (let i = 0; i < order.length - 1; i++) {
+      running += box.counts[order[i]];
+      split = i + 1;
+      if (running >= total / 2) break;
+    }
+
+    const pick = (indices: number[]): ColorBox => ({
+      colors: indices.map((i) => box.colors[i]),
+      counts: indices.map((i) => box.counts[i]),
+    });
+    boxes.splice(best, 1, pick(order.slice(0, split)), pick(order.slice(split)));
+  }
+
+  // Each box becomes its pixel-weighted average color
+  return boxes.map((box) => {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    let total = 0;
+    box.colors.forEach((rgb, i) => {
+      const count = box.counts[i];
+      r += channel(rgb, 16) * count;
+      g += channel(rgb, 8) * count;
+      b += channel(rgb, 0) * count;
+      total += count;
+    });
+    return (Math.round(r / total) << 16) | (Math.round(g / total) << 8) | Math.round(b / total);
+  });
+}
+
+function nearestColor(rgb: number, palette: number[]): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let i = 0; i < palette.length; i++) {
+    const dr = channel(rgb, 16) - channel(palette[i], 16);
+    const dg = channel(rgb, 8) - channel(palette[i], 8);
+    const db = channel(rgb, 0) - channel(palette[i], 0);
+    const distance = dr * dr + dg * dg + db * db;
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Compress palette indices with GIF's variable-width LZW
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let buffer = 0;
+  let bits = 0;
+
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.push(buffer & 0xff);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_LZW_CODE) {
+      // Table full: start over rather than keep emitting 12-bit codes
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bits > 0) out.push(buffer & 0xff);
+  return out;
+}
+
+/**
+ * Split data into GIF sub-blocks (at most 255 bytes each, zero-terminated)
+ */
+function subBlocks(data: number[]) {
+  const out = new Uint8Array(data.length + Math.ceil(data.length / 255) + 1);
+  let o = 0;
+  for (let i = 0; i < data.length; i += 255) {
+    const length = Math.min(255, data.length - i);
+    out[o++] = length;
+    for (let j = 0; j < length; j++) out[o++] = data[i + j];
+  }
+  out[o] = 0;
+  return out;
+}
+
+function uint16(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff];
+}
+
+/**
+ * Encode frames as an animated GIF
+ * All frames must have the same size.
+ * @param loopCount - Times the animation plays; 0 loops forever
+ */
+export function encodeGIF(frames: RenderedFrame[], loopCount: number): Blob {
+  if (frames.length === 0) throw new Error('No frames to export');
+  const { width, height } = frames[0].pixels;
+  if (width > 0xffff || height > 0xffff) throw new Error('GIF images are limited to 65535×65535 pixels');
+
+  // One histogram across all frames so every frame shares the global palette
+  const histogram = new Map<number, number>();
+  let hasTransparent = false;
+  for (const { pixels } of frames) {
+    if (pixels.width !== width || pixels.height !== height) throw new Error('All frames must have the same size');
+    const { data } = pixels;
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < ALPHA_THRESHOLD) {
+        hasTransparent = true;
+        continue;
+      }
+      const rgb = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+      histogram.set(rgb, (histogram.get(rgb) ?? 0) + 1);
+    }
+  }
+
+  // Index 0 is reserved for transparency when any frame needs it
+  const offset = hasTransparent ? 1 : 0;
+  const maxColors = MAX_GIF_COLORS - offset;
+  const colors = histogram.size <= maxColors ? [...histogram.keys()] : medianCut(histogram, maxColors);
+  const exact = histogram.size <= maxColors;
+  const indexOf = new Map<number, number>();
+  if (exact) colors.forEach((rgb, i) => indexOf.set(rgb, i + offset));
+
+  const paletteSize = Math.max(colors.length + offset, 2);
+  let tableBits = 1;
+  while (1 << tableBits < paletteSize) tableBits++;
+  const minCodeSize = Math.max(2, tableBits);
+
+  // Headers are collected as numbers; the image data blocks are appended as they are
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  let bytes: number[] = [];
+  const ascii = (text: string) => bytes.push(...text.split('').map((c) => c.charCodeAt(0)));
+
+  // Header and logical screen descriptor with the global color table
+  ascii('GIF89a');
+  bytes.push(...uint16(width), ...uint16(height), 0x80 | ((tableBits - 1) << 4) | (tableBits - 1), 0, 0);
+  for (let i = 0; i < 1 << tableBits; i++) {
+    const rgb = i >= offset && i - offset < colors.length ? colors[i - offset] : 0;
+    bytes.push(channel(rgb, 16), channel(rgb, 8), channel(rgb, 0));
+  }
+
+  // NETSCAPE2.0 counts repeats after the first play, so a single play needs no extension
+  if (loopCount !== 1) {
+    bytes.push(0x21, 0xff, 0x0b);
+    ascii('NETSCAPE2.0');
+    bytes.push(0x03, 0x01, ...uint16(loopCount === 0 ? 0 : loopCount - 1), 0x00);
+  }
+
+  for (const { pixels, duration } of frames) {
+    const { data } = pixels;
+    const indices = new Uint8Array(width * height);
+    for (let p = 0; p < indices.length; p++) {
+      const i = p * 4;
+      if (data[i + 3] < ALPHA_THRESHOLD) continue; // Already 0, the transparent index
+      const rgb = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+      let index = indexOf.get(rgb);
+      if (index === undefined) {
+        index = nearestColor(rgb, colors) + offset;
+        indexOf.set(rgb, index);
+      }
+      indices[p] = index;
+    }
+
+    // Graphic control extension: restore to background after each frame, so
+    // transparent areas don't show the previous frame
+    const delay = Math.max(1, Math.round(duration / 10));
+    bytes.push(0x21, 0xf9, 0x04, (2 << 2) | (hasTransparent ? 1 : 0), ...uint16(delay), 0, 0x00);
+
+    // Image descriptor covering the full canvas, no local color table
+    bytes.push(0x2c, ...uint16(0), ...uint16(0), ...uint16(width), ...uint16(height), 0);
+    bytes.push(minCodeSize);
+    parts.push(new Uint8Array(bytes), subBlocks(lzwEncode(indices, minCodeSize)));
+    bytes = [];
+  }
+
+  parts.push(new Uint8Array([0x3b]));
+  return new Blob(parts, { type: 'image/gif' });
+}
@@ -0,0 +1,25 @@
+/**
+ * Ruler and guide utilities
+ * Guide ids and ruler tick spacing (snapping to guides lives in snapping.ts)
+ */
+
+// Ruler thickness in screen pixels (matches the canvas container padding)
+export const RULER_SIZE = 20;
+
+// Candidate spacings between labelled ruler ticks, in canvas pixels
+const RULER_STEPS = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000];
+
+/**
+ * Create a unique guide id
+ */
+export function createGuideId(): string {
+  return `guide_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Spacing of labelled ruler ticks so labels stay at least ~50 screen pixels apart
+ * @param scale - Screen pixels per canvas pixel
+ */
+export function getRulerStep(scale: number): number {
+  return RULER_STEPS.find((step) => step * scale >= 50) ?? RULER_STEPS[RULER_STEPS.length - 1];
+}
@@ -0,0 +1,463 @@
+/**
+ * History snapshot utilities
+ * Stores undo/redo entries with structural sharing: layer images are
+ * content-addressed (stored once by hash) and unchanged layer records are
+ * reused by reference between consecutive entries.
+ */
+
+import {
+  HistoryBranch,
+  HistoryEntry,
+  HistoryLayer,
+  HistoryState,
+  Layer,
+  LayerGroup,
+  ProjectData,
+} from '../types/compositor.types';
+
+// Abandoned redo lines kept around; the oldest branch without a checkpoint is dropped beyond this
+export const MAX_HISTORY_BRANCHES = 10;
+
+type ProjectWithoutViewport = Omit<ProjectData, 'viewport'>;
+
+/**
+ * Hash a string with cyrb53 (fast, 53-bit, non-cryptographic).
+ * The string length is folded into the key to make collisions even less likely.
+ */
+export function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return `${value.length.toString(36)}-${hash.toString(36)}`;
+}
+
+/**
+ * Store an image in the pool and return its key.
+ * Mutates `images` - callers pass a fresh copy.
+ */
+function internImage(dataUrl: string, images: Record<string, string>): string {
+  const baseKey = hashString(dataUrl);
+  let key = baseKey;
+  let probe = 1;
+  // Resolve the (very unlikely) case of two different images sharing a hash
+  while (images[key] !== undefined && images[key] !== dataUrl) {
+    key = `${baseKey}~${probe++}`;
+  }
+  images[key] = dataUrl;
+  return key;
+}
+
+function createHistoryId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Shallow-compare a live layer with a history record, ignoring the image fields
+ */
+function layerFieldsEqual(layer: Layer, record: HistoryLayer): boolean {
+  const layerKeys = Object.keys(layer).filter((k) => k !== 'imageData') as (keyof Omit<Layer, 'imageData'>)[];
+  const recordKeys = Object.keys(record).filter((k) => k !== 'imageHash');
+  if (layerKeys.length !== recordKeys.length) return false;
+  return layerKeys.every((key) => record[key] === layer[key]);
+}
+
+/**
+ * Describe what changed between two consecutive entries, e.g. "Move 3 layers"
+ */
+export function describeHistoryChange(
+  previous: HistoryEntry | undefined,
+  next: Pick<HistoryEntry, 'project' | 'layers'>
+): string {
+  if (!previous) return 'Initial state';
+
+  const previousById = new Map(previous.layers.map((record) => [record.id, record]));
+  const nextIds = new Set(next.layers.map((record) => record.id));
+  const added = next.layers.filter((record) => !previousById.has(record.id));
+  const removed = previous.layers.filter((record) => !nextIds.has(record.id));
+
+  if (added.length > 0) {
+    return added.length === 1 ? `Add layer '${added[0].name}'` : `Add ${added.length} layers`;
+  }
+  if (removed.length > 0) {
+    return removed.length === 1 ? `Delete layer '${removed[0].name}'` : `Delete ${removed.length} layers`;
+  }
+
+  const prevCanvas = previous.project.canvas;
+  const nextCanvas = next.project.canvas;
+  if (prevCanvas.width !== nextCanvas.width || prevCanvas.height !== nextCanvas.height) {
+    return 'Resize canvas';
+  }
+  if (JSON.stringify(prevCanvas) !== JSON.stringify(nextCanvas)) {
+    return 'Canvas settings';
+  }
+
+  // Collapsing a group in the layer panel is not an edit worth naming
+  const withoutCollapsed = (groups: LayerGroup[] = []) => groups.map((g) => ({ ...g, collapsed: false }));
+  const prevGroups = withoutCollapsed(previous.project.groups);
+  const nextGroups = withoutCollapsed(next.project.groups);
+  const addedGroup = nextGroups.find((g) => !prevGroups.some((p) => p.id === g.id));
+  const removedGroup = prevGroups.find((g) => !nextGroups.some((n) => n.id === g.id));
+  if (addedGroup) return `Create group '${addedGroup.name}'`;
+  if (removedGroup) return `Ungroup '${removedGroup.name}'`;
+  if (JSON.stringify(prevGroups) !== JSON.stringify(nextGroups)) {
+    const changed = nextGroups.find((g) => JSON.stringify(g) !== JSON.stringify(prevGroups.find((p) => p.id === g.id)));
+    return changed ? `Edit group '${changed.name}'` : 'Edit groups';
+  }
+
+  // Collect which fields changed across all modified layers
+  const changedLayers: HistoryLayer[] = [];
+  const changedFields = new Set<string>();
+  for (const record of next.layers) {
+    const prev = previousById.get(record.id);
+    if (!prev || prev === record) continue;
+    const keys = new Set([...Object.keys(prev), ...Object.keys(record)]);
+    let differs = false;
+    keys.forEach((key) => {
+      if (prev[key as keyof HistoryLayer] !== record[key as keyof HistoryLayer]) {
+        changedFields.add(key);
+        differs = true;
+      }
+    });
+    if (differs) changedLayers.push(record);
+  }
+
+  if (changedLayers.length === 0) {
+    if (previous.project.projectName !== next.project.projectName) return 'Rename project';
+    if (JSON.stringify(previous.project.grid) !== JSON.stringify(next.project.grid)) return 'Grid settings';
+    if (JSON.stringify(previous.project.rulers) !== JSON.stringify(next.project.rulers)) return 'Rulers & guides';
+    if (JSON.stringify(previous.project.palette) !== JSON.stringify(next.project.palette)) return 'Edit project palette';
+    if (JSON.stringify(previous.project.animation) !== JSON.stringify(next.project.animation)) return 'Edit animation';
+    return 'Snapshot';
+  }
+
+  const subject = changedLayers.length === 1
+    ? `layer '${changedLayers[0].name}'`
+    : `${changedLayers.length} layers`;
+  const only = (...fields: string[]) => [...changedFields].every((f) => fields.includes(f));
+
+  if (only('x', 'y')) return `Move ${subject}`;
+  if (only('zIndex')) return 'Reorder layers';
+  if (only('visible')) return `Toggle visibility of ${subject}`;
+  if (only('locked')) return `Toggle lock of ${subject}`;
+  if (only('opacity')) return `Change opacity of ${subject}`;
+  if (only('blendMode')) return `Change blend mode of ${subject}`;
+  if (only('name')) return changedLayers.length === 1 ? `Rename layer to '${changedLayers[0].name}'` : 'Rename layers';
+  if (changedFields.has('imageHash')) return `Edit pixels of ${subject}`;
+  return `Edit ${subject}`;
+}
+
+/**
+ * Convert a project into a history entry.
+ * Layers identical to those in `reference` reuse the reference's records,
+ * and images already in the pool are never hashed twice.
+ * Without an explicit label the change from `reference` is described automatically.
+ */
+export function createHistoryEntry(
+  project: ProjectData | ProjectWithoutViewport,
+  images: Record<string, string>,
+  reference?: HistoryEntry,
+  label?: string
+): HistoryEntry {
+  const { layers, ...rest } = project;
+  const projectMeta: Partial<ProjectData> = { ...rest };
+  delete projectMeta.viewport;
+
+  const referenceLayers = new Map<string, HistoryLayer>(
+    (reference?.layers ?? []).map((record) => [record.id, record])
+  );
+
+  const historyLayers = layers.map((layer): HistoryLayer => {
+    const previous = referenceLayers.get(layer.id);
+    // Same string reference (the common case) compares in O(1)
+    const sameImage = previous !== undefined && images[previous.imageHash] === layer.imageData;
+
+    if (previous && sameImage && layerFieldsEqual(layer, previous)) {
+      return previous;
+    }
+
+    const { imageData, ...fields } = layer;
+    return {
+      ...fields,
+      imageHash: sameImage && previous ? previous.imageHash : internImage(imageData, images),
+    };
+  });
+
+  const snapshot = {
+    project: projectMeta as Omit<ProjectData, 'layers' | 'viewport'>,
+    layers: historyLayers,
+  };
+
+  return {
+    id: createHistoryId('history'),
+    label: label ?? describeHistoryChange(reference, snapshot),
+    timestamp: Date.now(),
+    ...snapshot,
+  };
+}
+
+/**
+ * Rebuild a project (without viewport) from a history entry
+ */
+export function restoreHistoryEntry(
+  entry: HistoryEntry,
+  images: Record<string, string>
+): ProjectWithoutViewport {
+  return {
+    ...entry.project,
+    layers: entry.layers.map(({ imageHash, ...fields }) => ({
+      ...fields,
+      imageData: images[imageHash] ?? '',
+    })),
+  };
+}
+
+/**
+ * Drop pooled images no longer referenced by any entry in the given lists
+ */
+export function pruneHistoryImages(
+  entryLists: HistoryEntry[][],
+  images: Record<string, string>
+): Record<string, string> {
+  const pruned: Record<string, string> = {};
+  for (const entries of entryLists) {
+    for (const entry of entries) {
+      for (const record of entry.layers) {
+        if (pruned[record.imageHash] === undefined && images[record.imageHash] !== undefined) {
+          pruned[record.imageHash] = images[record.imageHash];
+        }
+      }
+    }
+  }
+  return pruned;
+}
+
+function pruneHistory(history: HistoryState): HistoryState {
+  return {
+    ...history,
+    images: pruneHistoryImages(
+      [
+        history.past,
+        history.future,
+        history.undoneTo ? [history.undoneTo] : [],
+        ...history.branches.map((branch) => branch.entries),
+      ],
+      history.images
+    ),
+  };
+}
+
+/**
+ * Drop the oldest unpinned entries until at most `maxSteps` unpinned entries remain.
+ * Mutates `past` - callers pass a fresh copy.
+ */
+function evictOldestEntries(past: HistoryEntry[], maxSteps: number): void {
+  let unpinned = past.filter((entry) => !entry.checkpoint).length;
+  while (unpinned > maxSteps) {
+    past.splice(past.findIndex((entry) => !entry.checkpoint), 1);
+    unpinned--;
+  }
+}
+
+/**
+ * Drop the oldest branches until at most MAX_HISTORY_BRANCHES remain,
+ * keeping every branch that holds a pinned checkpoint
+ */
+function capBranches(branches: HistoryBranch[]): HistoryBranch[] {
+  const isPinned = (branch: HistoryBranch) => branch.entries.some((entry) => entry.checkpoint);
+  let excess = branches.length - MAX_HISTORY_BRANCHES;
+  return branches.filter((branch) => {
+    if (excess <= 0 || isPinned(branch)) return true;
+    excess--;
+    return false;
+  });
+}
+
+function createBranch(entries: HistoryEntry[]): HistoryBranch {
+  return {
+    id: createHistoryId('branch'),
+    label: entries[entries.length - 1]?.label ?? 'Branch',
+    createdAt: Date.now(),
+    entries,
+  };
+}
+
+/**
+ * Append a snapshot of `project` to the undo stack and evict the oldest
+ * unpinned entries beyond `maxSteps`. A non-empty redo stack is not thrown
+ * away: it is kept as a branch that can be restored later.
+ */
+export function pushHistoryEntry(
+  history: HistoryState,
+  project: ProjectData | ProjectWithoutViewport,
+  options: { label?: string; checkpoint?: string } = {}
+): HistoryState {
+  const images = { ...history.images };
+  const reference = history.past[history.past.length - 1];
+  const entry = createHistoryEntry(project, images, reference, options.label);
+  if (options.checkpoint) {
+    entry.checkpoint = options.checkpoint;
+  }
+
+  const newPast = [...history.past, entry];
+  evictOldestEntries(newPast, history.maxSteps);
+
+  // The state the last undo/redo landed on is on neither stack, so the branch
+  // puts it back between the undo and redo entries
+  const abandoned = [...history.past, ...(history.undoneTo ? [history.undoneTo] : []), ...history.future];
+  const branches = history.future.length > 0
+    ? capBranches([...history.branches, createBranch(abandoned)])
+    : history.branches;
+
+  return pruneHistory({
+    ...history,
+    past: newPast,
+    future: [],
+    branches,
+    undoneTo: undefined,
+    images,
+  });
+}
+
+/**
+ * True when two entries describe the same state (layer records are shared
+ * whenever nothing changed, so reference equality is enough for layers)
+ */
+function isSameSnapshot(a: HistoryEntry, b: HistoryEntry): boolean {
+  return (
+    a.layers.length === b.layers.length &&
+    a.layers.every((record, i) => record === b.layers[i]) &&
+    JSON.stringify(a.project) === JSON.stringify(b.project)
+  );
+}
+
+/**
+ * Move to any entry of the undo or redo stack in one step.
+ * The current project is recorded so that every skipped state stays reachable.
+ *
+ * - `keepTarget: false` is a classic undo()/redo() step: the target leaves the stacks
+ *   and becomes the current project.
+ * - `keepTarget: true` is a history panel jump: the target stays on top of the undo
+ *   stack (so pinned checkpoints remain listed) and the current state is not
+ *   recorded again if it is identical to its neighbour.
+ */
+export function jumpToHistoryEntry(
+  history: HistoryState,
+  project: ProjectData,
+  stack: 'past' | 'future',
+  index: number,
+  keepTarget: boolean = false
+): { history: HistoryState; project: ProjectWithoutViewport } | null {
+  const target = history[stack][index];
+  if (!target) return null;
+
+  const images = { ...history.images };
+  const keep = keepTarget ? 1 : 0;
+  let past: HistoryEntry[];
+  let future: HistoryEntry[];
+
+  if (stack === 'past') {
+    const moved = history.past.slice(index + 1);
+    const neighbour = moved[moved.length - 1] ?? target;
+    const currentEntry = createHistoryEntry(project, images, neighbour);
+    const skipCurrent = keepTarget && isSameSnapshot(currentEntry, neighbour);
+    past = history.past.slice(0, index + keep);
+    future = [...moved, ...(skipCurrent ? [] : [currentEntry]), ...history.future];
+  } else {
+    const neighbour = history.past[history.past.length - 1];
+    const currentEntry = createHistoryEntry(project, images, neighbour ?? target);
+    const skipCurrent = keepTarget && neighbour !== undefined && isSameSnapshot(currentEntry, neighbour);
+    past = [
+      ...history.past,
+      ...(skipCurrent ? [] : [currentEntry]),
+      ...history.future.slice(0, index + keep),
+    ];
+    future = history.future.slice(index + 1);
+  }
+
+  return {
+    // A panel jump keeps the target on the undo stack; undo/redo take it off and remember it
+    history: { ...history, past, future, undoneTo: keepTarget ? undefined : target, images },
+    project: restoreHistoryEntry(target, images),
+  };
+}
+
+/**
+ * Switch to a previously abandoned branch, landing on its latest state.
+ * The line being left (undo + current + redo) becomes a branch itself.
+ */
+export function switchHistoryBranch(
+  history: HistoryState,
+  project: ProjectData,
+  branchId: string
+): { history: HistoryState; project: ProjectWithoutViewport } | null {
+  const branch = history.branches.find((b) => b.id === branchId);
+  if (!branch || branch.entries.length === 0) return null;
+
+  const images = { ...history.images };
+  const currentEntry = createHistoryEntry(project, images, history.past[history.past.length - 1]);
+  const currentLine = [...history.past, currentEntry, ...history.future];
+  const target = branch.entries[branch.entries.length - 1];
+
+  const branches = capBranches([
+    ...history.branches.filter((b) => b.id !== branchId),
+    createBranch(currentLine),
+  ]);
+
+  return {
+    history: pruneHistory({
+      ...history,
+      past: branch.entries, // Like a panel jump, the landed-on entry stays listed
+      future: [],
+      branches,
+      undoneTo: undefined,
+      images,
+    }),
+    project: restoreHistoryEntry(target, images),
+  };
+}
+
+/**
+ * Pin (name) or unpin (undefined) an entry as a checkpoint
+ */
+export function setHistoryCheckpoint(
+  history: HistoryState,
+  stack: 'past' | 'future',
+  index: number,
+  name: string | undefined
+): HistoryState {
+  const entries = history[stack];
+  if (!entries[index]) return history;
+
+  const updated = entries.map((entry, i) => {
+    if (i !== index) return entry;
+    const next: HistoryEntry = { ...entry, checkpoint: name };
+    if (!name) delete next.checkpoint;
+    return next;
+  });
+
+  const newHistory = { ...history, [stack]: updated };
+  // Unpinning may push the stack back over the limit
+  if (stack === 'past' && !name) {
+    const newPast = [...updated];
+    evictOldestEntries(newPast, history.maxSteps);
+    return pruneHistory({ ...newHistory, past: newPast });
+  }
+  return newHistory;
+}
+
+/**
+ * Delete an abandoned branch and the images only it referenced
+ */
+export function deleteHistoryBranch(history: HistoryState, branchId: string): HistoryState {
+  return pruneHistory({
+    ...history,
+    branches: history.branches.filter((b) => b.id !== branchId),
+  });
+}
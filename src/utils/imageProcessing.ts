@@ -1,3 +1,6 @@
+import { BlendMode } from '../types/compositor.types';
+import { getCompositeOperation } from './canvasRenderer';
+
 /**
  * Extracts the opaque color palette (RGB only) from an image.
  * Only includes fully opaque pixels (alpha === 255).
@@ -183,6 +186,54 @@ export const dataUrlToBlob = (dataUrl: string): Blob => {
   return new Blob([u8arr], { type: mime });
 };
 
+/**
+ * Encodes a per-pixel mask (one byte per pixel, 0-255) as a PNG data URI.
+ * The mask is stored in the alpha channel so it compresses well.
+ */
+export const maskToDataUrl = (mask: Uint8Array, width: number, height: number): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  const imgData = ctx.createImageData(width, height);
+  for (let i = 0; i < mask.length; i++) {
+    imgData.data[i * 4 + 3] = mask[i];
+  }
+  ctx.putImageData(imgData, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Decodes a mask written by maskToDataUrl back into a Uint8Array (one byte per pixel)
+ */
+export const dataUrlToMask = (dataUrl: string): Promise<{ mask: Uint8Array; width: number; height: number }> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
+      }
+
+      ctx.drawImage(img, 0, 0);
+      const { data } = ctx.getImageData(0, 0, img.width, img.height);
+      const mask = new Uint8Array(img.width * img.height);
+      for (let i = 0; i < mask.length; i++) {
+        mask[i] = data[i * 4 + 3];
+      }
+      resolve({ mask, width: img.width, height: img.height });
+    };
+    img.onerror = () => reject(new Error('Failed to load mask image'));
+    img.src = dataUrl;
+  });
+};
+
 /**
  * Remove background by flood-filling from image corners using color tolerance.
  * Optionally return a heatmap (remaining pixels shown in red) instead of normal alpha mask.
@@ -328,7 +379,7 @@ export const removeBackground = (
 
 /**
  * Composite multiple layers onto a canvas, preserving transparency
- * Layers are composited in z-index order
+ * Layers are composited in array order (callers sort by z-index) with their blend modes
  */
 export const compositeLayersToBlob = (
   layers: Array<{
@@ -338,6 +389,7 @@ export const compositeLayersToBlob = (
     width: number;
     height: number;
     opacity: number;
+    blendMode?: BlendMode;
   }>
 ): Promise<Blob> => {
   return new Promise((resolve, reject) => {
@@ -378,26 +430,26 @@ export const compositeLayersToBlob = (
 
     let loadedCount = 0;
     let hasError = false;
+    const images: HTMLImageElement[] = [];
 
-    // Load and composite each layer
-    for (const layer of layers) {
+    // Load every layer first - blend modes depend on drawing in order
+    layers.forEach((layer, index) => {
       const img = new Image();
+      images[index] = img;
       img.onload = () => {
         if (hasError) return;
 
-        ctx.globalAlpha = layer.opacity;
-        ctx.drawImage(
-          img,
-          layer.x - minX,
-          layer.y - minY,
-          layer.width,
-          layer.height
-        );
-
         loadedCount++;
         if (loadedCount === layers.length) {
+          layers.forEach((l, i) => {
+            ctx.globalAlpha = l.opacity;
+            ctx.globalCompositeOperation = getCompositeOperation(l.blendMode);
+            ctx.drawImage(images[i], l.x - minX, l.y - minY, l.width, l.height);
+          });
+
           // All layers loaded and composited
           ctx.globalAlpha = 1.0; // Reset alpha
+          ctx.globalCompositeOperation = 'source-over';
           canvas.toBlob(
             (blob) => {
               if (blob) {
@@ -417,6 +469,6 @@ export const compositeLayersToBlob = (
       };
 
       img.src = layer.imageData;
-    }
+    });
   });
 };
@@ -0,0 +1,135 @@
+/**
+ * Indexed-color PNG encoding
+ * Writes color type 3 PNGs (PLTE + tRNS) whose palette is exactly the given
+ * colors, at the smallest bit depth that fits. Every opaque pixel must match a
+ * palette color exactly; fully transparent pixels share one transparent entry.
+ */
+
+import { PNG_SIGNATURE, createIHDR, pngChunk, zlibCompress } from './png';
+
+// PNG allows at most 256 palette entries (one is used for transparency if needed)
+export const MAX_PNG_PALETTE_SIZE = 256;
+
+// Mismatches listed per export; the total count is always reported
+const MAX_LISTED_MISMATCHES = 50;
+
+export interface PaletteMismatch {
+  color: string; // '#RRGGBB', with alpha appended ('#RRGGBBAA') for semi-transparent pixels
+  count: number; // Pixels with this color
+  x: number; // First pixel with this color
+  y: number;
+}
+
+function hexToRgb(hex: string): number {
+  return parseInt(hex.slice(1, 7), 16);
+}
+
+function toHex(value: number, digits: number): string {
+  return value.toString(16).padStart(digits, '0').toUpperCase();
+}
+
+/**
+ * Find pixels whose color is not in the palette
+ * Fully transparent pixels always fit; semi-transparent pixels never do
+ * @returns Offending colors, most common first (at most 50), and the total pixel count
+ */
+export function findPaletteMismatches(pixels: ImageData, palette: string[]): { mismatches: PaletteMismatch[]; total: number } {
+  const allowed = new Set(palette.map(hexToRgb));
+  const found = new Map<number, PaletteMismatch>();
+  const { width, data } = pixels;
+  let total = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3];
+    if (alpha === 0) continue;
+    const rgb = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+    if (alpha === 255 && allowed.has(rgb)) continue;
+
+    total++;
+    // Semi-transparent pixels are keyed apart from opaque ones of the same RGB
+    const key = alpha === 255 ? rgb : rgb + (alpha + 1) * 0x1000000;
+    const existing = found.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      const pixel = i / 4;
+      found.set(key, {
+        color: `#${toHex(rgb, 6)}${alpha === 255 ? '' : toHex(alpha, 2)}`,
+        count: 1,
+        x: pixel % width,
+        y: Math.floor(pixel / width),
+      });
+    }
+  }
+
+  const mismatches = [...found.values()].sort((a, b) => b.count - a.count).slice(0, MAX_LISTED_MISMATCHES);
+  return { mismatches, total };
+}
+
+/**
+ * Encode pixels as an indexed PNG with exactly the given palette
+ * Throws if a pixel doesn't match the palette or the palette is too large,
+ * so an export can never silently change colors
+ */
+export async function encodeIndexedPNG(pixels: ImageData, palette: string[]): Promise<Blob> {
+  const { width, height, data } = pixels;
+  const { total, mismatches } = findPaletteMismatches(pixels, palette);
+  if (total > 0) {
+    const listed = mismatches.slice(0, 5).map((m) => `${m.color} at ${m.x},${m.y}`).join(', ');
+    throw new Error(`${total} pixel(s) use colors outside the palette: ${listed}${mismatches.length > 5 ? ', …' : ''}`);
+  }
+
+  // Transparent entry goes first so tRNS only needs one byte
+  let hasTransparent = false;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] === 0) {
+      hasTransparent = true;
+      break;
+    }
+  }
+  const entries = [...new Set(palette.map(hexToRgb))];
+  const size = entries.length + (hasTransparent ? 1 : 0);
+  if (size > MAX_PNG_PALETTE_SIZE) {
+    throw new Error(`Indexed PNG supports at most ${MAX_PNG_PALETTE_SIZE} colors${hasTransparent ? ' including transparency' : ''}; the palette has ${size}`);
+  }
+  if (size === 0) {
+    throw new Error('The palette is empty');
+  }
+  const offset = hasTransparent ? 1 : 0;
+  const indexOf = new Map(entries.map((rgb, i) => [rgb, i + offset]));
+
+  const bitDepth = size <= 2 ? 1 : size <= 4 ? 2 : size <= 16 ? 4 : 8;
+  const rowBytes = Math.ceil((width * bitDepth) / 8);
+  const pixelsPerByte = 8 / bitDepth;
+
+  // Filter type 0 (none) on every row: indexed pixel art compresses well as is
+  const raw = new Uint8Array((rowBytes + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (rowBytes + 1) + 1;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const index = data[i + 3] === 0
+        ? 0
+        : indexOf.get((data[i] << 16) | (data[i + 1] << 8) | data[i + 2]) ?? 0;
+      const shift = 8 - bitDepth * ((x % pixelsPerByte) + 1);
+      raw[row + Math.floor(x / pixelsPerByte)] |= index << shift;
+    }
+  }
+
+  const plte = new Uint8Array(size * 3);
+  entries.forEach((rgb, i) => {
+    plte[(i + offset) * 3] = rgb >> 16;
+    plte[(i + offset) * 3 + 1] = (rgb >> 8) & 0xff;
+    plte[(i + offset) * 3 + 2] = rgb & 0xff;
+  });
+
+  const parts = [
+    new Uint8Array(PNG_SIGNATURE),
+    pngChunk('IHDR', createIHDR(width, height, bitDepth, 3)), // Color type 3: indexed
+    pngChunk('PLTE', plte),
+    ...(hasTransparent ? [pngChunk('tRNS', new Uint8Array([0]))] : []),
+    pngChunk('IDAT', await zlibCompress(raw)),
+    pngChunk('IEND', new Uint8Array(0)),
+  ];
+  return new Blob(parts, { type: 'image/png' });
+}
@@ -0,0 +1,397 @@
+/**
+ * Layer effect stack utilities
+ * A layer with effects keeps its original pixels in Layer.effectSource and
+ * renders the enabled entries of Layer.effects on top of it, bottom-up.
+ * The result is written to Layer.imageData, so everything that draws layers
+ * (canvas, export, thumbnails) keeps working on plain images.
+ */
+
+import {
+  ColorAdjustEffect,
+  CropEffect,
+  EffectSourceImage,
+  Layer,
+  LayerEffect,
+  LayerEffectType,
+  LayerTransform,
+  PixelateEffect,
+  PixelSelection,
+} from '../types/compositor.types';
+import { applyTransparencyMask, dataUrlToMask } from './imageProcessing';
+import { hashString } from './historySnapshots';
+import { getTransformedSize, transformPixels, transformRect } from './layerTransforms';
+import { isPixelSelected, loadImagePixels, pixelsToDataUrl } from './pixelSelection';
+import PixelatorWorker from '../workers/pixelator.worker?worker';
+
+export const EFFECT_LABELS: Record<LayerEffectType, string> = {
+  crop: 'Crop',
+  'transparency-mask': 'Transparency Mask',
+  'bg-removal': 'Background Removal',
+  pixelate: 'Pixelate',
+  'color-adjust': 'Color Adjust',
+};
+
+// Rendered stages kept in memory; the oldest stage is dropped beyond this
+const MAX_CACHED_STAGES = 24;
+const stageCache = new Map<string, EffectSourceImage>();
+
+/**
+ * Create a unique effect id
+ */
+export function createEffectId(): string {
+  return `effect_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Get the image a layer's effect stack renders from
+ * (the layer's own pixels when it has no stack yet)
+ */
+export function getEffectSource(layer: Layer): EffectSourceImage {
+  return layer.effectSource ?? { imageData: layer.imageData, width: layer.width, height: layer.height };
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = src;
+  });
+}
+
+function createCanvas(width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.imageSmoothingEnabled = false;
+  return { canvas, ctx };
+}
+
+function canvasToImage(canvas: HTMLCanvasElement): EffectSourceImage {
+  return { imageData: canvas.toDataURL(), width: canvas.width, height: canvas.height };
+}
+
+async function getPixels(input: EffectSourceImage): Promise<{ canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D; pixels: ImageData }> {
+  const img = await loadImage(input.imageData);
+  const { canvas, ctx } = createCanvas(img.width, img.height);
+  ctx.drawImage(img, 0, 0);
+  return { canvas, ctx, pixels: ctx.getImageData(0, 0, img.width, img.height) };
+}
+
+/**
+ * Crop rectangle clamped to the input, so a crop left over from a larger stage stays valid
+ */
+function getCropRect(input: EffectSourceImage, effect: CropEffect): { x: number; y: number; width: number; height: number } {
+  const x = Math.max(0, Math.min(Math.round(effect.x), input.width - 1));
+  const y = Math.max(0, Math.min(Math.round(effect.y), input.height - 1));
+  const width = Math.max(1, Math.min(Math.round(effect.width), input.width - x));
+  const height = Math.max(1, Math.min(Math.round(effect.height), input.height - y));
+  return { x, y, width, height };
+}
+
+async function applyCrop(input: EffectSourceImage, effect: CropEffect): Promise<EffectSourceImage> {
+  const { x, y, width, height } = getCropRect(input, effect);
+  const img = await loadImage(input.imageData);
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(img, x, y, width, height, 0, 0, width, height);
+  return canvasToImage(canvas);
+}
+
+async function applyBgRemovalMask(input: EffectSourceImage, maskUrl: string): Promise<EffectSourceImage> {
+  const { canvas, ctx, pixels } = await getPixels(input);
+  const maskImg = await loadImage(maskUrl);
+
+  // Scale the stored mask to the current input size
+  const { ctx: maskCtx } = createCanvas(canvas.width, canvas.height);
+  maskCtx.drawImage(maskImg, 0, 0, canvas.width, canvas.height);
+  const mask = maskCtx.getImageData(0, 0, canvas.width, canvas.height).data;
+
+  const data = pixels.data;
+  for (let i = 3; i < data.length; i += 4) {
+    data[i] = Math.min(data[i], mask[i]);
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return canvasToImage(canvas);
+}
+
+async function applyColorAdjust(input: EffectSourceImage, effect: ColorAdjustEffect): Promise<EffectSourceImage> {
+  const { canvas, ctx, pixels } = await getPixels(input);
+  const data = pixels.data;
+
+  const brightness = effect.brightness * 2.55;
+  const c = effect.contrast * 2.55;
+  const contrast = (259 * (c + 255)) / (255 * (259 - c));
+  const saturation = 1 + effect.saturation / 100;
+
+  // Hue rotation matrix in RGB space (luma-preserving)
+  const angle = (effect.hue * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const m = [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.14, 0.072 - cos * 0.072 - sin * 0.283,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+  ];
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    let r = data[i];
+    let g = data[i + 1];
+    let b = data[i + 2];
+
+    if (effect.hue !== 0) {
+      const hr = m[0] * r + m[1] * g + m[2] * b;
+      const hg = m[3] * r + m[4] * g + m[5] * b;
+      const hb = m[6] * r + m[7] * g + m[8] * b;
+      r = hr; g = hg; b = hb;
+    }
+
+    const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+    r = luma + (r - luma) * saturation;
+    g = luma + (g - luma) * saturation;
+    b = luma + (b - luma) * saturation;
+
+    data[i] = contrast * (r + brightness - 128) + 128;
+    data[i + 1] = contrast * (g + brightness - 128) + 128;
+    data[i + 2] = contrast * (b + brightness - 128) + 128;
+  }
+
+  ctx.putImageData(pixels, 0, 0);
+  return canvasToImage(canvas);
+}
+
+async function applyPixelate(input: EffectSourceImage, effect: PixelateEffect): Promise<EffectSourceImage> {
+  const { pixels } = await getPixels(input);
+  const samplingMask = effect.samplingMask ? await dataUrlToMask(effect.samplingMask) : null;
+
+  const result = await new Promise<ImageData>((resolve, reject) => {
+    const worker = new PixelatorWorker();
+    worker.onmessage = (e) => {
+      worker.terminate();
+      if (e.data.type === 'success') {
+        resolve(e.data.imageData);
+      } else {
+        reject(new Error(e.data.message || 'Pixelation failed'));
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Pixelation failed'));
+    };
+    worker.postMessage({
+      imageData: pixels,
+      settings: {
+        ...effect.workerSettings,
+        colorStats: [],
+        samplingMask: samplingMask ? Array.from(samplingMask.mask) : null,
+        samplingMaskWidth: samplingMask?.width || 0,
+        samplingMaskHeight: samplingMask?.height || 0,
+      },
+    });
+  });
+
+  const { canvas, ctx } = createCanvas(result.width, result.height);
+  ctx.putImageData(result, 0, 0);
+  return canvasToImage(canvas);
+}
+
+/**
+ * Apply a single effect to an image
+ */
+export async function applyLayerEffect(input: EffectSourceImage, effect: LayerEffect): Promise<EffectSourceImage> {
+  switch (effect.type) {
+    case 'crop':
+      return applyCrop(input, effect);
+    case 'transparency-mask': {
+      const imageData = await applyTransparencyMask(input.imageData, effect.threshold, effect.useTemplatePalette);
+      return { ...input, imageData };
+    }
+    case 'bg-removal':
+      return applyBgRemovalMask(input, effect.mask);
+    case 'pixelate':
+      return applyPixelate(input, effect);
+    case 'color-adjust':
+      return applyColorAdjust(input, effect);
+  }
+}
+
+/**
+ * Cache key of the stage after one more effect
+ * The id and enabled flag don't change the output (undefined is dropped by JSON)
+ */
+function nextStageKey(key: string, effect: LayerEffect): string {
+  return hashString(`${key}|${JSON.stringify({ ...effect, id: undefined, enabled: undefined })}`);
+}
+
+function cacheStage(key: string, image: EffectSourceImage): void {
+  stageCache.delete(key);
+  stageCache.set(key, image);
+  if (stageCache.size > MAX_CACHED_STAGES) {
+    const oldest = stageCache.keys().next().value;
+    if (oldest !== undefined) stageCache.delete(oldest);
+  }
+}
+
+/**
+ * Render an effect stack from its source image.
+ * Every intermediate stage is cached by (source, effects so far), so editing
+ * an effect only re-runs that effect and the ones above it.
+ */
+export async function renderLayerEffects(source: EffectSourceImage, effects: LayerEffect[]): Promise<EffectSourceImage> {
+  let result = source;
+  let key = hashString(source.imageData);
+
+  for (const effect of effects) {
+    if (!effect.enabled) continue;
+    key = nextStageKey(key, effect);
+
+    const cached = stageCache.get(key);
+    result = cached ?? await applyLayerEffect(result, effect);
+    cacheStage(key, result);
+  }
+
+  return result;
+}
+
+/**
+ * Store an already computed stage (e.g. a modal preview) so rendering
+ * the stack does not have to compute it again
+ */
+export function primeEffectCache(source: EffectSourceImage, effects: LayerEffect[], result: EffectSourceImage): void {
+  let key = hashString(source.imageData);
+  for (const effect of effects) {
+    if (effect.enabled) key = nextStageKey(key, effect);
+  }
+  cacheStage(key, result);
+}
+
+/**
+ * Render the input of one effect (everything below it in the stack)
+ * Used by modals that edit an existing entry
+ */
+export function renderEffectInput(layer: Layer, effectId: string): Promise<EffectSourceImage> {
+  const effects = layer.effects ?? [];
+  const index = effects.findIndex((e) => e.id === effectId);
+  return renderLayerEffects(getEffectSource(layer), index === -1 ? effects : effects.slice(0, index));
+}
+
+/**
+ * Transform a mask image (alpha = mask) along with the layer
+ * Masks are scaled to their input when applied, so scaling leaves them as they are.
+ */
+async function transformMask(maskUrl: string, transform: LayerTransform): Promise<string> {
+  if (transform.type === 'scale') return maskUrl;
+  const mask = await loadImagePixels(maskUrl);
+  return pixelsToDataUrl(transformPixels(mask, transform.type === 'free-rotate' ? { ...transform, algorithm: 'nearest' } : transform));
+}
+
+/**
+ * Carry an effect stack over to its source transformed by `transform`:
+ * crop rectangles, masks and pixelate target sizes follow the pixels, so the
+ * stack renders the transformed layer (pixelation re-runs at the new size)
+ */
+export async function transformLayerEffects(layer: Layer, transform: LayerTransform): Promise<LayerEffect[]> {
+  const source = getEffectSource(layer);
+  const effects = layer.effects ?? [];
+  const transformed: LayerEffect[] = [];
+
+  for (let i = 0; i < effects.length; i++) {
+    const effect = effects[i];
+    switch (effect.type) {
+      case 'crop': {
+        const input = await renderLayerEffects(source, effects.slice(0, i));
+        transformed.push({ ...effect, ...transformRect(getCropRect(input, effect), input.width, input.height, transform) });
+        break;
+      }
+      case 'bg-removal':
+        transformed.push({ ...effect, mask: await transformMask(effect.mask, transform) });
+        break;
+      case 'pixelate': {
+        const { targetWidth, targetHeight } = effect.workerSettings;
+        const next: PixelateEffect = { ...effect };
+        if (typeof targetWidth === 'number' && typeof targetHeight === 'number') {
+          const size = getTransformedSize(targetWidth, targetHeight, transform);
+          next.workerSettings = { ...effect.workerSettings, targetWidth: size.width, targetHeight: size.height };
+          next.settings = { ...effect.settings, targetWidth: size.width };
+        }
+        if (effect.samplingMask) {
+          next.samplingMask = await transformMask(effect.samplingMask, transform);
+        }
+        transformed.push(next);
+        break;
+      }
+      default:
+        transformed.push(effect);
+    }
+  }
+  return transformed;
+}
+
+/**
+ * Clear the pixels of a layer's effect source that render under a selection,
+ * so cutting from the layer keeps its stack. Crops shift the geometry and
+ * pixelation scales it; the other effects keep it.
+ * @returns The new source, or null when nothing under the selection changed
+ */
+export async function clearEffectSourceSelection(layer: Layer, selection: PixelSelection): Promise<EffectSourceImage | null> {
+  const source = getEffectSource(layer);
+  const effects = layer.effects ?? [];
+
+  // Rendered position per axis = source position * scale + offset
+  let scaleX = 1;
+  let scaleY = 1;
+  let offsetX = 0;
+  let offsetY = 0;
+  let input = source;
+  for (let i = 0; i < effects.length; i++) {
+    const effect = effects[i];
+    if (!effect.enabled) continue;
+    const output = await renderLayerEffects(source, effects.slice(0, i + 1));
+    if (effect.type === 'crop') {
+      const rect = getCropRect(input, effect);
+      offsetX -= rect.x;
+      offsetY -= rect.y;
+    } else if (effect.type === 'pixelate') {
+      const kx = output.width / input.width;
+      const ky = output.height / input.height;
+      scaleX *= kx;
+      offsetX *= kx;
+      scaleY *= ky;
+      offsetY *= ky;
+    }
+    input = output;
+  }
+
+  const pixels = await loadImagePixels(source.imageData);
+  const originX = Math.floor(layer.x);
+  const originY = Math.floor(layer.y);
+  let changed = false;
+  for (let sy = 0; sy < pixels.height; sy++) {
+    const ry = Math.floor((sy + 0.5) * scaleY + offsetY);
+    if (ry < 0 || ry >= input.height) continue;
+    for (let sx = 0; sx < pixels.width; sx++) {
+      const rx = Math.floor((sx + 0.5) * scaleX + offsetX);
+      if (rx < 0 || rx >= input.width) continue;
+      const i = (sy * pixels.width + sx) * 4;
+      if (pixels.data[i + 3] === 0 || !isPixelSelected(selection, originX + rx, originY + ry)) continue;
+      pixels.data.fill(0, i, i + 4);
+      changed = true;
+    }
+  }
+  return changed ? { imageData: pixelsToDataUrl(pixels), width: pixels.width, height: pixels.height } : null;
+}
+
+/**
+ * Move an effect one step up (later) or down (earlier) in the stack
+ */
+export function reorderEffects(effects: LayerEffect[], effectId: string, direction: 'up' | 'down'): LayerEffect[] {
+  const index = effects.findIndex((e) => e.id === effectId);
+  const target = direction === 'up' ? index + 1 : index - 1;
+  if (index === -1 || target < 0 || target >= effects.length) return effects;
+
+  const reordered = [...effects];
+  [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+  return reordered;
+}
@@ -0,0 +1,369 @@
+/**
+ * Layer group utilities
+ * Layers stay a flat array - groups are a tree laid over it via Layer.groupId
+ * and LayerGroup.parentId. Every operation that changes the hierarchy goes
+ * through the tree here and writes the result back as normalized zIndex values,
+ * so each group always occupies one contiguous zIndex range.
+ */
+
+import { Layer, LayerGroup } from '../types/compositor.types';
+
+export type LayerTreeNode =
+  | { type: 'layer'; layer: Layer }
+  | { type: 'group'; group: LayerGroup; children: LayerTreeNode[] };
+
+/**
+ * Create a unique group id
+ */
+export function createGroupId(): string {
+  return `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Look up the group a layer or group belongs to, ignoring dangling references
+ */
+function findGroup(groups: LayerGroup[], groupId: string | undefined): LayerGroup | undefined {
+  return groupId ? groups.find((g) => g.id === groupId) : undefined;
+}
+
+/**
+ * Get the chain of groups enclosing a group or layer, innermost first
+ * Guards against parentId cycles in hand-edited files
+ */
+export function getGroupAncestors(groupId: string | undefined, groups: LayerGroup[]): LayerGroup[] {
+  const chain: LayerGroup[] = [];
+  let group = findGroup(groups, groupId);
+  while (group && !chain.includes(group)) {
+    chain.push(group);
+    group = findGroup(groups, group.parentId);
+  }
+  return chain;
+}
+
+/**
+ * Get the ids of a group and all groups nested inside it
+ */
+export function getDescendantGroupIds(groupId: string, groups: LayerGroup[]): string[] {
+  return groups
+    .filter((g) => getGroupAncestors(g.id, groups).some((a) => a.id === groupId))
+    .map((g) => g.id);
+}
+
+/**
+ * Get the ids of all layers inside a group, including nested groups
+ */
+export function getGroupLayerIds(groupId: string, layers: Layer[], groups: LayerGroup[]): string[] {
+  const groupIds = new Set(getDescendantGroupIds(groupId, groups));
+  return layers.filter((l) => l.groupId && groupIds.has(l.groupId)).map((l) => l.id);
+}
+
+/**
+ * Build the layer tree, ordered bottom to top at every level
+ * A group sorts by its topmost layer; layers pointing at missing groups are treated as top level
+ */
+export function buildLayerTree(layers: Layer[], groups: LayerGroup[] = []): LayerTreeNode[] {
+  const validGroups = groups.filter((g) => !getGroupAncestors(g.parentId, groups).includes(g));
+  const parentOf = (groupId: string | undefined) => (findGroup(validGroups, groupId) ? groupId : undefined);
+
+  const sortKey = (node: LayerTreeNode): number => {
+    if (node.type === 'layer') return node.layer.zIndex;
+    const keys = node.children.map(sortKey);
+    return keys.length > 0 ? Math.max(...keys) : Infinity;
+  };
+
+  const buildLevel = (parentId: string | undefined): LayerTreeNode[] => {
+    const nodes: LayerTreeNode[] = [
+      ...layers
+        .filter((l) => parentOf(l.groupId) === parentId)
+        .map((layer): LayerTreeNode => ({ type: 'layer', layer })),
+      ...validGroups
+        .filter((g) => parentOf(g.parentId) === parentId)
+        .map((group): LayerTreeNode => ({ type: 'group', group, children: buildLevel(group.id) })),
+    ];
+    return nodes
+      .map((node) => ({ node, key: sortKey(node) }))
+      .sort((a, b) => a.key - b.key)
+      .map(({ node }) => node);
+  };
+
+  return buildLevel(undefined);
+}
+
+/**
+ * Flatten a layer tree into layers ordered bottom to top
+ */
+export function flattenLayerTree(tree: LayerTreeNode[]): Layer[] {
+  return tree.flatMap((node) => (node.type === 'layer' ? [node.layer] : flattenLayerTree(node.children)));
+}
+
+/**
+ * Rewrite zIndex values to 0..n-1 in tree order
+ * Keeps the array order of the input and reuses unchanged layer objects
+ */
+export function normalizeLayerOrder(layers: Layer[], groups: LayerGroup[] = []): Layer[] {
+  const order = new Map(flattenLayerTree(buildLayerTree(layers, groups)).map((layer, idx) => [layer.id, idx]));
+  return layers.map((layer) => {
+    const zIndex = order.get(layer.id) ?? layer.zIndex;
+    return zIndex === layer.zIndex ? layer : { ...layer, zIndex };
+  });
+}
+
+/**
+ * Drop groups that no longer contain any layers (directly or nested)
+ * and clear layer references to groups that don't exist
+ */
+export function pruneLayerGroups(layers: Layer[], groups: LayerGroup[] = []): { layers: Layer[]; groups: LayerGroup[] } {
+  const usedGroupIds = new Set<string>();
+  for (const layer of layers) {
+    for (const group of getGroupAncestors(layer.groupId, groups)) {
+      usedGroupIds.add(group.id);
+    }
+  }
+
+  const keptGroups = groups.filter((g) => usedGroupIds.has(g.id));
+  const keptLayers = layers.map((layer) => {
+    if (!layer.groupId || usedGroupIds.has(layer.groupId)) return layer;
+    const next = { ...layer };
+    delete next.groupId;
+    return next;
+  });
+
+  return { layers: keptLayers, groups: keptGroups };
+}
+
+/**
+ * Apply group visibility, lock and opacity to each layer
+ * Returns copies ready for rendering/export/hit-testing, with zIndex in tree order.
+ * Group opacity is multiplied into every descendant (pass-through, no isolated compositing).
+ */
+export function resolveLayerGroups(layers: Layer[], groups: LayerGroup[] = []): Layer[] {
+  if (groups.length === 0) return layers;
+
+  return normalizeLayerOrder(layers, groups).map((layer) => {
+    const ancestors = getGroupAncestors(layer.groupId, groups);
+    if (ancestors.length === 0) return layer;
+    return {
+      ...layer,
+      visible: layer.visible && ancestors.every((g) => g.visible),
+      locked: layer.locked || ancestors.some((g) => g.locked),
+      opacity: ancestors.reduce((opacity, g) => opacity * g.opacity, layer.opacity),
+    };
+  });
+}
+
+/**
+ * Check whether a layer is locked, either itself or through one of its groups
+ */
+export function isLayerLocked(layer: Layer, groups: LayerGroup[] = []): boolean {
+  return layer.locked || getGroupAncestors(layer.groupId, groups).some((g) => g.locked);
+}
+
+/**
+ * Reorder selected layers one step within their parent group
+ * A group whose layers are all selected moves as one unit; partially selected
+ * groups reorder their selected children instead. Nothing crosses a group boundary.
+ */
+export function reorderLayerSelection(
+  layers: Layer[],
+  groups: LayerGroup[],
+  selectedIds: string[],
+  direction: 'up' | 'down'
+): Layer[] {
+  const selected = new Set(selectedIds);
+  const isSelected = (node: LayerTreeNode): boolean =>
+    node.type === 'layer'
+      ? selected.has(node.layer.id)
+      : flattenLayerTree(node.children).length > 0 && flattenLayerTree(node.children).every((l) => selected.has(l.id));
+
+  const reorderLevel = (nodes: LayerTreeNode[]): LayerTreeNode[] => {
+    const result = nodes.map((node) =>
+      node.type === 'group' && !isSelected(node) ? { ...node, children: reorderLevel(node.children) } : node
+    );
+
+    // Walk from the destination side so a selected block moves past its neighbour together
+    if (direction === 'up') {
+      for (let i = result.length - 2; i >= 0; i--) {
+        if (isSelected(result[i]) && !isSelected(result[i + 1])) {
+          [result[i], result[i + 1]] = [result[i + 1], result[i]];
+        }
+      }
+    } else {
+      for (let i = 1; i < result.length; i++) {
+        if (isSelected(result[i]) && !isSelected(result[i - 1])) {
+          [result[i], result[i - 1]] = [result[i - 1], result[i]];
+        }
+      }
+    }
+    return result;
+  };
+
+  return applyTreeOrder(layers, reorderLevel(buildLayerTree(layers, groups)));
+}
+
+/**
+ * Move one layer or group to the top or bottom of its parent group
+ */
+export function moveNodeToEdge(
+  layers: Layer[],
+  groups: LayerGroup[],
+  node: { layerId?: string; groupId?: string },
+  edge: 'top' | 'bottom'
+): Layer[] {
+  const matches = (n: LayerTreeNode) =>
+    n.type === 'layer' ? n.layer.id === node.layerId : n.group.id === node.groupId;
+
+  const moveInLevel = (nodes: LayerTreeNode[]): LayerTreeNode[] => {
+    const target = nodes.find(matches);
+    if (target) {
+      const rest = nodes.filter((n) => n !== target);
+      return edge === 'top' ? [...rest, target] : [target, ...rest];
+    }
+    return nodes.map((n) => (n.type === 'group' ? { ...n, children: moveInLevel(n.children) } : n));
+  };
+
+  return applyTreeOrder(layers, moveInLevel(buildLayerTree(layers, groups)));
+}
+
+/**
+ * Write the order of a (rearranged) tree back into zIndex values
+ */
+function applyTreeOrder(layers: Layer[], tree: LayerTreeNode[]): Layer[] {
+  const order = new Map(flattenLayerTree(tree).map((layer, idx) => [layer.id, idx]));
+  return layers.map((layer) => {
+    const zIndex = order.get(layer.id) ?? layer.zIndex;
+    return zIndex === layer.zIndex ? layer : { ...layer, zIndex };
+  });
+}
+
+/**
+ * Find the innermost group shared by all given layers (undefined = top level)
+ */
+export function getCommonParentGroupId(layerIds: string[], layers: Layer[], groups: LayerGroup[]): string | undefined {
+  const chains = layers
+    .filter((l) => layerIds.includes(l.id))
+    .map((l) => getGroupAncestors(l.groupId, groups).map((g) => g.id));
+  if (chains.length === 0) return undefined;
+  return chains[0].find((id) => chains.every((chain) => chain.includes(id)));
+}
+
+/**
+ * Put the given layers into a new group, placed where the topmost of them was
+ */
+export function groupLayers(
+  layers: Layer[],
+  groups: LayerGroup[],
+  layerIds: string[],
+  name: string
+): { layers: Layer[]; groups: LayerGroup[]; group: LayerGroup } {
+  const group: LayerGroup = {
+    id: createGroupId(),
+    name,
+    parentId: getCommonParentGroupId(layerIds, layers, groups),
+    visible: true,
+    locked: false,
+    opacity: 1,
+    collapsed: false,
+  };
+  const nextGroups = [...groups, group];
+
+  // Layers nested deeper than the common parent bring their whole top-level subgroup along
+  const movedGroupIds = new Set<string>();
+  const nextLayers = layers.map((layer) => {
+    if (!layerIds.includes(layer.id)) return layer;
+    const chain = getGroupAncestors(layer.groupId, groups);
+    const parentIdx = group.parentId ? chain.findIndex((g) => g.id === group.parentId) : chain.length;
+    if (parentIdx <= 0) return { ...layer, groupId: group.id };
+    movedGroupIds.add(chain[parentIdx - 1].id);
+    return layer;
+  });
+
+  const reparentedGroups = nextGroups.map((g) => (movedGroupIds.has(g.id) ? { ...g, parentId: group.id } : g));
+  const pruned = pruneLayerGroups(nextLayers, reparentedGroups);
+  return { ...pruned, layers: normalizeLayerOrder(pruned.layers, pruned.groups), group };
+}
+
+/**
+ * Remove a group, moving its children up into the enclosing group
+ */
+export function ungroupLayers(layers: Layer[], groups: LayerGroup[], groupId: string): { layers: Layer[]; groups: LayerGroup[] } {
+  const group = groups.find((g) => g.id === groupId);
+  if (!group) return { layers, groups };
+
+  const nextLayers = layers.map((layer) => {
+    if (layer.groupId !== groupId) return layer;
+    const next = { ...layer, groupId: group.parentId };
+    if (!next.groupId) delete next.groupId;
+    return next;
+  });
+  const nextGroups = groups
+    .filter((g) => g.id !== groupId)
+    .map((g) => (g.parentId === groupId ? { ...g, parentId: group.parentId } : g));
+
+  return { layers: normalizeLayerOrder(nextLayers, nextGroups), groups: nextGroups };
+}
+
+/**
+ * Move layers into a group or to the top level
+ * Layers coming from outside land on top of the group's contents; layers moved
+ * out of a nested group land directly above that nested group
+ */
+export function moveLayersToGroup(
+  layers: Layer[],
+  groups: LayerGroup[],
+  layerIds: string[],
+  groupId: string | undefined
+): { layers: Layer[]; groups: LayerGroup[] } {
+  const ordered = normalizeLayerOrder(layers, groups);
+  const topOf = (ids: string[]) =>
+    Math.max(-1, ...ordered.filter((l) => ids.includes(l.id)).map((l) => l.zIndex));
+  const groupTop = topOf(groupId ? getGroupLayerIds(groupId, ordered, groups) : ordered.map((l) => l.id));
+
+  const anchorOf = (layer: Layer): number => {
+    const chain = getGroupAncestors(layer.groupId, groups);
+    const targetIdx = groupId ? chain.findIndex((g) => g.id === groupId) : chain.length;
+    if (targetIdx <= 0) return groupTop;
+    return topOf(getGroupLayerIds(chain[targetIdx - 1].id, ordered, groups));
+  };
+
+  // Fractional zIndex keeps each moved layer between its anchor and whatever sits above it
+  const moving = ordered.filter((l) => layerIds.includes(l.id)).sort((a, b) => a.zIndex - b.zIndex);
+  const nextLayers = ordered.map((layer) => {
+    const rank = moving.indexOf(layer);
+    if (rank === -1) return layer;
+    const next = { ...layer, groupId, zIndex: anchorOf(layer) + (rank + 1) / (moving.length + 1) };
+    if (!groupId) delete next.groupId;
+    return next;
+  });
+
+  const pruned = pruneLayerGroups(nextLayers, groups);
+  return { ...pruned, layers: normalizeLayerOrder(pruned.layers, pruned.groups) };
+}
+
+/**
+ * Clone a set of layers together with the groups they reference
+ * Returns copies with fresh ids; copied groups keep their nesting, and any group
+ * outside the copied set is dropped so the copies land in `parentId`
+ */
+export function cloneLayersWithGroups(
+  layers: Layer[],
+  groups: LayerGroup[],
+  createLayerId: () => string,
+  parentId?: string
+): { layers: Layer[]; groups: LayerGroup[] } {
+  const groupIdMap = new Map(groups.map((g) => [g.id, createGroupId()]));
+  const clonedGroups = groups.map((g) => {
+    const next = { ...g, id: groupIdMap.get(g.id)!, parentId: g.parentId ? groupIdMap.get(g.parentId) ?? parentId : parentId };
+    if (!next.parentId) delete next.parentId;
+    return next;
+  });
+  const clonedLayers = layers.map((layer) => {
+    const next = {
+      ...layer,
+      id: createLayerId(),
+      groupId: layer.groupId ? groupIdMap.get(layer.groupId) ?? parentId : parentId,
+    };
+    if (!next.groupId) delete next.groupId;
+    return next;
+  });
+  return { layers: clonedLayers, groups: clonedGroups };
+}
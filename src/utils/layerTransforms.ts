@@ -0,0 +1,301 @@
+/**
+ * Layer transform utilities
+ * Pixel-exact flips, quarter turns and nearest-neighbor integer scaling, plus
+ * arbitrary-angle rotation with RotSprite (Scale2x three times to 8x, rotate,
+ * sample back down) so pixel-art edges stay clean. Pixels are handled as one
+ * Uint32 per pixel, so colors are only ever copied, never blended.
+ */
+
+import { LayerTransform } from '../types/compositor.types';
+
+// RotSprite works on an 8x copy; larger layers fall back to nearest-neighbor rotation
+export const MAX_ROTSPRITE_PIXELS = 512 * 512;
+
+const ROTSPRITE_SCALE = 8;
+
+function toWords(pixels: ImageData): Uint32Array {
+  return new Uint32Array(pixels.data.buffer.slice(0));
+}
+
+function fromWords(words: Uint32Array, width: number, height: number): ImageData {
+  const pixels = new ImageData(width, height);
+  pixels.data.set(new Uint8ClampedArray(words.buffer));
+  return pixels;
+}
+
+/**
+ * Short history label for a transform, e.g. "Rotate 90° CW" or "Scale 2x"
+ */
+export function describeTransform(transform: LayerTransform): string {
+  switch (transform.type) {
+    case 'flip':
+      return transform.axis === 'x' ? 'Flip horizontal' : 'Flip vertical';
+    case 'rotate':
+      return ['', 'Rotate 90° CW', 'Rotate 180°', 'Rotate 90° CCW'][transform.quarterTurns];
+    case 'scale':
+      return transform.factor >= 1 ? `Scale ${transform.factor}x` : `Scale 1/${Math.round(1 / transform.factor)}`;
+    case 'free-rotate':
+      return `Rotate ${transform.degrees}°${transform.algorithm === 'rotsprite' ? ' (RotSprite)' : ''}`;
+  }
+}
+
+/**
+ * Mirror pixels left-right ('x') or top-bottom ('y')
+ */
+export function flipPixels(pixels: ImageData, axis: 'x' | 'y'): ImageData {
+  const { width, height } = pixels;
+  const src = toWords(pixels);
+  const out = new Uint32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const from = axis === 'x' ? y * width + (width - 1 - x) : (height - 1 - y) * width + x;
+      out[y * width + x] = src[from];
+    }
+  }
+  return fromWords(out, width, height);
+}
+
+/**
+ * Rotate pixels clockwise by whole quarter turns (width/height swap for odd turns)
+ */
+export function rotatePixels90(pixels: ImageData, quarterTurns: 1 | 2 | 3): ImageData {
+  const { width, height } = pixels;
+  const src = toWords(pixels);
+  const outWidth = quarterTurns === 2 ? width : height;
+  const outHeight = quarterTurns === 2 ? height : width;
+  const out = new Uint32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let ox = x;
+      let oy = y;
+      if (quarterTurns === 1) {
+        ox = height - 1 - y;
+        oy = x;
+      } else if (quarterTurns === 2) {
+        ox = width - 1 - x;
+        oy = height - 1 - y;
+      } else {
+        ox = y;
+        oy = width - 1 - x;
+      }
+      out[oy * outWidth + ox] = src[y * width + x];
+    }
+  }
+  return fromWords(out, outWidth, outHeight);
+}
+
+/**
+ * Nearest-neighbor integer scaling
+ * Upscaling repeats every pixel factor x factor times. Downscaling by 1/n keeps
+ * the most common color of each n x n block, so art that was upscaled by n
+ * comes back exactly.
+ */
+export function scalePixels(pixels: ImageData, factor: number): ImageData {
+  const { width, height } = pixels;
+  const src = toWords(pixels);
+
+  if (factor >= 1) {
+    const n = Math.round(factor);
+    const out = new Uint32Array(width * n * height * n);
+    for (let y = 0; y < height * n; y++) {
+      for (let x = 0; x < width * n; x++) {
+        out[y * width * n + x] = src[Math.floor(y / n) * width + Math.floor(x / n)];
+      }
+    }
+    return fromWords(out, width * n, height * n);
+  }
+
+  const n = Math.round(1 / factor);
+  const outWidth = Math.max(1, Math.ceil(width / n));
+  const outHeight = Math.max(1, Math.ceil(height / n));
+  const out = new Uint32Array(outWidth * outHeight);
+  const counts = new Map<number, number>();
+
+  for (let oy = 0; oy < outHeight; oy++) {
+    for (let ox = 0; ox < outWidth; ox++) {
+      counts.clear();
+      let best = src[oy * n * width + ox * n];
+      let bestCount = 0;
+      for (let y = oy * n; y < Math.min(height, oy * n + n); y++) {
+        for (let x = ox * n; x < Math.min(width, ox * n + n); x++) {
+          const color = src[y * width + x];
+          const count = (counts.get(color) ?? 0) + 1;
+          counts.set(color, count);
+          // Ties keep the earliest (top-left) color
+          if (count > bestCount) {
+            best = color;
+            bestCount = count;
+          }
+        }
+      }
+      out[oy * outWidth + ox] = best;
+    }
+  }
+  return fromWords(out, outWidth, outHeight);
+}
+
+/**
+ * One Scale2x (EPX) pass: doubles the size, rounding diagonal edges
+ * without inventing new colors
+ */
+function scale2x(src: Uint32Array, width: number, height: number): Uint32Array {
+  const outWidth = width * 2;
+  const out = new Uint32Array(outWidth * height * 2);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = src[y * width + x];
+      const a = src[Math.max(0, y - 1) * width + x]; // Above
+      const b = src[y * width + Math.min(width - 1, x + 1)]; // Right
+      const c = src[y * width + Math.max(0, x - 1)]; // Left
+      const d = src[Math.min(height - 1, y + 1) * width + x]; // Below
+
+      const top = y * 2 * outWidth + x * 2;
+      const bottom = top + outWidth;
+      out[top] = c === a && c !== d && a !== b ? a : p;
+      out[top + 1] = a === b && a !== c && b !== d ? b : p;
+      out[bottom] = d === c && d !== b && c !== a ? c : p;
+      out[bottom + 1] = b === d && b !== a && d !== c ? d : p;
+    }
+  }
+  return out;
+}
+
+/**
+ * Size of the box that holds a width x height image rotated by an angle
+ */
+function getRotatedSize(width: number, height: number, radians: number): { width: number; height: number } {
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  // Drop floating point noise so e.g. 90° doesn't grow by a pixel
+  return {
+    width: Math.max(1, Math.ceil(width * cos + height * sin - 1e-6)),
+    height: Math.max(1, Math.ceil(width * sin + height * cos - 1e-6)),
+  };
+}
+
+/**
+ * Rotate by any angle (clockwise), growing the image to fit
+ * @param algorithm - 'rotsprite' samples an 8x Scale2x copy, 'nearest' samples the original
+ */
+export function rotatePixels(pixels: ImageData, degrees: number, algorithm: 'rotsprite' | 'nearest'): ImageData {
+  const { width, height } = pixels;
+  const radians = (degrees * Math.PI) / 180;
+  const size = getRotatedSize(width, height, radians);
+
+  const useRotSprite = algorithm === 'rotsprite' && width * height <= MAX_ROTSPRITE_PIXELS;
+  const scale = useRotSprite ? ROTSPRITE_SCALE : 1;
+  let src = toWords(pixels);
+  for (let s = 1; s < scale; s *= 2) {
+    src = scale2x(src, width * s, height * s);
+  }
+  const srcWidth = width * scale;
+  const srcHeight = height * scale;
+
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const out = new Uint32Array(size.width * size.height);
+
+  for (let oy = 0; oy < size.height; oy++) {
+    for (let ox = 0; ox < size.width; ox++) {
+      // Pixel center relative to the output center, rotated back into the source
+      const dx = ox + 0.5 - size.width / 2;
+      const dy = oy + 0.5 - size.height / 2;
+      const sx = Math.floor((dx * cos + dy * sin + width / 2) * scale);
+      const sy = Math.floor((-dx * sin + dy * cos + height / 2) * scale);
+      if (sx < 0 || sy < 0 || sx >= srcWidth || sy >= srcHeight) continue;
+      out[oy * size.width + ox] = src[sy * srcWidth + sx];
+    }
+  }
+  return fromWords(out, size.width, size.height);
+}
+
+/**
+ * Size of a width x height image after a transform
+ */
+export function getTransformedSize(width: number, height: number, transform: LayerTransform): { width: number; height: number } {
+  switch (transform.type) {
+    case 'flip':
+      return { width, height };
+    case 'rotate':
+      return transform.quarterTurns === 2 ? { width, height } : { width: height, height: width };
+    case 'scale': {
+      if (transform.factor >= 1) {
+        const n = Math.round(transform.factor);
+        return { width: width * n, height: height * n };
+      }
+      const n = Math.round(1 / transform.factor);
+      return { width: Math.max(1, Math.ceil(width / n)), height: Math.max(1, Math.ceil(height / n)) };
+    }
+    case 'free-rotate':
+      return getRotatedSize(width, height, (transform.degrees * Math.PI) / 180);
+  }
+}
+
+/**
+ * Where a rectangle of a width x height image ends up after a transform
+ * Free rotation moves the rectangle's center and keeps its size.
+ */
+export function transformRect(
+  rect: { x: number; y: number; width: number; height: number },
+  width: number,
+  height: number,
+  transform: LayerTransform
+): { x: number; y: number; width: number; height: number } {
+  switch (transform.type) {
+    case 'flip':
+      return transform.axis === 'x'
+        ? { ...rect, x: width - rect.x - rect.width }
+        : { ...rect, y: height - rect.y - rect.height };
+    case 'rotate':
+      if (transform.quarterTurns === 1) {
+        return { x: height - rect.y - rect.height, y: rect.x, width: rect.height, height: rect.width };
+      }
+      if (transform.quarterTurns === 2) {
+        return { x: width - rect.x - rect.width, y: height - rect.y - rect.height, width: rect.width, height: rect.height };
+      }
+      return { x: rect.y, y: width - rect.x - rect.width, width: rect.height, height: rect.width };
+    case 'scale': {
+      if (transform.factor >= 1) {
+        const n = Math.round(transform.factor);
+        return { x: rect.x * n, y: rect.y * n, width: rect.width * n, height: rect.height * n };
+      }
+      const n = Math.round(1 / transform.factor);
+      const x = Math.floor(rect.x / n);
+      const y = Math.floor(rect.y / n);
+      return {
+        x,
+        y,
+        width: Math.max(1, Math.ceil((rect.x + rect.width) / n) - x),
+        height: Math.max(1, Math.ceil((rect.y + rect.height) / n) - y),
+      };
+    }
+    case 'free-rotate': {
+      const radians = (transform.degrees * Math.PI) / 180;
+      const size = getRotatedSize(width, height, radians);
+      // Rect center relative to the image center, rotated clockwise like the pixels
+      const dx = rect.x + rect.width / 2 - width / 2;
+      const dy = rect.y + rect.height / 2 - height / 2;
+      const cx = dx * Math.cos(radians) - dy * Math.sin(radians) + size.width / 2;
+      const cy = dx * Math.sin(radians) + dy * Math.cos(radians) + size.height / 2;
+      return { x: Math.round(cx - rect.width / 2), y: Math.round(cy - rect.height / 2), width: rect.width, height: rect.height };
+    }
+  }
+}
+
+/**
+ * Apply a transform to a layer's pixels
+ */
+export function transformPixels(pixels: ImageData, transform: LayerTransform): ImageData {
+  switch (transform.type) {
+    case 'flip':
+      return flipPixels(pixels, transform.axis);
+    case 'rotate':
+      return rotatePixels90(pixels, transform.quarterTurns);
+    case 'scale':
+      return scalePixels(pixels, transform.factor);
+    case 'free-rotate':
+      return rotatePixels(pixels, transform.degrees, transform.algorithm);
+  }
+}
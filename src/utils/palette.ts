@@ -0,0 +1,139 @@
+/**
+ * Palette utilities
+ * Parse palettes typed or pasted by the user and collect the palettes a
+ * project already uses. Colors are always '#RRGGBB' in upper case.
+ */
+
+import { ColorBudget, Layer } from '../types/compositor.types';
+
+// Palettes of the pixel canvases the app targets, shared by the pixelator and exporters
+export const GEOPIXELS_PALETTE = [
+  "#FFFFFF", "#F4F59F", "#FFCA3A", "#FF9F1C", "#FF595E", "#E71D36", "#F3BBC2", "#FF85A1", "#BD637D", "#CDB4DB", "#6A4C93", "#4D194D", "#A8D0DC", "#2EC4B6", "#1A535C", "#6D9DCD", "#1982C4", "#A1C181", "#8AC926", "#A0A0A0", "#6B4226", "#505050", "#CFD078", "#145A7A", "#8B1D24", "#C07F7A", "#C49A6C", "#5B7B1C", "#000000"
+];
+
+export const WPLACE_PALETTE = [
+  "#000000", "#3C3C3C", "#787878", "#AAAAAA", "#D2D2D2", "#FFFFFF", "#600018", "#A50E1E", "#ED1C24", "#FA8072", "#E45C1A", "#FF7F27", "#F6AA09", "#F9DD3B", "#FFFABC", "#9C8431", "#C5AD31", "#E8D45F", "#4A6B3A", "#5A944A", "#84C573", "#0EB968", "#13E67B", "#87FF5E", "#0C816E", "#10AEA6", "#13E1BE", "#0F799F", "#60F7F2", "#BBFAF2", "#28509E", "#4093E4", "#7DC7FF", "#4D31B8", "#6B50F6", "#99B1FB", "#4A4284", "#7A71C4", "#B5AEF1", "#780C99", "#AA38B9", "#E09FF9", "#CB007A", "#EC1F80", "#F38DA9", "#9B5249", "#D18078", "#FAB6A4", "#684634", "#95682A", "#DBA463", "#7B6352", "#9C846B", "#D6B594", "#D18051", "#F8B277", "#FFC5A5", "#6D643F", "#948C6B", "#CDC59E", "#333941", "#6D758D", "#B3B9D1"
+];
+
+export const WPLACE_FREE_PALETTE = [
+  "#000000", "#3C3C3C", "#787878", "#D2D2D2", "#FFFFFF", "#600018", "#ED1C24", "#FF7F27", "#F6AA09", "#F9DD3B", "#FFFABC", "#0EB968", "#13E67B", "#87FF5E", "#0C816E", "#10AEA6", "#13E1BE", "#60F7F2", "#28509E", "#4093E4", "#6B50F6", "#99B1FB", "#780C99", "#AA38B9", "#E09FF9", "#CB007A", "#EC1F80", "#F38DA9", "#684634", "#95682A", "#F8B277"
+];
+
+export const WIN95_256_PALETTE = [
+  "#000000", "#800000", "#008000", "#808000", "#000080", "#800080", "#008080", "#C0C0C0", "#C0DCC0", "#A6CAF0", "#2A3FAA", "#2A3FFF", "#2A5F00", "#2A5F55", "#2A5FAA", "#2A5FFF", "#2A7F00", "#2A7F55", "#2A7FAA", "#2A7FFF", "#2A9F00", "#2A9F55", "#2A9FAA", "#2A9FFF", "#2ABF00", "#2ABF55", "#2ABFAA", "#2ABFFF", "#2ADF00", "#2ADF55", "#2ADFAA", "#2ADFFF", "#2AFF00", "#2AFF55", "#2AFFAA", "#2AFFFF", "#550000", "#550055", "#5500AA", "#5500FF", "#551F00", "#551F55", "#551FAA", "#551FFF", "#553F00", "#553F55", "#553FAA", "#553FFF", "#555F00", "#555F55", "#555FAA", "#555FFF", "#557F00", "#557F55", "#557FAA", "#557FFF", "#559F00", "#559F55", "#559FAA", "#559FFF", "#55BF00", "#55BF55", "#55BFAA", "#55BFFF", "#55DF00", "#55DF55", "#55DFAA", "#55DFFF", "#55FF00", "#55FF55", "#55FFAA", "#55FFFF", "#7F0000", "#7F0055", "#7F00AA", "#7F00FF", "#7F1F00", "#7F1F55", "#7F1FAA", "#7F1FFF", "#7F3F00", "#7F3F55", "#7F3FAA", "#7F3FFF", "#7F5F00", "#7F5F55", "#7F5FAA", "#7F5FFF", "#7F7F00", "#7F7F55", "#7F7FAA", "#7F7FFF", "#7F9F00", "#7F9F55", "#7F9FAA", "#7F9FFF", "#7FBF00", "#7FBF55", "#7FBFAA", "#7FBFFF", "#7FDF00", "#7FDF55", "#7FDFAA", "#7FDFFF", "#7FFF00", "#7FFF55", "#7FFFAA", "#7FFFFF", "#AA0000", "#AA0055", "#AA00AA", "#AA00FF", "#AA1F00", "#AA1F55", "#AA1FAA", "#AA1FFF", "#AA3F00", "#AA3F55", "#AA3FAA", "#AA3FFF", "#AA5F00", "#AA5F55", "#AA5FAA", "#AA5FFF", "#AA7F00", "#AA7F55", "#AA7FAA", "#AA7FFF", "#AA9F00", "#AA9F55", "#AA9FAA", "#AA9FFF", "#AABF00", "#AABF55", "#AABFAA", "#AABFFF", "#AADF00", "#AADF55", "#AADFAA", "#AADFFF", "#AAFF00", "#AAFF55", "#AAFFAA", "#AAFFFF", "#D40000", "#D40055", "#D400AA", "#D400FF", "#D41F00", "#D41F55", "#D41FAA", "#D41FFF", "#D43F00", "#D43F55", "#D43FAA", "#D43FFF", "#D45F00", "#D45F55", "#D45FAA", "#D45FFF", "#D47F00", "#D47F55", "#D47FAA", "#D47FFF", "#D49F00", "#D49F55", "#D49FAA", "#D49FFF", "#D4BF00", "#D4BF55", "#D4BFAA", "#D4BFFF", "#D4DF00", "#D4DF55", "#D4DFAA", "#D4DFFF", "#D4FF00", "#D4FF55", "#D4FFAA", "#D4FFFF", "#FF0055", "#FF00AA", "#FF1F00", "#FF1F55", "#FF1FAA", "#FF1FFF", "#FF3F00", "#FF3F55", "#FF3FAA", "#FF3FFF", "#FF5F00", "#FF5F55", "#FF5FAA", "#FF5FFF", "#FF7F00", "#FF7F55", "#FF7FAA", "#FF7FFF", "#FF9F00", "#FF9F55", "#FF9FAA", "#FF9FFF", "#FFBF00", "#FFBF55", "#FFBFAA", "#FFBFFF", "#FFDF00", "#FFDF55", "#FFDFAA", "#FFDFFF", "#FFFF55", "#FFFFAA", "#CCCCFF", "#FFCCFF", "#33FFFF", "#66FFFF", "#99FFFF", "#CCFFFF", "#007F00", "#007F55", "#007FAA", "#007FFF", "#009F00", "#009F55", "#009FAA", "#009FFF", "#00BF00", "#00BF55", "#00BFAA", "#00BFFF", "#00DF00", "#00DF55", "#00DFAA", "#00DFFF", "#00FF55", "#00FFAA", "#2A0000", "#2A0055", "#2A00AA", "#2A00FF", "#2A1F00", "#2A1F55", "#2A1FAA", "#2A1FFF", "#2A3F00", "#2A3F55", "#FFFBF0", "#A0A0A4", "#808080", "#FF0000", "#00FF00", "#FFFF00", "#0000FF", "#FF00FF", "#00FFFF", "#FFFFFF"
+];
+
+export const PRESET_PALETTES = [
+  { label: 'Geopixels Base', palette: GEOPIXELS_PALETTE },
+  { label: 'WPlace Free', palette: WPLACE_FREE_PALETTE },
+  { label: 'WPlace All', palette: WPLACE_PALETTE },
+  { label: 'Win95 256-color', palette: WIN95_256_PALETTE },
+];
+
+/**
+ * Normalize a hex color ('fff', '#ffffff', 'FFFFFF') to '#RRGGBB'
+ * @returns null when the text is not a hex color
+ */
+export function normalizeHexColor(text: string): string | null {
+  const hex = text.trim().replace(/^#/, '');
+  if (/^[0-9a-f]{3}$/i.test(hex)) {
+    return `#${hex.split('').map((c) => c + c).join('')}`.toUpperCase();
+  }
+  if (/^[0-9a-f]{6}$/i.test(hex)) return `#${hex}`.toUpperCase();
+  return null;
+}
+
+/**
+ * Parse a palette from text: hex codes or 24-bit decimal integers separated
+ * by commas, spaces or new lines (the formats the pixelator accepts)
+ * @returns Unique colors in order, plus the entries that couldn't be read
+ */
+export function parsePaletteText(text: string): { colors: string[]; invalid: string[] } {
+  const colors: string[] = [];
+  const invalid: string[] = [];
+
+  for (const part of text.split(/[\s,]+/).filter(Boolean)) {
+    let color: string | null = null;
+    if (/^\d+$/.test(part) && parseInt(part, 10) <= 0xffffff) {
+      color = `#${parseInt(part, 10).toString(16).padStart(6, '0')}`.toUpperCase();
+    } else {
+      color = normalizeHexColor(part);
+    }
+
+    if (!color) invalid.push(part);
+    else if (!colors.includes(color)) colors.push(color);
+  }
+  return { colors, invalid };
+}
+
+/**
+ * Colors of the palettes the pixelator used on the given layers, in order
+ */
+export function getPixelatorPalette(layers: Layer[]): string[] {
+  const colors = new Set<string>();
+  for (const layer of layers) {
+    for (const effect of layer.effects ?? []) {
+      if (effect.type !== 'pixelate' || !effect.enabled || !Array.isArray(effect.workerSettings.palette)) continue;
+      for (const value of effect.workerSettings.palette) {
+        const color = typeof value === 'string' ? normalizeHexColor(value) : null;
+        if (color) colors.add(color);
+      }
+    }
+  }
+  return [...colors];
+}
+
+/**
+ * Distinct opaque colors of an image, most used first
+ * Fully transparent pixels are skipped; semi-transparent ones count by their RGB
+ * @param limit - Stop counting new colors past this many (the result is then incomplete)
+ */
+export function getImageColors(pixels: ImageData, limit = Infinity): string[] {
+  const counts = new Map<number, number>();
+  const { data } = pixels;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    const rgb = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+    const count = counts.get(rgb);
+    if (count !== undefined) counts.set(rgb, count + 1);
+    else if (counts.size < limit) counts.set(rgb, 1);
+  }
+
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([rgb]) => `#${rgb.toString(16).padStart(6, '0')}`.toUpperCase());
+}
+
+/**
+ * Pixel limits to send to the pixelator worker: only the colors of the palette that have one
+ */
+export function getBudgetLimits(palette: string[], budgets: Record<string, ColorBudget>): Record<string, number> {
+  const limits: Record<string, number> = {};
+  for (const color of palette) {
+    const limit = budgets[color]?.limit;
+    if (limit !== null && limit !== undefined) limits[color] = limit;
+  }
+  return limits;
+}
+
+/**
+ * Check a pixelated result against the color budgets
+ * Colors without a budget cost 1 per pixel and are never over budget.
+ * @param counts - Pixels per color in the result
+ */
+export function getBudgetUsage(
+  counts: Map<string, { count: number }>,
+  budgets: Record<string, ColorBudget>
+): { totalCost: number; overBudget: { color: string; used: number; limit: number }[] } {
+  let totalCost = 0;
+  const overBudget: { color: string; used: number; limit: number }[] = [];
+  for (const [color, { count }] of counts) {
+    const budget = budgets[color];
+    totalCost += count * (budget?.cost ?? 1);
+    if (budget && budget.limit !== null && count > budget.limit) {
+      overBudget.push({ color, used: count, limit: budget.limit });
+    }
+  }
+  return { totalCost, overBudget: overBudget.sort((a, b) => b.used - b.limit - (a.used - a.limit)) };
+}
@@ -0,0 +1,365 @@
+/**
+ * Palette file formats
+ * Reads and writes the palette files other tools use: GIMP (.gpl), Paint.NET
+ * (.txt), JASC and RIFF (.pal), Adobe Swatch Exchange (.ase), Adobe Color
+ * Swatches (.aco), hex lists (.hex) and PNG swatch strips. Colors come out as
+ * '#RRGGBB'; alpha and color names are dropped.
+ */
+
+import { importAseprite } from './aseprite';
+import { dataUrlToBlob } from './imageProcessing';
+import { normalizeHexColor, parsePaletteText } from './palette';
+import { loadImagePixels, pixelsToDataUrl } from './pixelSelection';
+
+export type PaletteFileFormat = 'gpl' | 'paint-net' | 'jasc' | 'ase' | 'aco' | 'hex' | 'png';
+
+export const PALETTE_FILE_FORMATS: { value: PaletteFileFormat; label: string; extension: string }[] = [
+  { value: 'gpl', label: 'GIMP (.gpl)', extension: 'gpl' },
+  { value: 'paint-net', label: 'Paint.NET (.txt)', extension: 'txt' },
+  { value: 'jasc', label: 'JASC (.pal)', extension: 'pal' },
+  { value: 'ase', label: 'Adobe Swatch Exchange (.ase)', extension: 'ase' },
+  { value: 'aco', label: 'Adobe Color Swatches (.aco)', extension: 'aco' },
+  { value: 'hex', label: 'Hex list (.hex)', extension: 'hex' },
+  { value: 'png', label: 'PNG swatch strip (.png)', extension: 'png' },
+];
+
+// File input accept list for every readable format
+export const PALETTE_FILE_ACCEPT = '.gpl,.txt,.pal,.ase,.aco,.hex,.png,.gif,.bmp';
+
+// Swatch images with more distinct colors than this are photos, not palettes
+const MAX_IMAGE_PALETTE_COLORS = 1024;
+
+export interface ParsedPaletteFile {
+  name: string;
+  colors: string[];
+  warnings: string[];
+}
+
+function toHex(r: number, g: number, b: number) {
+  const clamp = (v: number) => Math.max(0, Math.min(255, Math.round(v)));
+  return `#${((clamp(r) << 16) | (clamp(g) << 8) | clamp(b)).toString(16).padStart(6, '0')}`.toUpperCase();
+}
+
+function fromHex(color: string) {
+  const value = parseInt(color.slice(1), 16);
+  return { r: (value >> 16) & 0xff, g: (value >> 8) & 0xff, b: value & 0xff };
+}
+
+function hsbToHex(h: number, s: number, v: number) {
+  const f = (n: number) => {
+    const k = (n + h / 60) % 6;
+    return v - v * s * Math.max(0, Math.min(k, 4 - k, 1));
+  };
+  return toHex(f(5) * 255, f(3) * 255, f(1) * 255);
+}
+
+// Naive CMYK without a color profile; fractions of ink, 0 to 1
+function cmykToHex(c: number, m: number, y: number, k: number) {
+  return toHex(255 * (1 - c) * (1 - k), 255 * (1 - m) * (1 - k), 255 * (1 - y) * (1 - k));
+}
+
+function addUnique(colors: string[], color: string) {
+  if (!colors.includes(color)) colors.push(color);
+}
+
+function baseName(fileName: string) {
+  return fileName.replace(/\.[^.]+$/, '') || 'Palette';
+}
+
+function parseGpl(text: string, fallbackName: string): ParsedPaletteFile {
+  const lines = text.split(/\r?\n/);
+  if (!lines[0]?.trim().startsWith('GIMP Palette')) throw new Error('Not a GIMP palette (missing "GIMP Palette" header)');
+  let name = fallbackName;
+  const colors: string[] = [];
+  for (const line of lines.slice(1)) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('Name:')) { name = trimmed.slice(5).trim() || name; continue; }
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('Columns:')) continue;
+    const match = /^(\d+)\s+(\d+)\s+(\d+)/.exec(trimmed);
+    if (match) addUnique(colors, toHex(+match[1], +match[2], +match[3]));
+  }
+  return { name, colors, warnings: [] };
+}
+
+function parsePaintNet(text: string, fallbackName: string): ParsedPaletteFile {
+  const colors: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith(';')) continue;
+    if (!/^[0-9a-f]{8}$/i.test(trimmed)) throw new Error('Not a Paint.NET palette');
+    addUnique(colors, `#${trimmed.slice(2)}`.toUpperCase());
+  }
+  return { name: fallbackName, colors, warnings: [] };
+}
+
+// Lospec-style hex list: one 'RRGGBB' per line, so all-digit lines are hex too
+function parseHexList(text: string, fallbackName: string): ParsedPaletteFile {
+  const colors: string[] = [];
+  let invalid = 0;
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    const color = normalizeHexColor(trimmed);
+    if (color) addUnique(colors, color);
+    else invalid++;
+  }
+  return { name: fallbackName, colors, warnings: invalid > 0 ? [`${invalid} line${invalid === 1 ? ' was' : 's were'} not a color`] : [] };
+}
+
+function parseJasc(text: string, fallbackName: string): ParsedPaletteFile {
+  const lines = text.split(/\r?\n/).map((line) => line.trim());
+  const count = parseInt(lines[2], 10);
+  const colors: string[] = [];
+  for (const line of lines.slice(3, 3 + (Number.isFinite(count) ? count : lines.length))) {
+    const match = /^(\d+)\s+(\d+)\s+(\d+)/.exec(line);
+    if (match) addUnique(colors, toHex(+match[1], +match[2], +match[3]));
+  }
+  return { name: fallbackName, colors, warnings: [] };
+}
+
+// Microsoft RIFF palette: 'RIFF' <size> 'PAL ' 'data' <size> <version> <count> RGBx...
+function parseRiffPal(view: DataView, fallbackName: string): ParsedPaletteFile {
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const id = String.fromCharCode(...new Uint8Array(view.buffer, view.byteOffset + offset, 4));
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'data') {
+      const count = view.getUint16(offset + 10, true);
+      const colors: string[] = [];
+      for (let i = 0; i < count && offset + 12 + i * 4 + 3 <= view.byteLength; i++) {
+        const o = offset + 12 + i * 4;
+        addUnique(colors, toHex(view.getUint8(o), view.getUint8(o + 1), view.getUint8(o + 2)));
+      }
+      return { name: fallbackName, colors, warnings: [] };
+    }
+    offset += 8 + size + (size & 1);
+  }
+  throw new Error('RIFF palette has no data chunk');
+}
+
+// Adobe Swatch Exchange: big-endian blocks of color entries, optionally in groups
+function parseAse(view: DataView, fallbackName: string): ParsedPaletteFile {
+  const blockCount = view.getUint32(8);
+  const colors: string[] = [];
+  let name = fallbackName;
+  let skipped = 0;
+  let offset = 12;
+  for (let block = 0; block < blockCount && offset + 6 <= view.byteLength; block++) {
+    const type = view.getUint16(offset);
+    const length = view.getUint32(offset + 2);
+    const start = offset + 6;
+    offset = start + length;
+    if (type !== 0x0001 && type !== 0xc001) continue;
+
+    const nameLength = view.getUint16(start);
+    let p = start + 2 + nameLength * 2;
+    if (type === 0xc001) {
+      // Use the first group's name as the palette name
+      if (name === fallbackName && nameLength > 1) {
+        const chars: number[] = [];
+        for (let i = 0; i < nameLength - 1; i++) chars.push(view.getUint16(start + 2 + i * 2));
+        name = String.fromCharCode(...chars);
+      }
+      continue;
+    }
+
+    const model = String.fromCharCode(view.getUint8(p), view.getUint8(p + 1), view.getUint8(p + 2), view.getUint8(p + 3));
+    p += 4;
+    const f = (i: number) => view.getFloat32(p + i * 4);
+    if (model === 'RGB ') addUnique(colors, toHex(f(0) * 255, f(1) * 255, f(2) * 255));
+    else if (model === 'CMYK') addUnique(colors, cmykToHex(f(0), f(1), f(2), f(3)));
+    else if (model === 'Gray') addUnique(colors, toHex(f(0) * 255, f(0) * 255, f(0) * 255));
+    else skipped++;
+  }
+  const warnings = skipped > 0 ? [`${skipped} Lab color${skipped === 1 ? ' was' : 's were'} skipped`] : [];
+  return { name, colors, warnings };
+}
+
+// Adobe Color Swatches: version 1 section (and an optional version 2 section with names)
+function parseAco(view: DataView, fallbackName: string): ParsedPaletteFile {
+  const version = view.getUint16(0);
+  if (version !== 1 && version !== 2) throw new Error('Not an Adobe color swatch file');
+  const count = view.getUint16(2);
+  const colors: string[] = [];
+  let skipped = 0;
+  let offset = 4;
+  for (let i = 0; i < count && offset + 10 <= view.byteLength; i++) {
+    const space = view.getUint16(offset);
+    const w = [view.getUint16(offset + 2), view.getUint16(offset + 4), view.getUint16(offset + 6), view.getUint16(offset + 8)];
+    offset += 10;
+    if (version === 2) offset += 4 + view.getUint32(offset) * 2; // Skip the UTF-16 name
+
+    if (space === 0) addUnique(colors, toHex(w[0] / 257, w[1] / 257, w[2] / 257));
+    else if (space === 1) addUnique(colors, hsbToHex((w[0] / 65535) * 360, w[1] / 65535, w[2] / 65535));
+    else if (space === 2) addUnique(colors, cmykToHex(1 - w[0] / 65535, 1 - w[1] / 65535, 1 - w[2] / 65535, 1 - w[3] / 65535));
+    else if (space === 8) {
+      const gray = 255 - (w[0] / 10000) * 255;
+      addUnique(colors, toHex(gray, gray, gray));
+    } else skipped++;
+  }
+  const warnings = skipped > 0 ? [`${skipped} color${skipped === 1 ? '' : 's'} in an unsupported color space (Lab, etc.) ${skipped === 1 ? 'was' : 'were'} skipped`] : [];
+  return { name: fallbackName, colors, warnings };
+}
+
+// Swatch strips and grids: the distinct opaque colors in reading order
+async function parseSwatchImage(file: Blob, fallbackName: string): Promise<ParsedPaletteFile> {
+  const url = URL.createObjectURL(file);
+  try {
+    const { data } = await loadImagePixels(url);
+    const seen = new Set<number>();
+    const colors: string[] = [];
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < 128) continue;
+      const rgb = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+      if (seen.has(rgb)) continue;
+      seen.add(rgb);
+      colors.push(toHex(data[i], data[i + 1], data[i + 2]));
+      if (colors.length > MAX_IMAGE_PALETTE_COLORS) {
+        throw new Error(`The image has more than ${MAX_IMAGE_PALETTE_COLORS} colors - use a swatch strip, not a picture`);
+      }
+    }
+    return { name: fallbackName, colors, warnings: [] };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Read a palette file, picking the format from the extension and the file's signature
+ * Aseprite sprites (.ase is shared with Adobe) give their palette.
+ */
+export async function importPaletteFile(file: File): Promise<ParsedPaletteFile> {
+  const fallbackName = baseName(file.name);
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  const buffer = await file.arrayBuffer();
+  const view = new DataView(buffer);
+  const signature = buffer.byteLength >= 4 ? String.fromCharCode(...new Uint8Array(buffer, 0, 4)) : '';
+
+  let parsed: ParsedPaletteFile;
+  if (signature === 'ASEF') {
+    parsed = parseAse(view, fallbackName);
+  } else if (extension === 'ase' || extension === 'aseprite') {
+    const sprite = await importAseprite(buffer);
+    if (!sprite.palette?.length) throw new Error('The Aseprite file has no palette');
+    parsed = { name: fallbackName, colors: sprite.palette, warnings: [] };
+  } else if (extension === 'aco') {
+    parsed = parseAco(view, fallbackName);
+  } else if (signature === 'RIFF') {
+    parsed = parseRiffPal(view, fallbackName);
+  } else if (file.type.startsWith('image/') || ['png', 'gif', 'bmp'].includes(extension)) {
+    parsed = await parseSwatchImage(file, fallbackName);
+  } else {
+    const text = new TextDecoder().decode(buffer);
+    if (text.trimStart().startsWith('GIMP Palette')) parsed = parseGpl(text, fallbackName);
+    else if (text.startsWith('JASC-PAL')) parsed = parseJasc(text, fallbackName);
+    else if (/^\s*;/.test(text)) parsed = parsePaintNet(text, fallbackName);
+    else if (extension === 'hex') parsed = parseHexList(text, fallbackName);
+    else {
+      // Pasted lists: anything parsePaletteText understands
+      const { colors, invalid } = parsePaletteText(text);
+      parsed = {
+        name: fallbackName,
+        colors,
+        warnings: invalid.length > 0 ? [`${invalid.length} entr${invalid.length === 1 ? 'y was' : 'ies were'} not a color`] : [],
+      };
+    }
+  }
+
+  if (parsed.colors.length === 0) throw new Error(`No colors found in ${file.name}`);
+  return parsed;
+}
+
+class BigEndianWriter {
+  private bytes: number[] = [];
+
+  u16(value: number) { this.bytes.push((value >> 8) & 0xff, value & 0xff); }
+  u32(value: number) { this.u16(value >>> 16); this.u16(value & 0xffff); }
+  f32(value: number) {
+    const view = new DataView(new ArrayBuffer(4));
+    view.setFloat32(0, value);
+    for (let i = 0; i < 4; i++) this.bytes.push(view.getUint8(i));
+  }
+  ascii(text: string) { for (const char of text) this.bytes.push(char.charCodeAt(0)); }
+  utf16(text: string) { for (let i = 0; i < text.length; i++) this.u16(text.charCodeAt(i)); this.u16(0); }
+  get length() { return this.bytes.length; }
+  toBytes() { return new Uint8Array(this.bytes); }
+}
+
+function writeAse(colors: string[]) {
+  const out = new BigEndianWriter();
+  out.ascii('ASEF');
+  out.u16(1);
+  out.u16(0);
+  out.u32(colors.length);
+  for (const color of colors) {
+    const { r, g, b } = fromHex(color);
+    const name = color.slice(1);
+    out.u16(0x0001);
+    out.u32(2 + (name.length + 1) * 2 + 4 + 12 + 2);
+    out.u16(name.length + 1);
+    out.utf16(name);
+    out.ascii('RGB ');
+    out.f32(r / 255);
+    out.f32(g / 255);
+    out.f32(b / 255);
+    out.u16(2); // Normal (not global or spot)
+  }
+  return out.toBytes();
+}
+
+function writeAco(colors: string[]) {
+  const out = new BigEndianWriter();
+  for (const version of [1, 2]) {
+    out.u16(version);
+    out.u16(colors.length);
+    for (const color of colors) {
+      const { r, g, b } = fromHex(color);
+      out.u16(0); // RGB
+      out.u16(r * 257);
+      out.u16(g * 257);
+      out.u16(b * 257);
+      out.u16(0);
+      if (version === 2) {
+        const name = color.slice(1);
+        out.u32(name.length + 1);
+        out.utf16(name);
+      }
+    }
+  }
+  return out.toBytes();
+}
+
+/**
+ * Write a palette in one of the supported formats
+ * Paint.NET reads at most 96 colors; the rest are still written.
+ */
+export function exportPaletteFile(name: string, colors: string[], format: PaletteFileFormat): Blob {
+  const rgb = colors.map(fromHex);
+  switch (format) {
+    case 'gpl':
+      return new Blob([
+        `GIMP Palette\nName: ${name}\nColumns: ${Math.min(16, colors.length)}\n#\n` +
+        rgb.map(({ r, g, b }, i) => `${String(r).padStart(3)} ${String(g).padStart(3)} ${String(b).padStart(3)}\t${colors[i].slice(1)}\n`).join(''),
+      ], { type: 'text/plain' });
+    case 'paint-net':
+      return new Blob([
+        `; paint.net Palette File\n; ${name}\n; Colors: ${colors.length}\n` + colors.map((c) => `FF${c.slice(1)}\n`).join(''),
+      ], { type: 'text/plain' });
+    case 'jasc':
+      return new Blob([
+        `JASC-PAL\r\n0100\r\n${colors.length}\r\n` + rgb.map(({ r, g, b }) => `${r} ${g} ${b}\r\n`).join(''),
+      ], { type: 'text/plain' });
+    case 'ase':
+      return new Blob([writeAse(colors)], { type: 'application/octet-stream' });
+    case 'aco':
+      return new Blob([writeAco(colors)], { type: 'application/octet-stream' });
+    case 'hex':
+      return new Blob([colors.map((c) => `${c.slice(1)}\n`).join('')], { type: 'text/plain' });
+    case 'png': {
+      // One pixel per color, left to right
+      const pixels = new ImageData(Math.max(1, colors.length), 1);
+      rgb.forEach(({ r, g, b }, i) => pixels.data.set([r, g, b, 255], i * 4));
+      return dataUrlToBlob(pixelsToDataUrl(pixels));
+    }
+  }
+}
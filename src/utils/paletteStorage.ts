@@ -0,0 +1,127 @@
+/**
+ * IndexedDB-based palette library
+ * Named, tagged and ordered palettes shared by every palette picker in the app
+ */
+
+const DB_NAME = 'pixelconnect_palettes';
+const DB_VERSION = 1;
+const STORE_NAME = 'palettes';
+
+// Palette pickers use `${LIBRARY_SOURCE_PREFIX}${id}` as the option value of library palettes
+export const LIBRARY_SOURCE_PREFIX = 'library:';
+
+export interface LibraryPalette {
+  id: string;
+  name: string;
+  colors: string[]; // '#RRGGBB'
+  tags: string[];
+  order: number; // Position in the library, ascending
+  createdAt: string;
+  updatedAt: string;
+}
+
+const listeners = new Set<() => void>();
+
+function notifyChange() {
+  listeners.forEach((listener) => listener());
+}
+
+/** Subscribe to library changes; returns the unsubscribe function */
+export function onPaletteLibraryChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** List all library palettes in library order */
+export async function listLibraryPalettes(): Promise<LibraryPalette[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const req = tx.objectStore(STORE_NAME).getAll();
+    req.onsuccess = () => resolve((req.result as LibraryPalette[]).sort((a, b) => a.order - b.order));
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Save palettes (overwrite if same id) */
+export async function saveLibraryPalettes(entries: LibraryPalette[]): Promise<void> {
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    for (const entry of entries) store.put(entry);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  notifyChange();
+}
+
+/** Add a palette at the end of the library */
+export async function addLibraryPalette(name: string, colors: string[], tags: string[] = []): Promise<LibraryPalette> {
+  const existing = await listLibraryPalettes();
+  const now = new Date().toISOString();
+  const entry: LibraryPalette = {
+    id: `palette-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    colors,
+    tags,
+    order: existing.length > 0 ? existing[existing.length - 1].order + 1 : 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveLibraryPalettes([entry]);
+  return entry;
+}
+
+/** Change a palette's name, colors or tags */
+export async function updateLibraryPalette(
+  entry: LibraryPalette,
+  updates: Partial<Pick<LibraryPalette, 'name' | 'colors' | 'tags'>>
+): Promise<void> {
+  await saveLibraryPalettes([{ ...entry, ...updates, updatedAt: new Date().toISOString() }]);
+}
+
+/** Store a new library order (ids first to last) */
+export async function reorderLibraryPalettes(entries: LibraryPalette[], ids: string[]): Promise<void> {
+  const byId = new Map(entries.map((entry) => [entry.id, entry]));
+  const reordered = ids
+    .map((id, order) => { const entry = byId.get(id); return entry ? { ...entry, order } : null; })
+    .filter((entry): entry is LibraryPalette => entry !== null);
+  await saveLibraryPalettes(reordered);
+}
+
+/** Delete a library palette */
+export async function deleteLibraryPalette(id: string): Promise<void> {
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).delete(id);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  notifyChange();
+}
+
+/**
+ * Colors of a library palette picked in a palette select
+ * @returns null when the value is not a library palette (or it no longer exists)
+ */
+export function getLibraryPaletteColors(library: LibraryPalette[], value: string): string[] | null {
+  if (!value.startsWith(LIBRARY_SOURCE_PREFIX)) return null;
+  const id = value.slice(LIBRARY_SOURCE_PREFIX.length);
+  return library.find((entry) => entry.id === id)?.colors ?? null;
+}
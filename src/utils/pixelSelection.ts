@@ -0,0 +1,336 @@
+/**
+ * Pixel selection utilities
+ * Selections are bit masks in canvas pixels (PixelSelection), built by the
+ * marquee, lasso and magic wand tools and combined with add/subtract/intersect.
+ * Layer operations translate them into layer-local pixels.
+ */
+
+import { ActiveTool, PixelSelection, SelectionMode, SelectionTool } from '../types/compositor.types';
+import { PixelPoint, selectSimilar } from './pixelTools';
+
+export const SELECTION_TOOLS: SelectionTool[] = ['marquee-rect', 'marquee-ellipse', 'lasso', 'magic-wand'];
+
+export const SELECTION_TOOL_LABELS: Record<SelectionTool, string> = {
+  'marquee-rect': 'Rectangle Marquee',
+  'marquee-ellipse': 'Ellipse Marquee',
+  lasso: 'Lasso',
+  'magic-wand': 'Magic Wand',
+};
+
+/**
+ * Check whether a tool builds a pixel selection
+ */
+export function isSelectionTool(tool: ActiveTool): tool is SelectionTool {
+  return (SELECTION_TOOLS as ActiveTool[]).includes(tool);
+}
+
+/**
+ * Combine mode from modifier keys (Shift adds, Alt subtracts, both intersect)
+ */
+export function getSelectionMode(shiftKey: boolean, altKey: boolean, fallback: SelectionMode): SelectionMode {
+  if (shiftKey && altKey) return 'intersect';
+  if (shiftKey) return 'add';
+  if (altKey) return 'subtract';
+  return fallback;
+}
+
+function emptySelection(x: number, y: number, width: number, height: number): PixelSelection {
+  return { x, y, width, height, mask: new Uint8Array(width * height) };
+}
+
+/**
+ * Rectangle between two canvas pixels, both included
+ */
+export function createRectSelection(from: PixelPoint, to: PixelPoint): PixelSelection {
+  const x = Math.min(from.x, to.x);
+  const y = Math.min(from.y, to.y);
+  const selection = emptySelection(x, y, Math.abs(to.x - from.x) + 1, Math.abs(to.y - from.y) + 1);
+  selection.mask.fill(1);
+  return selection;
+}
+
+/**
+ * Ellipse inscribed in the rectangle between two canvas pixels
+ * A pixel is selected when its center lies inside the ellipse
+ */
+export function createEllipseSelection(from: PixelPoint, to: PixelPoint): PixelSelection {
+  const selection = createRectSelection(from, to);
+  const { width, height, mask } = selection;
+  const rx = width / 2;
+  const ry = height / 2;
+
+  for (let py = 0; py < height; py++) {
+    for (let px = 0; px < width; px++) {
+      const dx = (px + 0.5 - rx) / rx;
+      const dy = (py + 0.5 - ry) / ry;
+      mask[py * width + px] = dx * dx + dy * dy <= 1 ? 1 : 0;
+    }
+  }
+  return selection;
+}
+
+/**
+ * Freeform polygon in canvas coordinates, rasterized like the mask editors
+ */
+export function createPolygonSelection(points: PixelPoint[]): PixelSelection | null {
+  if (points.length < 3) return null;
+  const x = Math.floor(Math.min(...points.map((p) => p.x)));
+  const y = Math.floor(Math.min(...points.map((p) => p.y)));
+  const width = Math.ceil(Math.max(...points.map((p) => p.x))) - x + 1;
+  const height = Math.ceil(Math.max(...points.map((p) => p.y))) - y + 1;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.beginPath();
+  ctx.moveTo(points[0].x - x, points[0].y - y);
+  for (let i = 1; i < points.length; i++) {
+    ctx.lineTo(points[i].x - x, points[i].y - y);
+  }
+  ctx.closePath();
+  ctx.fillStyle = '#fff';
+  ctx.fill();
+  const polygon = ctx.getImageData(0, 0, width, height).data;
+
+  const selection = emptySelection(x, y, width, height);
+  for (let i = 0; i < width * height; i++) {
+    if (polygon[i * 4 + 3] > 128) selection.mask[i] = 1;
+  }
+  return trimSelection(selection);
+}
+
+/**
+ * Magic wand on a layer's pixels
+ * @param originX - Layer position in canvas pixels
+ * @param originY - Layer position in canvas pixels
+ * @param x - Clicked pixel, layer-local
+ * @param y - Clicked pixel, layer-local
+ */
+export function createWandSelection(
+  pixels: ImageData,
+  originX: number,
+  originY: number,
+  x: number,
+  y: number,
+  tolerance: number,
+  contiguous: boolean
+): PixelSelection | null {
+  const mask = selectSimilar(pixels, x, y, tolerance, contiguous);
+  if (!mask) return null;
+  return trimSelection({ x: originX, y: originY, width: pixels.width, height: pixels.height, mask });
+}
+
+/**
+ * Check whether a canvas pixel is selected
+ */
+export function isPixelSelected(selection: PixelSelection, x: number, y: number): boolean {
+  const px = x - selection.x;
+  const py = y - selection.y;
+  if (px < 0 || py < 0 || px >= selection.width || py >= selection.height) return false;
+  return selection.mask[py * selection.width + px] === 1;
+}
+
+/**
+ * Shrink a selection to the bounds of its selected pixels
+ * @returns null when nothing is selected
+ */
+export function trimSelection(selection: PixelSelection): PixelSelection | null {
+  const { width, height, mask } = selection;
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let py = 0; py < height; py++) {
+    for (let px = 0; px < width; px++) {
+      if (!mask[py * width + px]) continue;
+      if (px < minX) minX = px;
+      if (px > maxX) maxX = px;
+      if (py < minY) minY = py;
+      if (py > maxY) maxY = py;
+    }
+  }
+  if (maxX < 0) return null;
+  if (minX === 0 && minY === 0 && maxX === width - 1 && maxY === height - 1) return selection;
+
+  const trimmed = emptySelection(selection.x + minX, selection.y + minY, maxX - minX + 1, maxY - minY + 1);
+  for (let py = 0; py < trimmed.height; py++) {
+    const row = (py + minY) * width + minX;
+    trimmed.mask.set(mask.subarray(row, row + trimmed.width), py * trimmed.width);
+  }
+  return trimmed;
+}
+
+/**
+ * Combine a new selection with the current one
+ * @returns null when the result selects nothing
+ */
+export function combineSelections(
+  current: PixelSelection | null,
+  next: PixelSelection | null,
+  mode: SelectionMode
+): PixelSelection | null {
+  if (mode === 'replace' || !current) return mode === 'subtract' || mode === 'intersect' ? null : next;
+  if (!next) return mode === 'add' || mode === 'subtract' ? current : null;
+
+  // Result bounds: union for add, the current selection otherwise
+  const x = mode === 'add' ? Math.min(current.x, next.x) : current.x;
+  const y = mode === 'add' ? Math.min(current.y, next.y) : current.y;
+  const right = mode === 'add' ? Math.max(current.x + current.width, next.x + next.width) : current.x + current.width;
+  const bottom = mode === 'add' ? Math.max(current.y + current.height, next.y + next.height) : current.y + current.height;
+  const result = emptySelection(x, y, right - x, bottom - y);
+
+  for (let py = 0; py < result.height; py++) {
+    for (let px = 0; px < result.width; px++) {
+      const a = isPixelSelected(current, x + px, y + py);
+      const b = isPixelSelected(next, x + px, y + py);
+      const selected = mode === 'add' ? a || b : mode === 'subtract' ? a && !b : a && b;
+      if (selected) result.mask[py * result.width + px] = 1;
+    }
+  }
+  return trimSelection(result);
+}
+
+/**
+ * Move a selection outline by whole pixels (the pixels under it stay)
+ */
+export function translateSelection(selection: PixelSelection, dx: number, dy: number): PixelSelection {
+  return { ...selection, x: selection.x + dx, y: selection.y + dy };
+}
+
+/**
+ * SVG path of the selection outline in canvas coordinates, for marching ants
+ * Runs of edges along a row/column are merged into one segment
+ */
+export function getSelectionOutlinePath(selection: PixelSelection): string {
+  const { x, y, width, height } = selection;
+  const at = (px: number, py: number) =>
+    px >= 0 && py >= 0 && px < width && py < height && selection.mask[py * width + px] === 1;
+  const segments: string[] = [];
+
+  // Horizontal edges (top of each row, including the bottom of the last one)
+  for (let py = 0; py <= height; py++) {
+    let runStart = -1;
+    for (let px = 0; px <= width; px++) {
+      const edge = px < width && at(px, py) !== at(px, py - 1);
+      if (edge && runStart === -1) runStart = px;
+      if (!edge && runStart !== -1) {
+        segments.push(`M${x + runStart} ${y + py}H${x + px}`);
+        runStart = -1;
+      }
+    }
+  }
+
+  // Vertical edges (left of each column, including the right of the last one)
+  for (let px = 0; px <= width; px++) {
+    let runStart = -1;
+    for (let py = 0; py <= height; py++) {
+      const edge = py < height && at(px, py) !== at(px - 1, py);
+      if (edge && runStart === -1) runStart = py;
+      if (!edge && runStart !== -1) {
+        segments.push(`M${x + px} ${y + runStart}V${y + py}`);
+        runStart = -1;
+      }
+    }
+  }
+
+  return segments.join('');
+}
+
+/**
+ * Copy the selected pixels of a layer into a new image cropped to the
+ * part of the selection that overlaps the layer
+ * @param originX - Layer position in canvas pixels
+ * @param originY - Layer position in canvas pixels
+ * @returns The pixels and their canvas position, or null when nothing overlaps
+ */
+export function extractSelectedPixels(
+  pixels: ImageData,
+  originX: number,
+  originY: number,
+  selection: PixelSelection
+): { pixels: ImageData; x: number; y: number } | null {
+  const left = Math.max(originX, selection.x);
+  const top = Math.max(originY, selection.y);
+  const right = Math.min(originX + pixels.width, selection.x + selection.width);
+  const bottom = Math.min(originY + pixels.height, selection.y + selection.height);
+  if (right <= left || bottom <= top) return null;
+
+  const result = new ImageData(right - left, bottom - top);
+  let any = false;
+  for (let cy = top; cy < bottom; cy++) {
+    for (let cx = left; cx < right; cx++) {
+      if (!isPixelSelected(selection, cx, cy)) continue;
+      const from = ((cy - originY) * pixels.width + (cx - originX)) * 4;
+      if (pixels.data[from + 3] === 0) continue;
+      const to = ((cy - top) * result.width + (cx - left)) * 4;
+      result.data.set(pixels.data.subarray(from, from + 4), to);
+      any = true;
+    }
+  }
+  return any ? { pixels: result, x: left, y: top } : null;
+}
+
+/**
+ * Make the selected pixels of a layer transparent
+ * @returns false when nothing changed
+ */
+export function clearSelectedPixels(
+  pixels: ImageData,
+  originX: number,
+  originY: number,
+  selection: PixelSelection
+): boolean {
+  let changed = false;
+  for (let py = 0; py < selection.height; py++) {
+    for (let px = 0; px < selection.width; px++) {
+      if (!selection.mask[py * selection.width + px]) continue;
+      const lx = selection.x + px - originX;
+      const ly = selection.y + py - originY;
+      if (lx < 0 || ly < 0 || lx >= pixels.width || ly >= pixels.height) continue;
+      const i = (ly * pixels.width + lx) * 4;
+      if (pixels.data[i + 3] === 0) continue;
+      pixels.data.fill(0, i, i + 4);
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Decode a data URL into pixels
+ */
+export function loadImagePixels(src: string): Promise<ImageData> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0);
+      resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    };
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = src;
+  });
+}
+
+/**
+ * Encode pixels as a PNG data URL
+ */
+export function pixelsToDataUrl(pixels: ImageData): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = pixels.width;
+  canvas.height = pixels.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.putImageData(pixels, 0, 0);
+  return canvas.toDataURL();
+}
@@ -0,0 +1,228 @@
+/**
+ * Pixel editing tools
+ * Pencil, eraser, bucket fill and eyedropper helpers working directly on
+ * ImageData at the layer's own resolution (one layer pixel = one array entry)
+ */
+
+import { ActiveTool, PixelTool } from '../types/compositor.types';
+
+export type RGBA = [number, number, number, number];
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+export const PIXEL_TOOLS: PixelTool[] = ['pencil', 'eraser', 'fill', 'eyedropper'];
+
+export const PIXEL_TOOL_LABELS: Record<PixelTool, string> = {
+  pencil: 'Pencil',
+  eraser: 'Eraser',
+  fill: 'Bucket Fill',
+  eyedropper: 'Eyedropper',
+};
+
+export const MAX_BRUSH_SIZE = 32;
+
+// Painted by the eraser
+export const TRANSPARENT: RGBA = [0, 0, 0, 0];
+
+/**
+ * Check whether a tool edits or samples layer pixels
+ */
+export function isPixelTool(tool: ActiveTool): tool is PixelTool {
+  return (PIXEL_TOOLS as ActiveTool[]).includes(tool);
+}
+
+/**
+ * Parse a #RRGGBB color into opaque RGBA
+ */
+export function hexToRgba(hex: string): RGBA {
+  const value = parseInt(hex.replace('#', '').slice(0, 6), 16);
+  if (isNaN(value)) return [0, 0, 0, 255];
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255, 255];
+}
+
+/**
+ * Format RGB as an uppercase #RRGGBB color
+ */
+export function rgbToHex(r: number, g: number, b: number): string {
+  return `#${((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1).toUpperCase()}`;
+}
+
+/**
+ * Read one pixel, or null outside the image
+ */
+export function readPixel(pixels: ImageData, x: number, y: number): RGBA | null {
+  if (x < 0 || y < 0 || x >= pixels.width || y >= pixels.height) return null;
+  const i = (y * pixels.width + x) * 4;
+  const d = pixels.data;
+  return [d[i], d[i + 1], d[i + 2], d[i + 3]];
+}
+
+/**
+ * Write one pixel, ignoring coordinates outside the image
+ */
+export function writePixel(pixels: ImageData, x: number, y: number, color: RGBA): void {
+  if (x < 0 || y < 0 || x >= pixels.width || y >= pixels.height) return;
+  const i = (y * pixels.width + x) * 4;
+  pixels.data[i] = color[0];
+  pixels.data[i + 1] = color[1];
+  pixels.data[i + 2] = color[2];
+  pixels.data[i + 3] = color[3];
+}
+
+/**
+ * Paint a square brush of the given size centered on a pixel
+ * Even sizes extend one pixel further to the right and bottom
+ */
+export function stampBrush(pixels: ImageData, x: number, y: number, size: number, color: RGBA): void {
+  const start = Math.floor((size - 1) / 2);
+  for (let dy = 0; dy < size; dy++) {
+    for (let dx = 0; dx < size; dx++) {
+      writePixel(pixels, x - start + dx, y - start + dy, color);
+    }
+  }
+}
+
+/**
+ * Every pixel on the line between two points (Bresenham), both ends included
+ */
+export function linePixels(x0: number, y0: number, x1: number, y1: number): PixelPoint[] {
+  const points: PixelPoint[] = [];
+  const dx = Math.abs(x1 - x0);
+  const dy = -Math.abs(y1 - y0);
+  const sx = x0 < x1 ? 1 : -1;
+  const sy = y0 < y1 ? 1 : -1;
+  let err = dx + dy;
+  let x = x0;
+  let y = y0;
+
+  for (;;) {
+    points.push({ x, y });
+    if (x === x1 && y === y1) break;
+    const e2 = 2 * err;
+    if (e2 >= dy) {
+      err += dy;
+      x += sx;
+    }
+    if (e2 <= dx) {
+      err += dx;
+      y += sy;
+    }
+  }
+  return points;
+}
+
+/**
+ * Pixel-perfect stroke check: true when the middle of the last three stroke
+ * pixels is the inner corner of an L (its neighbours touch diagonally),
+ * which makes a 1px line look doubled up
+ */
+export function isStrokeCorner(points: PixelPoint[]): boolean {
+  if (points.length < 3) return false;
+  const a = points[points.length - 3];
+  const b = points[points.length - 2];
+  const c = points[points.length - 1];
+  return (
+    (a.x === b.x || a.y === b.y) &&
+    (c.x === b.x || c.y === b.y) &&
+    a.x !== c.x &&
+    a.y !== c.y
+  );
+}
+
+function colorsMatch(data: Uint8ClampedArray, i: number, target: RGBA, tolerance: number): boolean {
+  // All fully transparent pixels count as the same color
+  if (data[i + 3] === 0 && target[3] === 0) return true;
+  return (
+    Math.abs(data[i] - target[0]) <= tolerance &&
+    Math.abs(data[i + 1] - target[1]) <= tolerance &&
+    Math.abs(data[i + 2] - target[2]) <= tolerance &&
+    Math.abs(data[i + 3] - target[3]) <= tolerance
+  );
+}
+
+/**
+ * Pixels matching the color of a clicked pixel (bucket fill / magic wand)
+ * @param tolerance - Max per-channel difference from the clicked color (0-255)
+ * @param contiguous - Only pixels connected to the clicked one (4-way);
+ *   otherwise every matching pixel of the image
+ * @returns Mask with 1 for matching pixels, or null outside the image
+ */
+export function selectSimilar(
+  pixels: ImageData,
+  x: number,
+  y: number,
+  tolerance: number,
+  contiguous: boolean
+): Uint8Array | null {
+  const target = readPixel(pixels, x, y);
+  if (!target) return null;
+
+  const { width, height, data } = pixels;
+  const mask = new Uint8Array(width * height);
+
+  if (!contiguous) {
+    for (let index = 0; index < width * height; index++) {
+      if (colorsMatch(data, index * 4, target, tolerance)) mask[index] = 1;
+    }
+    return mask;
+  }
+
+  const stack = [y * width + x];
+  for (let index = stack.pop(); index !== undefined; index = stack.pop()) {
+    if (mask[index] || !colorsMatch(data, index * 4, target, tolerance)) continue;
+    mask[index] = 1;
+
+    const px = index % width;
+    const py = (index - px) / width;
+    if (px > 0) stack.push(index - 1);
+    if (px < width - 1) stack.push(index + 1);
+    if (py > 0) stack.push(index - width);
+    if (py < height - 1) stack.push(index + width);
+  }
+  return mask;
+}
+
+/**
+ * Bucket fill from a pixel (see selectSimilar for tolerance/contiguous)
+ * @returns false when nothing changed
+ */
+export function floodFill(
+  pixels: ImageData,
+  x: number,
+  y: number,
+  color: RGBA,
+  tolerance: number,
+  contiguous: boolean
+): boolean {
+  const target = readPixel(pixels, x, y);
+  if (!target) return false;
+  if (tolerance === 0 && target.every((v, i) => v === color[i])) return false;
+
+  const mask = selectSimilar(pixels, x, y, tolerance, contiguous);
+  if (!mask) return false;
+
+  const data = pixels.data;
+  for (let index = 0; index < mask.length; index++) {
+    if (!mask[index]) continue;
+    data.set(color, index * 4);
+  }
+  return true;
+}
+
+/**
+ * Sample one pixel of a decoded image, or null outside it
+ */
+export function sampleImagePixel(img: HTMLImageElement, x: number, y: number): RGBA | null {
+  if (x < 0 || y < 0 || x >= img.naturalWidth || y >= img.naturalHeight) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = 1;
+  canvas.height = 1;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(img, -x, -y);
+  const d = ctx.getImageData(0, 0, 1, 1).data;
+  return [d[0], d[1], d[2], d[3]];
+}
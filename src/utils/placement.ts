@@ -0,0 +1,183 @@
+/**
+ * Placement instructions
+ * Turns the composite into a list of pixels to place on a shared canvas
+ * (GeoPixels, WPlace): world coordinates, color and palette index for every
+ * opaque pixel, in an order that suits placing them by hand or by bot.
+ */
+
+import { Layer } from '../types/compositor.types';
+import { normalizeHexColor } from './palette';
+import { loadImagePixels } from './pixelSelection';
+
+export type PlacementOrder = 'row-major' | 'color' | 'spiral' | 'layer';
+
+// Pixels at or above this alpha are placed (matching the GIF export); the rest are left empty
+export const PLACEMENT_ALPHA_THRESHOLD = 128;
+
+export interface PlacementPixel {
+  x: number; // World coordinate (canvas x plus origin)
+  y: number;
+  color: string; // '#RRGGBB'
+  paletteIndex: number | null; // Index in the placement palette; null when the color is not in it
+  layer?: string; // Topmost layer covering the pixel (layer order only)
+}
+
+export interface PlacementColorCount {
+  color: string;
+  paletteIndex: number | null;
+  count: number;
+}
+
+export interface PlacementPlan {
+  origin: { x: number; y: number };
+  order: PlacementOrder;
+  width: number; // Canvas size the plan was made from
+  height: number;
+  palette: string[];
+  pixels: PlacementPixel[];
+  colors: PlacementColorCount[]; // Most used first
+  offPalette: number; // Pixels whose color is not in the palette
+  semiTransparent: number; // Pixels placed although they were partly transparent
+}
+
+// Which layer each canvas pixel comes from: indices into names, -1 where no layer covers it
+export interface LayerOwnership {
+  names: string[]; // Bottom to top
+  owners: Int32Array;
+}
+
+/**
+ * Find the topmost visible layer under every canvas pixel
+ * @param layers - Layers with group visibility resolved (see resolveLayerGroups)
+ */
+export async function getLayerOwnership(layers: Layer[], width: number, height: number): Promise<LayerOwnership> {
+  const owners = new Int32Array(width * height).fill(-1);
+  const visible = layers
+    .filter((layer) => layer.visible && layer.opacity > 0)
+    .sort((a, b) => a.zIndex - b.zIndex);
+
+  for (let index = 0; index < visible.length; index++) {
+    const layer = visible[index];
+    const pixels = await loadImagePixels(layer.imageData);
+    const left = Math.floor(layer.x);
+    const top = Math.floor(layer.y);
+    for (let y = Math.max(0, -top); y < pixels.height && top + y < height; y++) {
+      for (let x = Math.max(0, -left); x < pixels.width && left + x < width; x++) {
+        if (pixels.data[(y * pixels.width + x) * 4 + 3] === 0) continue;
+        owners[(top + y) * width + left + x] = index;
+      }
+    }
+  }
+  return { names: visible.map((layer) => layer.name), owners };
+}
+
+/**
+ * Build the placement list for a rendered composite
+ * Colors are matched to the palette exactly; anything else keeps a null index
+ * (pixelate with the same palette first to avoid that).
+ * @param pixels - The composite at 1x, without background color
+ * @param ownership - Required for the 'layer' order
+ */
+export function buildPlacementPlan(
+  pixels: ImageData,
+  palette: string[],
+  options: { origin: { x: number; y: number }; order: PlacementOrder; ownership?: LayerOwnership }
+): PlacementPlan {
+  const { width, height, data } = pixels;
+  const { origin, order, ownership } = options;
+  const normalized = palette.map((color) => normalizeHexColor(color) ?? color);
+  const paletteIndex = new Map<string, number>();
+  normalized.forEach((color, i) => { if (!paletteIndex.has(color)) paletteIndex.set(color, i); });
+
+  const entries: { pixel: PlacementPixel; canvasX: number; canvasY: number; owner: number; sortKey: number }[] = [];
+  const counts = new Map<string, PlacementColorCount>();
+  let offPalette = 0;
+  let semiTransparent = 0;
+
+  // Row-major scan: every other order is a stable sort of this one
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const alpha = data[o + 3];
+      if (alpha < PLACEMENT_ALPHA_THRESHOLD) continue;
+      if (alpha < 255) semiTransparent++;
+
+      const color = `#${((data[o] << 16) | (data[o + 1] << 8) | data[o + 2]).toString(16).padStart(6, '0')}`.toUpperCase();
+      const index = paletteIndex.get(color) ?? null;
+      if (index === null) offPalette++;
+
+      const count = counts.get(color);
+      if (count) count.count++;
+      else counts.set(color, { color, paletteIndex: index, count: 1 });
+
+      const owner = ownership ? ownership.owners[y * width + x] : -1;
+      const pixel: PlacementPixel = { x: x + origin.x, y: y + origin.y, color, paletteIndex: index };
+      if (order === 'layer' && ownership && owner >= 0) pixel.layer = ownership.names[owner];
+      entries.push({ pixel, canvasX: x, canvasY: y, owner, sortKey: 0 });
+    }
+  }
+
+  const colors = [...counts.values()].sort((a, b) => b.count - a.count);
+
+  if (order === 'color') {
+    // Palette order (the order a placer's color picker shows), then off-palette colors by use
+    const rank = new Map(
+      [...colors]
+        .sort((a, b) => (a.paletteIndex ?? Number.MAX_SAFE_INTEGER) - (b.paletteIndex ?? Number.MAX_SAFE_INTEGER))
+        .map((c, i) => [c.color, i])
+    );
+    for (const e of entries) e.sortKey = rank.get(e.pixel.color) ?? 0;
+  } else if (order === 'spiral') {
+    // Rings of growing distance around the canvas center, each walked clockwise from the top
+    const cx = width / 2;
+    const cy = height / 2;
+    for (const e of entries) {
+      const dx = e.canvasX + 0.5 - cx;
+      const dy = e.canvasY + 0.5 - cy;
+      const ring = Math.floor(Math.max(Math.abs(dx), Math.abs(dy)));
+      const angle = (Math.atan2(dx, -dy) + 2 * Math.PI) % (2 * Math.PI); // 0 at the top, clockwise
+      e.sortKey = ring * 8 + angle;
+    }
+  } else if (order === 'layer') {
+    // Bottom layer first, so later layers are placed over it; uncovered pixels (e.g. effects) last
+    for (const e of entries) e.sortKey = e.owner < 0 ? Number.MAX_SAFE_INTEGER : e.owner;
+  }
+  if (order !== 'row-major') entries.sort((a, b) => a.sortKey - b.sortKey);
+
+  return {
+    origin,
+    order,
+    width,
+    height,
+    palette: normalized,
+    pixels: entries.map((e) => e.pixel),
+    colors,
+    offPalette,
+    semiTransparent,
+  };
+}
+
+function csvField(value: string) {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Placement list as CSV, one pixel per row
+ */
+export function placementToCSV(plan: PlacementPlan): string {
+  const withLayer = plan.order === 'layer';
+  const rows = [withLayer ? 'x,y,color,paletteIndex,layer' : 'x,y,color,paletteIndex'];
+  for (const p of plan.pixels) {
+    const row = `${p.x},${p.y},${p.color},${p.paletteIndex ?? ''}`;
+    rows.push(withLayer ? `${row},${csvField(p.layer ?? '')}` : row);
+  }
+  return rows.join('\n') + '\n';
+}
+
+/**
+ * Per-color pixel counts as CSV
+ */
+export function placementCountsToCSV(plan: PlacementPlan): string {
+  const rows = ['color,paletteIndex,count', ...plan.colors.map((c) => `${c.color},${c.paletteIndex ?? ''},${c.count}`)];
+  return rows.join('\n') + '\n';
+}
@@ -0,0 +1,111 @@
+/**
+ * Progress tracking
+ * Compares the design with a snapshot of the live canvas (a saved tile PNG or
+ * a screenshot) to see which pixels are already placed. Colors match when
+ * they are perceptually close, so lightly compressed screenshots still count.
+ */
+
+import { ProgressReport } from '../types/compositor.types';
+import { deltaE_OKLab, rgbToOklab } from './colorMatching';
+import { PLACEMENT_ALPHA_THRESHOLD } from './placement';
+
+// Default OKLab ΔE under which a snapshot pixel counts as the design color
+export const DEFAULT_PROGRESS_TOLERANCE = 3;
+
+// Overlay colors (RGBA) for each pixel state
+const OVERLAY_COLORS = {
+  done: [34, 197, 94, 255],
+  wrong: [239, 68, 68, 255],
+  missing: [250, 204, 21, 255],
+};
+
+export interface SnapshotPlacement {
+  offsetX: number; // Snapshot pixel (in world pixels) under design pixel (0, 0)
+  offsetY: number;
+  scale: number; // Screen pixels per world pixel in the snapshot (1 for tile images)
+  tolerance: number; // OKLab ΔE; 0 requires the exact color
+}
+
+function hex(r: number, g: number, b: number) {
+  return `#${((r << 16) | (g << 8) | b).toString(16).padStart(6, '0')}`.toUpperCase();
+}
+
+/**
+ * Classify every design pixel as done, wrong color or missing
+ * Design pixels below the placement alpha threshold are ignored, like in the
+ * placement export. Snapshot pixels that are transparent or outside the
+ * snapshot count as missing.
+ * @param design - The composite at 1x, without background color
+ * @returns The counts plus an overlay image the size of the design
+ */
+export function compareWithSnapshot(
+  design: ImageData,
+  snapshot: ImageData,
+  placement: SnapshotPlacement
+): { report: Omit<ProgressReport, 'snapshotName' | 'overlay'>; overlay: ImageData } {
+  const { width, height, data } = design;
+  const { offsetX, offsetY, tolerance } = placement;
+  const scale = Math.max(1, Math.round(placement.scale));
+  const overlay = new ImageData(width, height);
+  const labCache = new Map<number, ReturnType<typeof rgbToOklab>>();
+  const toLab = (rgb: number) => {
+    let lab = labCache.get(rgb);
+    if (!lab) {
+      lab = rgbToOklab({ r: rgb >> 16, g: (rgb >> 8) & 0xff, b: rgb & 0xff });
+      labCache.set(rgb, lab);
+    }
+    return lab;
+  };
+
+  const colors = new Map<number, { color: string; total: number; remaining: number }>();
+  let total = 0;
+  let done = 0;
+  let wrong = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      if (data[o + 3] < PLACEMENT_ALPHA_THRESHOLD) continue;
+      total++;
+
+      const target = (data[o] << 16) | (data[o + 1] << 8) | data[o + 2];
+      let entry = colors.get(target);
+      if (!entry) {
+        entry = { color: hex(data[o], data[o + 1], data[o + 2]), total: 0, remaining: 0 };
+        colors.set(target, entry);
+      }
+      entry.total++;
+
+      // Sample the middle of the block a world pixel covers in a zoomed screenshot
+      const sx = (x + offsetX) * scale + (scale >> 1);
+      const sy = (y + offsetY) * scale + (scale >> 1);
+      let state: keyof typeof OVERLAY_COLORS = 'missing';
+      if (sx >= 0 && sy >= 0 && sx < snapshot.width && sy < snapshot.height) {
+        const so = (sy * snapshot.width + sx) * 4;
+        if (snapshot.data[so + 3] >= PLACEMENT_ALPHA_THRESHOLD) {
+          const actual = (snapshot.data[so] << 16) | (snapshot.data[so + 1] << 8) | snapshot.data[so + 2];
+          const matches = actual === target || (tolerance > 0 && deltaE_OKLab(toLab(actual), toLab(target)) <= tolerance);
+          state = matches ? 'done' : 'wrong';
+        }
+      }
+
+      if (state === 'done') done++;
+      else {
+        entry.remaining++;
+        if (state === 'wrong') wrong++;
+      }
+      overlay.data.set(OVERLAY_COLORS[state], o);
+    }
+  }
+
+  return {
+    report: {
+      total,
+      done,
+      wrong,
+      missing: total - done - wrong,
+      colors: [...colors.values()].sort((a, b) => b.remaining - a.remaining || b.total - a.total),
+    },
+    overlay,
+  };
+}
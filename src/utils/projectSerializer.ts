@@ -3,7 +3,11 @@
  * Handles save/load operations for .pixcomp files
  */
 
-import { ProjectData } from '../types/compositor.types';
+import { Layer, ProjectData } from '../types/compositor.types';
+import { normalizeLayerOrder, pruneLayerGroups } from './layerGroups';
+import { BLEND_MODES, getCompositeOperation } from './canvasRenderer';
+import { EFFECT_LABELS } from './layerEffects';
+import { normalizeHexColor } from './palette';
 
 const CURRENT_VERSION = '1.0.0';
 const MIN_SUPPORTED_VERSION = '1.0.0';
@@ -19,7 +23,7 @@ export function serializeProject(project: ProjectData): string {
 
   const serialized: ProjectData = {
     ...project,
-    layers: filteredLayers,
+    ...pruneLayerGroups(filteredLayers, project.groups),
     modified: new Date().toISOString(),
   };
 
@@ -61,6 +65,22 @@ export async function deserializeProject(jsonString: string): Promise<ProjectDat
     // Validate required fields
     validateProjectData(data);
 
+    // Flat (pre-group) files have no groups; drop dangling group references
+    // and keep every group in one contiguous zIndex range
+    const { layers, groups } = pruneLayerGroups(data.layers, data.groups ?? []);
+    data.groups = groups.map((group) => ({ ...group, collapsed: Boolean(group.collapsed) }));
+    data.layers = normalizeLayerOrder(layers, groups);
+    data.rulers = { ...data.rulers, guides: data.rulers.guides ?? [] };
+    if (data.palette) data.palette = data.palette.map(normalizeHexColor);
+    if (data.animation) {
+      const { frames } = data.animation;
+      data.animation = {
+        ...data.animation,
+        activeFrameId: frames.some((f: { id: string }) => f.id === data.animation.activeFrameId) ? data.animation.activeFrameId : frames[0]?.id ?? null,
+        loopCount: Math.max(0, Math.round(Number(data.animation.loopCount) || 0)),
+      };
+    }
+
     // console.log('[DEBUG] Project validation passed');
 
     // Validate and load all images
@@ -116,6 +136,47 @@ function validateProjectData(data: any): void {
     throw new Error('Invalid project file: canvas height must be a positive number');
   }
 
+  // Validate world origin (optional - absent until the project is georeferenced)
+  const { worldOrigin } = data.canvas;
+  if (worldOrigin !== undefined && (
+    !worldOrigin || !Number.isInteger(worldOrigin.x) || !Number.isInteger(worldOrigin.y) ||
+    !Number.isInteger(worldOrigin.tileSize) || worldOrigin.tileSize <= 0
+  )) {
+    throw new Error('Invalid project file: canvas.worldOrigin needs integer x and y and a positive tile size');
+  }
+
+  // Validate guides
+  if (data.rulers.guides !== undefined && !Array.isArray(data.rulers.guides)) {
+    throw new Error('Invalid project file: rulers.guides must be an array');
+  }
+  for (const guide of data.rulers.guides ?? []) {
+    if (!guide || (guide.axis !== 'x' && guide.axis !== 'y') || typeof guide.position !== 'number') {
+      throw new Error('Invalid project file: guides need an axis (x or y) and a numeric position');
+    }
+  }
+
+  // Validate palette (optional - absent until a project palette is set)
+  if (data.palette !== undefined && (!Array.isArray(data.palette) || !data.palette.every((c: unknown) => typeof c === 'string' && normalizeHexColor(c)))) {
+    throw new Error('Invalid project file: palette must be an array of hex colors');
+  }
+
+  // Validate animation (optional - absent until the first frame is added)
+  if (data.animation !== undefined) {
+    const { animation } = data;
+    if (!animation || (animation.mode !== 'states' && animation.mode !== 'layer-per-frame') || !Array.isArray(animation.frames)) {
+      throw new Error('Invalid project file: animation needs a mode and a frames array');
+    }
+    for (let i = 0; i < animation.frames.length; i++) {
+      const frame = animation.frames[i];
+      if (!frame || typeof frame.id !== 'string' || typeof frame.duration !== 'number' || frame.duration <= 0) {
+        throw new Error(`Invalid animation frame ${i}: needs an id and a positive duration`);
+      }
+      if (typeof frame.layers !== 'object' || frame.layers === null) {
+        throw new Error(`Invalid animation frame ${i}: layers must be an object`);
+      }
+    }
+  }
+
   // Validate layers array
   if (!Array.isArray(data.layers)) {
     throw new Error('Invalid project file: layers must be an array');
@@ -140,6 +201,46 @@ function validateProjectData(data: any): void {
     if (!layer.imageData.startsWith('data:image/')) {
       throw new Error(`Invalid layer ${i}: imageData must be a valid data URL`);
     }
+
+    if (layer.blendMode !== undefined && !BLEND_MODES.some((mode) => mode.value === layer.blendMode)) {
+      throw new Error(`Invalid layer ${i}: unknown blend mode '${layer.blendMode}'`);
+    }
+
+    if (layer.effects !== undefined) {
+      if (!Array.isArray(layer.effects)) {
+        throw new Error(`Invalid layer ${i}: effects must be an array`);
+      }
+      for (const effect of layer.effects) {
+        if (!effect || typeof effect.id !== 'string' || !Object.keys(EFFECT_LABELS).includes(effect.type)) {
+          throw new Error(`Invalid layer ${i}: unknown effect type '${effect?.type}'`);
+        }
+      }
+      if (!layer.effectSource || typeof layer.effectSource.imageData !== 'string' || !layer.effectSource.imageData.startsWith('data:image/')) {
+        throw new Error(`Invalid layer ${i}: effectSource.imageData must be a valid data URL`);
+      }
+    }
+  }
+
+  // Validate groups (optional - absent in files saved before layer groups)
+  if ('groups' in data) {
+    if (!Array.isArray(data.groups)) {
+      throw new Error('Invalid project file: groups must be an array');
+    }
+
+    for (let i = 0; i < data.groups.length; i++) {
+      const group = data.groups[i];
+      const requiredGroupFields = ['id', 'name', 'visible', 'locked', 'opacity'];
+
+      for (const field of requiredGroupFields) {
+        if (!(field in group)) {
+          throw new Error(`Invalid group ${i}: missing required field '${field}'`);
+        }
+      }
+
+      if (typeof group.opacity !== 'number' || group.opacity < 0 || group.opacity > 1) {
+        throw new Error(`Invalid group ${i}: opacity must be a number between 0 and 1`);
+      }
+    }
   }
 }
 
@@ -183,17 +284,19 @@ function loadImage(dataUrl: string): Promise<HTMLImageElement> {
   });
 }
 
+type ExportBorderConfig = { exportBorderEnabled?: boolean; exportBorderColor?: string; exportBorderWidth?: number };
+
 /**
- * Export canvas to PNG blob at specified scale
+ * Composite visible layers (and the export border) onto a new canvas at the specified scale
  */
-export async function exportCanvasToPNG(
-  layers: any[],
+async function renderExportCanvas(
+  layers: Layer[],
   width: number,
   height: number,
-  scale: number = 1,
-  backgroundColor: string | null = null,
-  canvasConfig?: { exportBorderEnabled?: boolean; exportBorderColor?: string; exportBorderWidth?: number }
-): Promise<Blob> {
+  scale: number,
+  backgroundColor: string | null,
+  canvasConfig?: ExportBorderConfig
+): Promise<HTMLCanvasElement> {
   const exportCanvas = document.createElement('canvas');
   exportCanvas.width = width * scale;
   exportCanvas.height = height * scale;
@@ -226,8 +329,10 @@ export async function exportCanvasToPNG(
     try {
       const img = await loadImage(layer.imageData);
       ctx.globalAlpha = layer.opacity ?? 1;
+      ctx.globalCompositeOperation = getCompositeOperation(layer.blendMode);
       ctx.drawImage(img, layer.x, layer.y);
       ctx.globalAlpha = 1;
+      ctx.globalCompositeOperation = 'source-over';
     } catch (error) {
       console.warn(`Failed to export layer ${layer.name}:`, error);
     }
@@ -243,6 +348,22 @@ export async function exportCanvasToPNG(
     ctx.strokeRect(half, half, width - bw, height - bw);
   }
 
+  return exportCanvas;
+}
+
+/**
+ * Export canvas to PNG blob at specified scale
+ */
+export async function exportCanvasToPNG(
+  layers: any[],
+  width: number,
+  height: number,
+  scale: number = 1,
+  backgroundColor: string | null = null,
+  canvasConfig?: ExportBorderConfig
+): Promise<Blob> {
+  const exportCanvas = await renderExportCanvas(layers, width, height, scale, backgroundColor, canvasConfig);
+
   return new Promise((resolve) => {
     exportCanvas.toBlob((blob) => {
       if (!blob) {
@@ -252,3 +373,23 @@ export async function exportCanvasToPNG(
     }, 'image/png');
   });
 }
+
+/**
+ * Export canvas pixels at specified scale, exactly as exportCanvasToPNG would write them
+ * Used by exporters that encode the image themselves (e.g. indexed PNG)
+ */
+export async function exportCanvasPixels(
+  layers: Layer[],
+  width: number,
+  height: number,
+  scale: number = 1,
+  backgroundColor: string | null = null,
+  canvasConfig?: ExportBorderConfig
+): Promise<ImageData> {
+  const exportCanvas = await renderExportCanvas(layers, width, height, scale, backgroundColor, canvasConfig);
+  const ctx = exportCanvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  return ctx.getImageData(0, 0, exportCanvas.width, exportCanvas.height);
+}
@@ -3,6 +3,9 @@
  * Allows saving/loading multiple projects in the browser
  */
 
+import { BlendMode } from '../types/compositor.types';
+import { getCompositeOperation } from './canvasRenderer';
+
 const DB_NAME = 'pixelconnect_projects';
 const DB_VERSION = 1;
 const STORE_NAME = 'projects';
@@ -114,7 +117,7 @@ export async function renameProjectLocal(id: string, newName: string): Promise<v
 
 /** Generate a small thumbnail from project layers */
 export function generateThumbnail(
-  layers: { imageData: string; x: number; y: number; width: number; height: number; visible: boolean; opacity: number; zIndex: number }[],
+  layers: { imageData: string; x: number; y: number; width: number; height: number; visible: boolean; opacity: number; zIndex: number; blendMode?: BlendMode }[],
   canvasWidth: number,
   canvasHeight: number,
   maxSize: number = 128,
@@ -145,9 +148,11 @@ export function generateThumbnail(
             const li = new Image();
             li.src = l.imageData;
             ctx.globalAlpha = l.opacity;
+            ctx.globalCompositeOperation = getCompositeOperation(l.blendMode);
             ctx.drawImage(li, l.x, l.y, l.width, l.height);
           });
           ctx.globalAlpha = 1;
+          ctx.globalCompositeOperation = 'source-over';
           resolve(canvas.toDataURL('image/png'));
         }
       };
@@ -0,0 +1,562 @@
+/**
+ * Adaptive palette extraction
+ * Reduces a set of pixels to N representative colors for the pixelator's
+ * "No Coloring" mode. Every algorithm can work in RGB or OKLab; everything
+ * except plain k-means is deterministic (k-means++ uses a seeded generator).
+ */
+
+import { RGB, oklabToRgb, rgbToOklab } from './colorMatching';
+
+export type QuantizeAlgorithm = 'kmeans' | 'kmeans++' | 'median-cut' | 'octree' | 'wu';
+export type QuantizeColorSpace = 'rgb' | 'oklab';
+
+export interface QuantizeOptions {
+  algorithm: QuantizeAlgorithm;
+  colorSpace: QuantizeColorSpace;
+  seed: number; // k-means++ only
+}
+
+export const QUANTIZE_ALGORITHMS: { value: QuantizeAlgorithm; label: string; desc: string }[] = [
+  { value: 'kmeans', label: 'K-Means (random)', desc: 'Random starting colors; results change from run to run' },
+  { value: 'kmeans++', label: 'K-Means++ (seeded)', desc: 'Spread-out starting colors from a seed; same seed, same palette' },
+  { value: 'median-cut', label: 'Median Cut', desc: 'Splits the longest side of the color box at the median; fast' },
+  { value: 'octree', label: 'Octree', desc: 'Merges the least used branches of a color tree; fastest, may give fewer colors' },
+  { value: 'wu', label: "Wu's Quantizer", desc: 'Splits boxes to minimize variance; fast and usually the most accurate' },
+];
+
+export const DEFAULT_QUANTIZE_SEED = 1;
+
+// Iteration cap for both k-means variants
+const KMEANS_MAX_ITERATIONS = 20;
+
+// OKLab is scaled by 255 (a and b shifted by 0.5) so both spaces use 0-255 axes
+// with the same scale on every axis, keeping distances proportional to ΔE
+function toWorking(c: RGB, colorSpace: QuantizeColorSpace): number[] {
+  if (colorSpace === 'rgb') return [c.r, c.g, c.b];
+  const lab = rgbToOklab(c);
+  return [lab.L * 255, (lab.a + 0.5) * 255, (lab.b + 0.5) * 255];
+}
+
+function fromWorking(p: ArrayLike<number>, colorSpace: QuantizeColorSpace): RGB {
+  if (colorSpace === 'oklab') return oklabToRgb({ L: p[0] / 255, a: p[1] / 255 - 0.5, b: p[2] / 255 - 0.5 });
+  const clamp = (v: number) => Math.max(0, Math.min(255, Math.round(v)));
+  return { r: clamp(p[0]), g: clamp(p[1]), b: clamp(p[2]) };
+}
+
+/** Unique colors in working space, weighted by how many pixels have them */
+interface WeightedPoints {
+  coords: Float64Array; // x, y, z per point
+  weights: Float64Array;
+  length: number;
+}
+
+function collectPoints(pixels: number[][], colorSpace: QuantizeColorSpace): WeightedPoints {
+  const counts = new Map<number, number>();
+  for (const [r, g, b] of pixels) {
+    const key = (r << 16) | (g << 8) | b;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  const coords = new Float64Array(counts.size * 3);
+  const weights = new Float64Array(counts.size);
+  let i = 0;
+  counts.forEach((count, key) => {
+    const p = toWorking({ r: (key >> 16) & 255, g: (key >> 8) & 255, b: key & 255 }, colorSpace);
+    coords[i * 3] = p[0];
+    coords[i * 3 + 1] = p[1];
+    coords[i * 3 + 2] = p[2];
+    weights[i] = count;
+    i++;
+  });
+  return { coords, weights, length: counts.size };
+}
+
+function weightedMean(points: WeightedPoints, indices: number[]): number[] {
+  let w = 0, x = 0, y = 0, z = 0;
+  for (const i of indices) {
+    const pw = points.weights[i];
+    w += pw;
+    x += points.coords[i * 3] * pw;
+    y += points.coords[i * 3 + 1] * pw;
+    z += points.coords[i * 3 + 2] * pw;
+  }
+  return [x / w, y / w, z / w];
+}
+
+// --- K-Means (random init) ---
+
+/**
+ * Plain k-means with random starting centroids
+ * Also used by the pixelator's color suggestions
+ */
+export function kmeans(data: number[][], k: number, maxIterations = KMEANS_MAX_ITERATIONS): { centroids: number[][], assignments: number[] } {
+  if (k > data.length) {
+    k = data.length;
+  }
+  if (k === 0) {
+    return { centroids: [], assignments: [] };
+  }
+
+  let centroids: number[][] = [];
+  const tempData = [...data];
+  for (let i = 0; i < k; i++) {
+    const index = Math.floor(Math.random() * tempData.length);
+    centroids.push(tempData.splice(index, 1)[0]);
+  }
+
+  const assignments = new Array(data.length);
+
+  for (let iter = 0; iter < maxIterations; iter++) {
+    for (let i = 0; i < data.length; i++) {
+      let minDist = Infinity;
+      let bestCentroid = -1;
+      for (let j = 0; j < k; j++) {
+        const dist = (data[i][0] - centroids[j][0]) ** 2 + (data[i][1] - centroids[j][1]) ** 2 + (data[i][2] - centroids[j][2]) ** 2;
+        if (dist < minDist) { minDist = dist; bestCentroid = j; }
+      }
+      assignments[i] = bestCentroid;
+    }
+
+    const newCentroids = Array.from({ length: k }, () => [0, 0, 0]);
+    const counts = new Array(k).fill(0);
+    for (let i = 0; i < data.length; i++) {
+      const cIndex = assignments[i];
+      newCentroids[cIndex][0] += data[i][0];
+      newCentroids[cIndex][1] += data[i][1];
+      newCentroids[cIndex][2] += data[i][2];
+      counts[cIndex]++;
+    }
+
+    for (let i = 0; i < k; i++) {
+      if (counts[i] > 0) {
+        newCentroids[i][0] /= counts[i];
+        newCentroids[i][1] /= counts[i];
+        newCentroids[i][2] /= counts[i];
+      } else {
+        newCentroids[i] = data[Math.floor(Math.random() * data.length)];
+      }
+    }
+
+    let changed = false;
+    for (let i = 0; i < k; i++) {
+      if (centroids[i][0] !== newCentroids[i][0] || centroids[i][1] !== newCentroids[i][1] || centroids[i][2] !== newCentroids[i][2]) {
+        changed = true; break;
+      }
+    }
+    centroids = newCentroids;
+    if (!changed) break;
+  }
+
+  return { centroids, assignments };
+}
+
+// --- K-Means++ (seeded) ---
+
+/** Small deterministic PRNG (mulberry32), returns values in [0, 1) */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sqDistTo(points: WeightedPoints, i: number, center: ArrayLike<number>): number {
+  const dx = points.coords[i * 3] - center[0];
+  const dy = points.coords[i * 3 + 1] - center[1];
+  const dz = points.coords[i * 3 + 2] - center[2];
+  return dx * dx + dy * dy + dz * dz;
+}
+
+function kmeansPlusPlus(points: WeightedPoints, k: number, seed: number): number[][] {
+  const random = seededRandom(seed);
+  const n = points.length;
+  const centers: number[][] = [];
+  const pointAt = (i: number) => [points.coords[i * 3], points.coords[i * 3 + 1], points.coords[i * 3 + 2]];
+
+  // Pick index i with probability weights[i] / total
+  const pick = (weights: Float64Array, total: number) => {
+    let r = random() * total;
+    for (let i = 0; i < n; i++) {
+      r -= weights[i];
+      if (r < 0) return i;
+    }
+    return n - 1;
+  };
+
+  // Seeding: first center by pixel count, the rest by count × squared distance to the nearest center
+  let total = 0;
+  for (let i = 0; i < n; i++) total += points.weights[i];
+  centers.push(pointAt(pick(points.weights, total)));
+  const nearest = new Float64Array(n);
+  const score = new Float64Array(n);
+  for (let i = 0; i < n; i++) nearest[i] = sqDistTo(points, i, centers[0]);
+  while (centers.length < k) {
+    let scoreTotal = 0;
+    for (let i = 0; i < n; i++) {
+      score[i] = points.weights[i] * nearest[i];
+      scoreTotal += score[i];
+    }
+    if (scoreTotal === 0) break; // Every color is already a center
+    const center = pointAt(pick(score, scoreTotal));
+    centers.push(center);
+    for (let i = 0; i < n; i++) nearest[i] = Math.min(nearest[i], sqDistTo(points, i, center));
+  }
+
+  // Lloyd iterations, weighted by pixel count; empty clusters keep their center
+  const assignments = new Int32Array(n).fill(-1);
+  for (let iter = 0; iter < KMEANS_MAX_ITERATIONS; iter++) {
+    let changed = false;
+    for (let i = 0; i < n; i++) {
+      let best = 0;
+      let bestDist = Infinity;
+      for (let j = 0; j < centers.length; j++) {
+        const dist = sqDistTo(points, i, centers[j]);
+        if (dist < bestDist) { bestDist = dist; best = j; }
+      }
+      if (assignments[i] !== best) { assignments[i] = best; changed = true; }
+    }
+    if (!changed) break;
+
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    for (let i = 0; i < n; i++) {
+      const s = sums[assignments[i]];
+      const w = points.weights[i];
+      s[0] += points.coords[i * 3] * w;
+      s[1] += points.coords[i * 3 + 1] * w;
+      s[2] += points.coords[i * 3 + 2] * w;
+      s[3] += w;
+    }
+    sums.forEach((s, j) => {
+      if (s[3] > 0) centers[j] = [s[0] / s[3], s[1] / s[3], s[2] / s[3]];
+    });
+  }
+
+  return centers;
+}
+
+// --- Median Cut ---
+
+interface ColorBox {
+  indices: number[];
+  axis: number; // Longest side
+  range: number;
+}
+
+function makeBox(points: WeightedPoints, indices: number[]): ColorBox {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (const i of indices) {
+    for (let a = 0; a < 3; a++) {
+      const v = points.coords[i * 3 + a];
+      if (v < min[a]) min[a] = v;
+      if (v > max[a]) max[a] = v;
+    }
+  }
+  let axis = 0;
+  for (let a = 1; a < 3; a++) {
+    if (max[a] - min[a] > max[axis] - min[axis]) axis = a;
+  }
+  return { indices, axis, range: max[axis] - min[axis] };
+}
+
+function medianCut(points: WeightedPoints, k: number): number[][] {
+  const boxes = [makeBox(points, Array.from({ length: points.length }, (_, i) => i))];
+
+  while (boxes.length < k) {
+    // Split the box with the longest side (ties: the earliest box)
+    let best = -1;
+    for (let b = 0; b < boxes.length; b++) {
+      if (boxes[b].indices.length < 2 || boxes[b].range === 0) continue;
+      if (best === -1 || boxes[b].range > boxes[best].range) best = b;
+    }
+    if (best === -1) break;
+
+    const { indices, axis } = boxes[best];
+    const sorted = [...indices].sort((a, b) => points.coords[a * 3 + axis] - points.coords[b * 3 + axis]);
+    let total = 0;
+    for (const i of sorted) total += points.weights[i];
+
+    // Cut at the weighted median, keeping at least one color on each side
+    let acc = 0;
+    let cut = 1;
+    for (let j = 0; j < sorted.length; j++) {
+      acc += points.weights[sorted[j]];
+      if (acc >= total / 2) { cut = j + 1; break; }
+    }
+    cut = Math.max(1, Math.min(sorted.length - 1, cut));
+
+    boxes.splice(best, 1, makeBox(points, sorted.slice(0, cut)), makeBox(points, sorted.slice(cut)));
+  }
+
+  return boxes.map((box) => weightedMean(points, box.indices));
+}
+
+// --- Octree ---
+
+const OCTREE_DEPTH = 8;
+
+interface OctreeNode {
+  children: (OctreeNode | null)[] | null; // null once the node is a leaf
+  weight: number;
+  sum: number[];
+}
+
+function octree(points: WeightedPoints, k: number): number[][] {
+  const newNode = (): OctreeNode => ({ children: null, weight: 0, sum: [0, 0, 0] });
+  const root = newNode();
+  // Internal nodes by depth, in insertion order
+  const levels: OctreeNode[][] = Array.from({ length: OCTREE_DEPTH }, () => []);
+  levels[0].push(root);
+  let leafCount = 0;
+
+  for (let i = 0; i < points.length; i++) {
+    const c = [0, 1, 2].map((a) => Math.max(0, Math.min(255, Math.round(points.coords[i * 3 + a]))));
+    let node = root;
+    for (let depth = 0; depth < OCTREE_DEPTH; depth++) {
+      const shift = 7 - depth;
+      const idx = (((c[0] >> shift) & 1) << 2) | (((c[1] >> shift) & 1) << 1) | ((c[2] >> shift) & 1);
+      if (!node.children) node.children = new Array(8).fill(null);
+      let child = node.children[idx];
+      if (!child) {
+        child = newNode();
+        node.children[idx] = child;
+        if (depth + 1 === OCTREE_DEPTH) leafCount++;
+        else levels[depth + 1].push(child);
+      }
+      node = child;
+    }
+    const w = points.weights[i];
+    node.weight += w;
+    node.sum[0] += points.coords[i * 3] * w;
+    node.sum[1] += points.coords[i * 3 + 1] * w;
+    node.sum[2] += points.coords[i * 3 + 2] * w;
+  }
+
+  // Fold the deepest nodes into their parents, least used first, until k leaves remain.
+  // Children of the deepest unreduced level are always leaves.
+  for (let depth = OCTREE_DEPTH - 1; depth >= 0 && leafCount > k; depth--) {
+    const candidates = levels[depth].map((node) => {
+      const kids = (node.children ?? []).filter((child): child is OctreeNode => child !== null);
+      return { node, kids, weight: kids.reduce((s, child) => s + child.weight, 0) };
+    });
+    candidates.sort((a, b) => a.weight - b.weight);
+    for (const { node, kids, weight } of candidates) {
+      if (leafCount <= k) break;
+      node.weight = weight;
+      for (const child of kids) {
+        node.sum[0] += child.sum[0];
+        node.sum[1] += child.sum[1];
+        node.sum[2] += child.sum[2];
+      }
+      node.children = null;
+      leafCount -= kids.length - 1;
+    }
+  }
+
+  const colors: number[][] = [];
+  const collect = (node: OctreeNode) => {
+    if (!node.children) {
+      if (node.weight > 0) colors.push(node.sum.map((v) => v / node.weight));
+      return;
+    }
+    for (const child of node.children) if (child) collect(child);
+  };
+  collect(root);
+  return colors;
+}
+
+// --- Wu's Quantizer ---
+// Xiaolin Wu, "Efficient Statistical Computations for Optimal Color Quantization" (Graphics Gems II)
+
+const WU_SIZE = 33; // 32 bins per axis plus a zero row for the cumulative moments
+
+interface WuBox { r0: number; r1: number; g0: number; g1: number; b0: number; b1: number; vol: number; }
+
+const wuIndex = (r: number, g: number, b: number) => (r * WU_SIZE + g) * WU_SIZE + b;
+
+function wuVolume(box: WuBox, m: Float64Array): number {
+  return m[wuIndex(box.r1, box.g1, box.b1)] - m[wuIndex(box.r1, box.g1, box.b0)]
+    - m[wuIndex(box.r1, box.g0, box.b1)] + m[wuIndex(box.r1, box.g0, box.b0)]
+    - m[wuIndex(box.r0, box.g1, box.b1)] + m[wuIndex(box.r0, box.g1, box.b0)]
+    + m[wuIndex(box.r0, box.g0, box.b1)] - m[wuIndex(box.r0, box.g0, box.b0)];
+}
+
+// Part of the volume that depends on the box's lower bound along an axis
+function wuBottom(box: WuBox, axis: number, m: Float64Array): number {
+  if (axis === 0) {
+    return -m[wuIndex(box.r0, box.g1, box.b1)] + m[wuIndex(box.r0, box.g1, box.b0)]
+      + m[wuIndex(box.r0, box.g0, box.b1)] - m[wuIndex(box.r0, box.g0, box.b0)];
+  }
+  if (axis === 1) {
+    return -m[wuIndex(box.r1, box.g0, box.b1)] + m[wuIndex(box.r1, box.g0, box.b0)]
+      + m[wuIndex(box.r0, box.g0, box.b1)] - m[wuIndex(box.r0, box.g0, box.b0)];
+  }
+  return -m[wuIndex(box.r1, box.g1, box.b0)] + m[wuIndex(box.r1, box.g0, box.b0)]
+    + m[wuIndex(box.r0, box.g1, box.b0)] - m[wuIndex(box.r0, box.g0, box.b0)];
+}
+
+// Part of the volume that depends on the box's upper bound, with that bound at pos
+function wuTop(box: WuBox, axis: number, pos: number, m: Float64Array): number {
+  if (axis === 0) {
+    return m[wuIndex(pos, box.g1, box.b1)] - m[wuIndex(pos, box.g1, box.b0)]
+      - m[wuIndex(pos, box.g0, box.b1)] + m[wuIndex(pos, box.g0, box.b0)];
+  }
+  if (axis === 1) {
+    return m[wuIndex(box.r1, pos, box.b1)] - m[wuIndex(box.r1, pos, box.b0)]
+      - m[wuIndex(box.r0, pos, box.b1)] + m[wuIndex(box.r0, pos, box.b0)];
+  }
+  return m[wuIndex(box.r1, box.g1, pos)] - m[wuIndex(box.r1, box.g0, pos)]
+    - m[wuIndex(box.r0, box.g1, pos)] + m[wuIndex(box.r0, box.g0, pos)];
+}
+
+function wu(points: WeightedPoints, k: number): number[][] {
+  const cells = WU_SIZE * WU_SIZE * WU_SIZE;
+  const wt = new Float64Array(cells);
+  const mx = new Float64Array(cells);
+  const my = new Float64Array(cells);
+  const mz = new Float64Array(cells);
+  const m2 = new Float64Array(cells);
+
+  // Histogram with 5 bits per axis; moments keep the exact coordinates
+  for (let i = 0; i < points.length; i++) {
+    const x = points.coords[i * 3], y = points.coords[i * 3 + 1], z = points.coords[i * 3 + 2];
+    const bin = (v: number) => (Math.max(0, Math.min(255, Math.round(v))) >> 3) + 1;
+    const idx = wuIndex(bin(x), bin(y), bin(z));
+    const w = points.weights[i];
+    wt[idx] += w;
+    mx[idx] += w * x;
+    my[idx] += w * y;
+    mz[idx] += w * z;
+    m2[idx] += w * (x * x + y * y + z * z);
+  }
+
+  // Cumulative moments, so any box's totals take 8 lookups
+  for (const m of [wt, mx, my, mz, m2]) {
+    for (let r = 1; r < WU_SIZE; r++) {
+      const area = new Float64Array(WU_SIZE);
+      for (let g = 1; g < WU_SIZE; g++) {
+        let line = 0;
+        for (let b = 1; b < WU_SIZE; b++) {
+          line += m[wuIndex(r, g, b)];
+          area[b] += line;
+          m[wuIndex(r, g, b)] = m[wuIndex(r - 1, g, b)] + area[b];
+        }
+      }
+    }
+  }
+
+  const variance = (box: WuBox) => {
+    const w = wuVolume(box, wt);
+    if (w === 0) return 0;
+    const dx = wuVolume(box, mx), dy = wuVolume(box, my), dz = wuVolume(box, mz);
+    return wuVolume(box, m2) - (dx * dx + dy * dy + dz * dz) / w;
+  };
+
+  // Best cut along an axis: maximizes the summed squared means of both halves
+  const maximize = (box: WuBox, axis: number, first: number, last: number, whole: number[]) => {
+    const base = [mx, my, mz, wt].map((m) => wuBottom(box, axis, m));
+    let max = 0;
+    let cut = -1;
+    for (let pos = first; pos < last; pos++) {
+      const half = [mx, my, mz, wt].map((m, j) => base[j] + wuTop(box, axis, pos, m));
+      if (half[3] === 0) continue;
+      let temp = (half[0] ** 2 + half[1] ** 2 + half[2] ** 2) / half[3];
+      const rest = half.map((v, j) => whole[j] - v);
+      if (rest[3] === 0) continue;
+      temp += (rest[0] ** 2 + rest[1] ** 2 + rest[2] ** 2) / rest[3];
+      if (temp > max) { max = temp; cut = pos; }
+    }
+    return { max, cut };
+  };
+
+  const boxVolume = (box: WuBox) => (box.r1 - box.r0) * (box.g1 - box.g0) * (box.b1 - box.b0);
+
+  // Split box in two; returns the new half or null if it cannot be split
+  const split = (box: WuBox): WuBox | null => {
+    const whole = [mx, my, mz, wt].map((m) => wuVolume(box, m));
+    const cuts = [
+      maximize(box, 0, box.r0 + 1, box.r1, whole),
+      maximize(box, 1, box.g0 + 1, box.g1, whole),
+      maximize(box, 2, box.b0 + 1, box.b1, whole),
+    ];
+    let axis = 0;
+    if (cuts[1].max > cuts[axis].max) axis = 1;
+    if (cuts[2].max > cuts[axis].max) axis = 2;
+    const { cut } = cuts[axis];
+    if (cut < 0) return null;
+
+    const other: WuBox = { ...box };
+    if (axis === 0) { other.r0 = cut; box.r1 = cut; }
+    else if (axis === 1) { other.g0 = cut; box.g1 = cut; }
+    else { other.b0 = cut; box.b1 = cut; }
+    box.vol = boxVolume(box);
+    other.vol = boxVolume(other);
+    return other;
+  };
+
+  const boxes: WuBox[] = [{ r0: 0, r1: WU_SIZE - 1, g0: 0, g1: WU_SIZE - 1, b0: 0, b1: WU_SIZE - 1, vol: 0 }];
+  boxes[0].vol = boxVolume(boxes[0]);
+  const variances = [0];
+  let next = 0;
+  while (boxes.length < k) {
+    const other = split(boxes[next]);
+    if (other) {
+      variances[next] = boxes[next].vol > 1 ? variance(boxes[next]) : 0;
+      boxes.push(other);
+      variances.push(other.vol > 1 ? variance(other) : 0);
+    } else {
+      variances[next] = 0;
+    }
+    // Split the box with the largest variance next
+    next = 0;
+    for (let j = 1; j < boxes.length; j++) {
+      if (variances[j] > variances[next]) next = j;
+    }
+    if (variances[next] <= 0) break;
+  }
+
+  const colors: number[][] = [];
+  for (const box of boxes) {
+    const w = wuVolume(box, wt);
+    if (w > 0) colors.push([wuVolume(box, mx) / w, wuVolume(box, my) / w, wuVolume(box, mz) / w]);
+  }
+  return colors;
+}
+
+/**
+ * Reduce pixels ([r, g, b] each) to at most k distinct colors
+ * Fewer colors come back when the pixels have fewer, or when the algorithm
+ * finds nothing worth splitting (octree and Wu's can stop early)
+ */
+export function quantizeColors(pixels: number[][], k: number, options: QuantizeOptions): RGB[] {
+  if (k <= 0 || pixels.length === 0) return [];
+  const { algorithm, colorSpace } = options;
+
+  let centers: number[][];
+  if (algorithm === 'kmeans') {
+    const data = colorSpace === 'rgb' ? pixels : pixels.map(([r, g, b]) => toWorking({ r, g, b }, colorSpace));
+    centers = kmeans(data, Math.min(k, data.length)).centroids;
+  } else {
+    const points = collectPoints(pixels, colorSpace);
+    const n = Math.min(k, points.length);
+    centers = algorithm === 'kmeans++' ? kmeansPlusPlus(points, n, options.seed)
+      : algorithm === 'median-cut' ? medianCut(points, n)
+        : algorithm === 'octree' ? octree(points, n)
+          : wu(points, n);
+  }
+
+  // Rounding to sRGB can make two centers the same color
+  const seen = new Set<number>();
+  const colors: RGB[] = [];
+  for (const center of centers) {
+    const c = fromWorking(center, colorSpace);
+    const key = (c.r << 16) | (c.g << 8) | c.b;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    colors.push(c);
+  }
+  return colors;
+}
@@ -0,0 +1,161 @@
+/**
+ * Smart snapping utilities
+ * Snaps dragged layers to other layers' edges and centers, the canvas
+ * edges/center and guides, and describes the resulting alignment lines
+ * and gaps for the canvas overlay and drag tooltip
+ */
+
+import { DragSnap, Guide, Layer, SnapGap, SnapLine } from '../types/compositor.types';
+
+// Snap distance in screen pixels, converted to canvas pixels with the zoom
+export const SNAP_DISTANCE = 6;
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SnapTarget {
+  axis: 'x' | 'y'; // 'x' = vertical line at x = position
+  position: number;
+  label: string; // Shown in the drag tooltip, e.g. "canvas center"
+  bounds?: Bounds; // Box the position belongs to (layers and canvas); alignment lines and gaps are measured against it
+}
+
+/**
+ * Bounding box of several layers
+ */
+export function getLayersBounds(layers: Bounds[]): Bounds | null {
+  if (layers.length === 0) return null;
+  const left = Math.min(...layers.map((l) => Math.floor(l.x)));
+  const top = Math.min(...layers.map((l) => Math.floor(l.y)));
+  const right = Math.max(...layers.map((l) => Math.floor(l.x) + l.width));
+  const bottom = Math.max(...layers.map((l) => Math.floor(l.y) + l.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Start, center and end of a box along one axis
+ */
+function getEdges(bounds: Bounds, axis: 'x' | 'y'): number[] {
+  const start = axis === 'x' ? bounds.x : bounds.y;
+  const size = axis === 'x' ? bounds.width : bounds.height;
+  return [start, start + size / 2, start + size];
+}
+
+/**
+ * Edge and center targets of a box, labelled like "'cat.png' left edge"
+ */
+function getBoxTargets(bounds: Bounds, name: string): SnapTarget[] {
+  const names = {
+    x: ['left edge', 'center', 'right edge'],
+    y: ['top edge', 'middle', 'bottom edge'],
+  };
+  return (['x', 'y'] as const).flatMap((axis) =>
+    getEdges(bounds, axis).map((position, i) => ({ axis, position, label: `${name} ${names[axis][i]}`, bounds }))
+  );
+}
+
+/**
+ * Everything a drag can snap to
+ * @param layers - Visible layers that are not being dragged
+ * @param guides - Visible guides (pass none while rulers are hidden)
+ */
+export function getSnapTargets(
+  layers: Layer[],
+  canvas: { width: number; height: number },
+  guides: Guide[]
+): SnapTarget[] {
+  return [
+    ...getBoxTargets({ x: 0, y: 0, width: canvas.width, height: canvas.height }, 'canvas'),
+    ...layers.flatMap((layer) =>
+      getBoxTargets({ x: Math.floor(layer.x), y: Math.floor(layer.y), width: layer.width, height: layer.height }, `'${layer.name}'`)
+    ),
+    ...guides.map((guide) => ({ axis: guide.axis, position: guide.position, label: 'guide' })),
+  ];
+}
+
+/**
+ * Whole-pixel correction that moves the closest edge/center within the
+ * threshold onto a target
+ */
+function snapAxis(bounds: Bounds, axis: 'x' | 'y', targets: SnapTarget[], threshold: number): { correction: number; label: string | null } {
+  let best: { correction: number; label: string | null } = { correction: 0, label: null };
+  let bestDistance = threshold + 1;
+  for (const target of targets) {
+    if (target.axis !== axis) continue;
+    for (const edge of getEdges(bounds, axis)) {
+      const distance = Math.abs(target.position - edge);
+      if (distance <= threshold && distance < bestDistance) {
+        best = { correction: Math.round(target.position - edge), label: target.label };
+        bestDistance = distance;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Alignment lines and gaps between the snapped box and every box it lines up with
+ */
+function describeAlignment(bounds: Bounds, targets: SnapTarget[]): { lines: SnapLine[]; gaps: SnapGap[] } {
+  const lines = new Map<string, SnapLine>();
+  const gaps = new Map<string, SnapGap>();
+
+  for (const target of targets) {
+    const box = target.bounds;
+    if (!box || !getEdges(bounds, target.axis).some((edge) => Math.abs(edge - target.position) <= 0.5)) continue;
+
+    // The line runs across the snapped axis, through both boxes
+    const across = target.axis === 'x' ? 'y' : 'x';
+    const [start, , end] = getEdges(bounds, across);
+    const [boxStart, , boxEnd] = getEdges(box, across);
+
+    const key = `${target.axis}:${target.position}`;
+    const line = lines.get(key);
+    lines.set(key, {
+      axis: target.axis,
+      position: target.position,
+      start: Math.min(start, boxStart, line?.start ?? Infinity),
+      end: Math.max(end, boxEnd, line?.end ?? -Infinity),
+    });
+
+    // Distance between the two boxes along the line, when they don't overlap
+    const gap = boxEnd <= start ? { start: boxEnd, end: start } : end <= boxStart ? { start: end, end: boxStart } : null;
+    if (gap && gap.end > gap.start) {
+      gaps.set(`${key}:${gap.start}:${gap.end}`, { axis: across, ...gap, at: target.position });
+    }
+  }
+
+  return { lines: [...lines.values()], gaps: [...gaps.values()] };
+}
+
+/**
+ * Adjust a drag offset so the dragged box's edges or center land on nearby targets
+ * @param threshold - Max snap distance in canvas pixels
+ * @returns The snapped offset, and what it snapped to (null when nothing is close)
+ */
+export function snapDragOffset(
+  bounds: Bounds,
+  offsetX: number,
+  offsetY: number,
+  targets: SnapTarget[],
+  threshold: number
+): { x: number; y: number; snap: DragSnap | null } {
+  const moved = { ...bounds, x: bounds.x + offsetX, y: bounds.y + offsetY };
+  const snapX = snapAxis(moved, 'x', targets, threshold);
+  const snapY = snapAxis(moved, 'y', targets, threshold);
+  const x = offsetX + snapX.correction;
+  const y = offsetY + snapY.correction;
+  if (!snapX.label && !snapY.label) return { x, y, snap: null };
+
+  const snapped = { ...bounds, x: bounds.x + x, y: bounds.y + y };
+  const aligned = targets.filter((target) => (target.axis === 'x' ? snapX.label : snapY.label) !== null);
+  return {
+    x,
+    y,
+    snap: { x: snapX.label, y: snapY.label, ...describeAlignment(snapped, aligned) },
+  };
+}
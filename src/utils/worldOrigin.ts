@@ -0,0 +1,57 @@
+/**
+ * World coordinates
+ * GeoPixels and WPlace are pixel canvases anchored to a map. A project's
+ * optional world origin says which world pixel canvas pixel (0, 0) lands on;
+ * world pixels can also be written as a map tile plus an offset inside it.
+ */
+
+import { WorldOrigin } from '../types/compositor.types';
+
+// WPlace serves its canvas as 1000×1000 pixel tiles
+export const DEFAULT_TILE_SIZE = 1000;
+
+export interface TileCoordinates {
+  tileX: number;
+  tileY: number;
+  offsetX: number; // Pixel inside the tile, 0..tileSize-1
+  offsetY: number;
+}
+
+/**
+ * Convert a canvas pixel to world pixels (unchanged without an origin)
+ */
+export function canvasToWorld(origin: WorldOrigin | undefined, x: number, y: number): { x: number; y: number } {
+  return origin ? { x: x + origin.x, y: y + origin.y } : { x, y };
+}
+
+/**
+ * Split a world pixel into its tile and the offset inside it (negative pixels land in negative tiles)
+ */
+export function worldToTile(tileSize: number, x: number, y: number): TileCoordinates {
+  const tileX = Math.floor(x / tileSize);
+  const tileY = Math.floor(y / tileSize);
+  return { tileX, tileY, offsetX: x - tileX * tileSize, offsetY: y - tileY * tileSize };
+}
+
+/**
+ * World pixel of a tile plus an offset inside it
+ */
+export function tileToWorld(tileSize: number, tile: TileCoordinates): { x: number; y: number } {
+  return { x: tile.tileX * tileSize + tile.offsetX, y: tile.tileY * tileSize + tile.offsetY };
+}
+
+/**
+ * Format a world pixel as "tile (x, y) + (x, y)"
+ */
+export function formatTileCoordinates(tileSize: number, x: number, y: number): string {
+  const tile = worldToTile(tileSize, x, y);
+  return `tile (${tile.tileX}, ${tile.tileY}) + (${tile.offsetX}, ${tile.offsetY})`;
+}
+
+/**
+ * Keep the artwork at the same world position when the layers shift by dx/dy
+ * inside the canvas (canvas crop, trim and anchored resize)
+ */
+export function offsetWorldOrigin(origin: WorldOrigin | undefined, dx: number, dy: number): WorldOrigin | undefined {
+  return origin && { ...origin, x: origin.x - dx, y: origin.y - dy };
+}
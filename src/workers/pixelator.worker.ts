@@ -1,22 +1,11 @@
 // src/workers/pixelator.worker.ts
 
-const GEOPIXELS_PALETTE = [
-  "#FFFFFF","#F4F59F","#FFCA3A","#FF9F1C","#FF595E","#E71D36","#F3BBC2","#FF85A1","#BD637D","#CDB4DB","#6A4C93","#4D194D","#A8D0DC","#2EC4B6","#1A535C","#6D9DCD","#1982C4","#A1C181","#8AC926","#A0A0A0","#6B4226","#505050","#CFD078","#145A7A","#8B1D24","#C07F7A","#C49A6C","#5B7B1C","#000000"
-];
-
-const WPLACE_PALETTE = [
-  "#000000","#3C3C3C","#787878","#AAAAAA","#D2D2D2","#FFFFFF","#600018","#A50E1E","#ED1C24","#FA8072","#E45C1A","#FF7F27","#F6AA09","#F9DD3B","#FFFABC","#9C8431","#C5AD31","#E8D45F","#4A6B3A","#5A944A","#84C573","#0EB968","#13E67B","#87FF5E","#0C816E","#10AEA6","#13E1BE","#0F799F","#60F7F2","#BBFAF2","#28509E","#4093E4","#7DC7FF","#4D31B8","#6B50F6","#99B1FB","#4A4284","#7A71C4","#B5AEF1","#780C99","#AA38B9","#E09FF9","#CB007A","#EC1F80","#F38DA9","#9B5249","#D18078","#FAB6A4","#684634","#95682A","#DBA463","#7B6352","#9C846B","#D6B594","#D18051","#F8B277","#FFC5A5","#6D643F","#948C6B","#CDC59E","#333941","#6D758D","#B3B9D1"
-];
-
-const WPLACE_FREE_PALETTE = [
-  "#000000","#3C3C3C","#787878","#D2D2D2","#FFFFFF","#600018","#ED1C24","#FF7F27","#F6AA09","#F9DD3B","#FFFABC","#0EB968","#13E67B","#87FF5E","#0C816E","#10AEA6","#13E1BE","#60F7F2","#28509E","#4093E4","#6B50F6","#99B1FB","#780C99","#AA38B9","#E09FF9","#CB007A","#EC1F80","#F38DA9","#684634","#95682A","#F8B277"
-];
+import { OKLabColor, RGB, deltaE_OKLab, rgbToOklab } from '../utils/colorMatching';
+import { DEFAULT_QUANTIZE_SEED, kmeans, quantizeColors } from '../utils/quantize';
 
 type ColorMatchAlgorithm = 'oklab' | 'ciede2000' | 'cie94' | 'cie76' | 'redmean';
 
-interface RGB { r: number; g: number; b: number; }
 interface LAB { l: number; a: number; b: number; }
-interface OKLabColor { L: number; a: number; b: number; }
 
 // --- Color Conversion & Distance ---
 
@@ -67,34 +56,6 @@ function rgbToLab(c: RGB): LAB {
   return xyzToLab(rgbToXyz(c));
 }
 
-// --- OKLab Color Space ---
-
-function rgbToOklab(c: RGB): OKLabColor {
-  // sRGB → linear sRGB
-  let r = c.r / 255;
-  let g = c.g / 255;
-  let b = c.b / 255;
-  r = r >= 0.04045 ? Math.pow((r + 0.055) / 1.055, 2.4) : r / 12.92;
-  g = g >= 0.04045 ? Math.pow((g + 0.055) / 1.055, 2.4) : g / 12.92;
-  b = b >= 0.04045 ? Math.pow((b + 0.055) / 1.055, 2.4) : b / 12.92;
-
-  // linear sRGB → LMS (using Oklab M1 matrix)
-  const l_ = 0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b;
-  const m_ = 0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b;
-  const s_ = 0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b;
-
-  // LMS → LMS^(1/3)
-  const l3 = Math.cbrt(l_);
-  const m3 = Math.cbrt(m_);
-  const s3 = Math.cbrt(s_);
-
-  // LMS^(1/3) → OKLab
-  return {
-    L: 0.2104542553 * l3 + 0.7936177850 * m3 - 0.0040720468 * s3,
-    a: 1.9779984951 * l3 - 2.4285922050 * m3 + 0.4505937099 * s3,
-    b: 0.0259040371 * l3 + 0.7827717662 * m3 - 0.8086757660 * s3,
-  };
-}
 
 // --- Color Distance Functions ---
 
@@ -194,14 +155,6 @@ function deltaE_CIEDE2000(labA: LAB, labB: LAB): number {
   return Math.sqrt(tL * tL + tC * tC + tH * tH + RT * tC * tH);
 }
 
-/** OKLab: Euclidean distance in OKLab space (modern perceptual) */
-function deltaE_OKLab(a: OKLabColor, b: OKLabColor): number {
-  const dL = a.L - b.L;
-  const da = a.a - b.a;
-  const db = a.b - b.b;
-  // Scale by 100 to make values comparable to CIELAB ΔE range
-  return Math.sqrt(dL * dL + da * da + db * db) * 100;
-}
 
 // Alias for backward compat
 const getDeltaE = deltaE_CIE76;
@@ -528,6 +481,7 @@ function findClosestColor(
   algorithm: ColorMatchAlgorithm,
   preserveDetailThreshold: number,
   cache?: Map<number, FindClosestResult>,
+  remaining?: Float64Array | null,
 ): FindClosestResult {
     // Round to integers for cache key (handles float RGB from error diffusion)
     const ri = Math.max(0, Math.min(255, Math.round(pixel.r)));
@@ -537,7 +491,8 @@ function findClosestColor(
 
     if (cache) {
       const cached = cache.get(cacheKey);
-      if (cached) {
+      // Budgets only shrink, so a cached color that is still available is still the best one
+      if (cached && (!remaining || remaining[cached.index] > 0)) {
         // For preserve detail, cached result already accounts for it
         return cached;
       }
@@ -553,11 +508,13 @@ function findClosestColor(
     if (algorithm === 'oklab') {
       const pixelOk = rgbToOklab(matchPixel);
       for (let i = 0; i < palette.length; i++) {
+        if (remaining && remaining[i] <= 0) continue;
         const dist = deltaE_OKLab(pixelOk, paletteOklab![i]);
         if (dist < minDist) { minDist = dist; closest = palette[i]; closestIndex = i; }
       }
     } else if (algorithm === 'redmean') {
       for (let i = 0; i < palette.length; i++) {
+        if (remaining && remaining[i] <= 0) continue;
         const dist = deltaE_Redmean(matchPixel, palette[i]);
         if (dist < minDist) { minDist = dist; closest = palette[i]; closestIndex = i; }
       }
@@ -567,11 +524,17 @@ function findClosestColor(
                    : algorithm === 'cie94'     ? deltaE_CIE94
                    :                             deltaE_CIE76;
       for (let i = 0; i < palette.length; i++) {
+        if (remaining && remaining[i] <= 0) continue;
         const dist = distFn(pixelLab, paletteLab[i]);
         if (dist < minDist) { minDist = dist; closest = palette[i]; closestIndex = i; }
       }
     }
 
+    // Every color is used up: go over budget with the closest one (the cache may hold a spilled color)
+    if (minDist === Infinity && remaining) {
+      return findClosestColor(pixel, palette, paletteLab, paletteOklab, algorithm, preserveDetailThreshold);
+    }
+
     let result: FindClosestResult;
 
     // Preserve detail: if the closest palette color is within the threshold,
@@ -598,6 +561,7 @@ function applyDithering(
   preserveDetailThreshold: number = 0,
   serpentine: boolean = true,
   gammaCorrect: boolean = false,
+  colorBudgets: Record<string, number> | null = null,
 ) {
     const pixels = imageData.data;
     const width = imageData.width;
@@ -610,6 +574,23 @@ function applyDithering(
     // Color cache: avoids recomputing expensive distance functions for identical RGB values
     const colorCache = new Map<number, FindClosestResult>();
 
+    // Limited inventory: pixels left per palette color; once one runs out, pixels
+    // spill to the next-best color (in scan order, so dithering can compensate)
+    let remaining: Float64Array | null = null;
+    if (colorBudgets && Object.keys(colorBudgets).length > 0) {
+        const left = new Float64Array(paletteHex.length).fill(Infinity);
+        paletteHex.forEach((hex, i) => {
+            const limit = colorBudgets[hex.toUpperCase()];
+            if (typeof limit === 'number' && limit >= 0) left[i] = limit;
+        });
+        remaining = left;
+    }
+    const closest = (pixel: RGB) => {
+        const result = findClosestColor(pixel, paletteRGB, paletteLab, paletteOklab, colorMatchAlgorithm, preserveDetailThreshold, colorCache, remaining);
+        if (remaining) remaining[result.index]--;
+        return result;
+    };
+
     const strengthFactor = strength / 100;
 
     if (algorithm === 'blue-noise') {
@@ -627,7 +608,7 @@ function applyDithering(
                     g: Math.max(0, Math.min(255, pixels[index + 1] + nudge)),
                     b: Math.max(0, Math.min(255, pixels[index + 2] + nudge)),
                 };
-                const { color: newColor } = findClosestColor(oldColor, paletteRGB, paletteLab, paletteOklab, colorMatchAlgorithm, preserveDetailThreshold, colorCache);
+                const { color: newColor } = closest(oldColor);
                 pixels[index] = newColor.r;
                 pixels[index + 1] = newColor.g;
                 pixels[index + 2] = newColor.b;
@@ -663,7 +644,7 @@ function applyDithering(
                     b: Math.max(0, Math.min(255, pixels[index + 2] + nudge))
                 };
 
-                const { color: newColor } = findClosestColor(oldColor, paletteRGB, paletteLab, paletteOklab, colorMatchAlgorithm, preserveDetailThreshold, colorCache);
+                const { color: newColor } = closest(oldColor);
 
                 pixels[index] = newColor.r;
                 pixels[index + 1] = newColor.g;
@@ -720,10 +701,7 @@ function applyDithering(
                     };
                 }
 
-                const { color: newColor, index: pIdx } = findClosestColor(
-                    matchPixel, paletteRGB, paletteLab, paletteOklab,
-                    colorMatchAlgorithm, preserveDetailThreshold, colorCache
-                );
+                const { color: newColor, index: pIdx } = closest(matchPixel);
 
                 pixels[index] = newColor.r;
                 pixels[index + 1] = newColor.g;
@@ -761,72 +739,6 @@ function applyDithering(
     }
 }
 
-// --- K-Means Clustering ---
-
-function kmeans(data: number[][], k: number, maxIterations = 20): Promise<{ centroids: number[][], assignments: number[] }> {
-    return new Promise(resolve => {
-        if (k > data.length) {
-            k = data.length;
-        }
-        if (k === 0) {
-            resolve({ centroids: [], assignments: [] });
-            return;
-        }
-
-        let centroids: number[][] = [];
-        const tempData = [...data];
-        for (let i = 0; i < k; i++) {
-            const index = Math.floor(Math.random() * tempData.length);
-            centroids.push(tempData.splice(index, 1)[0]);
-        }
-
-        let assignments = new Array(data.length);
-
-        for (let iter = 0; iter < maxIterations; iter++) {
-            for (let i = 0; i < data.length; i++) {
-                let min_dist = Infinity;
-                let best_centroid = -1;
-                for (let j = 0; j < k; j++) {
-                    const dist = (data[i][0] - centroids[j][0]) ** 2 + (data[i][1] - centroids[j][1]) ** 2 + (data[i][2] - centroids[j][2]) ** 2;
-                    if (dist < min_dist) { min_dist = dist; best_centroid = j; }
-                }
-                assignments[i] = best_centroid;
-            }
-
-            const newCentroids = Array.from({ length: k }, () => [0, 0, 0]);
-            const counts = new Array(k).fill(0);
-            for (let i = 0; i < data.length; i++) {
-                const cIndex = assignments[i];
-                newCentroids[cIndex][0] += data[i][0];
-                newCentroids[cIndex][1] += data[i][1];
-                newCentroids[cIndex][2] += data[i][2];
-                counts[cIndex]++;
-            }
-
-            for (let i = 0; i < k; i++) {
-                if (counts[i] > 0) {
-                    newCentroids[i][0] /= counts[i];
-                    newCentroids[i][1] /= counts[i];
-                    newCentroids[i][2] /= counts[i];
-                } else {
-                    newCentroids[i] = data[Math.floor(Math.random() * data.length)];
-                }
-            }
-
-            let changed = false;
-            for (let i = 0; i < k; i++) {
-                if (centroids[i][0] !== newCentroids[i][0] || centroids[i][1] !== newCentroids[i][1] || centroids[i][2] !== newCentroids[i][2]) {
-                    changed = true; break;
-                }
-            }
-            centroids = newCentroids;
-            if (!changed) break;
-        }
-
-        resolve({ centroids, assignments });
-    });
-}
-
 function rgbToHex(rgb: { r: number; g: number; b: number }): string {
     const toHex = (c: number) => {
         const hex = Math.round(c).toString(16);
@@ -888,7 +800,7 @@ async function suggestMissingColors(
         k = Math.min(256, pixelArray.length);
     }
     
-    const kmeansResult = await kmeans(pixelArray, k);
+    const kmeansResult = kmeans(pixelArray, k);
     const centroids = kmeansResult.centroids;
     const assignments = kmeansResult.assignments;
     
@@ -1799,6 +1711,7 @@ function applyOutlineConsistency(
     imageData: ImageData,
     paletteHex: string[],
     colorCount: number,
+    budgets: Map<number, number> | null = null,
 ): void {
     const w = imageData.width;
     const h = imageData.height;
@@ -1874,24 +1787,71 @@ function applyOutlineConsistency(
 
     const allowedOklab = ranked.map(i => paletteOklab[i]);
     const allowedRGB   = ranked.map(i => paletteRGB[i]);
+    const allowedKeys  = allowedRGB.map(c => (c.r << 16) | (c.g << 8) | c.b);
 
-    // Step 5: snap each outline pixel to its nearest allowed color (OKLab).
+    // Step 5: snap each outline pixel to its nearest allowed color (OKLab),
+    // skipping limited colors that have no pixels left.
     for (let i = 0; i < total; i++) {
         if (!isOutline[i]) continue;
         const o = i * 4;
+        const current = (data[o] << 16) | (data[o + 1] << 8) | data[o + 2];
         const pixOk = rgbToOklab({ r: data[o], g: data[o + 1], b: data[o + 2] });
-        let best = 0, bestD = Infinity;
+        let best = -1, bestD = Infinity;
         for (let c = 0; c < allowedOklab.length; c++) {
+            if (budgets && allowedKeys[c] !== current && (budgets.get(allowedKeys[c]) ?? Infinity) < 1) continue;
             const ao = allowedOklab[c];
             const dL = pixOk.L - ao.L, da = pixOk.a - ao.a, db = pixOk.b - ao.b;
             const d = dL * dL + da * da + db * db;
             if (d < bestD) { bestD = d; best = c; }
         }
+        if (best < 0) continue;
+        spendBudget(budgets, current, allowedKeys[best], 1);
         const col = allowedRGB[best];
         data[o] = col.r; data[o + 1] = col.g; data[o + 2] = col.b;
     }
 }
 
+// --- Color budgets for the cleanup passes ---
+
+/**
+ * Pixels each limited palette color may still take after dithering, keyed by
+ * packed RGB (unlimited colors are absent), so outline consistency and
+ * cluster cleanup can't push a color past its budget
+ */
+function getRemainingBudgets(imageData: ImageData, paletteHex: string[], colorBudgets: Record<string, number>): Map<number, number> {
+    const remaining = new Map<number, number>();
+    for (const hex of paletteHex) {
+        const limit = colorBudgets[hex.toUpperCase()];
+        if (typeof limit !== 'number' || limit < 0) continue;
+        const c = hexToRgb(hex);
+        remaining.set((c.r << 16) | (c.g << 8) | c.b, limit);
+    }
+    const data = imageData.data;
+    for (let o = 0; o < data.length; o += 4) {
+        if (data[o + 3] < 128) continue;
+        const key = (data[o] << 16) | (data[o + 1] << 8) | data[o + 2];
+        const left = remaining.get(key);
+        if (left !== undefined) remaining.set(key, left - 1);
+    }
+    return remaining;
+}
+
+/**
+ * Move `count` pixels from one color to another within the budgets
+ * @returns false (changing nothing) when `to` has fewer than `count` pixels left
+ */
+function spendBudget(budgets: Map<number, number> | null, from: number, to: number, count: number): boolean {
+    if (!budgets || from === to) return true;
+    const left = budgets.get(to);
+    if (left !== undefined) {
+        if (left < count) return false;
+        budgets.set(to, left - count);
+    }
+    const freed = budgets.get(from);
+    if (freed !== undefined) budgets.set(from, freed + count);
+    return true;
+}
+
 // --- Cluster Cleanup (post-quantization) ---
 
 /**
@@ -1899,7 +1859,7 @@ function applyOutlineConsistency(
  * repaints them with the dominant neighboring color.
  * Runs on the already-quantized (palette-reduced) image.
  */
-function applyClusterCleanup(imageData: ImageData, minSize: number): void {
+function applyClusterCleanup(imageData: ImageData, minSize: number, budgets: Map<number, number> | null = null): void {
     if (minSize <= 1) return;
     const w = imageData.width;
     const h = imageData.height;
@@ -1963,10 +1923,11 @@ function applyClusterCleanup(imageData: ImageData, minSize: number): void {
         }
         if (neighborFreq.size === 0) continue;
 
-        let bestColor = compColor[l], bestCount = 0;
-        for (const [c, count] of neighborFreq) {
-            if (count > bestCount) { bestCount = count; bestColor = c; }
-        }
+        // Most frequent neighbor color that still has budget for the whole region
+        const candidates = [...neighborFreq].sort((a, b) => b[1] - a[1]);
+        const best = candidates.find(([c]) => spendBudget(budgets, compColor[l], c, pixels.length));
+        if (!best) continue;
+        const bestColor = best[0];
 
         for (const p of pixels) {
             const o = p * 4;
@@ -1994,7 +1955,7 @@ self.onmessage = async (e: MessageEvent) => {
         return;
     }
 
-    const { targetWidth, targetHeight, ditherMethod, ditherStrength, palette, resamplingMethod, useKmeans, kmeansColors, brightness, contrast, saturation, vibrance, preprocessBilateral, preprocessBilateralStrength, preprocessEdgeDetect, preprocessSharpening, preprocessSharpeningStrength, filterTrivialColors, trivialThreshold, trivialThresholdMode, colorMatchAlgorithm: rawAlgo, preserveDetailThreshold: rawPDT, pixeloeThickness, pixeloePatchSize, edgeDetectBlur, edgeDetectAlgorithm, samplingMask, samplingMaskWidth, samplingMaskHeight, serpentineDither, gammaCorrectDither, outlineConsistency, outlineColors, clusterCleanup, clusterMinSize } = settings;
+    const { targetWidth, targetHeight, ditherMethod, ditherStrength, palette, resamplingMethod, useKmeans, kmeansColors, brightness, contrast, saturation, vibrance, preprocessBilateral, preprocessBilateralStrength, preprocessEdgeDetect, preprocessSharpening, preprocessSharpeningStrength, filterTrivialColors, trivialThreshold, trivialThresholdMode, colorMatchAlgorithm: rawAlgo, preserveDetailThreshold: rawPDT, pixeloeThickness, pixeloePatchSize, edgeDetectBlur, edgeDetectAlgorithm, samplingMask, samplingMaskWidth, samplingMaskHeight, serpentineDither, gammaCorrectDither, outlineConsistency, outlineColors, clusterCleanup, clusterMinSize, colorBudgets, quantizeAlgorithm, quantizeColorSpace, quantizeSeed } = settings;
     const colorMatchAlgorithm: ColorMatchAlgorithm = rawAlgo || 'oklab';
     const preserveDetailThreshold: number = rawPDT || 0;
 
@@ -2085,15 +2046,16 @@ self.onmessage = async (e: MessageEvent) => {
             }
         }
 
-        // 2. K-Means
+        // 2. Adaptive palette (k-means, median cut, octree or Wu's)
         let generatedPalette: string[] | undefined;
+        let quantizeError: number | undefined;
         if (useKmeans && kmeansColors > 0) {
            const pixels = resizedImageData.data;
            const resW = resizedImageData.width;
            const resH = resizedImageData.height;
            const hasMask = samplingMask && samplingMask.length > 0 && samplingMaskWidth && samplingMaskHeight;
            
-           // Collect pixels for K-Means (optionally filtered by sampling mask)
+           // Collect pixels to quantize (optionally filtered by sampling mask)
            const pixelArray: number[][] = [];
            for (let i = 0; i < pixels.length; i += 4) {
                 if (pixels[i + 3] > 128) {
@@ -2111,30 +2073,36 @@ self.onmessage = async (e: MessageEvent) => {
            }
 
             if (pixelArray.length > 0) {
-                const kmeansResult = await kmeans(pixelArray, Math.min(kmeansColors, pixelArray.length));
-                const paletteRGB = kmeansResult.centroids.map(c => ({
-                    r: Math.round(c[0]),
-                    g: Math.round(c[1]),
-                    b: Math.round(c[2])
-                }));
+                const paletteRGB = quantizeColors(pixelArray, kmeansColors, {
+                    algorithm: quantizeAlgorithm || 'kmeans',
+                    colorSpace: quantizeColorSpace || 'rgb',
+                    seed: quantizeSeed ?? DEFAULT_QUANTIZE_SEED,
+                });
                 
                 generatedPalette = paletteRGB.map(c => 
                     "#" + ((1 << 24) + (c.r << 16) + (c.g << 8) + c.b).toString(16).slice(1).toUpperCase()
                 );
 
                 const paletteLab = paletteRGB.map(rgbToLab);
-                const paletteOk = colorMatchAlgorithm === 'oklab' ? paletteRGB.map(rgbToOklab) : null;
+                const paletteOkAll = paletteRGB.map(rgbToOklab);
+                const paletteOk = colorMatchAlgorithm === 'oklab' ? paletteOkAll : null;
                 const kmeansCache = new Map<number, FindClosestResult>();
+                // Mean OKLab ΔE between each pixel and its palette color, for comparing algorithms
+                let errorSum = 0;
+                let mapped = 0;
 
                 for (let i = 0; i < pixels.length; i += 4) {
                     if (pixels[i + 3] > 128) {
                         const pixelColor = { r: pixels[i], g: pixels[i + 1], b: pixels[i + 2] };
-                        const { color: closestColor } = findClosestColor(pixelColor, paletteRGB, paletteLab, paletteOk, colorMatchAlgorithm, 0, kmeansCache);
+                        const { color: closestColor, index } = findClosestColor(pixelColor, paletteRGB, paletteLab, paletteOk, colorMatchAlgorithm, 0, kmeansCache);
+                        errorSum += deltaE_OKLab(rgbToOklab(pixelColor), paletteOkAll[index]);
+                        mapped++;
                         pixels[i] = closestColor.r;
                         pixels[i + 1] = closestColor.g;
                         pixels[i + 2] = closestColor.b;
                     }
                 }
+                quantizeError = mapped > 0 ? errorSum / mapped : 0;
             }
         }
 
@@ -2145,24 +2113,30 @@ self.onmessage = async (e: MessageEvent) => {
                 colorMatchAlgorithm, preserveDetailThreshold,
                 serpentineDither !== false, // default true
                 !!gammaCorrectDither,
+                colorBudgets || null,
             );
         }
 
+        // Limited inventory: the cleanup passes only repaint within what dithering left of each budget
+        const budgets = colorBudgets && Object.keys(colorBudgets).length > 0 && effectivePalette && effectivePalette.length > 0
+            ? getRemainingBudgets(resizedImageData, effectivePalette, colorBudgets)
+            : null;
+
         // 4. Outline color consistency
         if (
             outlineConsistency &&
             effectivePalette && effectivePalette.length > 0 &&
             outlineColors && outlineColors > 0
         ) {
-            applyOutlineConsistency(resizedImageData, effectivePalette, outlineColors | 0);
+            applyOutlineConsistency(resizedImageData, effectivePalette, outlineColors | 0, budgets);
         }
 
         // 5. Cluster Cleanup — remove small isolated color regions
         if (clusterCleanup && clusterMinSize && clusterMinSize > 1) {
-            applyClusterCleanup(resizedImageData, clusterMinSize);
+            applyClusterCleanup(resizedImageData, clusterMinSize, budgets);
         }
 
-        self.postMessage({ type: 'success', imageData: resizedImageData, generatedPalette });
+        self.postMessage({ type: 'success', imageData: resizedImageData, generatedPalette, quantizeError });
 
     } catch (error: any) {
         self.postMessage({ type: 'error', message: error.message });